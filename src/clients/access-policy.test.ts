@@ -0,0 +1,159 @@
+import Database from 'better-sqlite3';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { ToolUsageError } from '../common/errors.js';
+import { register_tools } from '../tools/handler.js';
+import {
+	assert_database_writable,
+	is_read_only_database,
+	write_tools_enabled,
+} from './access-policy.js';
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import {
+	execute_query,
+	execute_select_query,
+} from './query-executor.js';
+
+type ToolHandler = (
+	input: Record<string, unknown>,
+) => Promise<{ content: Array<{ text: string }>; isError?: boolean }>;
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+mkdirSync(join(root, 'snapshots', 'nested'), { recursive: true });
+mkdirSync(join(root, 'scratch'), { recursive: true });
+
+// Configuration is loaded lazily, so the policy applies to this file only
+process.env['SQLITE_READ_ONLY'] = 'true';
+process.env['SQLITE_WRITABLE_PATHS'] = join(root, 'scratch', '*.db');
+process.env['SQLITE_READ_ONLY_PATHS'] = join(
+	root,
+	'scratch',
+	'locked.db',
+);
+
+function seed_db(path: string) {
+	const db = new Database(path);
+	db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT)');
+	db.exec("INSERT INTO items (name) VALUES ('snapshot')");
+	db.close();
+	return path;
+}
+
+function tool_handlers() {
+	const handlers = new Map<string, ToolHandler>();
+	const server = {
+		tool(definition: { name: string }, handler: ToolHandler) {
+			handlers.set(definition.name, handler);
+		},
+		changed() {},
+	};
+	register_tools(server as never);
+	return handlers;
+}
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('access policy', () => {
+	it('resolves read-only rules before writable rules', () => {
+		expect(
+			is_read_only_database(
+				join(root, 'snapshots', 'nested', 'a.db'),
+			),
+		).toBe(true);
+		expect(is_read_only_database(join(root, 'scratch', 'a.db'))).toBe(
+			false,
+		);
+		expect(
+			is_read_only_database(join(root, 'scratch', 'locked.db')),
+		).toBe(true);
+		expect(
+			is_read_only_database(join(root, 'scratch', 'sub', 'a.db')),
+		).toBe(true);
+		expect(write_tools_enabled()).toBe(true);
+		expect(() =>
+			assert_database_writable(
+				join(root, 'scratch', 'locked.db'),
+				'execute_write_query',
+			),
+		).toThrow(ToolUsageError);
+	});
+
+	it('applies rules to the file a symlink points at', () => {
+		const snapshot = seed_db(join(root, 'snapshots', 'linked.db'));
+		const link = join(root, 'scratch', 'link.db');
+		symlinkSync(snapshot, link);
+		symlinkSync(
+			join(root, 'scratch', 'locked.db'),
+			join(root, 'scratch', 'alias.db'),
+		);
+
+		expect(is_read_only_database(link)).toBe(true);
+		expect(
+			is_read_only_database(join(root, 'scratch', 'alias.db')),
+		).toBe(true);
+		expect(open_database(link).readonly).toBe(true);
+		expect(() =>
+			execute_query(link, "INSERT INTO items (name) VALUES ('x')"),
+		).toThrow(/read-only/);
+	});
+
+	it('opens read-only databases with the readonly flag', () => {
+		const snapshot = seed_db(join(root, 'snapshots', 'prod.db'));
+
+		expect(open_database(snapshot).readonly).toBe(true);
+		expect(
+			execute_select_query(snapshot, 'SELECT name FROM items').rows,
+		).toEqual([{ name: 'snapshot' }]);
+		expect(() =>
+			execute_query(
+				snapshot,
+				"INSERT INTO items (name) VALUES ('x')",
+			),
+		).toThrow(/read-only/);
+		expect(() =>
+			open_database(join(root, 'snapshots', 'new.db'), true),
+		).toThrow(ToolUsageError);
+
+		const scratch = join(root, 'scratch', 'work.db');
+		expect(open_database(scratch, true).readonly).toBe(false);
+	});
+
+	it('rejects write tools against read-only databases', async () => {
+		const handlers = tool_handlers();
+		const snapshot = seed_db(join(root, 'snapshots', 'tools.db'));
+
+		const response = await handlers.get('execute_write_query')!({
+			query: "DELETE FROM items WHERE name = 'snapshot'",
+			database_name: snapshot,
+		});
+		expect(response.isError).toBe(true);
+		const error = JSON.parse(response.content[0]!.text);
+		expect(error).toMatchObject({ error_type: 'tool_usage_error' });
+		expect(error.message).toContain(
+			'read-only by server access policy',
+		);
+		expect(error.suggestions.length).toBeGreaterThan(0);
+
+		const transaction = await handlers.get('begin_transaction')!({
+			database_name: snapshot,
+		});
+		expect(transaction.isError).toBe(true);
+
+		const read = await handlers.get('execute_read_query')!({
+			query: 'SELECT COUNT(*) AS count FROM items',
+			database_name: snapshot,
+		});
+		expect(read.isError).toBeUndefined();
+	});
+});
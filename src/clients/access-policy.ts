@@ -0,0 +1,155 @@
+/**
+ * Read-only access policy for the SQLite Tools MCP server
+ */
+import { isAbsolute, join, resolve, sep } from 'node:path';
+import { ToolUsageError } from '../common/errors.js';
+import { is_within_directory, real_path } from '../common/paths.js';
+import { debug_log, get_config } from '../config.js';
+
+export interface DatabaseRoot {
+	path: string;
+	read_only: boolean;
+}
+
+/**
+ * Get the allowed root directories for database files. Without
+ * SQLITE_ROOTS the default path is the only, writable, root.
+ */
+export function get_database_roots(): DatabaseRoot[] {
+	const config = get_config();
+	return config.SQLITE_ROOTS?.length
+		? config.SQLITE_ROOTS
+		: [{ path: config.SQLITE_DEFAULT_PATH, read_only: false }];
+}
+
+/**
+ * Find the root directory containing a path, resolving symlinks. Of
+ * nested roots the deepest wins, so a `:ro` root inside a `:rw` one keeps
+ * its permission whatever the order they are listed in.
+ */
+export function find_database_root(
+	resolved_path: string,
+): DatabaseRoot | undefined {
+	let found: DatabaseRoot | undefined;
+	let found_depth = -1;
+	for (const root of get_database_roots()) {
+		if (!is_within_directory(root.path, resolved_path)) continue;
+		const depth = real_path(root.path).split(sep).length;
+		if (depth > found_depth) {
+			found = root;
+			found_depth = depth;
+		}
+	}
+	return found;
+}
+
+/**
+ * Convert a path glob (`*`, `**`, `?`) to an anchored regular expression
+ */
+function glob_to_regexp(pattern: string): RegExp {
+	const separator = sep === '\\' ? '\\\\' : '/';
+	let source = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i]!;
+		if (char === '*' && pattern[i + 1] === '*') {
+			source += '.*';
+			i++;
+		} else if (char === '*') {
+			source += `[^${separator}]*`;
+		} else if (char === '?') {
+			source += `[^${separator}]`;
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolve symlinks in the directories of a path glob up to its first
+ * wildcard, so it matches real paths
+ */
+function real_pattern(pattern: string): string {
+	const wildcard = pattern.search(/[*?]/);
+	if (wildcard === -1) return real_path(pattern);
+	const directory_end = pattern.lastIndexOf(sep, wildcard);
+	return join(
+		real_path(pattern.slice(0, directory_end) || sep),
+		pattern.slice(directory_end),
+	);
+}
+
+/**
+ * Check whether a real path matches any configured path rule. Relative
+ * rules are resolved against the default database directory.
+ */
+function matches_rule(path: string, rules: string[]): boolean {
+	const config = get_config();
+	return rules.some((rule) => {
+		const pattern = isAbsolute(rule)
+			? rule
+			: resolve(config.SQLITE_DEFAULT_PATH, rule);
+		return glob_to_regexp(real_pattern(pattern)).test(path);
+	});
+}
+
+/**
+ * Check whether a database must be opened read-only. Read-only rules and
+ * read-only roots win over writable rules, which in turn override
+ * SQLITE_READ_ONLY. Rules apply to the path with symlinks resolved, so a
+ * link cannot make a read-only file writable.
+ */
+export function is_read_only_database(
+	resolved_path: string,
+): boolean {
+	const config = get_config();
+	const path = real_path(resolved_path);
+	if (matches_rule(path, config.SQLITE_READ_ONLY_PATHS ?? [])) {
+		return true;
+	}
+	if (find_database_root(path)?.read_only) {
+		return true;
+	}
+	if (matches_rule(path, config.SQLITE_WRITABLE_PATHS ?? [])) {
+		return false;
+	}
+	return config.SQLITE_READ_ONLY ?? false;
+}
+
+/**
+ * Whether any database can be written. When the whole server or every root
+ * is read-only, write tools are hidden from the tool list.
+ */
+export function write_tools_enabled(): boolean {
+	const config = get_config();
+	if (get_database_roots().every((root) => root.read_only)) {
+		return false;
+	}
+	return (
+		!config.SQLITE_READ_ONLY ||
+		(config.SQLITE_WRITABLE_PATHS?.length ?? 0) > 0
+	);
+}
+
+/**
+ * Reject a modifying tool call against a read-only database
+ */
+export function assert_database_writable(
+	resolved_path: string,
+	tool: string,
+): void {
+	if (!is_read_only_database(resolved_path)) return;
+
+	debug_log('Rejected write to read-only database:', {
+		path: resolved_path,
+		tool,
+	});
+	throw new ToolUsageError(
+		`${tool} is not allowed: database '${resolved_path}' is read-only by server access policy`,
+		[
+			'Use execute_read_query, export_schema or export_csv to read data',
+			'Use backup_database to copy the database, then open the copy in a writable location',
+			'Ask the server operator to add the path to SQLITE_WRITABLE_PATHS, unset SQLITE_READ_ONLY, or mark its root :rw in SQLITE_ROOTS',
+		],
+	);
+}
@@ -0,0 +1,173 @@
+import {
+	appendFileSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import {
+	AuditEntry,
+	record_audit_entry,
+	redact_for_audit,
+	search_audit_log,
+} from './audit-log.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+const log_path = join(root, 'logs', 'audit.jsonl');
+
+// Configuration is loaded lazily, so the audit log applies to this file
+process.env['SQLITE_AUDIT_LOG'] = log_path;
+process.env['SQLITE_AUDIT_REDACT'] = 'password, token';
+
+function entry(
+	overrides: Partial<Omit<AuditEntry, 'id'>>,
+): Omit<AuditEntry, 'id'> {
+	return {
+		timestamp: '2026-01-01T00:00:00.000Z',
+		session: null,
+		tool: 'execute_read_query',
+		database: '/data/app.db',
+		sql: 'SELECT 1',
+		params: null,
+		arguments: {},
+		redacted: false,
+		success: true,
+		error_code: null,
+		error: null,
+		rows_affected: null,
+		row_count: 1,
+		duration_ms: 1,
+		...overrides,
+	};
+}
+
+afterAll(() => {
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('audit log', () => {
+	it('redacts sensitive parameters and shortens long values', () => {
+		const changed = { value: false };
+		expect(
+			redact_for_audit(
+				{ name: 'ada', user_password: 'hunter2', API_TOKEN: 'abc' },
+				['password', 'token'],
+				changed,
+			),
+		).toEqual({
+			name: 'ada',
+			user_password: '[REDACTED]',
+			API_TOKEN: '[REDACTED]',
+		});
+		expect(changed.value).toBe(true);
+
+		expect(redact_for_audit({ 1: 'a', 2: 2 }, ['*'])).toEqual({
+			1: '[REDACTED]',
+			2: '[REDACTED]',
+		});
+
+		const shortened = { value: false };
+		const logged = redact_for_audit(
+			{ rows: Array.from({ length: 150 }, () => 'x'.repeat(2000)) },
+			[],
+			shortened,
+		) as { rows: string[] };
+		expect(logged.rows).toHaveLength(101);
+		expect(logged.rows[0]).toContain('[truncated, 2000 chars total]');
+		expect(logged.rows[100]).toBe('[50 more items]');
+		expect(shortened.value).toBe(true);
+	});
+
+	it('appends JSON lines and searches them, most recent first', async () => {
+		record_audit_entry(entry({ sql: 'SELECT * FROM users' }));
+		record_audit_entry(
+			entry({
+				timestamp: '2026-01-02T00:00:00.000Z',
+				tool: 'execute_write_query',
+				sql: 'DELETE FROM users WHERE id = ?',
+				params: { 1: 7 },
+				rows_affected: 1,
+				row_count: null,
+			}),
+		);
+		record_audit_entry(
+			entry({
+				timestamp: '2026-01-03T00:00:00.000Z',
+				sql: 'SELECT * FROM missing',
+				success: false,
+				error_code: 'SQLITE_ERROR',
+				error: 'no such table: missing',
+			}),
+		);
+
+		const lines = readFileSync(log_path, 'utf8').trim().split('\n');
+		expect(lines).toHaveLength(3);
+
+		// The scan stops one match past the page, before the first line
+		const all = await search_audit_log({ limit: 1, offset: 0 });
+		expect(all).toMatchObject({ total: null, has_more: true });
+		expect(all.entries.map((found) => found.id)).toEqual([
+			lines[0]!.length + lines[1]!.length + 2,
+		]);
+		expect(
+			await search_audit_log({ limit: 2, offset: 1 }),
+		).toMatchObject({
+			entries: [{ id: lines[0]!.length + 1 }, { id: 0 }],
+			total: 3,
+			has_more: false,
+		});
+
+		expect(
+			(
+				await search_audit_log({
+					search: 'from USERS',
+					limit: 10,
+					offset: 0,
+				})
+			).entries.map((found) => found.tool),
+		).toEqual(['execute_write_query', 'execute_read_query']);
+		expect(
+			(
+				await search_audit_log({
+					success: false,
+					limit: 10,
+					offset: 0,
+				})
+			).entries[0],
+		).toMatchObject({ error_code: 'SQLITE_ERROR' });
+		expect(
+			(
+				await search_audit_log({
+					since: '2026-01-02T00:00:00.000Z',
+					until: '2026-01-02T23:59:59.999Z',
+					limit: 10,
+					offset: 0,
+				})
+			).entries,
+		).toEqual([
+			expect.objectContaining({ params: { 1: 7 }, rows_affected: 1 }),
+		]);
+	});
+
+	it('reads lines that span several chunks of a JSONL log', async () => {
+		const sql = `SELECT '${'é'.repeat(100_000)}'`;
+		appendFileSync(log_path, `${JSON.stringify(entry({ sql }))}\n`);
+		record_audit_entry(entry({ sql: 'SELECT 2' }));
+
+		const result = await search_audit_log({
+			search: 'select',
+			limit: 10,
+			offset: 0,
+		});
+		expect(result.entries.map((found) => found.sql)).toEqual([
+			'SELECT 2',
+			sql,
+			'SELECT * FROM missing',
+			'SELECT * FROM users',
+		]);
+		expect(result).toMatchObject({ total: 4, has_more: false });
+	});
+});
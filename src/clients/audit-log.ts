@@ -0,0 +1,357 @@
+/**
+ * Persistent audit log of tool calls for SQLite Tools MCP server
+ */
+import Database from 'better-sqlite3';
+import { appendFileSync, existsSync, mkdirSync } from 'node:fs';
+import { open } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { truncate_cell } from '../common/output-budget.js';
+import { json_replacer } from '../common/value-codec.js';
+import { debug_log, get_config } from '../config.js';
+
+// Bytes read at a time when scanning a JSONL log from its end
+const JSONL_CHUNK_BYTES = 64 * 1024;
+
+// Longest string value and array kept in logged arguments
+const MAX_LOGGED_VALUE_LENGTH = 1000;
+const MAX_LOGGED_ARRAY_ITEMS = 100;
+
+const REDACTED = '[REDACTED]';
+
+export interface AuditEntry {
+	// Byte offset of the line in a JSONL log, rowid in an SQLite one
+	id: number;
+	timestamp: string;
+	session: string | null;
+	tool: string;
+	database: string | null;
+	sql: string | null;
+	params: unknown;
+	// The other tool arguments
+	arguments: Record<string, unknown>;
+	// Whether params or arguments were redacted or shortened for the log
+	redacted: boolean;
+	success: boolean;
+	error_code: string | null;
+	error: string | null;
+	rows_affected: number | null;
+	row_count: number | null;
+	duration_ms: number;
+}
+
+export interface AuditSearch {
+	tool?: string;
+	database?: string;
+	// Case-insensitive substring of the SQL
+	search?: string;
+	// ISO 8601 timestamps, inclusive
+	since?: string;
+	until?: string;
+	success?: boolean;
+	limit: number;
+	offset: number;
+}
+
+// SQLite audit database, opened on first use
+let audit_db: Database.Database | null = null;
+
+export function audit_log_enabled(): boolean {
+	return !!get_config().SQLITE_AUDIT_LOG;
+}
+
+/**
+ * Path and format of the audit log, or null when it is disabled
+ */
+export function get_audit_log_info(): {
+	path: string;
+	format: 'jsonl' | 'sqlite';
+} | null {
+	const config = get_config();
+	if (!config.SQLITE_AUDIT_LOG) return null;
+	return {
+		path: config.SQLITE_AUDIT_LOG,
+		format: config.SQLITE_AUDIT_FORMAT ?? 'jsonl',
+	};
+}
+
+/**
+ * Prepare a tool argument for the log: values under keys matching a
+ * redaction pattern (any key for `*`) are replaced, and long strings
+ * and arrays shortened. Sets `changed.value` when anything was.
+ */
+export function redact_for_audit(
+	value: unknown,
+	patterns: string[],
+	changed: { value: boolean } = { value: false },
+	key?: string,
+): unknown {
+	if (
+		key !== undefined &&
+		patterns.some(
+			(pattern) =>
+				pattern === '*' || key.toLowerCase().includes(pattern),
+		)
+	) {
+		changed.value = true;
+		return REDACTED;
+	}
+	if (Array.isArray(value)) {
+		const items = value
+			.slice(0, MAX_LOGGED_ARRAY_ITEMS)
+			.map((item) => redact_for_audit(item, patterns, changed));
+		if (value.length > MAX_LOGGED_ARRAY_ITEMS) {
+			changed.value = true;
+			items.push(
+				`[${value.length - MAX_LOGGED_ARRAY_ITEMS} more items]`,
+			);
+		}
+		return items;
+	}
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(
+			Object.entries(value).map(([entry_key, entry_value]) => [
+				entry_key,
+				redact_for_audit(entry_value, patterns, changed, entry_key),
+			]),
+		);
+	}
+	const cell = truncate_cell(value, MAX_LOGGED_VALUE_LENGTH);
+	if (cell.truncated) changed.value = true;
+	return cell.value;
+}
+
+function get_audit_db(path: string): Database.Database {
+	if (!audit_db) {
+		mkdirSync(dirname(path), { recursive: true });
+		audit_db = new Database(path);
+		audit_db.pragma('journal_mode = WAL');
+		audit_db.exec(`
+			CREATE TABLE IF NOT EXISTS audit_log (
+				id INTEGER PRIMARY KEY,
+				timestamp TEXT NOT NULL,
+				session TEXT,
+				tool TEXT NOT NULL,
+				database TEXT,
+				sql TEXT,
+				params TEXT,
+				arguments TEXT NOT NULL,
+				redacted INTEGER NOT NULL,
+				success INTEGER NOT NULL,
+				error_code TEXT,
+				error TEXT,
+				rows_affected INTEGER,
+				row_count INTEGER,
+				duration_ms INTEGER NOT NULL
+			);
+			CREATE INDEX IF NOT EXISTS audit_log_timestamp
+				ON audit_log (timestamp);
+			CREATE INDEX IF NOT EXISTS audit_log_tool ON audit_log (tool);
+		`);
+	}
+	return audit_db;
+}
+
+/**
+ * Append an entry to the audit log. Failures are reported on stderr
+ * rather than thrown, so auditing never breaks the tool call itself.
+ */
+export function record_audit_entry(
+	entry: Omit<AuditEntry, 'id'>,
+): void {
+	const info = get_audit_log_info();
+	if (!info) return;
+
+	try {
+		if (info.format === 'jsonl') {
+			mkdirSync(dirname(info.path), { recursive: true });
+			appendFileSync(
+				info.path,
+				`${JSON.stringify(entry, json_replacer)}\n`,
+			);
+			return;
+		}
+
+		get_audit_db(info.path)
+			.prepare(
+				`INSERT INTO audit_log (timestamp, session, tool, database, sql,
+					params, arguments, redacted, success, error_code, error,
+					rows_affected, row_count, duration_ms)
+				VALUES (@timestamp, @session, @tool, @database, @sql, @params,
+					@arguments, @redacted, @success, @error_code, @error,
+					@rows_affected, @row_count, @duration_ms)`,
+			)
+			.run({
+				...entry,
+				params:
+					entry.params === null
+						? null
+						: JSON.stringify(entry.params, json_replacer),
+				arguments: JSON.stringify(entry.arguments, json_replacer),
+				redacted: entry.redacted ? 1 : 0,
+				success: entry.success ? 1 : 0,
+			});
+	} catch (error) {
+		console.error(
+			`Failed to write audit log entry to ${info.path}:`,
+			error,
+		);
+	}
+}
+
+function matches(entry: AuditEntry, search: AuditSearch): boolean {
+	return (
+		(search.tool === undefined || entry.tool === search.tool) &&
+		(search.database === undefined ||
+			entry.database === search.database) &&
+		(search.search === undefined ||
+			(entry.sql ?? '')
+				.toLowerCase()
+				.includes(search.search.toLowerCase())) &&
+		(search.since === undefined || entry.timestamp >= search.since) &&
+		(search.until === undefined || entry.timestamp <= search.until) &&
+		(search.success === undefined || entry.success === search.success)
+	);
+}
+
+/**
+ * Lines of a file with the byte offset each starts at, last line first
+ */
+async function* read_lines_backward(
+	path: string,
+): AsyncGenerator<{ offset: number; line: string }> {
+	const file = await open(path, 'r');
+	try {
+		let position = (await file.stat()).size;
+		// Bytes of the line that continues into the chunk read next
+		let tail = Buffer.alloc(0);
+		while (position > 0) {
+			const length = Math.min(JSONL_CHUNK_BYTES, position);
+			position -= length;
+			const chunk = Buffer.alloc(length);
+			await file.read(chunk, 0, length, position);
+			tail = Buffer.concat([chunk, tail]);
+
+			// Newlines are single bytes in UTF-8, so splitting on them
+			// never cuts a character
+			let end = tail.length;
+			for (let index = end - 1; index >= 0; index--) {
+				if (tail[index] !== 0x0a) continue;
+				yield {
+					offset: position + index + 1,
+					line: tail.toString('utf8', index + 1, end),
+				};
+				end = index;
+			}
+			tail = tail.subarray(0, end);
+		}
+		if (tail.length) yield { offset: 0, line: tail.toString('utf8') };
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Find audit log entries, most recent first. A JSONL log is read from
+ * its end and only as far as the requested page, so `total` is null
+ * when the scan stopped before the start of the file.
+ */
+export async function search_audit_log(search: AuditSearch): Promise<{
+	entries: AuditEntry[];
+	total: number | null;
+	has_more: boolean;
+}> {
+	const info = get_audit_log_info();
+	if (!info || !existsSync(info.path))
+		return { entries: [], total: 0, has_more: false };
+	debug_log('Searching audit log:', { ...info, search });
+
+	if (info.format === 'jsonl') {
+		const entries: AuditEntry[] = [];
+		let found = 0;
+		for await (const { offset, line } of read_lines_backward(
+			info.path,
+		)) {
+			if (!line.trim()) continue;
+			const entry = {
+				id: offset,
+				...(JSON.parse(line) as Omit<AuditEntry, 'id'>),
+			};
+			if (!matches(entry, search)) continue;
+			// One match past the page shows there is more
+			if (found === search.offset + search.limit)
+				return { entries, total: null, has_more: true };
+			if (found >= search.offset) entries.push(entry);
+			found++;
+		}
+		return { entries, total: found, has_more: false };
+	}
+
+	const conditions: string[] = [];
+	const values: Record<string, unknown> = {};
+	if (search.tool !== undefined) {
+		conditions.push('tool = @tool');
+		values['tool'] = search.tool;
+	}
+	if (search.database !== undefined) {
+		conditions.push('database = @database');
+		values['database'] = search.database;
+	}
+	if (search.search !== undefined) {
+		conditions.push(
+			"instr(lower(coalesce(sql, '')), lower(@search)) > 0",
+		);
+		values['search'] = search.search;
+	}
+	if (search.since !== undefined) {
+		conditions.push('timestamp >= @since');
+		values['since'] = search.since;
+	}
+	if (search.until !== undefined) {
+		conditions.push('timestamp <= @until');
+		values['until'] = search.until;
+	}
+	if (search.success !== undefined) {
+		conditions.push('success = @success');
+		values['success'] = search.success ? 1 : 0;
+	}
+	const where = conditions.length
+		? `WHERE ${conditions.join(' AND ')}`
+		: '';
+
+	const db = get_audit_db(info.path);
+	const { total } = db
+		.prepare(`SELECT COUNT(*) AS total FROM audit_log ${where}`)
+		.get(values) as { total: number };
+	const rows = db
+		.prepare(
+			`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT @limit OFFSET @offset`,
+		)
+		.all({
+			...values,
+			limit: search.limit,
+			offset: search.offset,
+		}) as Record<string, any>[];
+
+	return {
+		entries: rows.map((row) => ({
+			...(row as AuditEntry),
+			params:
+				row['params'] === null ? null : JSON.parse(row['params']),
+			arguments: JSON.parse(row['arguments']),
+			redacted: row['redacted'] === 1,
+			success: row['success'] === 1,
+		})),
+		total,
+		has_more: search.offset + rows.length < total,
+	};
+}
+
+/**
+ * Close the SQLite audit database, if it was opened
+ */
+export function close_audit_log(): void {
+	if (audit_db) {
+		audit_db.close();
+		audit_db = null;
+	}
+}
@@ -0,0 +1,105 @@
+import Database from 'better-sqlite3';
+import {
+	mkdirSync,
+	mkdtempSync,
+	rmSync,
+	symlinkSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { PathSecurityError } from '../common/errors.js';
+import { is_read_only_database } from './access-policy.js';
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+	validate_database_path,
+} from './connection-manager.js';
+import { list_database_files } from './sqlite.js';
+
+const base = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+const app_root = join(base, 'app');
+const fixtures_root = join(base, 'fixtures');
+const prod_root = join(app_root, 'prod');
+const outside = join(base, 'outside');
+for (const dir of [app_root, fixtures_root, prod_root, outside])
+	mkdirSync(dir, { recursive: true });
+
+// Configuration is loaded lazily, so the roots apply to this file only
+process.env['SQLITE_ROOTS'] =
+	`${app_root}:rw,${fixtures_root}:ro,${prod_root}:ro`;
+delete process.env['SQLITE_DEFAULT_PATH'];
+
+function seed_db(path: string) {
+	const db = new Database(path);
+	db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY)');
+	db.close();
+	return path;
+}
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(base, { recursive: true, force: true });
+});
+
+describe('allowed root directories', () => {
+	it('resolves relative paths against the first root', () => {
+		expect(validate_database_path('main.db')).toBe(
+			join(app_root, 'main.db'),
+		);
+		expect(validate_database_path('../fixtures/seed.db')).toBe(
+			join(fixtures_root, 'seed.db'),
+		);
+		expect(() => validate_database_path('../outside/x.db')).toThrow(
+			PathSecurityError,
+		);
+		expect(() =>
+			validate_database_path(join(outside, 'x.db')),
+		).toThrow(/outside the allowed root directories/);
+	});
+
+	it('follows symlinks before checking roots', () => {
+		const secret = seed_db(join(outside, 'secret.db'));
+		symlinkSync(secret, join(app_root, 'link.db'));
+		symlinkSync(outside, join(app_root, 'escape'));
+
+		expect(() => validate_database_path('link.db')).toThrow(
+			PathSecurityError,
+		);
+		expect(() => validate_database_path('escape/new.db')).toThrow(
+			PathSecurityError,
+		);
+	});
+
+	it('applies per-root permissions and lists every root', () => {
+		const app_db = seed_db(join(app_root, 'app.db'));
+		const fixture_db = seed_db(join(fixtures_root, 'fixture.sqlite'));
+		writeFileSync(join(fixtures_root, 'notes.txt'), 'not a database');
+
+		expect(is_read_only_database(app_db)).toBe(false);
+		expect(is_read_only_database(fixture_db)).toBe(true);
+		expect(open_database(fixture_db).readonly).toBe(true);
+
+		const files = list_database_files();
+		expect(
+			files.map(({ path, read_only }) => ({ path, read_only })),
+		).toEqual([
+			{ path: app_db, read_only: false },
+			{ path: fixture_db, read_only: true },
+		]);
+	});
+
+	it('applies the permission of the deepest containing root', () => {
+		const prod_db = seed_db(join(prod_root, 'orders.db'));
+
+		expect(is_read_only_database(prod_db)).toBe(true);
+		expect(open_database('prod/orders.db').readonly).toBe(true);
+		expect(
+			is_read_only_database(join(app_root, 'prod-copy.db')),
+		).toBe(false);
+	});
+});
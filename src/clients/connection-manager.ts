@@ -3,14 +3,22 @@
  */
 import Database from 'better-sqlite3';
 import { existsSync, mkdirSync, statSync } from 'node:fs';
-import { dirname, isAbsolute, relative, resolve } from 'node:path';
+import { dirname, isAbsolute, resolve } from 'node:path';
 import {
 	DatabaseConnectionError,
 	PathSecurityError,
+	ToolUsageError,
 	convert_sqlite_error,
 	with_error_handling,
 } from '../common/errors.js';
+import { real_path } from '../common/paths.js';
 import { debug_log, get_config } from '../config.js';
+import {
+	find_database_root,
+	get_database_roots,
+	is_read_only_database,
+} from './access-policy.js';
+import { close_pool_connections } from './worker-pool.js';
 
 // Connection metadata
 interface ConnectionMetadata {
@@ -20,6 +28,9 @@ interface ConnectionMetadata {
 	use_count: number;
 	file_mtime: number; // File modification time when connection opened
 	file_ino: number; // File inode to detect replacement
+	// Set once a PRAGMA assignment or TEMP object changed state that only
+	// this connection has; its database's queries then all run on it
+	local_state: boolean;
 }
 
 // Database connection pool with metadata
@@ -33,7 +44,7 @@ const POOL_CONFIG = {
 };
 
 /**
- * Validate and resolve database path
+ * Validate and resolve database path, returning it with symlinks resolved
  */
 export function validate_database_path(path: string): string {
 	const config = get_config();
@@ -46,26 +57,31 @@ export function validate_database_path(path: string): string {
 		);
 	}
 
-	// Resolve relative paths against the default directory
-	let resolved_path: string;
-	if (isAbsolute(path)) {
-		resolved_path = path;
-	} else {
-		resolved_path = resolve(config.SQLITE_DEFAULT_PATH, path);
-	}
+	// Resolve relative paths against the default directory, then follow
+	// symlinks so access rules and the connection pool see the file that
+	// is actually opened
+	const resolved_path = real_path(
+		isAbsolute(path)
+			? path
+			: resolve(config.SQLITE_DEFAULT_PATH, path),
+	);
 
-	// Security check: ensure the resolved path is within allowed directories
-	if (!config.SQLITE_ALLOW_ABSOLUTE_PATHS) {
-		const relative_path = relative(
-			config.SQLITE_DEFAULT_PATH,
-			resolved_path,
+	// Security check: ensure the resolved path is within the allowed root
+	// directories. Configured roots always apply; the default directory
+	// only when absolute paths are disallowed.
+	const has_roots = (config.SQLITE_ROOTS?.length ?? 0) > 0;
+	if (
+		(has_roots || !config.SQLITE_ALLOW_ABSOLUTE_PATHS) &&
+		!find_database_root(resolved_path)
+	) {
+		throw new PathSecurityError(
+			has_roots
+				? `Path is outside the allowed root directories (${get_database_roots()
+						.map((root) => root.path)
+						.join(', ')})`
+				: 'Path traversal outside the default directory is not allowed',
+			path,
 		);
-		if (relative_path.startsWith('..') || isAbsolute(relative_path)) {
-			throw new PathSecurityError(
-				'Path traversal outside the default directory is not allowed',
-				path,
-			);
-		}
 	}
 
 	debug_log('Validated database path:', {
@@ -158,6 +174,17 @@ export function open_database(
 			);
 		}
 
+		const readonly = is_read_only_database(resolved_path);
+		if (!exists && readonly) {
+			throw new ToolUsageError(
+				`Cannot create database '${resolved_path}': the path is read-only by server access policy`,
+				[
+					'Create the database in a path listed in SQLITE_WRITABLE_PATHS',
+					'Open an existing database with open_database instead',
+				],
+			);
+		}
+
 		// Create directory if it doesn't exist
 		if (!exists) {
 			const dir = dirname(resolved_path);
@@ -172,13 +199,19 @@ export function open_database(
 
 			// Open database connection. better-sqlite3's timeout is SQLite's
 			// lock busy timeout, not a wall-clock query execution limit.
+			// Read-only connections are enforced by SQLite itself.
 			const db = new Database(resolved_path, {
 				timeout: config.SQLITE_BUSY_TIMEOUT,
+				readonly,
 			});
 
-			// Configure database for better performance and safety
-			db.pragma('journal_mode = WAL');
-			db.pragma('synchronous = NORMAL');
+			// Configure database for better performance and safety. The
+			// journal mode is stored in the file, so leave it alone when
+			// read-only.
+			if (!readonly) {
+				db.pragma('journal_mode = WAL');
+				db.pragma('synchronous = NORMAL');
+			}
 			db.pragma('cache_size = 1000');
 			db.pragma('foreign_keys = ON');
 			db.pragma('temp_store = MEMORY');
@@ -195,11 +228,13 @@ export function open_database(
 				use_count: 1,
 				file_mtime: file_stats.mtimeMs,
 				file_ino: file_stats.ino,
+				local_state: false,
 			};
 			connections.set(resolved_path, metadata);
 
 			debug_log('Opened database connection:', {
 				path: resolved_path,
+				readonly,
 				pool_size: connections.size,
 			});
 			return db;
@@ -209,6 +244,26 @@ export function open_database(
 	}, 'open_database')();
 }
 
+/**
+ * Record that the main connection to a database holds state the worker
+ * connections lack (see ConnectionMetadata.local_state)
+ */
+export function mark_connection_state(path: string): void {
+	const metadata = connections.get(validate_database_path(path));
+	if (metadata) metadata.local_state = true;
+}
+
+/**
+ * Whether the main connection to a database holds state the worker
+ * connections lack, so every query has to run on it
+ */
+export function has_connection_state(path: string): boolean {
+	return (
+		connections.get(validate_database_path(path))?.local_state ??
+		false
+	);
+}
+
 /**
  * Close a database connection
  */
@@ -216,6 +271,7 @@ export function close_database(path: string): void {
 	return with_error_handling(() => {
 		const resolved_path = validate_database_path(path);
 
+		close_pool_connections(resolved_path);
 		const metadata = connections.get(resolved_path);
 		if (metadata) {
 			metadata.database.close();
@@ -232,6 +288,7 @@ export function close_database(path: string): void {
  * Close all database connections
  */
 export function close_all_databases(): void {
+	close_pool_connections();
 	for (const [path, metadata] of connections) {
 		try {
 			metadata.database.close();
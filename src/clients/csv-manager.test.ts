@@ -2,6 +2,7 @@ import {
 	mkdtempSync,
 	readFileSync,
 	rmSync,
+	symlinkSync,
 	writeFileSync,
 } from 'node:fs';
 import { tmpdir } from 'node:os';
@@ -13,12 +14,20 @@ import {
 	open_database,
 	stop_connection_maintenance,
 } from './connection-manager.js';
-import { export_csv, import_csv } from './csv-manager.js';
+import { PathSecurityError } from '../common/errors.js';
+import {
+	export_csv,
+	import_csv,
+	resolve_csv_path,
+} from './csv-manager.js';
 import {
 	execute_query,
 	execute_select_query,
 } from './query-executor.js';
 
+// Configuration is loaded lazily; sandbox CSV paths to the temp directory
+process.env['SQLITE_CSV_PATH'] = tmpdir();
+
 const temp_dirs: string[] = [];
 
 function temp_db(name = 'test.sqlite') {
@@ -113,4 +122,29 @@ describe('CSV manager', () => {
 		expect(query_result.rows_exported).toBe(1);
 		expect(readFileSync(query_csv_path, 'utf8')).toBe('name\nBob\n');
 	});
+
+	it('rejects CSV paths outside the CSV directory', async () => {
+		const db_path = temp_db();
+		const escape_dir = join(dirname(db_path), 'escape');
+		symlinkSync('/', escape_dir);
+
+		expect(() => resolve_csv_path('../outside.csv')).toThrow(
+			PathSecurityError,
+		);
+		await expect(
+			import_csv(
+				db_path,
+				'linked',
+				join(escape_dir, 'etc', 'passwd'),
+			),
+		).rejects.toThrow(PathSecurityError);
+		await expect(
+			export_csv(db_path, '/etc/mcp-sqlite-tools.csv', {
+				query: 'SELECT 1 AS one',
+			}),
+		).rejects.toThrow(PathSecurityError);
+		expect(resolve_csv_path('exports/out.csv')).toBe(
+			join(tmpdir(), 'exports', 'out.csv'),
+		);
+	});
 });
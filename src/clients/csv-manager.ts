@@ -10,11 +10,18 @@ import {
 	statSync,
 } from 'node:fs';
 import { dirname, isAbsolute, resolve } from 'node:path';
-import { with_error_handling } from '../common/errors.js';
+import {
+	PathSecurityError,
+	with_error_handling,
+} from '../common/errors.js';
+import { is_within_directory } from '../common/paths.js';
 import { quote_identifier } from '../common/sql.js';
-import { debug_log } from '../config.js';
+import { debug_log, get_config } from '../config.js';
 import { open_database } from './connection-manager.js';
-import { has_active_transaction } from './transaction-manager.js';
+import {
+	execute_write_query,
+	insert_rows,
+} from './query-executor.js';
 
 export interface CsvImportOptions {
 	delimiter?: string;
@@ -69,10 +76,32 @@ interface ParsedCsv {
 	rows: Record<string, string>[];
 }
 
-function resolve_csv_path(file_path: string): string {
-	return isAbsolute(file_path)
+/**
+ * Resolve a CSV file path inside the CSV directory. Relative paths resolve
+ * against SQLITE_CSV_PATH; symlinks are followed before the containment
+ * check unless SQLITE_CSV_ALLOW_ANY_PATH opts out of the sandbox.
+ */
+export function resolve_csv_path(file_path: string): string {
+	const config = get_config();
+	const resolved_path = isAbsolute(file_path)
 		? file_path
-		: resolve(process.cwd(), file_path);
+		: resolve(config.SQLITE_CSV_PATH, file_path);
+
+	if (
+		!config.SQLITE_CSV_ALLOW_ANY_PATH &&
+		!is_within_directory(config.SQLITE_CSV_PATH, resolved_path)
+	) {
+		throw new PathSecurityError(
+			`CSV file path is outside the CSV directory (${config.SQLITE_CSV_PATH}). Set SQLITE_CSV_ALLOW_ANY_PATH=true to allow any path`,
+			file_path,
+		);
+	}
+
+	debug_log('Resolved CSV path:', {
+		original: file_path,
+		resolved_path,
+	});
+	return resolved_path;
 }
 
 function validate_csv_options(options: {
@@ -176,13 +205,12 @@ function table_exists(database_path: string, table: string): boolean {
 	return row !== undefined;
 }
 
-function create_table_from_csv(
+async function create_table_from_csv(
 	database_path: string,
 	table: string,
 	headers: string[],
 	rows: Array<Record<string, unknown>>,
-): void {
-	const db = open_database(database_path);
+): Promise<void> {
 	const column_definitions = headers
 		.map((header) => {
 			const values = rows.map((row) => row[header]);
@@ -190,7 +218,9 @@ function create_table_from_csv(
 		})
 		.join(', ');
 
-	db.exec(
+	// On the writer thread, like the rows inserted after it
+	await execute_write_query(
+		database_path,
 		`CREATE TABLE ${quote_identifier(table)} (${column_definitions})`,
 	);
 }
@@ -267,10 +297,6 @@ function validate_import_columns(
 	}
 }
 
-function row_error_message(error: unknown): string {
-	return error instanceof Error ? error.message : String(error);
-}
-
 /**
  * Import a CSV file into a SQLite table. CSV headers are required.
  */
@@ -284,7 +310,6 @@ export async function import_csv(
 		const start_time = Date.now();
 		const resolved_file_path = resolve_csv_path(file_path);
 		const create_table = options.create_table ?? true;
-		const batch_size = options.batch_size ?? 1000;
 		const max_errors = options.max_errors ?? 100;
 		const coerce_types = options.coerce_types ?? true;
 
@@ -314,7 +339,7 @@ export async function import_csv(
 			if (!create_table) {
 				throw new Error(`Target table does not exist: ${table}`);
 			}
-			create_table_from_csv(
+			await create_table_from_csv(
 				database_path,
 				table,
 				parsed_csv.headers,
@@ -323,61 +348,20 @@ export async function import_csv(
 			created_table = true;
 		}
 
-		const db = open_database(database_path);
 		const placeholders = parsed_csv.headers.map(() => '?').join(', ');
 		const column_list = parsed_csv.headers
 			.map(quote_identifier)
 			.join(', ');
 		const insert_sql = `INSERT INTO ${quote_identifier(table)} (${column_list}) VALUES (${placeholders})`;
-		const stmt = db.prepare(insert_sql);
-		const errors: CsvRowError[] = [];
-		let inserted = 0;
-		let failed = 0;
-		let errors_truncated = false;
-
-		const use_transaction = !has_active_transaction(database_path);
-		if (use_transaction) db.exec('BEGIN');
-
-		try {
-			for (let i = 0; i < prepared_rows.length; i += batch_size) {
-				const batch = prepared_rows.slice(i, i + batch_size);
-
-				for (
-					let batch_index = 0;
-					batch_index < batch.length;
-					batch_index++
-				) {
-					const row_index = i + batch_index;
-					const row = batch[batch_index];
-					const values = parsed_csv.headers.map(
-						(header) => row[header],
-					);
-
-					try {
-						const result = stmt.run(values);
-						if (result.changes > 0) inserted++;
-					} catch (error) {
-						failed++;
-						if (errors.length < max_errors) {
-							errors.push({
-								row: row_index + 2,
-								error: row_error_message(error),
-								data: row,
-							});
-						} else {
-							errors_truncated = true;
-						}
-
-						if (options.fail_fast) throw error;
-					}
-				}
-			}
 
-			if (use_transaction) db.exec('COMMIT');
-		} catch (error) {
-			if (use_transaction) db.exec('ROLLBACK');
-			throw error;
-		}
+		const { inserted, failed, errors } = await insert_rows(
+			database_path,
+			insert_sql,
+			prepared_rows.map((row) =>
+				parsed_csv.headers.map((header) => row[header]),
+			),
+			{ continue_on_error: !options.fail_fast, max_errors },
+		);
 
 		const result = {
 			file_path: resolved_file_path,
@@ -387,8 +371,14 @@ export async function import_csv(
 			rows_read: prepared_rows.length,
 			inserted,
 			failed,
-			errors,
-			errors_truncated,
+			errors: errors.map(
+				({ index, message }): CsvRowError => ({
+					row: index + 2,
+					error: message,
+					data: prepared_rows[index]!,
+				}),
+			),
+			errors_truncated: failed > errors.length,
 			total_time: Date.now() - start_time,
 		};
 
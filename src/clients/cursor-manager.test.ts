@@ -0,0 +1,195 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { SqliteError, ToolUsageError } from '../common/errors.js';
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import {
+	defer_cursor_rows,
+	fetch_query_cursor,
+	get_open_cursor_count,
+	open_query_cursor,
+} from './cursor-manager.js';
+import { execute_query } from './query-executor.js';
+import {
+	begin_transaction,
+	rollback_transaction,
+} from './transaction-manager.js';
+
+// Configuration is loaded lazily, so the TTL applies to this file only
+process.env['SQLITE_CURSOR_TTL'] = '1000';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+
+function numbers_db(name: string, count: number) {
+	const db_path = join(root, name);
+	open_database(db_path, true);
+	execute_query(
+		db_path,
+		`CREATE TABLE numbers AS WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < ${count}) SELECT x FROM n`,
+	);
+	return db_path;
+}
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('query cursors', () => {
+	it('pages from a consistent snapshot', async () => {
+		const db_path = numbers_db('snapshot.db', 25);
+
+		const first = await open_query_cursor(
+			db_path,
+			'SELECT x FROM numbers ORDER BY x LIMIT 100',
+			{},
+			{ limit: 10 },
+		);
+		expect(first).toMatchObject({ offset: 0, has_more: true });
+		expect(first.rows).toHaveLength(10);
+
+		// Rows written after the first page are not part of the snapshot
+		execute_query(db_path, 'INSERT INTO numbers VALUES (26)');
+
+		const second = await fetch_query_cursor(first.cursor!, {
+			limit: 10,
+		});
+		expect(second).toMatchObject({ offset: 10, has_more: true });
+		const third = await fetch_query_cursor(first.cursor!, {
+			limit: 10,
+		});
+		expect(third).toMatchObject({
+			offset: 20,
+			has_more: false,
+			cursor: null,
+		});
+		expect(third.rows.map((row) => row['x'])).toEqual([
+			21, 22, 23, 24, 25,
+		]);
+
+		await expect(
+			fetch_query_cursor(first.cursor!, { limit: 10 }),
+		).rejects.toThrow(ToolUsageError);
+	});
+
+	it('skips rows with offset and closes exhausted cursors', async () => {
+		const db_path = numbers_db('offset.db', 10);
+
+		const page = await open_query_cursor(
+			db_path,
+			'SELECT x FROM numbers ORDER BY x',
+			{},
+			{ limit: 5, offset: 5 },
+		);
+		expect(page.rows.map((row) => row['x'])).toEqual([
+			6, 7, 8, 9, 10,
+		]);
+		expect(page).toMatchObject({ has_more: false, cursor: null });
+	});
+
+	it('reads uncommitted rows inside a transaction', async () => {
+		const db_path = numbers_db('transaction.db', 3);
+		begin_transaction(db_path);
+		execute_query(db_path, 'INSERT INTO numbers VALUES (4)');
+
+		const first = await open_query_cursor(
+			db_path,
+			'SELECT x FROM numbers ORDER BY x',
+			{},
+			{ limit: 2 },
+		);
+		const second = await fetch_query_cursor(first.cursor!, {
+			limit: 2,
+		});
+		expect(second.rows.map((row) => row['x'])).toEqual([3, 4]);
+
+		rollback_transaction(db_path);
+	});
+
+	it('serves deferred rows before the rest of the result', async () => {
+		const db_path = numbers_db('deferred.db', 6);
+
+		const first = await open_query_cursor(
+			db_path,
+			'SELECT x FROM numbers ORDER BY x',
+			{},
+			{ limit: 3 },
+		);
+		const deferred = defer_cursor_rows(first, first.rows.slice(1));
+		expect(deferred.cursor).toBe(first.cursor);
+
+		const second = await fetch_query_cursor(deferred.cursor!, {
+			limit: 3,
+		});
+		expect(second.offset).toBe(1);
+		expect(second.rows.map((row) => row['x'])).toEqual([2, 3, 4]);
+
+		// A finished page gets a cursor holding just the deferred rows
+		const last = await fetch_query_cursor(deferred.cursor!, {
+			limit: 3,
+		});
+		expect(last).toMatchObject({ has_more: false, cursor: null });
+		const tail = defer_cursor_rows(last, last.rows.slice(1));
+		const rest = await fetch_query_cursor(tail.cursor!, { limit: 3 });
+		expect(rest).toMatchObject({ offset: 5, has_more: false });
+		expect(rest.rows.map((row) => row['x'])).toEqual([6]);
+	});
+
+	it('cancels reads that exceed their time limit', async () => {
+		const db_path = numbers_db('slow.db', 2000);
+		execute_query(
+			db_path,
+			"CREATE TABLE blobs AS SELECT x'00ff' AS data, 42 AS id",
+		);
+
+		const started = Date.now();
+		const error = await open_query_cursor(
+			db_path,
+			'SELECT * FROM numbers a, numbers b, numbers c',
+			{},
+			{ limit: 1_000_000_000, timeout_ms: 200 },
+		).catch((caught: unknown) => caught);
+		expect(Date.now() - started).toBeLessThan(5000);
+		expect(error).toBeInstanceOf(SqliteError);
+		expect((error as SqliteError).code).toBe('SQLITE_INTERRUPT');
+		expect((error as SqliteError).message).toContain(
+			'time limit of 200 ms',
+		);
+
+		const page = await open_query_cursor(
+			db_path,
+			'SELECT data, id FROM blobs WHERE id = ?',
+			[42],
+			{ limit: 10, timeout_ms: 5000 },
+		);
+		expect(page.rows).toEqual([
+			{ data: Buffer.from([0x00, 0xff]), id: 42 },
+		]);
+	});
+
+	it('expires idle cursors after SQLITE_CURSOR_TTL', async () => {
+		const db_path = numbers_db('expiry.db', 10);
+		const before = get_open_cursor_count();
+
+		const page = await open_query_cursor(
+			db_path,
+			'SELECT x FROM numbers',
+			{},
+			{ limit: 1 },
+		);
+		expect(get_open_cursor_count()).toBe(before + 1);
+
+		await new Promise((resolve) => setTimeout(resolve, 1200));
+		expect(get_open_cursor_count()).toBe(before);
+		await expect(
+			fetch_query_cursor(page.cursor!, { limit: 1 }),
+		).rejects.toThrow(/expired/);
+	});
+});
@@ -0,0 +1,393 @@
+/**
+ * Continuation cursors for paged read queries
+ */
+import Database from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
+import {
+	ToolUsageError,
+	convert_sqlite_error,
+} from '../common/errors.js';
+import { classify_sql } from '../common/statement-classifier.js';
+import { normalise_integers } from '../common/value-codec.js';
+import { debug_log, get_config } from '../config.js';
+import {
+	has_connection_state,
+	open_database,
+	validate_database_path,
+} from './connection-manager.js';
+import {
+	convert_parameters,
+	use_main_connection,
+} from './query-executor.js';
+import { has_active_transaction } from './transaction-manager.js';
+import {
+	CursorPageResult,
+	close_cursor_in_pool,
+	fetch_cursor_in_pool,
+	open_cursor_in_pool,
+} from './worker-pool.js';
+
+// Opening a cursor beyond this count closes the least recently used one
+const MAX_OPEN_CURSORS = 100;
+
+// Where a cursor's remaining rows come from
+interface CursorSource {
+	fetch(count: number, timeout_ms: number): Promise<CursorPageResult>;
+	close(): void;
+}
+
+// Cursor state
+interface QueryCursor {
+	id: string;
+	database_path: string;
+	query: string;
+	position: number;
+	// Null once the statement is exhausted
+	source: CursorSource | null;
+	// Rows read but not yet returned, served before the source
+	pending: Record<string, any>[];
+	expiry_timer?: NodeJS.Timeout;
+}
+
+export interface CursorPage {
+	cursor: string | null;
+	database_path: string;
+	query: string;
+	rows: Record<string, any>[];
+	offset: number;
+	has_more: boolean;
+}
+
+// Open cursors, least recently used first
+const cursors = new Map<string, QueryCursor>();
+
+/**
+ * Page through rows on the main thread, holding one row back to report
+ * whether another page exists
+ */
+function iterator_source(
+	rows: Iterator<Record<string, any>>,
+	on_close: () => void = () => {},
+): CursorSource {
+	let buffered: IteratorResult<Record<string, any>> | undefined;
+	const next = () => {
+		const result = buffered ?? rows.next();
+		buffered = undefined;
+		return result;
+	};
+
+	return {
+		async fetch(count) {
+			const page: Record<string, any>[] = [];
+			while (page.length < count) {
+				const result = next();
+				if (result.done) return { rows: page, done: true };
+				page.push(result.value);
+			}
+			buffered = next();
+			return { rows: page, done: buffered.done === true };
+		},
+		close() {
+			rows.return?.();
+			on_close();
+		},
+	};
+}
+
+/**
+ * Page through a cursor held by a read worker
+ */
+function pool_source(
+	database_path: string,
+	cursor_id: string,
+): CursorSource {
+	return {
+		fetch: (count, timeout_ms) =>
+			fetch_cursor_in_pool(database_path, cursor_id, {
+				count,
+				timeout_ms,
+			}),
+		close: () => close_cursor_in_pool(cursor_id),
+	};
+}
+
+/**
+ * Open a source on the main thread. Only the main connection sees the
+ * uncommitted changes of a transaction, and its TEMP objects and pragma
+ * settings, but it cannot keep a statement open while other calls use
+ * it, so the result is materialised. Otherwise a dedicated read-only
+ * connection holds the snapshot.
+ */
+function open_main_thread_source(
+	database_path: string,
+	query: string,
+	params: unknown,
+): CursorSource {
+	if (
+		has_active_transaction(database_path) ||
+		has_connection_state(database_path)
+	) {
+		const rows = open_database(database_path)
+			.prepare(query)
+			.safeIntegers(true)
+			.all(params) as Record<string, any>[];
+		return iterator_source(rows[Symbol.iterator]());
+	}
+
+	const cursor_db = new Database(
+		validate_database_path(database_path),
+		{
+			readonly: true,
+			fileMustExist: true,
+			timeout: get_config().SQLITE_BUSY_TIMEOUT,
+		},
+	);
+	try {
+		const rows = cursor_db
+			.prepare(query)
+			.safeIntegers(true)
+			.iterate(params) as Iterator<Record<string, any>>;
+		return iterator_source(rows, () => cursor_db.close());
+	} catch (error) {
+		cursor_db.close();
+		throw error;
+	}
+}
+
+function cursor_not_found(cursor_id: string): ToolUsageError {
+	return new ToolUsageError(
+		`Cursor not found or expired: ${cursor_id}`,
+		[
+			'Run the query again without cursor to start from the first page',
+			`Cursors expire after ${get_config().SQLITE_CURSOR_TTL} ms without a fetch (SQLITE_CURSOR_TTL)`,
+			'Pass offset with a new query to resume from a known row position',
+		],
+	);
+}
+
+/**
+ * Keep a cursor open for another SQLITE_CURSOR_TTL and mark it most
+ * recently used
+ */
+function touch_cursor(cursor: QueryCursor): void {
+	clearTimeout(cursor.expiry_timer);
+	cursor.expiry_timer = setTimeout(() => {
+		debug_log('Cursor expired:', cursor.id);
+		close_query_cursor(cursor.id);
+	}, get_config().SQLITE_CURSOR_TTL);
+	cursor.expiry_timer.unref();
+
+	cursors.delete(cursor.id);
+	cursors.set(cursor.id, cursor);
+}
+
+function register_cursor(cursor: QueryCursor): void {
+	if (cursors.size >= MAX_OPEN_CURSORS) {
+		close_query_cursor(cursors.keys().next().value!);
+	}
+	touch_cursor(cursor);
+}
+
+/**
+ * Run a read-only query and return its first page. When more rows remain,
+ * the statement stays open behind an opaque cursor ID: later pages come
+ * from the same snapshot, so they are consistent and cost no more than
+ * the first. The query runs on a read worker (see worker-pool.ts) subject
+ * to `timeout_ms` per page; without workers it runs on the main thread.
+ * Integers beyond Number.MAX_SAFE_INTEGER come back as bigints so they
+ * stay exact until encoded for the response (see value-codec.ts).
+ */
+export async function open_query_cursor(
+	database_path: string,
+	query: string,
+	params: Record<string, any> | any[],
+	options: { limit: number; offset?: number; timeout_ms?: number },
+): Promise<CursorPage> {
+	const timeout_ms =
+		options.timeout_ms ?? get_config().SQLITE_QUERY_TIMEOUT;
+	const offset = options.offset ?? 0;
+	const cursor_id = `cur_${randomUUID()}`;
+	const db = open_database(database_path);
+
+	try {
+		debug_log('Opening query cursor:', {
+			cursor_id,
+			query,
+			params,
+			offset,
+			limit: options.limit,
+		});
+
+		// Prepare on the main connection first so syntax errors and
+		// mutating statements are reported without opening a cursor
+		const { readonly } = db.prepare(query);
+		if (classify_sql(query, readonly).category !== 'read') {
+			throw new Error(
+				'Query is not read-only. Use execute_write_query or execute_schema_query for mutating SQL.',
+			);
+		}
+		const converted_params = convert_parameters(params);
+
+		let source: CursorSource;
+		let page: CursorPageResult;
+		if (!use_main_connection(database_path)) {
+			const resolved_path = validate_database_path(database_path);
+			page = await open_cursor_in_pool(
+				resolved_path,
+				cursor_id,
+				query,
+				converted_params,
+				{ skip: offset, count: options.limit, timeout_ms },
+			);
+			source = pool_source(resolved_path, cursor_id);
+		} else {
+			source = open_main_thread_source(
+				database_path,
+				query,
+				converted_params,
+			);
+			if (offset > 0) await source.fetch(offset, 0);
+			page = await source.fetch(options.limit, 0);
+		}
+
+		if (page.done) {
+			source.close();
+		} else {
+			register_cursor({
+				id: cursor_id,
+				database_path,
+				query,
+				position: offset + page.rows.length,
+				source,
+				pending: [],
+			});
+		}
+
+		return {
+			cursor: page.done ? null : cursor_id,
+			database_path,
+			query,
+			rows: normalise_integers(page.rows),
+			offset,
+			has_more: !page.done,
+		};
+	} catch (error) {
+		throw convert_sqlite_error(error, database_path);
+	}
+}
+
+/**
+ * Read the next page of an open cursor. The cursor closes once exhausted
+ * or when a fetch fails.
+ */
+export async function fetch_query_cursor(
+	cursor_id: string,
+	options: { limit: number; timeout_ms?: number },
+): Promise<CursorPage> {
+	const cursor = cursors.get(cursor_id);
+	if (!cursor) throw cursor_not_found(cursor_id);
+	const timeout_ms =
+		options.timeout_ms ?? get_config().SQLITE_QUERY_TIMEOUT;
+
+	// Don't let the cursor expire while the page is being read
+	clearTimeout(cursor.expiry_timer);
+	try {
+		const rows = cursor.pending.splice(0, options.limit);
+		if (cursor.source && rows.length < options.limit) {
+			const page = await cursor.source.fetch(
+				options.limit - rows.length,
+				timeout_ms,
+			);
+			rows.push(...normalise_integers(page.rows));
+			if (page.done) {
+				cursor.source.close();
+				cursor.source = null;
+			}
+		}
+		const offset = cursor.position;
+		cursor.position += rows.length;
+
+		const has_more =
+			cursor.pending.length > 0 || cursor.source !== null;
+		if (has_more) {
+			touch_cursor(cursor);
+		} else {
+			close_query_cursor(cursor_id);
+		}
+
+		return {
+			cursor: has_more ? cursor_id : null,
+			database_path: cursor.database_path,
+			query: cursor.query,
+			rows,
+			offset,
+			has_more,
+		};
+	} catch (error) {
+		close_query_cursor(cursor_id);
+		if ((error as { code?: string }).code === 'CURSOR_NOT_FOUND') {
+			throw cursor_not_found(cursor_id);
+		}
+		throw convert_sqlite_error(error, cursor.database_path);
+	}
+}
+
+/**
+ * Hand back rows from the end of a page that were read but not sent (for
+ * example because they did not fit the response budget). The next fetch
+ * starts with them; a page without a cursor gets one holding just those
+ * rows.
+ */
+export function defer_cursor_rows(
+	page: CursorPage,
+	rows: Record<string, any>[],
+): CursorPage {
+	if (rows.length === 0) return page;
+
+	const existing = page.cursor ? cursors.get(page.cursor) : undefined;
+	const cursor: QueryCursor = existing ?? {
+		id: `cur_${randomUUID()}`,
+		database_path: page.database_path,
+		query: page.query,
+		position: page.offset + page.rows.length,
+		source: null,
+		pending: [],
+	};
+	cursor.pending.unshift(...rows);
+	cursor.position -= rows.length;
+	if (existing) {
+		touch_cursor(cursor);
+	} else {
+		register_cursor(cursor);
+	}
+
+	return { ...page, cursor: cursor.id, has_more: true };
+}
+
+/**
+ * Close a cursor and release its snapshot
+ */
+export function close_query_cursor(cursor_id: string): boolean {
+	const cursor = cursors.get(cursor_id);
+	if (!cursor) return false;
+
+	cursors.delete(cursor_id);
+	clearTimeout(cursor.expiry_timer);
+	try {
+		cursor.source?.close();
+	} catch (error) {
+		debug_log('Error closing cursor:', { cursor_id, error });
+	}
+	debug_log('Closed query cursor:', {
+		cursor_id,
+		open_cursors: cursors.size,
+	});
+	return true;
+}
+
+/**
+ * Get the number of open cursors (for monitoring)
+ */
+export function get_open_cursor_count(): number {
+	return cursors.size;
+}
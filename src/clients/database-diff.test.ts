@@ -0,0 +1,182 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import { diff_databases, render_patch } from './database-diff.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+const source_path = join(root, 'before.db');
+const target_path = join(root, 'after.db');
+
+const base_schema = `
+	CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, score REAL);
+	CREATE TABLE notes (body TEXT, data BLOB);
+	CREATE VIEW top_users AS SELECT name FROM users WHERE score > 5;
+	INSERT INTO users VALUES (1, 'ada', 9.5), (2, 'grace', 7), (3, 'alan', 3);
+	INSERT INTO notes VALUES ('first', x'00'), ('second', NULL);
+`;
+
+open_database(source_path, true).exec(base_schema);
+open_database(target_path, true).exec(`
+	${base_schema}
+	UPDATE users SET name = 'Ada', score = 10 WHERE id = 1;
+	DELETE FROM users WHERE id = 3;
+	INSERT INTO users VALUES (4, 'it''s', 9007199254740993);
+	UPDATE notes SET data = x'ff00' WHERE body = 'first';
+	CREATE INDEX users_name ON users (name);
+	DROP VIEW top_users;
+	CREATE VIEW top_users AS SELECT name FROM users WHERE score > 8;
+	CREATE TABLE tags (user_id INTEGER, tag TEXT, PRIMARY KEY (user_id, tag));
+	INSERT INTO tags VALUES (1, 'math');
+`);
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('diff_databases', () => {
+	it('reports schema and row differences by key', () => {
+		const diff = diff_databases(source_path, target_path);
+
+		expect(diff.identical).toBe(false);
+		expect(diff.complete).toBe(true);
+		expect(diff.tables_compared).toBe(3);
+		expect(diff.schema.added.map((object) => object.name)).toEqual([
+			'tags',
+			'users_name',
+		]);
+		expect(diff.schema.removed).toEqual([]);
+		expect(diff.schema.changed).toEqual([
+			expect.objectContaining({ type: 'view', name: 'top_users' }),
+		]);
+
+		const [notes, tags, users] = diff.data;
+		expect(users).toMatchObject({
+			table: 'users',
+			key: ['id'],
+			added: 1,
+			removed: 1,
+			changed: 1,
+			removed_rows: [
+				{
+					key: { id: 3n },
+					values: { id: 3n, name: 'alan', score: 3 },
+				},
+			],
+			changed_rows: [
+				{
+					key: { id: 1n },
+					changes: {
+						name: { from: 'ada', to: 'Ada' },
+						score: { from: 9.5, to: 10 },
+					},
+				},
+			],
+		});
+		expect(users!.added_rows[0]!.values['score']).toBe(
+			9007199254740992,
+		);
+		expect(notes).toMatchObject({
+			table: 'notes',
+			key: ['rowid'],
+			changed: 1,
+		});
+		expect(tags).toMatchObject({ table: 'tags', added: 1 });
+	});
+
+	it('renders a patch that turns the source into the target', () => {
+		const patch = render_patch(
+			diff_databases(source_path, target_path),
+		);
+		expect(patch).toContain(
+			'UPDATE "users" SET "name" = \'Ada\', "score" = 10.0 WHERE "id" IS 1;',
+		);
+		expect(patch).toContain(
+			'UPDATE "notes" SET "data" = X\'ff00\' WHERE rowid IS 1;',
+		);
+
+		open_database(source_path).exec(patch);
+		expect(diff_databases(source_path, target_path)).toMatchObject({
+			identical: true,
+			data: [],
+		});
+	});
+
+	it('keeps triggers from firing while a patch replays rows', () => {
+		const schema = `
+			CREATE TABLE items (id INTEGER PRIMARY KEY, qty INTEGER);
+			CREATE TABLE audit (message TEXT);
+			CREATE TRIGGER items_audit AFTER INSERT ON items BEGIN
+				INSERT INTO audit VALUES ('added ' || new.id);
+			END;
+		`;
+		const before = join(root, 'triggers-before.db');
+		const after = join(root, 'triggers-after.db');
+		open_database(before, true).exec(schema);
+		open_database(after, true).exec(`
+			${schema}
+			INSERT INTO items VALUES (1, 5);
+			DELETE FROM audit;
+		`);
+
+		const diff = diff_databases(before, after);
+		expect(
+			diff.paused_triggers.map((trigger) => trigger.name),
+		).toEqual(['items_audit']);
+		const patch = render_patch(diff);
+		expect(patch).toContain(
+			'-- Triggers dropped while rows are replayed and recreated after: items_audit',
+		);
+
+		const db = open_database(before);
+		db.exec(patch);
+		expect(
+			db.prepare('SELECT count(*) FROM audit').pluck().get(),
+		).toBe(0);
+		expect(diff_databases(before, after).identical).toBe(true);
+	});
+
+	it('filters tables and limits listed rows', () => {
+		open_database(target_path).exec(`
+			ALTER TABLE users ADD COLUMN email TEXT;
+			INSERT INTO users (id, name) VALUES (5, 'e'), (6, 'f'), (7, 'g');
+		`);
+		const diff = diff_databases(source_path, target_path, {
+			tables: ['USERS'],
+			max_rows: 2,
+		});
+
+		expect(diff.schema.changed.map((object) => object.name)).toEqual([
+			'users',
+		]);
+		expect(diff.data).toEqual([
+			expect.objectContaining({
+				table: 'users',
+				added: 3,
+				truncated: true,
+			}),
+		]);
+		expect(diff.data[0]!.added_rows).toHaveLength(2);
+		expect(diff.notes).toEqual([
+			'Columns of users differ; rows were compared on the columns both have',
+		]);
+		expect(diff.complete).toBe(false);
+		expect(
+			diff_databases(source_path, target_path, {
+				tables: ['users'],
+				max_rows: 10,
+			}).complete,
+		).toBe(false);
+		expect(render_patch(diff)).toContain(
+			'-- 1 more differing rows not listed; raise max_rows',
+		);
+	});
+});
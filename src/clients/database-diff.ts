@@ -0,0 +1,635 @@
+/**
+ * Schema and row-level comparison of two databases for SQLite Tools MCP
+ * server.
+ *
+ * Schemas are compared object by object. Rows are compared by primary
+ * key (rowid for tables without one) on a dedicated read-only
+ * connection to the target with the source attached, so SQLite does the
+ * matching and only differing rows are read.
+ */
+import Database from 'better-sqlite3';
+import {
+	convert_sqlite_error,
+	with_error_handling,
+} from '../common/errors.js';
+import { rename_create_table } from '../common/schema-sql.js';
+import {
+	format_sql_literal,
+	quote_identifier,
+} from '../common/sql.js';
+import { debug_log, get_config } from '../config.js';
+import { validate_database_path } from './connection-manager.js';
+import {
+	SchemaObject,
+	list_schema_objects,
+} from './schema-manager.js';
+
+// Schema the source database is attached as on the diff connection
+const SOURCE_SCHEMA = 'diff_source';
+
+// Drop and create order for schema objects in a patch
+const DROP_ORDER: SchemaObject['type'][] = [
+	'trigger',
+	'view',
+	'index',
+	'table',
+];
+
+export interface DiffOptions {
+	// Only compare these tables (and their indexes and triggers)
+	tables?: string[];
+	// Rows listed per table for each of added, removed and changed
+	max_rows?: number;
+	include_data?: boolean;
+}
+
+export interface SchemaDiff {
+	added: SchemaObject[];
+	removed: SchemaObject[];
+	changed: Array<{
+		type: SchemaObject['type'];
+		name: string;
+		tbl_name: string;
+		source_sql: string;
+		target_sql: string;
+	}>;
+}
+
+export interface DiffRow {
+	key: Record<string, unknown>;
+	values: Record<string, unknown>;
+}
+
+export interface ChangedRow {
+	key: Record<string, unknown>;
+	changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface TableDataDiff {
+	table: string;
+	// Columns rows are matched by; rowid for tables without a primary key
+	key: string[];
+	added: number;
+	removed: number;
+	changed: number;
+	added_rows: DiffRow[];
+	removed_rows: DiffRow[];
+	changed_rows: ChangedRow[];
+	// Whether more rows differ than max_rows lists
+	truncated: boolean;
+}
+
+export interface DatabaseDiff {
+	source: string;
+	target: string;
+	identical: boolean;
+	schema: SchemaDiff;
+	// Tables whose rows differ
+	data: TableDataDiff[];
+	tables_compared: number;
+	// Unchanged triggers on tables whose rows differ. A patch drops them
+	// while it replays the rows, so they do not fire, then recreates them.
+	paused_triggers: SchemaObject[];
+	notes: string[];
+	// Whether every difference is listed, so the patch is complete
+	complete: boolean;
+}
+
+interface ColumnInfo {
+	name: string;
+	pk: number;
+}
+
+/**
+ * Object SQL without layout differences, and for tables without the
+ * quoting of the name, which ALTER TABLE RENAME adds
+ */
+function normalise_sql(object: SchemaObject): string {
+	const sql =
+		object.type === 'table'
+			? rename_create_table(object.sql, object.name)
+			: object.sql;
+	return sql.replace(/\s+/g, ' ').trim();
+}
+
+function object_key(
+	object: Pick<SchemaObject, 'type' | 'name'>,
+): string {
+	return `${object.type}:${object.name.toLowerCase()}`;
+}
+
+function column_ref(alias: string, column: string): string {
+	return column === 'rowid'
+		? `${alias}.rowid`
+		: `${alias}.${quote_identifier(column)}`;
+}
+
+function table_columns(
+	db: Database.Database,
+	schema: string,
+	table: string,
+): ColumnInfo[] {
+	return db
+		.prepare(
+			`PRAGMA ${schema}.table_info(${quote_identifier(table)})`,
+		)
+		.all() as ColumnInfo[];
+}
+
+function key_columns(columns: ColumnInfo[]): string[] {
+	const primary_key = columns
+		.filter((column) => column.pk > 0)
+		.sort((a, b) => a.pk - b.pk)
+		.map((column) => column.name);
+	return primary_key.length > 0 ? primary_key : ['rowid'];
+}
+
+export function diff_schema_objects(
+	source_objects: SchemaObject[],
+	target_objects: SchemaObject[],
+): SchemaDiff {
+	const source = new Map(
+		source_objects.map((object) => [object_key(object), object]),
+	);
+	const target = new Map(
+		target_objects.map((object) => [object_key(object), object]),
+	);
+
+	const changed: SchemaDiff['changed'] = [];
+	for (const [key, object] of target) {
+		const before = source.get(key);
+		if (before && normalise_sql(before) !== normalise_sql(object)) {
+			changed.push({
+				type: object.type,
+				name: object.name,
+				tbl_name: object.tbl_name,
+				source_sql: before.sql,
+				target_sql: object.sql,
+			});
+		}
+	}
+	return {
+		added: target_objects.filter(
+			(object) => !source.has(object_key(object)),
+		),
+		removed: source_objects.filter(
+			(object) => !target.has(object_key(object)),
+		),
+		changed,
+	};
+}
+
+/**
+ * Run a diff query, counting every row and keeping the first `limit`
+ */
+function collect<T>(
+	statement: Database.Statement,
+	limit: number,
+	map: (row: Record<string, any>) => T,
+): { count: number; rows: T[] } {
+	const rows: T[] = [];
+	let count = 0;
+	for (const row of statement
+		.safeIntegers(true)
+		.iterate() as Iterable<Record<string, any>>) {
+		if (count++ < limit) rows.push(map(row));
+	}
+	return { count, rows };
+}
+
+/**
+ * Rows of `schema`.`table` with no row of the same key in `other`
+ * (every row when `other` is null)
+ */
+function unmatched_rows(
+	db: Database.Database,
+	table: string,
+	schema: string,
+	other: string | null,
+	key: string[],
+	columns: string[],
+	limit: number,
+): { count: number; rows: DiffRow[] } {
+	const name = quote_identifier(table);
+	const select = [
+		...key.map((column, i) => `${column_ref('a', column)} AS k${i}`),
+		...columns.map(
+			(column, i) => `${column_ref('a', column)} AS v${i}`,
+		),
+	].join(', ');
+	const missing = other
+		? ` WHERE NOT EXISTS (SELECT 1 FROM ${other}.${name} b WHERE ${key
+				.map(
+					(column) =>
+						`${column_ref('b', column)} IS ${column_ref('a', column)}`,
+				)
+				.join(' AND ')})`
+		: '';
+
+	return collect(
+		db.prepare(`SELECT ${select} FROM ${schema}.${name} a${missing}`),
+		limit,
+		(row) => ({
+			key: Object.fromEntries(
+				key.map((column, i) => [column, row[`k${i}`]]),
+			),
+			values: Object.fromEntries(
+				columns.map((column, i) => [column, row[`v${i}`]]),
+			),
+		}),
+	);
+}
+
+/**
+ * Rows present on both sides whose `columns` differ
+ */
+function changed_rows(
+	db: Database.Database,
+	table: string,
+	key: string[],
+	columns: string[],
+	limit: number,
+): { count: number; rows: ChangedRow[] } {
+	if (columns.length === 0) return { count: 0, rows: [] };
+	const name = quote_identifier(table);
+	const differs = columns.map(
+		(column) =>
+			`${column_ref('s', column)} IS NOT ${column_ref('d', column)}`,
+	);
+	const select = [
+		...key.map((column, i) => `${column_ref('d', column)} AS k${i}`),
+		...columns.map(
+			(column, i) =>
+				`${column_ref('s', column)} AS f${i}, ${column_ref('d', column)} AS t${i}, ${differs[i]} AS x${i}`,
+		),
+	].join(', ');
+
+	return collect(
+		db.prepare(
+			`SELECT ${select} FROM ${SOURCE_SCHEMA}.${name} s JOIN main.${name} d ON ${key
+				.map(
+					(column) =>
+						`${column_ref('s', column)} IS ${column_ref('d', column)}`,
+				)
+				.join(' AND ')} WHERE ${differs.join(' OR ')}`,
+		),
+		limit,
+		(row) => ({
+			key: Object.fromEntries(
+				key.map((column, i) => [column, row[`k${i}`]]),
+			),
+			changes: Object.fromEntries(
+				columns.flatMap((column, i) =>
+					row[`x${i}`]
+						? [[column, { from: row[`f${i}`], to: row[`t${i}`] }]]
+						: [],
+				),
+			),
+		}),
+	);
+}
+
+function is_comparable_table(object: SchemaObject): boolean {
+	return !/^\s*CREATE\s+VIRTUAL\b/i.test(object.sql);
+}
+
+/**
+ * Compare two databases: schema objects by type and name, and the rows
+ * of every table present in both by key. Differences are described
+ * from source to target, so "added" rows exist only in the target.
+ */
+export function diff_databases(
+	source_path: string,
+	target_path: string,
+	options: DiffOptions = {},
+): DatabaseDiff {
+	return with_error_handling(() => {
+		const { tables, max_rows = 100, include_data = true } = options;
+		const source = validate_database_path(source_path);
+		const target = validate_database_path(target_path);
+		debug_log('Diffing databases:', { source, target, ...options });
+
+		const wanted = tables?.map((table) => table.toLowerCase());
+		const select_objects = (database_path: string) =>
+			list_schema_objects(database_path).filter(
+				(object) =>
+					!object.name.startsWith('sqlite_') &&
+					(!wanted || wanted.includes(object.tbl_name.toLowerCase())),
+			);
+		const source_objects = select_objects(source);
+		const target_objects = select_objects(target);
+		const schema = diff_schema_objects(
+			source_objects,
+			target_objects,
+		);
+
+		const notes: string[] = [];
+		const data: TableDataDiff[] = [];
+		let tables_compared = 0;
+		let complete = true;
+
+		if (include_data) {
+			let db: Database.Database | null = null;
+			try {
+				db = new Database(target, {
+					readonly: true,
+					fileMustExist: true,
+					timeout: get_config().SQLITE_BUSY_TIMEOUT,
+				});
+				db.prepare(`ATTACH DATABASE ? AS ${SOURCE_SCHEMA}`).run(
+					source,
+				);
+				const source_tables = new Set(
+					source_objects
+						.filter((object) => object.type === 'table')
+						.map((object) => object.name.toLowerCase()),
+				);
+
+				for (const object of target_objects) {
+					if (object.type !== 'table') continue;
+					if (!is_comparable_table(object)) {
+						notes.push(
+							`Virtual table ${object.name} was not compared`,
+						);
+						continue;
+					}
+					const columns = table_columns(db, 'main', object.name);
+					const key = key_columns(columns);
+					const names = columns.map((column) => column.name);
+
+					// Tables new in the target are all added rows
+					if (!source_tables.has(object.name.toLowerCase())) {
+						const added = unmatched_rows(
+							db,
+							object.name,
+							'main',
+							null,
+							key,
+							names,
+							max_rows,
+						);
+						tables_compared++;
+						if (added.count > 0) {
+							data.push({
+								table: object.name,
+								key,
+								added: added.count,
+								removed: 0,
+								changed: 0,
+								added_rows: added.rows,
+								removed_rows: [],
+								changed_rows: [],
+								truncated: added.count > max_rows,
+							});
+						}
+						continue;
+					}
+
+					const source_columns = table_columns(
+						db,
+						SOURCE_SCHEMA,
+						object.name,
+					);
+					const source_key = key_columns(source_columns);
+					if (
+						source_key.join(',').toLowerCase() !==
+						key.join(',').toLowerCase()
+					) {
+						notes.push(
+							`Rows of ${object.name} were not compared: its key changed from (${source_key.join(', ')}) to (${key.join(', ')})`,
+						);
+						complete = false;
+						continue;
+					}
+					const source_names = source_columns.map(
+						(column) => column.name,
+					);
+					const common = names.filter((name) =>
+						source_names.some(
+							(source_name) =>
+								source_name.toLowerCase() === name.toLowerCase(),
+						),
+					);
+					if (
+						common.length !== names.length ||
+						common.length !== source_names.length
+					) {
+						notes.push(
+							`Columns of ${object.name} differ; rows were compared on the columns both have`,
+						);
+						complete = false;
+					}
+
+					const added = unmatched_rows(
+						db,
+						object.name,
+						'main',
+						SOURCE_SCHEMA,
+						key,
+						common,
+						max_rows,
+					);
+					const removed = unmatched_rows(
+						db,
+						object.name,
+						SOURCE_SCHEMA,
+						'main',
+						key,
+						common,
+						max_rows,
+					);
+					const changed = changed_rows(
+						db,
+						object.name,
+						key,
+						common.filter(
+							(name) =>
+								!key.some(
+									(column) =>
+										column.toLowerCase() === name.toLowerCase(),
+								),
+						),
+						max_rows,
+					);
+					tables_compared++;
+
+					if (added.count + removed.count + changed.count > 0) {
+						data.push({
+							table: object.name,
+							key,
+							added: added.count,
+							removed: removed.count,
+							changed: changed.count,
+							added_rows: added.rows,
+							removed_rows: removed.rows,
+							changed_rows: changed.rows,
+							truncated:
+								added.count > max_rows ||
+								removed.count > max_rows ||
+								changed.count > max_rows,
+						});
+					}
+				}
+			} catch (error) {
+				throw convert_sqlite_error(error, target);
+			} finally {
+				db?.close();
+			}
+		}
+
+		if (data.some((table) => table.truncated)) complete = false;
+		const patched_tables = new Set(
+			data.map((table) => table.table.toLowerCase()),
+		);
+		const schema_changes = new Set(
+			[...schema.added, ...schema.changed].map(object_key),
+		);
+		const paused_triggers = target_objects.filter(
+			(object) =>
+				object.type === 'trigger' &&
+				patched_tables.has(object.tbl_name.toLowerCase()) &&
+				!schema_changes.has(object_key(object)),
+		);
+		return {
+			source,
+			target,
+			identical:
+				schema.added.length === 0 &&
+				schema.removed.length === 0 &&
+				schema.changed.length === 0 &&
+				data.length === 0,
+			schema,
+			data,
+			tables_compared,
+			paused_triggers,
+			notes,
+			complete: complete && include_data,
+		};
+	}, 'diff_databases')();
+}
+
+function where_key(key: Record<string, unknown>): string {
+	return Object.entries(key)
+		.map(
+			([column, value]) =>
+				`${column === 'rowid' ? 'rowid' : quote_identifier(column)} IS ${format_sql_literal(value)}`,
+		)
+		.join(' AND ');
+}
+
+/**
+ * Render a diff as an SQL script that turns the source database into
+ * the target. Tables whose definition changed are only flagged, and
+ * rows beyond max_rows are left out, as the script says. Triggers on
+ * the patched tables are dropped while the rows are replayed.
+ */
+export function render_patch(diff: DatabaseDiff): string {
+	const lines = [
+		'-- SQLite database patch',
+		`-- Source: ${diff.source}`,
+		`-- Target: ${diff.target}`,
+		`-- Generated: ${new Date().toISOString()}`,
+	];
+	if (!diff.complete) {
+		lines.push(
+			'-- INCOMPLETE: some differences are not listed; see the notes',
+		);
+	}
+	if (diff.paused_triggers.length > 0) {
+		lines.push(
+			`-- Triggers dropped while rows are replayed and recreated after: ${diff.paused_triggers.map((trigger) => trigger.name).join(', ')}`,
+		);
+	}
+	for (const note of diff.notes) lines.push(`-- Note: ${note}`);
+	lines.push('', 'PRAGMA foreign_keys=OFF;', 'BEGIN;', '');
+
+	const recreated = [
+		...diff.schema.changed.filter(
+			(object) => object.type !== 'table',
+		),
+		...diff.paused_triggers.map((trigger) => ({
+			...trigger,
+			target_sql: trigger.sql,
+		})),
+	];
+	const dropped = [...diff.schema.removed, ...recreated];
+	for (const type of DROP_ORDER) {
+		for (const object of dropped.filter(
+			(item) => item.type === type,
+		)) {
+			lines.push(
+				`DROP ${type.toUpperCase()} IF EXISTS ${quote_identifier(object.name)};`,
+			);
+		}
+	}
+	for (const object of diff.schema.changed) {
+		if (object.type === 'table') {
+			lines.push(
+				`-- Table ${quote_identifier(object.name)} is defined differently in the target; migrate it first (diff_schema builds the migration):`,
+				...object.target_sql
+					.split('\n')
+					.map((line) => `--   ${line}`),
+			);
+		}
+	}
+	for (const object of diff.schema.added) {
+		if (object.type === 'table') lines.push(`${object.sql};`);
+	}
+
+	for (const table of diff.data) {
+		const name = quote_identifier(table.table);
+		lines.push('', `-- ${table.table}`);
+		for (const row of table.removed_rows) {
+			lines.push(`DELETE FROM ${name} WHERE ${where_key(row.key)};`);
+		}
+		for (const row of table.changed_rows) {
+			lines.push(
+				`UPDATE ${name} SET ${Object.entries(row.changes)
+					.map(
+						([column, change]) =>
+							`${quote_identifier(column)} = ${format_sql_literal(change.to)}`,
+					)
+					.join(', ')} WHERE ${where_key(row.key)};`,
+			);
+		}
+		for (const row of table.added_rows) {
+			const values = {
+				...(table.key[0] === 'rowid' ? row.key : {}),
+				...row.values,
+			};
+			lines.push(
+				`INSERT INTO ${name} (${Object.keys(values)
+					.map((column) =>
+						column === 'rowid' ? 'rowid' : quote_identifier(column),
+					)
+					.join(', ')}) VALUES (${Object.values(values)
+					.map(format_sql_literal)
+					.join(', ')});`,
+			);
+		}
+		if (table.truncated) {
+			lines.push(
+				`-- ${table.added + table.removed + table.changed - table.added_rows.length - table.removed_rows.length - table.changed_rows.length} more differing rows not listed; raise max_rows`,
+			);
+		}
+	}
+
+	const created = [
+		...diff.schema.added.filter((object) => object.type !== 'table'),
+		...recreated.map((object) => ({
+			...object,
+			sql: object.target_sql,
+		})),
+	];
+	if (created.length > 0) lines.push('');
+	for (const type of ['index', 'view', 'trigger']) {
+		for (const object of created.filter(
+			(item) => item.type === type,
+		)) {
+			lines.push(`${object.sql};`);
+		}
+	}
+
+	lines.push('', 'COMMIT;', 'PRAGMA foreign_keys=ON;');
+	return lines.join('\n');
+}
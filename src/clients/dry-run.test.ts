@@ -0,0 +1,157 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import { preview_drop_table, preview_write } from './dry-run.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+const db_path = join(root, 'preview.db');
+
+function database() {
+	return open_database(db_path, true);
+}
+
+database().exec(`
+	CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT);
+	CREATE TABLE books (
+		id INTEGER PRIMARY KEY,
+		author_id INTEGER REFERENCES authors (id) ON DELETE CASCADE,
+		title TEXT
+	);
+	CREATE TABLE reviews (
+		id INTEGER PRIMARY KEY,
+		book_id INTEGER REFERENCES books (id) ON DELETE SET NULL,
+		stars INTEGER
+	);
+	CREATE TABLE tags (name TEXT UNIQUE ON CONFLICT REPLACE);
+	CREATE INDEX books_author ON books (author_id);
+	CREATE TRIGGER books_touch AFTER UPDATE ON books BEGIN SELECT 1; END;
+	CREATE VIEW book_titles AS SELECT title FROM "books";
+	INSERT INTO authors VALUES (1, 'Ada'), (2, 'Grace');
+	INSERT INTO books VALUES (1, 1, 'Notes'), (2, 1, 'Sketch'), (3, 2, 'COBOL');
+	INSERT INTO reviews VALUES (1, 1, 5), (2, 3, 4);
+`);
+
+function snapshot() {
+	return ['authors', 'books', 'reviews'].map((table) =>
+		database().prepare(`SELECT * FROM ${table}`).all(),
+	);
+}
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('dry run', () => {
+	it('previews a delete with its foreign key cascades', () => {
+		const before = snapshot();
+		const preview = preview_write(
+			db_path,
+			'DELETE FROM main.authors WHERE id = ?',
+			[1],
+			1,
+		);
+
+		expect(preview).toMatchObject({
+			changes: 1,
+			rows_affected: 4,
+			target: 'authors',
+			tables: {
+				authors: { deleted: 1 },
+				books: { deleted: 2 },
+				reviews: { updated: 1 },
+			},
+			cascaded: {
+				books: { deleted: 2 },
+				reviews: { updated: 1 },
+			},
+			notes: [],
+		});
+		expect(Object.keys(preview.cascaded)).not.toContain('authors');
+		// One sample per table
+		expect(preview.samples).toHaveLength(3);
+		expect(preview.samples).toContainEqual({
+			table: 'reviews',
+			operation: 'update',
+			rowid: 1,
+			before: { id: 1, book_id: 1, stars: 5 },
+			after: { id: 1, book_id: null, stars: 5 },
+		});
+		expect(snapshot()).toEqual(before);
+	});
+
+	it('notes rows REPLACE may delete only for conflict resolution', () => {
+		const replaced =
+			'Rows that REPLACE deletes to resolve conflicts are not listed';
+		expect(
+			preview_write(
+				db_path,
+				"UPDATE books SET title = replace(title, 'o', '0')",
+			).notes,
+		).toEqual([]);
+		expect(
+			preview_write(
+				db_path,
+				"INSERT OR REPLACE INTO authors VALUES (1, 'Ada L')",
+			).notes,
+		).toEqual([replaced]);
+		expect(
+			preview_write(db_path, "INSERT INTO tags VALUES ('math')")
+				.notes,
+		).toEqual([replaced]);
+	});
+
+	it('refuses statements it cannot preview and rolls back failures', () => {
+		expect(() =>
+			preview_write(db_path, 'CREATE TABLE other (id)'),
+		).toThrow(/dry_run previews INSERT, UPDATE and DELETE/);
+		expect(() =>
+			preview_write(db_path, 'INSERT INTO books VALUES (1, 1, ?)', [
+				'Duplicate',
+			]),
+		).toThrow(/UNIQUE constraint failed/);
+		expect(database().inTransaction).toBe(false);
+	});
+
+	it('previews dropping a table', () => {
+		const preview = preview_drop_table(db_path, 'BOOKS', 2);
+
+		expect(preview).toMatchObject({
+			table: 'books',
+			rows: 3,
+			rows_affected: 5,
+			indexes: ['books_author'],
+			triggers: ['books_touch'],
+			dependent_views: ['book_titles'],
+			tables: {
+				books: { deleted: 3 },
+				reviews: { updated: 2 },
+			},
+			cascaded: { reviews: { updated: 2 } },
+		});
+		expect(preview.samples.map((sample) => sample.table)).toEqual([
+			'books',
+			'books',
+			'reviews',
+			'reviews',
+		]);
+		expect(
+			database()
+				.prepare(
+					"SELECT name FROM sqlite_master WHERE name = 'books'",
+				)
+				.get(),
+		).toEqual({ name: 'books' });
+		expect(() => preview_drop_table(db_path, 'missing')).toThrow(
+			/Table does not exist: missing/,
+		);
+	});
+});
@@ -0,0 +1,302 @@
+/**
+ * Impact previews of destructive statements for SQLite Tools MCP server.
+ *
+ * The statement runs for real on the main connection inside a savepoint
+ * with the undo log's capture triggers installed, so the preview sees
+ * exactly the rows it (and any triggers or foreign key actions) would
+ * change. The savepoint is then rolled back.
+ */
+import Database from 'better-sqlite3';
+import {
+	ToolUsageError,
+	convert_sqlite_error,
+	with_error_handling,
+} from '../common/errors.js';
+import { quote_identifier } from '../common/sql.js';
+import { tokenise_sql } from '../common/statement-classifier.js';
+import {
+	normalise_integer,
+	normalise_integers,
+} from '../common/value-codec.js';
+import { debug_log } from '../config.js';
+import { open_database } from './connection-manager.js';
+import {
+	classify_query,
+	convert_parameters,
+} from './query-executor.js';
+import {
+	CAPTURED_STATEMENTS,
+	REPLACE_STATEMENTS,
+	RowChange,
+	capture_changes,
+	may_replace_rows,
+	statement_target,
+} from './undo-log.js';
+
+export interface ChangeCounts {
+	inserted: number;
+	updated: number;
+	deleted: number;
+}
+
+export interface ChangeSample {
+	table: string;
+	operation: RowChange['operation'];
+	rowid: number | bigint | null;
+	before?: Record<string, unknown>;
+	after?: Record<string, unknown>;
+}
+
+export interface WritePreview {
+	// Rows the statement itself changed, as SQLite reports them
+	changes: number;
+	// Every row change, including triggers and foreign key actions
+	rows_affected: number;
+	target: string | null;
+	tables: Record<string, ChangeCounts>;
+	// Changes to tables other than the target
+	cascaded: Record<string, ChangeCounts>;
+	// Up to sample_rows changes per table, in the order they were made
+	samples: ChangeSample[];
+	notes: string[];
+}
+
+export interface DropTablePreview extends Omit<
+	WritePreview,
+	'changes'
+> {
+	table: string;
+	// Rows in the table, which are dropped with it
+	rows: number;
+	indexes: string[];
+	triggers: string[];
+	// Views that mention the table, which fail once it is gone
+	dependent_views: string[];
+}
+
+// Captured images hold bigints; report them as numbers where exact
+function sample_values(
+	values: Record<string, unknown>,
+): Record<string, unknown> {
+	return normalise_integers([{ ...values }])[0]!;
+}
+
+function summarise_changes(
+	changes: RowChange[],
+	target: string | null,
+	sample_rows: number,
+): Omit<WritePreview, 'changes' | 'notes'> {
+	const tables: Record<string, ChangeCounts> = {};
+	const samples: ChangeSample[] = [];
+	for (const change of changes) {
+		const counts = (tables[change.table] ??= {
+			inserted: 0,
+			updated: 0,
+			deleted: 0,
+		});
+		const sampled = counts.inserted + counts.updated + counts.deleted;
+		if (change.operation === 'insert') counts.inserted++;
+		else if (change.operation === 'update') counts.updated++;
+		else counts.deleted++;
+
+		if (sampled < sample_rows) {
+			samples.push({
+				table: change.table,
+				operation: change.operation,
+				rowid: (change.after ?? change.before)!.rowid,
+				...(change.before
+					? { before: sample_values(change.before.values) }
+					: {}),
+				...(change.after
+					? { after: sample_values(change.after.values) }
+					: {}),
+			});
+		}
+	}
+
+	return {
+		rows_affected: changes.length,
+		target,
+		tables,
+		cascaded: Object.fromEntries(
+			Object.entries(tables).filter(
+				([table]) =>
+					table.toLowerCase() !== (target ?? '').toLowerCase(),
+			),
+		),
+		samples,
+	};
+}
+
+/**
+ * Run an INSERT, UPDATE or DELETE and roll it back, reporting the rows
+ * it would change. Statements that would fail throw as they would for
+ * execute_write_query.
+ */
+export function preview_write(
+	database_path: string,
+	query: string,
+	params: Record<string, any> | any[] = {},
+	sample_rows = 5,
+): WritePreview {
+	return with_error_handling(() => {
+		const { statement_type } = classify_query(query, database_path);
+		if (
+			!CAPTURED_STATEMENTS.has(statement_type) &&
+			!REPLACE_STATEMENTS.has(statement_type)
+		) {
+			throw new ToolUsageError(
+				`dry_run previews INSERT, UPDATE and DELETE statements (got ${statement_type || 'an empty statement'})`,
+				['Run the statement without dry_run'],
+			);
+		}
+
+		const db = open_database(database_path);
+		debug_log('Previewing write:', { query, params });
+		let captured: {
+			result: Database.RunResult;
+			changes: RowChange[];
+		};
+		try {
+			captured = capture_changes(
+				db,
+				() =>
+					db
+						.prepare(query)
+						.safeIntegers(true)
+						.run(convert_parameters(params)),
+				false,
+			);
+		} catch (error) {
+			throw convert_sqlite_error(error, database_path);
+		}
+
+		const target = statement_target(query);
+		const summary = summarise_changes(
+			captured.changes,
+			target,
+			sample_rows,
+		);
+		const notes: string[] = [];
+		if (may_replace_rows(database_path, query, statement_type)) {
+			notes.push(
+				'Rows that REPLACE deletes to resolve conflicts are not listed',
+			);
+		}
+		if (
+			captured.result.changes > 0 &&
+			!Object.keys(summary.tables).some(
+				(table) => table.toLowerCase() === target?.toLowerCase(),
+			)
+		) {
+			notes.push(
+				'Rows in WITHOUT ROWID and virtual tables are counted in changes but not listed',
+			);
+		}
+		return { changes: captured.result.changes, ...summary, notes };
+	}, 'preview_write')();
+}
+
+/**
+ * Drop a table and roll it back, reporting the rows, indexes and
+ * triggers dropped with it, views left dangling and the rows foreign
+ * key actions would change in other tables
+ */
+export function preview_drop_table(
+	database_path: string,
+	table: string,
+	sample_rows = 5,
+): DropTablePreview {
+	return with_error_handling(() => {
+		const db = open_database(database_path);
+		const found = db
+			.prepare(
+				"SELECT name, sql FROM main.sqlite_master WHERE type = 'table' AND name = ? COLLATE NOCASE",
+			)
+			.get(table) as { name: string; sql: string } | undefined;
+		if (!found) {
+			throw new ToolUsageError(`Table does not exist: ${table}`, [
+				'Use list_tables to see the tables in the database',
+			]);
+		}
+		const name = found.name;
+		const rowid = /\bWITHOUT\s+ROWID\b/i.test(found.sql)
+			? 'NULL'
+			: 'rowid';
+		const quoted = `main.${quote_identifier(name)}`;
+		debug_log('Previewing drop_table:', {
+			database_path,
+			table: name,
+		});
+
+		const views = db
+			.prepare(
+				"SELECT name, sql FROM main.sqlite_master WHERE type = 'view' ORDER BY name",
+			)
+			.all() as { name: string; sql: string }[];
+		const owned = (type: string) =>
+			(
+				db
+					.prepare(
+						'SELECT name FROM main.sqlite_master WHERE type = ? AND tbl_name = ? COLLATE NOCASE ORDER BY name',
+					)
+					.all(type, name) as { name: string }[]
+			).map((object) => object.name);
+
+		const { rows } = db
+			.prepare(`SELECT COUNT(*) AS rows FROM ${quoted}`)
+			.get() as { rows: number };
+		const table_samples = (
+			db
+				.prepare(
+					`SELECT ${rowid} AS _rowid_, * FROM ${quoted} LIMIT ?`,
+				)
+				.safeIntegers(true)
+				.all(sample_rows) as Record<string, any>[]
+		).map(({ _rowid_, ...values }) => ({
+			table: name,
+			operation: 'delete' as const,
+			rowid: _rowid_ === null ? null : normalise_integer(_rowid_),
+			before: sample_values(values),
+		}));
+
+		let changes: RowChange[];
+		try {
+			// The drop's own rows are deleted without firing triggers, so
+			// only foreign key actions on other tables are captured
+			changes = capture_changes(
+				db,
+				() => db.prepare(`DROP TABLE ${quoted}`).run(),
+				false,
+			).changes;
+		} catch (error) {
+			throw convert_sqlite_error(error, database_path);
+		}
+
+		const summary = summarise_changes(changes, name, sample_rows);
+		return {
+			table: name,
+			rows,
+			indexes: owned('index').filter(
+				(index) => !index.startsWith('sqlite_'),
+			),
+			triggers: owned('trigger'),
+			dependent_views: views
+				.filter((view) =>
+					tokenise_sql(view.sql).some(
+						(token) =>
+							token.text.toLowerCase() === name.toLowerCase(),
+					),
+				)
+				.map((view) => view.name),
+			...summary,
+			rows_affected: rows + summary.rows_affected,
+			tables: {
+				[name]: { inserted: 0, updated: 0, deleted: rows },
+				...summary.cascaded,
+			},
+			samples: [...table_samples, ...summary.samples],
+			notes: [],
+		};
+	}, 'preview_drop_table')();
+}
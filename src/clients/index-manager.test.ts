@@ -0,0 +1,131 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { ToolUsageError } from '../common/errors.js';
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import { find_index, list_indexes } from './index-manager.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+function temp_db(name: string, schema: string): string {
+	const db_path = join(root, `${name}.db`);
+	open_database(db_path, true).exec(schema);
+	return db_path;
+}
+
+describe('indexes', () => {
+	it('reports columns, origin, partial and expression indexes', () => {
+		const db_path = temp_db(
+			'indexes',
+			`CREATE TABLE users (
+				id TEXT PRIMARY KEY,
+				email TEXT UNIQUE,
+				name TEXT,
+				active INTEGER
+			);
+			CREATE INDEX users_name ON users (
+				lower(name) COLLATE NOCASE DESC,
+				"id"
+			) WHERE active = 1;
+			CREATE TABLE tags (label TEXT);
+			WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 500)
+			INSERT INTO users SELECT x, x || '@example.com', 'user ' || x, x % 2 FROM n;`,
+		);
+
+		const result = list_indexes(db_path, 'USERS');
+		expect(result).toMatchObject({
+			table: 'users',
+			size_available: true,
+		});
+		expect(result.indexes).toMatchObject([
+			{
+				name: 'sqlite_autoindex_users_1',
+				table: 'users',
+				unique: true,
+				origin: 'pk',
+				partial: false,
+				where: null,
+				columns: [
+					{ name: 'id', descending: false, collation: 'BINARY' },
+				],
+				sql: null,
+			},
+			{
+				name: 'sqlite_autoindex_users_2',
+				table: 'users',
+				unique: true,
+				origin: 'unique',
+				partial: false,
+				where: null,
+				columns: [
+					{ name: 'email', descending: false, collation: 'BINARY' },
+				],
+				sql: null,
+			},
+			{
+				name: 'users_name',
+				table: 'users',
+				unique: false,
+				origin: 'manual',
+				partial: true,
+				where: 'active = 1',
+				columns: [
+					{
+						name: null,
+						expression: 'lower(name)',
+						descending: true,
+						collation: 'NOCASE',
+					},
+					{ name: 'id', descending: false, collation: 'BINARY' },
+				],
+				sql: expect.stringContaining('CREATE INDEX users_name'),
+			},
+		]);
+		for (const index of result.indexes) {
+			expect(index.size_bytes).toBeGreaterThan(0);
+			expect(index.pages).toBeGreaterThan(0);
+		}
+	});
+
+	it('lists every table and finds indexes by name', () => {
+		const db_path = temp_db(
+			'lookup',
+			`CREATE TABLE b (x INTEGER, y INTEGER);
+			CREATE UNIQUE INDEX b_xy ON b (x, y);
+			CREATE TABLE a (x INTEGER UNIQUE);
+			CREATE VIEW v AS SELECT x FROM a;`,
+		);
+
+		expect(
+			list_indexes(db_path).indexes.map((index) => [
+				index.table,
+				index.name,
+			]),
+		).toEqual([
+			['a', 'sqlite_autoindex_a_1'],
+			['b', 'b_xy'],
+		]);
+		expect(list_indexes(db_path, 'v').indexes).toEqual([]);
+		expect(find_index(db_path, 'B_XY')).toMatchObject({
+			name: 'b_xy',
+			table: 'b',
+			unique: true,
+		});
+		expect(find_index(db_path, 'missing')).toBeNull();
+		expect(() => list_indexes(db_path, 'missing')).toThrow(
+			ToolUsageError,
+		);
+	});
+});
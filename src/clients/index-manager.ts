@@ -0,0 +1,239 @@
+/**
+ * Index inspection for SQLite Tools MCP server
+ */
+import Database from 'better-sqlite3';
+import {
+	ToolUsageError,
+	with_error_handling,
+} from '../common/errors.js';
+import {
+	index_where_clause,
+	split_table_definition,
+} from '../common/schema-sql.js';
+import { quote_identifier } from '../common/sql.js';
+import { open_database } from './connection-manager.js';
+
+export type IndexOrigin = 'pk' | 'unique' | 'manual';
+
+export interface IndexColumn {
+	// null for an expression
+	name: string | null;
+	// The indexed expression as written in the index definition
+	expression?: string;
+	descending: boolean;
+	collation: string;
+}
+
+export interface IndexDetails {
+	name: string;
+	table: string;
+	unique: boolean;
+	// pk and unique indexes are created by SQLite for constraints and
+	// cannot be dropped; manual ones come from CREATE INDEX
+	origin: IndexOrigin;
+	partial: boolean;
+	where: string | null;
+	columns: IndexColumn[];
+	// null for the automatic pk and unique indexes
+	sql: string | null;
+	// From dbstat; null when it is unavailable, or for the primary key
+	// of a WITHOUT ROWID table, which is the table itself
+	size_bytes: number | null;
+	pages: number | null;
+}
+
+export interface IndexList {
+	database: string;
+	table: string | null;
+	indexes: IndexDetails[];
+	// Whether this SQLite build has the dbstat virtual table
+	size_available: boolean;
+}
+
+const INDEX_ORIGINS: Record<string, IndexOrigin> = {
+	pk: 'pk',
+	u: 'unique',
+	c: 'manual',
+};
+
+function table_names(
+	db: Database.Database,
+	table?: string,
+): string[] {
+	if (table === undefined) {
+		return db
+			.prepare(
+				"SELECT name FROM main.sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\' ORDER BY name",
+			)
+			.pluck()
+			.all() as string[];
+	}
+
+	const name = db
+		.prepare(
+			"SELECT name FROM main.sqlite_master WHERE type IN ('table', 'view') AND name = ? COLLATE NOCASE",
+		)
+		.pluck()
+		.get(table) as string | undefined;
+	if (!name) {
+		throw new ToolUsageError(`Table not found: ${table}`, [
+			'Check the table name with list_tables',
+		]);
+	}
+	return [name];
+}
+
+/**
+ * An expression column of an index definition without the sort order
+ * and collation, which are reported separately
+ */
+function index_expression(
+	part: string | undefined,
+): string | undefined {
+	return part
+		?.replace(/\s+(ASC|DESC)$/i, '')
+		.replace(/\s+COLLATE\s+("(?:[^"]|"")*"|\S+)$/i, '');
+}
+
+/**
+ * Size of an index b-tree, or null when this SQLite build has no dbstat
+ * virtual table
+ */
+function size_reader(
+	db: Database.Database,
+):
+	| ((
+			index: string,
+	  ) => { pgsize: number; pageno: number } | undefined)
+	| null {
+	try {
+		const statement = db.prepare(
+			"SELECT pgsize, pageno FROM dbstat('main') WHERE name = ? AND aggregate = 1",
+		);
+		return (index) =>
+			statement.get(index) as
+				| { pgsize: number; pageno: number }
+				| undefined;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * List the indexes of a table, or of every table, with their key
+ * columns, origin and approximate size
+ */
+export function list_indexes(
+	database_path: string,
+	table?: string,
+): IndexList {
+	return with_error_handling((): IndexList => {
+		const db = open_database(database_path);
+		const read_size = size_reader(db);
+		const index_sql = db
+			.prepare(
+				"SELECT sql FROM main.sqlite_master WHERE type = 'index' AND name = ?",
+			)
+			.pluck();
+		const tables = table_names(db, table);
+		const indexes: IndexDetails[] = [];
+
+		for (const table_name of tables) {
+			const list = db
+				.prepare(
+					`PRAGMA main.index_list(${quote_identifier(table_name)})`,
+				)
+				.all() as {
+				name: string;
+				unique: number;
+				origin: string;
+				partial: number;
+			}[];
+
+			for (const index of list) {
+				const sql =
+					(index_sql.get(index.name) as string | null) ?? null;
+				const parts = sql ? split_table_definition(sql) : [];
+				const columns = (
+					db
+						.prepare(
+							`PRAGMA main.index_xinfo(${quote_identifier(index.name)})`,
+						)
+						.all() as {
+						seqno: number;
+						cid: number;
+						name: string | null;
+						desc: number;
+						coll: string;
+						key: number;
+					}[]
+				)
+					// The rest are the rowid or primary key the index points to
+					.filter((column) => column.key === 1)
+					.map(
+						(column): IndexColumn => ({
+							name: column.name,
+							...(column.cid === -2 && {
+								expression: index_expression(parts[column.seqno]),
+							}),
+							descending: column.desc === 1,
+							collation: column.coll,
+						}),
+					);
+				const size = read_size?.(index.name);
+
+				indexes.push({
+					name: index.name,
+					table: table_name,
+					unique: index.unique === 1,
+					origin: INDEX_ORIGINS[index.origin] ?? 'manual',
+					partial: index.partial === 1,
+					where:
+						index.partial === 1 && sql
+							? index_where_clause(sql)
+							: null,
+					columns,
+					sql,
+					size_bytes: size?.pgsize ?? null,
+					pages: size?.pageno ?? null,
+				});
+			}
+		}
+
+		indexes.sort(
+			(a, b) =>
+				a.table.localeCompare(b.table) ||
+				a.name.localeCompare(b.name),
+		);
+		return {
+			database: database_path,
+			table: table === undefined ? null : tables[0]!,
+			indexes,
+			size_available: read_size !== null,
+		};
+	}, 'list_indexes')();
+}
+
+/**
+ * Look an index up by name, case-insensitively as SQLite does; null when
+ * there is none
+ */
+export function find_index(
+	database_path: string,
+	name: string,
+): IndexDetails | null {
+	return with_error_handling(() => {
+		const row = open_database(database_path)
+			.prepare(
+				"SELECT name, tbl_name FROM main.sqlite_master WHERE type = 'index' AND name = ? COLLATE NOCASE",
+			)
+			.get(name) as { name: string; tbl_name: string } | undefined;
+		if (!row) return null;
+
+		return (
+			list_indexes(database_path, row.tbl_name).indexes.find(
+				(index) => index.name === row.name,
+			) ?? null
+		);
+	}, 'find_index')();
+}
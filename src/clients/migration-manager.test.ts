@@ -0,0 +1,199 @@
+import {
+	appendFileSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import {
+	PathSecurityError,
+	ToolUsageError,
+} from '../common/errors.js';
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import {
+	create_migration,
+	migrate_down,
+	migrate_up,
+	migration_status,
+} from './migration-manager.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+
+// Configuration is loaded lazily; keep migrations in the temp directory
+process.env['SQLITE_MIGRATIONS_PATH'] = join(root, 'migrations');
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+function temp_db(name: string): string {
+	const db_path = join(root, `${name}.db`);
+	open_database(db_path, true);
+	return db_path;
+}
+
+describe('migrations', () => {
+	it('applies pending migrations in order and records them', () => {
+		const db_path = temp_db('app');
+		const users = create_migration('Create users', {
+			directory: 'app',
+			up: 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);',
+			down: 'DROP TABLE users;',
+		});
+		create_migration('create orders', {
+			directory: 'app',
+			up: `CREATE TABLE orders (
+				id INTEGER PRIMARY KEY,
+				user_id INTEGER REFERENCES users (id) ON DELETE CASCADE
+			);
+			INSERT INTO users VALUES (1, 'ada');
+			INSERT INTO orders VALUES (1, 1);`,
+			down: 'DROP TABLE orders;',
+		});
+		// Rebuilds users; with foreign keys on, dropping it would cascade
+		create_migration('users name not null', {
+			directory: 'app',
+			up: `CREATE TABLE new_users (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+			INSERT INTO new_users SELECT id, name FROM users;
+			DROP TABLE users;
+			ALTER TABLE new_users RENAME TO users;`,
+		});
+
+		expect(users).toMatchObject({
+			version: 1,
+			id: '0001_create_users',
+		});
+		expect(readFileSync(users.up_path, 'utf8')).toContain(
+			'CREATE TABLE users',
+		);
+
+		const first = migrate_up(db_path, {
+			directory: 'app',
+			to_version: 2,
+		});
+		expect(first.migrations.map((run) => run.id)).toEqual([
+			'0001_create_users',
+			'0002_create_orders',
+		]);
+		expect(first).toMatchObject({ current_version: 2, pending: 1 });
+
+		const second = migrate_up(db_path, { directory: 'app' });
+		expect(second.migrations).toMatchObject([
+			{ version: 3, id: '0003_users_name_not_null', statements: 4 },
+		]);
+
+		const db = open_database(db_path);
+		expect(db.prepare('SELECT * FROM orders').all()).toEqual([
+			{ id: 1, user_id: 1 },
+		]);
+		expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+		expect(migration_status(db_path, 'app')).toMatchObject({
+			current_version: 3,
+			user_version: 3,
+			applied: 3,
+			pending: 0,
+			drifted: 0,
+		});
+		expect(
+			migrate_up(db_path, { directory: 'app' }).migrations,
+		).toEqual([]);
+	});
+
+	it('rolls back a failing migration and detects drift', () => {
+		const db_path = temp_db('failing');
+		create_migration('one', {
+			directory: 'failing',
+			up: 'CREATE TABLE one (x);',
+		});
+		const broken = create_migration('two', {
+			directory: 'failing',
+			up: 'CREATE TABLE two (x); INSERT INTO missing VALUES (1);',
+		});
+
+		expect(() =>
+			migrate_up(db_path, { directory: 'failing' }),
+		).toThrow(
+			/Migration 0002_two failed at statement 2 and was rolled back: .*no such table: missing.*\(applied before it: 0001_one\)/,
+		);
+		const status = migration_status(db_path, 'failing');
+		expect(
+			status.migrations.map((migration) => migration.state),
+		).toEqual(['applied', 'pending']);
+		expect(
+			open_database(db_path)
+				.prepare("SELECT name FROM sqlite_master WHERE name = 'two'")
+				.all(),
+		).toEqual([]);
+
+		writeFileSync(broken.up_path, 'CREATE TABLE two (x);');
+		migrate_up(db_path, { directory: 'failing' });
+		appendFileSync(
+			broken.up_path,
+			'\nCREATE INDEX two_x ON two (x);',
+		);
+
+		expect(migration_status(db_path, 'failing')).toMatchObject({
+			drifted: 1,
+			migrations: [
+				{ id: '0001_one', state: 'applied' },
+				{ id: '0002_two', state: 'modified' },
+			],
+		});
+		expect(() =>
+			migrate_up(db_path, { directory: 'failing' }),
+		).toThrow(
+			'Applied migration(s) changed since they ran: 0002_two (modified)',
+		);
+	});
+
+	it('reverts migrations with their down files', () => {
+		const db_path = temp_db('app');
+		expect(
+			migrate_down.bind(null, db_path, { directory: 'app' }),
+		).toThrow(
+			'Migration 0003_users_name_not_null cannot be reverted: it has no down SQL',
+		);
+
+		writeFileSync(
+			join(
+				root,
+				'migrations',
+				'app',
+				'0003_users_name_not_null.down.sql',
+			),
+			'SELECT 1;',
+		);
+		const result = migrate_down(db_path, {
+			directory: 'app',
+			to_version: 0,
+		});
+		expect(result.migrations.map((run) => run.version)).toEqual([
+			3, 2, 1,
+		]);
+		expect(result).toMatchObject({ current_version: 0, pending: 3 });
+		expect(migration_status(db_path, 'app')).toMatchObject({
+			user_version: 0,
+			applied: 0,
+		});
+
+		expect(() =>
+			create_migration('wrapped', {
+				directory: 'app',
+				up: 'BEGIN; CREATE TABLE t (x); COMMIT;',
+			}),
+		).toThrow(ToolUsageError);
+		expect(() => migration_status(db_path, '../..')).toThrow(
+			PathSecurityError,
+		);
+	});
+});
@@ -0,0 +1,699 @@
+/**
+ * Versioned migrations for SQLite Tools MCP server.
+ *
+ * Migrations are numbered `<version>_<name>.up.sql` files, each with an
+ * optional `.down.sql` file that reverts it, in the migrations directory.
+ * Applied versions are recorded in the `_migrations` table with a
+ * checksum of the up file, so edits to a migration after it ran are
+ * reported as drift, and mirrored in `PRAGMA user_version`.
+ */
+import type Database from 'better-sqlite3';
+import { createHash } from 'node:crypto';
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	readdirSync,
+	writeFileSync,
+} from 'node:fs';
+import { join, resolve } from 'node:path';
+import {
+	PathSecurityError,
+	SqliteError,
+	ToolUsageError,
+	convert_sqlite_error,
+	with_error_handling,
+} from '../common/errors.js';
+import { is_within_directory } from '../common/paths.js';
+import { split_schema_statements } from '../common/schema-sql.js';
+import { classify_sql } from '../common/statement-classifier.js';
+import { debug_log, get_config } from '../config.js';
+import { open_database } from './connection-manager.js';
+import { has_active_transaction } from './transaction-manager.js';
+
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.(up|down)\.sql$/;
+
+// PRAGMA user_version is a signed 32-bit integer
+const MAX_USER_VERSION = 2147483647;
+
+export interface MigrationFile {
+	version: number;
+	// File name without the direction, e.g. "0001_create_users"
+	id: string;
+	name: string;
+	up_path: string;
+	down_path: string | null;
+}
+
+export type MigrationState =
+	| 'applied'
+	| 'pending'
+	// Applied, but the up file changed since
+	| 'modified'
+	// Applied, but the up file no longer exists
+	| 'missing';
+
+export interface MigrationStatusEntry {
+	version: number;
+	id: string;
+	state: MigrationState;
+	applied_at?: string;
+	reversible: boolean;
+}
+
+export interface MigrationStatus {
+	database: string;
+	directory: string;
+	current_version: number;
+	user_version: number;
+	applied: number;
+	pending: number;
+	drifted: number;
+	migrations: MigrationStatusEntry[];
+}
+
+export interface MigrationRun {
+	version: number;
+	id: string;
+	statements: number;
+	time: number;
+}
+
+export interface MigrateResult {
+	database: string;
+	directory: string;
+	direction: 'up' | 'down';
+	migrations: MigrationRun[];
+	current_version: number;
+	pending: number;
+}
+
+export interface CreatedMigration {
+	version: number;
+	id: string;
+	up_path: string;
+	down_path: string;
+}
+
+interface AppliedMigration {
+	version: number;
+	name: string;
+	checksum: string;
+	applied_at: string;
+}
+
+interface MigrationPlan {
+	db: Database.Database;
+	directory: string;
+	files: MigrationFile[];
+	applied: AppliedMigration[];
+	status: MigrationStatus;
+}
+
+/**
+ * Resolve the migrations directory, or a subdirectory of it. Symlinks
+ * are followed before the containment check.
+ */
+export function resolve_migrations_path(directory?: string): string {
+	const config = get_config();
+	const resolved_path = resolve(
+		config.SQLITE_MIGRATIONS_PATH,
+		directory ?? '.',
+	);
+
+	if (
+		!is_within_directory(config.SQLITE_MIGRATIONS_PATH, resolved_path)
+	) {
+		throw new PathSecurityError(
+			`Migrations directory is outside SQLITE_MIGRATIONS_PATH (${config.SQLITE_MIGRATIONS_PATH})`,
+			directory ?? resolved_path,
+		);
+	}
+
+	return resolved_path;
+}
+
+/**
+ * Checksum of a migration file. Line endings are normalised, so a
+ * checkout with CRLF line endings is not reported as drift.
+ */
+function checksum_sql(sql: string): string {
+	return createHash('sha256')
+		.update(sql.replace(/\r\n/g, '\n'))
+		.digest('hex');
+}
+
+/**
+ * Numbered migrations in a directory, in version order
+ */
+export function list_migration_files(
+	directory: string,
+): MigrationFile[] {
+	if (!existsSync(directory)) return [];
+
+	const migrations = new Map<
+		number,
+		Omit<MigrationFile, 'up_path'> & { up_path: string | null }
+	>();
+	for (const file of readdirSync(directory).sort()) {
+		const match = MIGRATION_FILE.exec(file);
+		if (!match) continue;
+
+		const [, digits, name, direction] = match as unknown as [
+			string,
+			string,
+			string,
+			'up' | 'down',
+		];
+		const version = Number(digits);
+		if (!Number.isSafeInteger(version) || version === 0) {
+			throw new ToolUsageError(
+				`Migration ${file} needs a version from 1 to ${Number.MAX_SAFE_INTEGER}`,
+				['Rename it with create_migration numbering, e.g. 0001_name'],
+			);
+		}
+
+		const migration = migrations.get(version) ?? {
+			version,
+			id: `${digits}_${name}`,
+			name,
+			up_path: null,
+			down_path: null,
+		};
+		if (migration.name !== name) {
+			throw new ToolUsageError(
+				`Migrations ${migration.id} and ${digits}_${name} share version ${version}`,
+				['Renumber one of them so every version is unique'],
+			);
+		}
+		migration[direction === 'up' ? 'up_path' : 'down_path'] = join(
+			directory,
+			file,
+		);
+		migrations.set(version, migration);
+	}
+
+	return [...migrations.values()]
+		.sort((a, b) => a.version - b.version)
+		.map((migration) => {
+			if (!migration.up_path) {
+				throw new ToolUsageError(
+					`Migration ${migration.id} has a down file but no up file`,
+					[`Add ${migration.id}.up.sql or remove the down file`],
+				);
+			}
+			return { ...migration, up_path: migration.up_path };
+		});
+}
+
+/**
+ * Statements of a migration file, refusing those that would end the
+ * transaction the migration runs in
+ */
+function migration_statements(sql: string, label: string): string[] {
+	const statements = split_schema_statements(sql);
+	const refused = statements
+		.map((statement) => classify_sql(statement))
+		.find(
+			(classification) =>
+				classification.tool === null &&
+				classification.category !== 'unknown',
+		);
+	if (refused) {
+		throw new ToolUsageError(
+			`Migration ${label} cannot contain ${refused.statement_type}`,
+			[
+				'Each migration already runs in its own transaction with foreign keys off; remove BEGIN/COMMIT and PRAGMA foreign_keys statements (e.g. from diff_schema output)',
+				'Run VACUUM separately with vacuum_database',
+			],
+		);
+	}
+	return statements;
+}
+
+function read_applied(db: Database.Database): AppliedMigration[] {
+	const exists = db
+		.prepare(
+			"SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = '_migrations'",
+		)
+		.get();
+	if (!exists) return [];
+
+	return db
+		.prepare(
+			'SELECT version, name, checksum, applied_at FROM _migrations ORDER BY version',
+		)
+		.all() as AppliedMigration[];
+}
+
+/**
+ * Compare the migration files with the versions applied to a database
+ */
+function plan_migrations(
+	database_path: string,
+	directory?: string,
+): MigrationPlan {
+	const resolved_directory = resolve_migrations_path(directory);
+	const files = list_migration_files(resolved_directory);
+	const db = open_database(database_path);
+
+	let applied: AppliedMigration[];
+	let user_version: number;
+	try {
+		applied = read_applied(db);
+		user_version = db.pragma('user_version', {
+			simple: true,
+		}) as number;
+	} catch (error) {
+		throw convert_sqlite_error(error, database_path);
+	}
+
+	const files_by_version = new Map(
+		files.map((file) => [file.version, file]),
+	);
+	const applied_by_version = new Map(
+		applied.map((migration) => [migration.version, migration]),
+	);
+	const versions = [
+		...new Set([
+			...files_by_version.keys(),
+			...applied_by_version.keys(),
+		]),
+	].sort((a, b) => a - b);
+
+	const migrations = versions.map((version): MigrationStatusEntry => {
+		const file = files_by_version.get(version);
+		const record = applied_by_version.get(version);
+		const entry: MigrationStatusEntry = {
+			version,
+			id: file?.id ?? `${version}_${record!.name}`,
+			state: 'pending',
+			reversible: !!file?.down_path,
+		};
+		if (record) {
+			entry.applied_at = record.applied_at;
+			entry.state = !file
+				? 'missing'
+				: checksum_sql(readFileSync(file.up_path, 'utf8')) ===
+					  record.checksum
+					? 'applied'
+					: 'modified';
+		}
+		return entry;
+	});
+
+	const count = (...states: MigrationState[]) =>
+		migrations.filter((migration) => states.includes(migration.state))
+			.length;
+
+	return {
+		db,
+		directory: resolved_directory,
+		files,
+		applied,
+		status: {
+			database: database_path,
+			directory: resolved_directory,
+			current_version: applied.at(-1)?.version ?? 0,
+			user_version,
+			applied: applied.length,
+			pending: count('pending'),
+			drifted: count('modified', 'missing'),
+			migrations,
+		},
+	};
+}
+
+/**
+ * Refuse to migrate while applied migrations differ from their files,
+ * or while a transaction tool holds the database
+ */
+function assert_can_migrate(plan: MigrationPlan): void {
+	const drifted = plan.status.migrations.filter(
+		(migration) =>
+			migration.state === 'modified' || migration.state === 'missing',
+	);
+	if (drifted.length > 0) {
+		throw new ToolUsageError(
+			`Applied migration(s) changed since they ran: ${drifted.map((migration) => `${migration.id} (${migration.state})`).join(', ')}`,
+			[
+				'Restore the applied files from version control',
+				'Put further schema changes in a new migration with create_migration',
+				'Check migration_status for the state of every migration',
+			],
+		);
+	}
+	if (has_active_transaction(plan.status.database)) {
+		throw new ToolUsageError(
+			'Migrations run in their own transactions and cannot run inside an open transaction',
+			['Commit or roll back the transaction first'],
+		);
+	}
+}
+
+/**
+ * Run one migration in a transaction with foreign keys off, so table
+ * rebuilds do not cascade, checking foreign keys before it commits.
+ * `record` updates `_migrations` in the same transaction.
+ */
+function run_migration(
+	db: Database.Database,
+	database_path: string,
+	label: string,
+	statements: string[],
+	record: () => void,
+): number {
+	const start_time = Date.now();
+	const foreign_keys = db.pragma('foreign_keys', { simple: true });
+
+	try {
+		// PRAGMA foreign_keys has no effect inside a transaction
+		db.pragma('foreign_keys = OFF');
+		db.exec('BEGIN IMMEDIATE');
+	} catch (error) {
+		db.pragma(`foreign_keys = ${foreign_keys ? 'ON' : 'OFF'}`);
+		throw convert_sqlite_error(error, database_path);
+	}
+
+	try {
+		statements.forEach((statement, index) => {
+			try {
+				db.exec(statement);
+			} catch (error) {
+				const sqlite_error = convert_sqlite_error(
+					error,
+					database_path,
+				);
+				throw new SqliteError(
+					`Migration ${label} failed at statement ${index + 1} and was rolled back: ${sqlite_error.message}`,
+					sqlite_error.code,
+					sqlite_error.errno,
+					database_path,
+				);
+			}
+		});
+
+		if (foreign_keys) {
+			const violations = db.pragma('foreign_key_check') as Array<{
+				table: string;
+				parent: string;
+			}>;
+			if (violations.length > 0) {
+				const tables = [
+					...new Set(
+						violations.map(
+							(violation) =>
+								`${violation.table} -> ${violation.parent}`,
+						),
+					),
+				];
+				throw new ToolUsageError(
+					`Migration ${label} was rolled back: it leaves ${violations.length} row(s) violating foreign keys (${tables.join(', ')})`,
+					[
+						'Delete or fix the orphaned rows in the migration',
+						'Run PRAGMA foreign_key_check to list them',
+					],
+				);
+			}
+		}
+
+		record();
+		const current_version = db
+			.prepare('SELECT coalesce(max(version), 0) FROM _migrations')
+			.pluck()
+			.get() as number;
+		if (current_version <= MAX_USER_VERSION) {
+			db.pragma(`user_version = ${current_version}`);
+		}
+		db.exec('COMMIT');
+	} catch (error) {
+		if (db.inTransaction) db.exec('ROLLBACK');
+		if (
+			error instanceof SqliteError ||
+			error instanceof ToolUsageError
+		)
+			throw error;
+		throw convert_sqlite_error(error, database_path);
+	} finally {
+		db.pragma(`foreign_keys = ${foreign_keys ? 'ON' : 'OFF'}`);
+	}
+
+	return Date.now() - start_time;
+}
+
+/**
+ * Applied and pending migrations of a database, with drift
+ */
+export function migration_status(
+	database_path: string,
+	directory?: string,
+): MigrationStatus {
+	return with_error_handling(
+		() => plan_migrations(database_path, directory).status,
+		'migration_status',
+	)();
+}
+
+/**
+ * Apply pending migrations in version order, each in its own
+ * transaction, up to and including `to_version` when given. A failing
+ * migration is rolled back and stops the run; those before it stay
+ * applied.
+ */
+export function migrate_up(
+	database_path: string,
+	options: { directory?: string; to_version?: number } = {},
+): MigrateResult {
+	return with_error_handling((): MigrateResult => {
+		const plan = plan_migrations(database_path, options.directory);
+		assert_can_migrate(plan);
+
+		const applied_versions = new Set(
+			plan.applied.map((migration) => migration.version),
+		);
+		const pending = plan.files.filter(
+			(file) => !applied_versions.has(file.version),
+		);
+		const selected = pending
+			.filter(
+				(file) =>
+					options.to_version === undefined ||
+					file.version <= options.to_version,
+			)
+			.map((file) => {
+				const sql = readFileSync(file.up_path, 'utf8');
+				const statements = migration_statements(sql, file.id);
+				if (statements.length === 0) {
+					throw new ToolUsageError(
+						`Migration ${file.id} has no SQL statements`,
+						[`Write the schema changes in ${file.up_path}`],
+					);
+				}
+				return { file, statements, checksum: checksum_sql(sql) };
+			});
+
+		debug_log('Applying migrations:', {
+			database_path,
+			directory: plan.directory,
+			migrations: selected.map(({ file }) => file.id),
+		});
+
+		const runs: MigrationRun[] = [];
+		for (const { file, statements, checksum } of selected) {
+			try {
+				const time = run_migration(
+					plan.db,
+					database_path,
+					file.id,
+					statements,
+					() => {
+						plan.db.exec(`CREATE TABLE IF NOT EXISTS _migrations (
+	version INTEGER PRIMARY KEY,
+	name TEXT NOT NULL,
+	checksum TEXT NOT NULL,
+	applied_at TEXT NOT NULL
+)`);
+						plan.db
+							.prepare(
+								'INSERT INTO _migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)',
+							)
+							.run(
+								file.version,
+								file.name,
+								checksum,
+								new Date().toISOString(),
+							);
+					},
+				);
+				runs.push({
+					version: file.version,
+					id: file.id,
+					statements: statements.length,
+					time,
+				});
+			} catch (error) {
+				if (runs.length > 0 && error instanceof Error) {
+					error.message += ` (applied before it: ${runs.map((run) => run.id).join(', ')})`;
+				}
+				throw error;
+			}
+		}
+
+		return {
+			database: database_path,
+			directory: plan.directory,
+			direction: 'up',
+			migrations: runs,
+			current_version: Math.max(
+				plan.status.current_version,
+				...runs.map((run) => run.version),
+			),
+			pending: pending.length - runs.length,
+		};
+	}, 'migrate_up')();
+}
+
+/**
+ * Revert the latest applied migrations with their down files, newest
+ * first: `steps` of them (default 1), or every one above `to_version`
+ */
+export function migrate_down(
+	database_path: string,
+	options: {
+		directory?: string;
+		steps?: number;
+		to_version?: number;
+	} = {},
+): MigrateResult {
+	return with_error_handling((): MigrateResult => {
+		const plan = plan_migrations(database_path, options.directory);
+		assert_can_migrate(plan);
+
+		const files_by_version = new Map(
+			plan.files.map((file) => [file.version, file]),
+		);
+		const newest_first = [...plan.applied].reverse();
+		const selected = (
+			options.to_version === undefined
+				? newest_first.slice(0, options.steps ?? 1)
+				: newest_first.filter(
+						(migration) => migration.version > options.to_version!,
+					)
+		).map((migration) => {
+			// Drift was ruled out, so every applied migration has a file
+			const file = files_by_version.get(migration.version)!;
+			const statements = file.down_path
+				? migration_statements(
+						readFileSync(file.down_path, 'utf8'),
+						`${file.id} (down)`,
+					)
+				: [];
+			if (statements.length === 0) {
+				throw new ToolUsageError(
+					`Migration ${file.id} cannot be reverted: it has no down SQL`,
+					[
+						`Write the statements that undo it in ${file.down_path ?? join(plan.directory, `${file.id}.down.sql`)}`,
+					],
+				);
+			}
+			return { file, statements };
+		});
+
+		debug_log('Reverting migrations:', {
+			database_path,
+			directory: plan.directory,
+			migrations: selected.map(({ file }) => file.id),
+		});
+
+		const runs: MigrationRun[] = [];
+		for (const { file, statements } of selected) {
+			try {
+				const time = run_migration(
+					plan.db,
+					database_path,
+					`${file.id} (down)`,
+					statements,
+					() => {
+						plan.db
+							.prepare('DELETE FROM _migrations WHERE version = ?')
+							.run(file.version);
+					},
+				);
+				runs.push({
+					version: file.version,
+					id: file.id,
+					statements: statements.length,
+					time,
+				});
+			} catch (error) {
+				if (runs.length > 0 && error instanceof Error) {
+					error.message += ` (reverted before it: ${runs.map((run) => run.id).join(', ')})`;
+				}
+				throw error;
+			}
+		}
+
+		const reverted = new Set(runs.map((run) => run.version));
+		const remaining = plan.applied.filter(
+			(migration) => !reverted.has(migration.version),
+		);
+		return {
+			database: database_path,
+			directory: plan.directory,
+			direction: 'down',
+			migrations: runs,
+			current_version: remaining.at(-1)?.version ?? 0,
+			pending: plan.status.pending + runs.length,
+		};
+	}, 'migrate_down')();
+}
+
+/**
+ * Create the up and down files of a new migration, numbered after the
+ * latest one in the directory
+ */
+export function create_migration(
+	name: string,
+	options: { directory?: string; up?: string; down?: string } = {},
+): CreatedMigration {
+	return with_error_handling(() => {
+		const slug = name
+			.trim()
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '_')
+			.replace(/^_+|_+$/g, '');
+		if (!slug) {
+			throw new ToolUsageError(
+				'Migration name needs at least one letter or digit',
+				['Describe the change, e.g. "add_users_email"'],
+			);
+		}
+
+		const directory = resolve_migrations_path(options.directory);
+		const version =
+			(list_migration_files(directory).at(-1)?.version ?? 0) + 1;
+		const id = `${String(version).padStart(4, '0')}_${slug}`;
+
+		// Catch statements the migration could never run now, not later
+		if (options.up) migration_statements(options.up, id);
+		if (options.down)
+			migration_statements(options.down, `${id} (down)`);
+
+		const up_path = join(directory, `${id}.up.sql`);
+		const down_path = join(directory, `${id}.down.sql`);
+		mkdirSync(directory, { recursive: true });
+		writeFileSync(
+			up_path,
+			`-- Migration ${id}: runs in one transaction with foreign keys off\n${options.up?.trim() ?? ''}\n`,
+			{ flag: 'wx' },
+		);
+		writeFileSync(
+			down_path,
+			`-- Reverts migration ${id}\n${options.down?.trim() ?? ''}\n`,
+			{ flag: 'wx' },
+		);
+
+		debug_log('Created migration:', { id, up_path, down_path });
+		return { version, id, up_path, down_path };
+	}, 'create_migration')();
+}
@@ -49,11 +49,11 @@ describe('query executor', () => {
 		).toThrow(/contains more than one statement/);
 	});
 
-	it('quotes generated identifier SQL for bulk inserts', () => {
+	it('quotes generated identifier SQL for bulk inserts', async () => {
 		const db_path = temp_db();
 		execute_query(db_path, 'CREATE TABLE "odd; table" ("a""b" TEXT)');
 
-		const result = bulk_insert(db_path, 'odd; table', [
+		const result = await bulk_insert(db_path, 'odd; table', [
 			{ 'a"b': 'ok' },
 		]);
 		expect(result.inserted).toBe(1);
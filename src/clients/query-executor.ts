@@ -10,22 +10,42 @@ import {
 	QueryResult,
 	TableInfo,
 } from '../common/types.js';
+import { quote_identifier } from '../common/sql.js';
 import {
-	looks_like_read_query,
-	quote_identifier,
-} from '../common/sql.js';
+	StatementClassification,
+	classify_sql,
+	creates_temp_object,
+} from '../common/statement-classifier.js';
+import {
+	decode_value,
+	normalise_integer,
+} from '../common/value-codec.js';
 import { debug_log } from '../config.js';
-import { open_database } from './connection-manager.js';
+import {
+	has_connection_state,
+	mark_connection_state,
+	open_database,
+	validate_database_path,
+} from './connection-manager.js';
 import { has_active_transaction } from './transaction-manager.js';
+import {
+	InsertRowsResult,
+	run_exec_in_pool,
+	run_insert_in_pool,
+	run_write_in_pool,
+	with_writer_held,
+	worker_pool_enabled,
+} from './worker-pool.js';
 
 /**
- * Convert parameters to the format expected by better-sqlite3
+ * Convert parameters to the format expected by better-sqlite3, decoding
+ * tagged blob and integer values (see value-codec.ts)
  */
-function convert_parameters(
+export function convert_parameters(
 	params: Record<string, any> | any[],
 ): any {
 	if (Array.isArray(params)) {
-		return params;
+		return params.map(decode_value);
 	}
 
 	if (!params || Object.keys(params).length === 0) {
@@ -43,14 +63,66 @@ function convert_parameters(
 
 		for (const [key, value] of Object.entries(params)) {
 			const index = parseInt(key) - 1; // Convert 1-based to 0-based indexing
-			param_array[index] = value;
+			param_array[index] = decode_value(value);
 		}
 
 		return param_array;
 	}
 
-	// Return as-is for named parameters
-	return params;
+	return Object.fromEntries(
+		Object.entries(params).map(([key, value]) => [
+			key,
+			decode_value(value),
+		]),
+	);
+}
+
+/**
+ * Whether a call must run on the main connection: when the worker pool is
+ * disabled, inside an open transaction so it sees (and joins) the
+ * uncommitted changes, or once the connection holds TEMP objects or
+ * pragma settings that other connections lack
+ */
+export function use_main_connection(database_path: string): boolean {
+	return (
+		!worker_pool_enabled() ||
+		has_active_transaction(database_path) ||
+		has_connection_state(database_path)
+	);
+}
+
+/**
+ * Whether a statement changes state that only the connection running it
+ * keeps: PRAGMA assignments and TEMP objects
+ */
+export function changes_connection_state(
+	query: string,
+	database_path: string,
+): boolean {
+	return (
+		classify_query(query, database_path).statement_type ===
+			'PRAGMA ASSIGNMENT' || creates_temp_object(query)
+	);
+}
+
+/**
+ * Run a synchronous write that needs the main connection (scripts,
+ * captured writes, dry runs, table rebuilds, migrations, transaction
+ * control) between the
+ * jobs of the database's writer thread, so only one connection writes
+ * at a time and the main thread never waits on the writer's lock.
+ * Inside an open transaction, or without workers, every write already
+ * uses the main connection and it runs straight away.
+ */
+export async function run_on_main_connection<T>(
+	database_path: string,
+	write: () => T,
+): Promise<T> {
+	if (use_main_connection(database_path)) return write();
+	return with_writer_held(
+		validate_database_path(database_path),
+		write,
+	);
 }
 
 /**
@@ -67,15 +139,16 @@ export function execute_query(
 		try {
 			debug_log('Executing query:', { query, params });
 
-			// Prepare and execute the statement
-			const stmt = db.prepare(query);
+			// Prepare and execute the statement. Safe integers keep large
+			// rowids exact.
+			const stmt = db.prepare(query).safeIntegers(true);
 			const converted_params = convert_parameters(params);
 			const result = stmt.run(converted_params);
 
 			return {
 				rows: [],
 				changes: result.changes,
-				last_insert_rowid: result.lastInsertRowid,
+				last_insert_rowid: normalise_integer(result.lastInsertRowid),
 			};
 		} catch (error) {
 			throw convert_sqlite_error(error, database_path);
@@ -118,6 +191,51 @@ export function execute_select_query(
 	}, 'execute_select_query')();
 }
 
+/**
+ * Execute a modifying statement on the database's writer thread, so a
+ * long write does not block other requests. Inside an open transaction,
+ * with the worker pool disabled, or when the statement or an earlier one
+ * changed connection state (see changes_connection_state), it runs on
+ * the main connection like execute_query.
+ */
+export async function execute_write_query(
+	database_path: string,
+	query: string,
+	params: Record<string, any> | any[] = {},
+): Promise<QueryResult> {
+	if (changes_connection_state(query, database_path)) {
+		// The main connection serves every later call, so the state it
+		// gains has to be made there
+		return run_on_main_connection(database_path, () => {
+			const result = execute_query(database_path, query, params);
+			mark_connection_state(database_path);
+			return result;
+		});
+	}
+	if (use_main_connection(database_path)) {
+		return execute_query(database_path, query, params);
+	}
+
+	// Validates the path and reports a missing file as the main path does
+	open_database(database_path);
+	try {
+		debug_log('Executing query on writer:', { query, params });
+		const result = await run_write_in_pool(
+			validate_database_path(database_path),
+			query,
+			convert_parameters(params),
+		);
+
+		return {
+			rows: [],
+			changes: result.changes,
+			last_insert_rowid: normalise_integer(result.last_insert_rowid),
+		};
+	} catch (error) {
+		throw convert_sqlite_error(error, database_path);
+	}
+}
+
 /**
  * List all tables in the database
  */
@@ -150,19 +268,48 @@ export function describe_table(
 }
 
 /**
- * Vacuum the database to optimize storage
+ * Vacuum the database to optimize storage, on its writer thread
  */
-export function vacuum_database(database_path: string): void {
-	return with_error_handling(() => {
-		const db = open_database(database_path);
+export async function vacuum_database(
+	database_path: string,
+): Promise<void> {
+	const db = open_database(database_path);
 
-		try {
-			debug_log('Vacuuming database:', database_path);
+	try {
+		debug_log('Vacuuming database:', database_path);
+		if (use_main_connection(database_path)) {
 			db.exec('VACUUM');
-		} catch (error) {
-			throw convert_sqlite_error(error, database_path);
+		} else {
+			await run_exec_in_pool(
+				validate_database_path(database_path),
+				'VACUUM',
+			);
+		}
+	} catch (error) {
+		throw convert_sqlite_error(error, database_path);
+	}
+}
+
+/**
+ * Classify a statement (see statement-classifier.ts), preparing it on the
+ * database's connection so SQLite's readonly flag can refine the result.
+ * SQL that fails to prepare (a missing table, say) is classified from its
+ * keywords alone, so it still reaches the right tool and SQLite reports
+ * the actual error when it runs.
+ */
+export function classify_query(
+	query: string,
+	database_path?: string,
+): StatementClassification {
+	let readonly: boolean | null = null;
+	if (database_path) {
+		try {
+			readonly = open_database(database_path).prepare(query).readonly;
+		} catch {
+			readonly = null;
 		}
-	}, 'vacuum_database')();
+	}
+	return classify_sql(query, readonly);
 }
 
 /**
@@ -172,50 +319,114 @@ export function is_read_only_query(
 	query: string,
 	database_path?: string,
 ): boolean {
-	if (!looks_like_read_query(query)) return false;
-
-	if (!database_path) return true;
-
-	try {
-		const db = open_database(database_path);
-		return db.prepare(query).readonly;
-	} catch {
-		// Keep routing invalid read-looking SQL to the read path so SQLite can
-		// produce the actual syntax/table error during execution.
-		return looks_like_read_query(query);
-	}
+	return classify_query(query, database_path).category === 'read';
 }
 
 /**
  * Check if a query is a schema modification
  */
 export function is_schema_query(query: string): boolean {
-	const normalized_query = query.trim().toLowerCase();
+	return classify_sql(query).category === 'schema';
+}
 
-	return (
-		normalized_query.startsWith('create') ||
-		normalized_query.startsWith('drop') ||
-		normalized_query.startsWith('alter')
-	);
+/**
+ * Insert rows with one prepared INSERT statement, on the database's writer
+ * thread. The rows are inserted atomically unless continue_on_error is
+ * set, in which case failing rows are counted and the first `max_errors`
+ * of them reported. Inside an open transaction they join it on the main
+ * connection instead.
+ */
+export async function insert_rows(
+	database_path: string,
+	insert_sql: string,
+	rows: unknown[][],
+	options: { continue_on_error?: boolean; max_errors?: number } = {},
+): Promise<InsertRowsResult> {
+	const continue_on_error = options.continue_on_error ?? false;
+	const max_errors = options.max_errors ?? 0;
+	const db = open_database(database_path);
+
+	try {
+		if (!use_main_connection(database_path)) {
+			return await run_insert_in_pool(
+				validate_database_path(database_path),
+				insert_sql,
+				rows,
+				{ continue_on_error, max_errors },
+			);
+		}
+
+		const stmt = db.prepare(insert_sql);
+		const result: InsertRowsResult = {
+			inserted: 0,
+			failed: 0,
+			errors: [],
+		};
+
+		const use_transaction = !has_active_transaction(database_path);
+		if (use_transaction) {
+			db.exec('BEGIN');
+		}
+
+		try {
+			rows.forEach((values, index) => {
+				try {
+					if (stmt.run(values).changes > 0) result.inserted++;
+				} catch (error) {
+					if (!continue_on_error) throw error;
+					result.failed++;
+					if (result.errors.length < max_errors) {
+						result.errors.push({
+							index,
+							message:
+								error instanceof Error
+									? error.message
+									: String(error),
+						});
+					}
+				}
+			});
+
+			if (use_transaction) {
+				db.exec('COMMIT');
+			}
+		} catch (error) {
+			if (use_transaction) {
+				try {
+					db.exec('ROLLBACK');
+				} catch (rollback_error) {
+					debug_log('Error during rollback:', rollback_error);
+				}
+			}
+			throw error;
+		}
+
+		return result;
+	} catch (error) {
+		throw convert_sqlite_error(error, database_path);
+	}
 }
 
 /**
  * Bulk insert data into a table efficiently
  */
-export function bulk_insert(
+export async function bulk_insert(
 	database_path: string,
 	table: string,
 	data: Record<string, any>[],
 	batch_size: number = 1000,
-): { inserted: number; batches: number; total_time: number } {
-	return with_error_handling(() => {
+): Promise<{
+	inserted: number;
+	batches: number;
+	total_time: number;
+}> {
+	const start_time = Date.now();
+
+	const { insert_sql, rows } = with_error_handling(() => {
 		if (!data || data.length === 0) {
 			throw new Error('No data provided for bulk insert');
 		}
 
-		const start_time = Date.now();
-		const db = open_database(database_path);
-
 		// Get column names from the first record
 		const columns = Object.keys(data[0]);
 		if (columns.length === 0) {
@@ -225,86 +436,46 @@ export function bulk_insert(
 		// Build the INSERT SQL with placeholders
 		const placeholders = columns.map(() => '?').join(', ');
 		const column_list = columns.map(quote_identifier).join(', ');
-		const insert_sql = `INSERT INTO ${quote_identifier(table)} (${column_list}) VALUES (${placeholders})`;
-
-		try {
-			debug_log('Bulk insert starting:', {
-				table,
-				records: data.length,
-				batch_size,
-				columns: columns.length,
-			});
-
-			// Prepare the statement once
-			const stmt = db.prepare(insert_sql);
-			let inserted = 0;
-			let batch_count = 0;
-
-			// Use transaction for better performance
-			const use_transaction = !has_active_transaction(database_path);
-			if (use_transaction) {
-				db.exec('BEGIN');
-			}
-
-			try {
-				// Process data in batches
-				for (let i = 0; i < data.length; i += batch_size) {
-					const batch = data.slice(i, i + batch_size);
-					batch_count++;
-
-					for (const record of batch) {
-						// Ensure all required columns are present
-						const values = columns.map((col) => {
-							if (!(col in record)) {
-								throw new Error(
-									`Missing column '${col}' in record ${inserted + 1}`,
-								);
-							}
-							return record[col];
-						});
 
-						const result = stmt.run(values);
-						if (result.changes > 0) {
-							inserted++;
-						}
-					}
-
-					debug_log('Completed batch:', {
-						batch: batch_count,
-						batch_size: batch.length,
-						total_inserted: inserted,
-					});
-				}
-
-				if (use_transaction) {
-					db.exec('COMMIT');
+		// Ensure all required columns are present
+		const rows = data.map((record, index) =>
+			columns.map((col) => {
+				if (!(col in record)) {
+					throw new Error(
+						`Missing column '${col}' in record ${index + 1}`,
+					);
 				}
+				return decode_value(record[col]);
+			}),
+		);
 
-				const total_time = Date.now() - start_time;
-
-				debug_log('Bulk insert completed:', {
-					table,
-					inserted,
-					batches: batch_count,
-					total_time,
-					records_per_second: Math.round(
-						(inserted / total_time) * 1000,
-					),
-				});
-
-				return { inserted, batches: batch_count, total_time };
-			} catch (error) {
-				if (use_transaction) {
-					try {
-						db.exec('ROLLBACK');
-					} catch (rollback_error) {
-						debug_log('Error during rollback:', rollback_error);
-					}
-				}
-				throw error;
-			}
-		} catch (error) {
-			throw convert_sqlite_error(error, database_path);
-		}
+		return {
+			insert_sql: `INSERT INTO ${quote_identifier(table)} (${column_list}) VALUES (${placeholders})`,
+			rows,
+		};
 	}, 'bulk_insert')();
+
+	debug_log('Bulk insert starting:', {
+		table,
+		records: data.length,
+		batch_size,
+	});
+
+	const { inserted } = await insert_rows(
+		database_path,
+		insert_sql,
+		rows,
+	);
+	const batches = Math.ceil(data.length / batch_size);
+	const total_time = Date.now() - start_time;
+
+	debug_log('Bulk insert completed:', {
+		table,
+		inserted,
+		batches,
+		total_time,
+		records_per_second: Math.round((inserted / total_time) * 1000),
+	});
+
+	return { inserted, batches, total_time };
 }
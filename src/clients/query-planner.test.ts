@@ -0,0 +1,102 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { ToolUsageError } from '../common/errors.js';
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import { explain_query } from './query-planner.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+const db_path = join(root, 'plans.db');
+
+open_database(db_path, true).exec(`
+	CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, name TEXT);
+	CREATE TABLE orders (
+		id INTEGER PRIMARY KEY,
+		user_id INTEGER,
+		status TEXT,
+		total REAL
+	);
+	CREATE INDEX ix_users_email ON users (email);
+`);
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('explain_query', () => {
+	it('renders the plan and suggests an index for a full table scan', () => {
+		const analysis = explain_query(
+			db_path,
+			'SELECT u.name, o.total FROM users u JOIN orders AS o ON o.user_id = u.id WHERE o.status = ? AND o.total > 10',
+			{ 1: 'paid' },
+		);
+
+		expect(analysis.plan_text).toBe(
+			[
+				'QUERY PLAN',
+				'|--SCAN o',
+				'`--SEARCH u USING INTEGER PRIMARY KEY (rowid=?)',
+			].join('\n'),
+		);
+		expect(analysis.plan).toHaveLength(2);
+		expect(analysis.issues).toEqual([
+			expect.objectContaining({
+				type: 'full_table_scan',
+				table: 'orders',
+			}),
+		]);
+		expect(analysis.suggestions).toEqual([
+			expect.objectContaining({
+				table: 'orders',
+				columns: ['user_id', 'status', 'total'],
+				sql: 'CREATE INDEX "idx_orders_user_id_status_total" ON "orders" ("user_id", "status", "total")',
+			}),
+		]);
+		expect(analysis.existing_indexes['users']).toEqual([
+			expect.objectContaining({
+				name: 'ix_users_email',
+				columns: ['email'],
+				origin: 'c',
+			}),
+		]);
+	});
+
+	it('flags sorting in a temporary B-tree and skips indexes that exist', () => {
+		const sorted = explain_query(
+			db_path,
+			"SELECT * FROM users WHERE email = 'a@example.com' ORDER BY name",
+		);
+		expect(sorted.issues.map((issue) => issue.type)).toEqual([
+			'temp_btree',
+		]);
+		expect(sorted.suggestions[0]?.columns).toEqual(['email', 'name']);
+
+		const covered = explain_query(
+			db_path,
+			'SELECT * FROM users NOT INDEXED WHERE email = ?',
+			{ 1: 'a@example.com' },
+		);
+		expect(covered.issues.map((issue) => issue.type)).toEqual([
+			'full_table_scan',
+		]);
+		expect(covered.suggestions).toEqual([]);
+		expect(covered.notes[0]).toContain('ix_users_email');
+	});
+
+	it('refuses statements it cannot plan', () => {
+		expect(() =>
+			explain_query(db_path, 'EXPLAIN QUERY PLAN SELECT 1'),
+		).toThrow(ToolUsageError);
+		expect(() => explain_query(db_path, 'DROP TABLE orders')).toThrow(
+			ToolUsageError,
+		);
+	});
+});
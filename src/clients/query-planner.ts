@@ -0,0 +1,646 @@
+/**
+ * Query plan analysis for SQLite Tools MCP server
+ */
+import {
+	ToolUsageError,
+	with_error_handling,
+} from '../common/errors.js';
+import {
+	quote_identifier,
+	trim_trailing_semicolon,
+} from '../common/sql.js';
+import {
+	SqlToken,
+	tokenise_sql,
+} from '../common/statement-classifier.js';
+import { debug_log } from '../config.js';
+import { open_database } from './connection-manager.js';
+import {
+	classify_query,
+	convert_parameters,
+} from './query-executor.js';
+
+export interface PlanNode {
+	id: number;
+	parent: number;
+	detail: string;
+	children: PlanNode[];
+}
+
+export type PlanIssueType =
+	| 'full_table_scan'
+	| 'temp_btree'
+	| 'automatic_index';
+
+export interface PlanIssue {
+	type: PlanIssueType;
+	detail: string;
+	table?: string;
+	message: string;
+}
+
+export interface IndexSuggestion {
+	table: string;
+	columns: string[];
+	sql: string;
+	reason: string;
+}
+
+export interface ExistingIndex {
+	name: string;
+	// null for an expression column
+	columns: (string | null)[];
+	unique: boolean;
+	partial: boolean;
+	// 'c' for CREATE INDEX, 'u' for UNIQUE and 'pk' for PRIMARY KEY
+	origin: string;
+}
+
+export interface QueryPlanAnalysis {
+	plan: PlanNode[];
+	plan_text: string;
+	issues: PlanIssue[];
+	suggestions: IndexSuggestion[];
+	existing_indexes: Record<string, ExistingIndex[]>;
+	notes: string[];
+}
+
+interface ColumnReference {
+	qualifier: string | null;
+	column: string;
+}
+
+interface Predicate extends ColumnReference {
+	kind: 'equality' | 'range';
+}
+
+// What the query text says about the tables a plan refers to
+interface QueryShape {
+	// Lower-cased table names and aliases to table names
+	tables: Map<string, string>;
+	predicates: Predicate[];
+	ordering: ColumnReference[];
+}
+
+interface TableDetails {
+	columns: string[];
+	// The INTEGER PRIMARY KEY column, which is the rowid
+	rowid_column: string | null;
+	indexes: ExistingIndex[];
+}
+
+const EXPLAINABLE_STATEMENT =
+	/^(WITH )?(SELECT|VALUES|INSERT|REPLACE|UPDATE|DELETE)$/;
+
+// Keywords that can follow a table name where an alias would be
+const NOT_ALIASES = new Set([
+	'AS',
+	'ON',
+	'USING',
+	'JOIN',
+	'LEFT',
+	'RIGHT',
+	'FULL',
+	'INNER',
+	'OUTER',
+	'CROSS',
+	'NATURAL',
+	'WHERE',
+	'GROUP',
+	'ORDER',
+	'LIMIT',
+	'HAVING',
+	'WINDOW',
+	'UNION',
+	'EXCEPT',
+	'INTERSECT',
+	'INDEXED',
+	'NOT',
+	'SET',
+	'VALUES',
+	'DEFAULT',
+	'SELECT',
+	'RETURNING',
+]);
+
+// Keywords that start a clause, tracked per parenthesis depth
+const CLAUSE_KEYWORDS = new Set([
+	'SELECT',
+	'FROM',
+	'JOIN',
+	'ON',
+	'USING',
+	'WHERE',
+	'GROUP',
+	'ORDER',
+	'HAVING',
+	'WINDOW',
+	'LIMIT',
+	'SET',
+	'VALUES',
+	'RETURNING',
+	'UNION',
+	'EXCEPT',
+	'INTERSECT',
+]);
+
+// Words inside ORDER BY and GROUP BY that are not column names
+const ORDERING_KEYWORDS = new Set([
+	'ORDER',
+	'GROUP',
+	'BY',
+	'ASC',
+	'DESC',
+	'NULLS',
+	'FIRST',
+	'LAST',
+	'COLLATE',
+]);
+
+function is_name(token: SqlToken | undefined): boolean {
+	return (
+		token !== undefined &&
+		(token.word === '"' || /^[A-Z_]/.test(token.word))
+	);
+}
+
+/**
+ * Find table names with their aliases, the columns compared in WHERE and
+ * JOIN ... ON clauses, and the ORDER BY and GROUP BY columns. This reads
+ * tokens rather than parsing, so odd queries just yield fewer columns.
+ */
+function analyse_query_shape(
+	tokens: SqlToken[],
+	known_tables: Map<string, string>,
+): QueryShape {
+	const tables = new Map<string, string>();
+	const predicates: Predicate[] = [];
+	const ordering: ColumnReference[] = [];
+	const clauses: string[] = [];
+	let from_depth: number | null = null;
+
+	const clause_at = (depth: number) => {
+		for (let level = depth; level >= 0; level--) {
+			if (clauses[level]) return clauses[level];
+		}
+		return undefined;
+	};
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i]!;
+		if (token.word === '(') clauses.length = token.depth;
+		if (from_depth !== null && token.depth < from_depth) {
+			from_depth = null;
+		}
+
+		if (CLAUSE_KEYWORDS.has(token.word)) {
+			clauses[token.depth] = token.word;
+			from_depth =
+				token.word === 'FROM' || token.word === 'JOIN'
+					? token.depth
+					: token.word === 'ON' || token.word === 'USING'
+						? from_depth
+						: null;
+		}
+
+		// Table names follow FROM, JOIN, commas in a FROM list and the
+		// INSERT INTO/UPDATE/DELETE FROM targets
+		const introduces_table =
+			['FROM', 'JOIN', 'UPDATE', 'INTO'].includes(token.word) ||
+			(token.word === ',' && from_depth === token.depth);
+		if (introduces_table && is_name(tokens[i + 1])) {
+			// Skip a schema qualifier
+			let name_index = i + 1;
+			if (tokens[i + 2]?.word === '.' && is_name(tokens[i + 3])) {
+				name_index = i + 3;
+			}
+			const table = known_tables.get(
+				tokens[name_index]!.text.toLowerCase(),
+			);
+			if (table) {
+				tables.set(table.toLowerCase(), table);
+				let alias_index = name_index + 1;
+				if (tokens[alias_index]?.word === 'AS') alias_index++;
+				const alias = tokens[alias_index];
+				if (is_name(alias) && !NOT_ALIASES.has(alias!.word)) {
+					tables.set(alias!.text.toLowerCase(), table);
+				}
+			}
+			continue;
+		}
+
+		// Column references: name or qualifier.name, not a function call
+		if (!is_name(token) || tokens[i - 1]?.word === '.') continue;
+		let reference: ColumnReference = {
+			qualifier: null,
+			column: token.text,
+		};
+		let end = i + 1;
+		if (tokens[i + 1]?.word === '.' && is_name(tokens[i + 2])) {
+			reference = {
+				qualifier: token.text,
+				column: tokens[i + 2]!.text,
+			};
+			end = i + 3;
+		}
+		if (tokens[end]?.word === '(') continue;
+
+		const clause = clause_at(token.depth);
+		if (clause === 'ORDER' || clause === 'GROUP') {
+			if (
+				!ORDERING_KEYWORDS.has(token.word) &&
+				tokens[i - 1]?.word !== 'COLLATE'
+			) {
+				ordering.push(reference);
+			}
+			continue;
+		}
+		if (clause !== 'WHERE' && clause !== 'ON') continue;
+
+		// The comparison after the column, or before it for `5 < col`
+		let operator = '';
+		for (let j = end; /^[=<>!]$/.test(tokens[j]?.word ?? ''); j++) {
+			operator += tokens[j]!.word;
+		}
+		if (!operator) {
+			const next = tokens[end];
+			if (next && next.word !== '"') {
+				if (next.word === 'IS' && tokens[end + 1]?.word !== 'NOT') {
+					operator = '=';
+				} else if (next.word === 'IN') {
+					operator = '=';
+				} else if (['BETWEEN', 'LIKE', 'GLOB'].includes(next.word)) {
+					operator = '<';
+				}
+			}
+		}
+		if (!operator) {
+			for (
+				let j = i - 1;
+				/^[=<>!]$/.test(tokens[j]?.word ?? '');
+				j--
+			) {
+				operator = tokens[j]!.word + operator;
+			}
+		}
+
+		if (operator === '=' || operator === '==') {
+			predicates.push({ ...reference, kind: 'equality' });
+		} else if (['<', '>', '<=', '>='].includes(operator)) {
+			predicates.push({ ...reference, kind: 'range' });
+		}
+	}
+
+	return { tables, predicates, ordering };
+}
+
+function get_table_details(
+	database_path: string,
+	table: string,
+): TableDetails {
+	const db = open_database(database_path);
+	const info = db
+		.prepare(`PRAGMA table_info(${quote_identifier(table)})`)
+		.all() as { name: string; type: string; pk: number }[];
+	const pk_columns = info.filter((column) => column.pk > 0);
+
+	const indexes = (
+		db
+			.prepare(`PRAGMA index_list(${quote_identifier(table)})`)
+			.all() as {
+			name: string;
+			unique: number;
+			origin: string;
+			partial: number;
+		}[]
+	).map((index) => ({
+		name: index.name,
+		columns: (
+			db
+				.prepare(`PRAGMA index_info(${quote_identifier(index.name)})`)
+				.all() as { name: string | null }[]
+		).map((column) => column.name),
+		unique: index.unique === 1,
+		partial: index.partial === 1,
+		origin: index.origin,
+	}));
+
+	return {
+		columns: info.map((column) => column.name),
+		rowid_column:
+			pk_columns.length === 1 &&
+			pk_columns[0]!.type.toUpperCase() === 'INTEGER'
+				? pk_columns[0]!.name
+				: null,
+		indexes,
+	};
+}
+
+/**
+ * Arrange EXPLAIN QUERY PLAN rows into a tree by their parent ids
+ */
+function build_plan_tree(
+	rows: { id: number; parent: number; detail: string }[],
+): PlanNode[] {
+	const nodes = new Map<number, PlanNode>();
+	const roots: PlanNode[] = [];
+	for (const row of rows) {
+		const node: PlanNode = {
+			id: row.id,
+			parent: row.parent,
+			detail: row.detail,
+			children: [],
+		};
+		nodes.set(row.id, node);
+		const parent = nodes.get(row.parent);
+		if (parent) parent.children.push(node);
+		else roots.push(node);
+	}
+	return roots;
+}
+
+/**
+ * Render a plan tree the way the sqlite3 shell's .eqp does
+ */
+export function render_plan(plan: PlanNode[]): string {
+	const lines = ['QUERY PLAN'];
+	const render = (nodes: PlanNode[], prefix: string) => {
+		nodes.forEach((node, index) => {
+			const last = index === nodes.length - 1;
+			lines.push(`${prefix}${last ? '`--' : '|--'}${node.detail}`);
+			render(node.children, `${prefix}${last ? '   ' : '|  '}`);
+		});
+	};
+	render(plan, '');
+	return lines.join('\n');
+}
+
+function flatten_plan(plan: PlanNode[]): PlanNode[] {
+	return plan.flatMap((node) => [
+		node,
+		...flatten_plan(node.children),
+	]);
+}
+
+function index_name(table: string, columns: string[]): string {
+	return `idx_${table}_${columns.join('_')}`
+		.replace(/[^A-Za-z0-9_]/g, '_')
+		.slice(0, 64);
+}
+
+/**
+ * Run EXPLAIN QUERY PLAN on a statement and look for full table scans,
+ * temporary B-trees for sorting and grouping, and automatic indexes.
+ * For each, suggest an index on the columns the statement filters,
+ * joins or sorts the table by (equality columns first, then one range
+ * column) unless an existing index already starts with those columns.
+ *
+ * The statement is only planned, never run. Parameters only matter
+ * where SQLite's planner looks at their values, but statements with
+ * placeholders need them bound all the same.
+ */
+export function explain_query(
+	database_path: string,
+	query: string,
+	params: Record<string, any> = {},
+): QueryPlanAnalysis {
+	return with_error_handling(() => {
+		const statement = trim_trailing_semicolon(query.trim());
+		const classification = classify_query(statement, database_path);
+		if (!EXPLAINABLE_STATEMENT.test(classification.statement_type)) {
+			throw new ToolUsageError(
+				`explain_query plans SELECT, INSERT, UPDATE and DELETE statements (got a ${classification.statement_type || 'empty'} statement)`,
+				[
+					'Pass the statement itself, without EXPLAIN or EXPLAIN QUERY PLAN',
+					'Use execute_read_query to run PRAGMA and EXPLAIN statements directly',
+				],
+			);
+		}
+
+		debug_log('Explaining query:', { database_path, statement });
+		const db = open_database(database_path);
+		const rows = db
+			.prepare(`EXPLAIN QUERY PLAN ${statement}`)
+			.all(convert_parameters(params)) as {
+			id: number;
+			parent: number;
+			detail: string;
+		}[];
+		const plan = build_plan_tree(rows);
+
+		const known_tables = new Map(
+			(
+				db
+					.prepare(
+						"SELECT name FROM sqlite_master WHERE type = 'table'",
+					)
+					.all() as { name: string }[]
+			).map(({ name }) => [name.toLowerCase(), name]),
+		);
+		const shape = analyse_query_shape(
+			tokenise_sql(statement),
+			known_tables,
+		);
+		const details = new Map<string, TableDetails>();
+		for (const table of new Set(shape.tables.values())) {
+			details.set(table, get_table_details(database_path, table));
+		}
+
+		// The table a plan step or column reference is about
+		const table_for = (name: string) =>
+			shape.tables.get(name.toLowerCase()) ?? null;
+		const resolve = (reference: ColumnReference) => {
+			const candidates = reference.qualifier
+				? [table_for(reference.qualifier)].filter(
+						(table): table is string => table !== null,
+					)
+				: Array.from(details.keys());
+			const matches = candidates.flatMap((table) => {
+				const column = details
+					.get(table)!
+					.columns.find(
+						(name) =>
+							name.toLowerCase() === reference.column.toLowerCase(),
+					);
+				return column ? [{ table, column }] : [];
+			});
+			return matches.length === 1 ? matches[0]! : null;
+		};
+		const filter_columns = (table: string) => {
+			const resolved = shape.predicates.flatMap((predicate) => {
+				const match = resolve(predicate);
+				return match?.table === table
+					? [{ column: match.column, kind: predicate.kind }]
+					: [];
+			});
+			const equality = resolved
+				.filter((entry) => entry.kind === 'equality')
+				.map((entry) => entry.column);
+			const range = resolved.find(
+				(entry) =>
+					entry.kind === 'range' && !equality.includes(entry.column),
+			);
+			return {
+				equality: Array.from(new Set(equality)),
+				range: range?.column ?? null,
+			};
+		};
+
+		const issues: PlanIssue[] = [];
+		const notes: string[] = [];
+		const candidates: {
+			table: string;
+			columns: string[];
+			reason: string;
+		}[] = [];
+
+		for (const node of flatten_plan(plan)) {
+			const scan = /^SCAN (?:TABLE )?(\S+)(.*)$/.exec(node.detail);
+			if (scan && !/INDEX|VIRTUAL TABLE/.test(scan[2]!)) {
+				const table = table_for(scan[1]!);
+				if (!table) continue;
+				issues.push({
+					type: 'full_table_scan',
+					detail: node.detail,
+					table,
+					message: `Full table scan of ${table}: every row is read`,
+				});
+				const { equality, range } = filter_columns(table);
+				const columns = range ? [...equality, range] : equality;
+				if (columns.length > 0) {
+					candidates.push({
+						table,
+						columns,
+						reason: `Avoids the full scan of ${table} by looking up rows on ${columns.join(', ')}`,
+					});
+				} else {
+					notes.push(
+						`${table} is scanned with no WHERE or JOIN column to index; add a filter if the whole table is not needed`,
+					);
+				}
+				continue;
+			}
+
+			const automatic =
+				/^SEARCH (?:TABLE )?(\S+) USING AUTOMATIC (?:PARTIAL )?(?:COVERING )?INDEX \(([^)]*)\)/.exec(
+					node.detail,
+				);
+			if (automatic) {
+				const table = table_for(automatic[1]!);
+				issues.push({
+					type: 'automatic_index',
+					detail: node.detail,
+					...(table ? { table } : {}),
+					message: `SQLite builds a temporary index${table ? ` on ${table}` : ''} each time the statement runs`,
+				});
+				const columns = automatic[2]!
+					.split(' AND ')
+					.map((term) => /^[^=<>!\s]+/.exec(term.trim())?.[0])
+					.filter((column): column is string => !!column);
+				if (table && columns.length > 0) {
+					candidates.push({
+						table,
+						columns,
+						reason: `Replaces the automatic index SQLite builds on ${table} for every run`,
+					});
+				}
+				continue;
+			}
+
+			const btree = /^USE TEMP B-TREE FOR (.+)$/.exec(node.detail);
+			if (btree) {
+				const purpose = btree[1]!;
+				const ordered = shape.ordering
+					.map(resolve)
+					.filter((match) => match !== null);
+				const tables = new Set(ordered.map((match) => match.table));
+				// Only an ORDER BY or GROUP BY entirely on one table's
+				// columns can come from that table's index
+				const table =
+					/ORDER BY|GROUP BY/.test(purpose) &&
+					ordered.length > 0 &&
+					ordered.length === shape.ordering.length &&
+					tables.size === 1
+						? Array.from(tables)[0]
+						: undefined;
+				issues.push({
+					type: 'temp_btree',
+					detail: node.detail,
+					...(table ? { table } : {}),
+					message: `Rows are sorted in a temporary B-tree for ${purpose}`,
+				});
+				if (!table) continue;
+				candidates.push({
+					table,
+					columns: Array.from(
+						new Set([
+							...filter_columns(table).equality.filter(
+								(column) =>
+									!ordered.some((match) => match.column === column),
+							),
+							...ordered.map((match) => match.column),
+						]),
+					),
+					reason: `Lets ${table} be read in ${purpose} order instead of sorting`,
+				});
+			}
+		}
+
+		const suggestions: IndexSuggestion[] = [];
+		for (const candidate of candidates) {
+			const table_details = details.get(candidate.table)!;
+			const columns = candidate.columns;
+			if (
+				suggestions.some(
+					(suggestion) =>
+						suggestion.table === candidate.table &&
+						suggestion.columns.join('\0') === columns.join('\0'),
+				)
+			) {
+				continue;
+			}
+			if (
+				table_details.rowid_column &&
+				columns[0]!.toLowerCase() ===
+					table_details.rowid_column.toLowerCase()
+			) {
+				continue;
+			}
+			const covering = table_details.indexes.find(
+				(index) =>
+					!index.partial &&
+					columns.every(
+						(column, position) =>
+							index.columns[position]?.toLowerCase() ===
+							column.toLowerCase(),
+					),
+			);
+			if (covering) {
+				notes.push(
+					`Index ${covering.name} on ${candidate.table} already starts with (${columns.join(', ')}) but was not used; running ANALYZE may help the planner choose it`,
+				);
+				continue;
+			}
+			suggestions.push({
+				table: candidate.table,
+				columns,
+				sql: `CREATE INDEX ${quote_identifier(index_name(candidate.table, columns))} ON ${quote_identifier(candidate.table)} (${columns.map(quote_identifier).join(', ')})`,
+				reason: candidate.reason,
+			});
+		}
+
+		return {
+			plan,
+			plan_text: render_plan(plan),
+			issues,
+			suggestions,
+			existing_indexes: Object.fromEntries(
+				Array.from(details, ([table, table_details]) => [
+					table,
+					table_details.indexes,
+				]),
+			),
+			notes: Array.from(new Set(notes)),
+		};
+	}, 'explain_query')();
+}
@@ -9,6 +9,40 @@ import {
 	execute_select_query,
 } from './query-executor.js';
 
+export interface SchemaObject {
+	name: string;
+	type: 'table' | 'index' | 'view' | 'trigger';
+	// Table an index or trigger belongs to; the object itself otherwise
+	tbl_name: string;
+	sql: string;
+}
+
+/**
+ * Schema objects with SQL from sqlite_master (leaving out automatic
+ * indexes), tables first, optionally only those named in `name_filter`
+ */
+export function list_schema_objects(
+	database_path: string,
+	name_filter?: string[],
+): SchemaObject[] {
+	// Get schema information from sqlite_master
+	let query =
+		'SELECT name, type, tbl_name, sql FROM sqlite_master WHERE sql IS NOT NULL';
+
+	const params: string[] = [];
+	if (name_filter && name_filter.length > 0) {
+		const placeholders = name_filter.map(() => '?').join(', ');
+		query += ` AND name IN (${placeholders})`;
+		params.push(...name_filter);
+	}
+
+	query +=
+		" ORDER BY CASE type WHEN 'table' THEN 1 WHEN 'index' THEN 2 ELSE 3 END, name";
+
+	return execute_select_query(database_path, query, params)
+		.rows as SchemaObject[];
+}
+
 /**
  * Export database schema as SQL or JSON
  */
@@ -24,22 +58,10 @@ export function export_schema(
 			tables: table_filter,
 		});
 
-		// Get schema information from sqlite_master
-		let query =
-			'SELECT name, type, sql FROM sqlite_master WHERE sql IS NOT NULL';
-
-		const params: string[] = [];
-		if (table_filter && table_filter.length > 0) {
-			const placeholders = table_filter.map(() => '?').join(', ');
-			query += ` AND name IN (${placeholders})`;
-			params.push(...table_filter);
-		}
-
-		query +=
-			" ORDER BY CASE type WHEN 'table' THEN 1 WHEN 'index' THEN 2 ELSE 3 END, name";
-
-		const result = execute_select_query(database_path, query, params);
-		const schema_objects = result.rows;
+		const schema_objects = list_schema_objects(
+			database_path,
+			table_filter,
+		);
 
 		if (format === 'json') {
 			// Return as JSON
@@ -0,0 +1,153 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import { export_schema } from './schema-manager.js';
+import { diff_schema } from './schema-migration.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+const db_path = join(root, 'app.db');
+
+open_database(db_path, true).exec(`
+	CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, legacy TEXT);
+	CREATE TABLE orders (
+		id INTEGER PRIMARY KEY,
+		user_id INTEGER REFERENCES users (id) ON DELETE CASCADE,
+		total REAL
+	);
+	CREATE INDEX orders_user ON orders (user_id);
+	CREATE VIEW order_totals AS
+		SELECT user_id, sum(total) AS total FROM orders GROUP BY user_id;
+	CREATE TABLE old_stuff (x);
+	INSERT INTO users VALUES (1, 'ada', 'x'), (2, 'grace', 'y');
+	INSERT INTO orders VALUES (1, 1, 9.5), (2, 2, 12);
+`);
+
+const target_schema = `
+	CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, email TEXT);
+	CREATE TABLE orders (
+		id INTEGER PRIMARY KEY,
+		user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+		total NUMERIC CHECK (total >= 0)
+	);
+	CREATE INDEX orders_user ON orders (user_id);
+	CREATE VIEW order_totals AS
+		SELECT user_id, sum(total) AS total FROM orders GROUP BY user_id;
+	CREATE TABLE tags (name TEXT PRIMARY KEY) WITHOUT ROWID;
+`;
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('diff_schema', () => {
+	it('plans ALTER TABLE where it can and rebuilds otherwise', () => {
+		const result = diff_schema(
+			{ database_path: db_path },
+			{ schema: target_schema, format: 'sql' },
+		);
+
+		expect(result.identical).toBe(false);
+		expect(result.changes).toEqual([
+			{ type: 'table', name: 'old_stuff', action: 'drop' },
+			{ type: 'table', name: 'tags', action: 'create' },
+			{
+				type: 'table',
+				name: 'orders',
+				action: 'rebuild',
+				reason: 'columns changed: user_id (notnull), total (type)',
+			},
+			{
+				type: 'table',
+				name: 'users',
+				action: 'alter',
+				reason: 'columns changed: added email, dropped legacy',
+			},
+			{
+				type: 'index',
+				name: 'orders_user',
+				action: 'recreate',
+				reason: 'depends on rebuilt table orders',
+			},
+			{
+				type: 'view',
+				name: 'order_totals',
+				action: 'recreate',
+				reason: 'depends on rebuilt table orders',
+			},
+		]);
+		expect(result.warnings).toEqual([]);
+		expect(result.migration).toContain(
+			'ALTER TABLE "users" DROP COLUMN "legacy";\nALTER TABLE "users" ADD COLUMN email TEXT;',
+		);
+		expect(result.migration).toContain(
+			'INSERT INTO "new_orders" ("id", "user_id", "total") SELECT "id", "user_id", "total" FROM "orders";',
+		);
+	});
+
+	it('produces a migration that reaches the target schema', () => {
+		const { migration } = diff_schema(
+			{ database_path: db_path },
+			{ schema: target_schema, format: 'sql' },
+		);
+		const db = open_database(db_path);
+		db.exec(migration);
+
+		// Foreign keys were off, so the rebuild did not cascade
+		expect(db.prepare('SELECT * FROM orders').all()).toEqual([
+			{ id: 1, user_id: 1, total: 9.5 },
+			{ id: 2, user_id: 2, total: 12 },
+		]);
+		expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+		expect(
+			diff_schema(
+				{ database_path: db_path },
+				{ schema: target_schema, format: 'sql' },
+			),
+		).toMatchObject({ identical: true, changes: [] });
+	});
+
+	it('compares with export_schema JSON and warns about lost data', () => {
+		const other_path = join(root, 'other.db');
+		open_database(other_path, true).exec(
+			'CREATE TABLE users (id INTEGER PRIMARY KEY, full_name TEXT NOT NULL, email TEXT)',
+		);
+		const { schema } = export_schema(other_path, 'json');
+
+		const result = diff_schema(
+			{ database_path: db_path },
+			{ schema, format: 'json' },
+		);
+		expect(result.changes).toContainEqual({
+			type: 'table',
+			name: 'users',
+			action: 'rebuild',
+			reason: 'columns changed: added full_name, dropped name',
+		});
+		expect(result.warnings).toEqual([
+			'Rebuilding users discards column(s) name; if a column was renamed, copy it in the INSERT by hand',
+			'New column users.full_name is NOT NULL without a default, so copying existing rows fails; add a default or fill it in the INSERT',
+		]);
+		expect(
+			diff_schema(
+				{ database_path: db_path },
+				{ database_path: other_path },
+			).changes,
+		).toEqual(result.changes);
+
+		expect(() =>
+			diff_schema(
+				{ database_path: db_path },
+				{ schema: 'CREATE TABLE broken (', format: 'sql' },
+			),
+		).toThrow(/Could not load the SQL schema text schema/);
+	});
+});
@@ -0,0 +1,575 @@
+/**
+ * Schema comparison and migration scripts for SQLite Tools MCP server.
+ *
+ * Both schemas are loaded into in-memory databases, so they are read
+ * back from sqlite_master the same way whether they came from a database
+ * or from export_schema text. Changed tables are migrated with ALTER
+ * TABLE when replaying the ADD/DROP COLUMN statements on a scratch copy
+ * of the table reproduces the target definition exactly, and with
+ * SQLite's 12-step table rebuild otherwise.
+ */
+import Database from 'better-sqlite3';
+import {
+	ToolUsageError,
+	with_error_handling,
+} from '../common/errors.js';
+import {
+	find_column_definition,
+	mentions_identifier,
+	rename_create_table,
+	split_schema_statements,
+} from '../common/schema-sql.js';
+import { quote_identifier } from '../common/sql.js';
+import { debug_log } from '../config.js';
+import { diff_schema_objects } from './database-diff.js';
+import {
+	SchemaObject,
+	list_schema_objects,
+} from './schema-manager.js';
+
+const TYPE_ORDER: SchemaObject['type'][] = [
+	'table',
+	'index',
+	'view',
+	'trigger',
+];
+
+export type SchemaInput =
+	| { database_path: string }
+	| { schema: string; format: 'sql' | 'json' };
+
+export interface SchemaChange {
+	type: SchemaObject['type'];
+	name: string;
+	action: 'create' | 'drop' | 'recreate' | 'alter' | 'rebuild';
+	// What changed in a table, or why an unchanged object is recreated
+	reason?: string;
+}
+
+export interface SchemaMigration {
+	source: string;
+	target: string;
+	identical: boolean;
+	changes: SchemaChange[];
+	warnings: string[];
+	// SQL script that turns the source schema into the target
+	migration: string;
+}
+
+interface ColumnInfo {
+	name: string;
+	type: string;
+	notnull: number;
+	dflt_value: string | null;
+	pk: number;
+	hidden: number;
+}
+
+interface LoadedSchema {
+	label: string;
+	db: Database.Database;
+	objects: SchemaObject[];
+}
+
+/**
+ * Schema statements from export_schema SQL or JSON text
+ */
+function parse_schema_text(
+	schema: string,
+	format: 'sql' | 'json',
+): string[] {
+	if (format === 'sql') {
+		return split_schema_statements(schema).filter((statement) =>
+			/^CREATE\b/i.test(statement),
+		);
+	}
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(schema);
+	} catch (error) {
+		throw new ToolUsageError(
+			`Target schema is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+			['Pass the schema field of export_schema with format "json"'],
+		);
+	}
+	const objects = (parsed as { objects?: unknown })?.objects;
+	if (!Array.isArray(objects)) {
+		throw new ToolUsageError(
+			'Target schema JSON has no objects array',
+			['Pass the schema field of export_schema with format "json"'],
+		);
+	}
+	return objects
+		.map((object: { sql?: unknown }) => object?.sql)
+		.filter((sql): sql is string => typeof sql === 'string');
+}
+
+/**
+ * Create schema objects in a fresh in-memory database, tables first.
+ * Objects that already exist are skipped, as virtual tables create
+ * their shadow tables themselves.
+ */
+function load_schema(
+	label: string,
+	statements: string[],
+): LoadedSchema {
+	const rank = (sql: string) => {
+		const type =
+			/^\s*CREATE\s+(?:UNIQUE\s+|TEMP\s+|TEMPORARY\s+|VIRTUAL\s+)?(\w+)/i
+				.exec(sql)?.[1]
+				?.toLowerCase();
+		const index = TYPE_ORDER.indexOf(type as SchemaObject['type']);
+		return index < 0 ? TYPE_ORDER.length : index;
+	};
+
+	const db = new Database(':memory:');
+	try {
+		for (const sql of [...statements].sort(
+			(a, b) => rank(a) - rank(b),
+		)) {
+			try {
+				db.exec(sql);
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : String(error);
+				if (/already exists/.test(message)) continue;
+				throw new ToolUsageError(
+					`Could not load the ${label} schema: ${message}`,
+					[
+						`Check the statement: ${sql.slice(0, 200)}`,
+						'Schema text must be in the export_schema SQL or JSON format',
+					],
+				);
+			}
+		}
+	} catch (error) {
+		db.close();
+		throw error;
+	}
+
+	const objects = db
+		.prepare(
+			`SELECT name, type, tbl_name, sql FROM sqlite_master
+			WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%'
+			ORDER BY CASE type WHEN 'table' THEN 1 WHEN 'index' THEN 2 ELSE 3 END, name`,
+		)
+		.all() as SchemaObject[];
+	return { label, db, objects };
+}
+
+function load_input(input: SchemaInput): LoadedSchema {
+	if ('database_path' in input) {
+		return load_schema(
+			input.database_path,
+			list_schema_objects(input.database_path)
+				.filter((object) => !object.name.startsWith('sqlite_'))
+				.map((object) => object.sql),
+		);
+	}
+	return load_schema(
+		`${input.format.toUpperCase()} schema text`,
+		parse_schema_text(input.schema, input.format),
+	);
+}
+
+function table_columns(
+	db: Database.Database,
+	table: string,
+): ColumnInfo[] {
+	return db
+		.prepare(`PRAGMA main.table_xinfo(${quote_identifier(table)})`)
+		.all() as ColumnInfo[];
+}
+
+/**
+ * Compare table SQL ignoring layout: runs of whitespace, and whitespace
+ * next to punctuation, which ALTER TABLE rewrites may change
+ */
+function normalise_table_sql(sql: string): string {
+	return sql
+		.replace(/\s+/g, ' ')
+		.replace(/\s*([(),])\s*/g, '$1')
+		.trim();
+}
+
+function find_column(
+	columns: ColumnInfo[],
+	name: string,
+): ColumnInfo | undefined {
+	return columns.find(
+		(column) => column.name.toLowerCase() === name.toLowerCase(),
+	);
+}
+
+/**
+ * ADD/DROP COLUMN statements that turn the source table into the
+ * target, or null when ALTER TABLE cannot express the change
+ */
+function plan_alter(
+	source: SchemaObject,
+	target: SchemaObject,
+	source_columns: ColumnInfo[],
+	target_columns: ColumnInfo[],
+): string[] | null {
+	const kept = source_columns.filter((column) =>
+		find_column(target_columns, column.name),
+	);
+	const dropped = source_columns.filter(
+		(column) => !find_column(target_columns, column.name),
+	);
+	const added = target_columns.filter(
+		(column) => !find_column(source_columns, column.name),
+	);
+	// ADD COLUMN appends, so kept columns must lead in the same order
+	const in_order = kept.every(
+		(column, i) =>
+			target_columns[i]?.name.toLowerCase() ===
+			column.name.toLowerCase(),
+	);
+	if (!in_order || dropped.length + added.length === 0) return null;
+
+	const table = quote_identifier(target.name);
+	const statements = dropped.map(
+		(column) =>
+			`ALTER TABLE ${table} DROP COLUMN ${quote_identifier(column.name)}`,
+	);
+	for (const column of added) {
+		const definition = find_column_definition(
+			target.sql,
+			column.name,
+		);
+		if (!definition) return null;
+		statements.push(`ALTER TABLE ${table} ADD COLUMN ${definition}`);
+	}
+
+	// Replay on a scratch copy of the table, which SQLite checks as it
+	// would the real one
+	const scratch = new Database(':memory:');
+	try {
+		scratch.exec(source.sql);
+		for (const statement of statements) scratch.exec(statement);
+		const { sql } = scratch
+			.prepare(
+				"SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?",
+			)
+			.get(source.name) as { sql: string };
+		return normalise_table_sql(sql) ===
+			normalise_table_sql(target.sql)
+			? statements
+			: null;
+	} catch {
+		return null;
+	} finally {
+		scratch.close();
+	}
+}
+
+function describe_table_change(
+	source_columns: ColumnInfo[],
+	target_columns: ColumnInfo[],
+): string {
+	const details: string[] = [];
+	for (const column of target_columns) {
+		const before = find_column(source_columns, column.name);
+		if (!before) {
+			details.push(`added ${column.name}`);
+			continue;
+		}
+		const changed = (
+			['type', 'notnull', 'dflt_value', 'pk', 'hidden'] as const
+		).filter((field) => before[field] !== column[field]);
+		if (changed.length > 0) {
+			details.push(`${column.name} (${changed.join(', ')})`);
+		}
+	}
+	for (const column of source_columns) {
+		if (!find_column(target_columns, column.name)) {
+			details.push(`dropped ${column.name}`);
+		}
+	}
+	return details.length > 0
+		? `columns changed: ${details.join(', ')}`
+		: 'table constraints or options changed';
+}
+
+function drop_statement(object: SchemaObject): string {
+	return `DROP ${object.type.toUpperCase()} IF EXISTS ${quote_identifier(object.name)};`;
+}
+
+/**
+ * Compare the schema of a database with another database or with
+ * export_schema text, and build the SQL migration from the first to the
+ * second
+ */
+export function diff_schema(
+	source_input: SchemaInput,
+	target_input: SchemaInput,
+): SchemaMigration {
+	return with_error_handling(() => {
+		debug_log('Diffing schemas:', {
+			source: source_input,
+			target:
+				'database_path' in target_input
+					? target_input
+					: { format: target_input.format },
+		});
+
+		const source = load_input(source_input);
+		let target: LoadedSchema;
+		try {
+			target = load_input(target_input);
+		} catch (error) {
+			source.db.close();
+			throw error;
+		}
+
+		try {
+			const diff = diff_schema_objects(
+				source.objects,
+				target.objects,
+			);
+			const changes: SchemaChange[] = [];
+			const warnings: string[] = [];
+			const table_statements: string[] = [];
+			const drops = new Map<string, SchemaObject>();
+			const creates = new Map<string, SchemaObject>();
+			const key = (object: { type: string; name: string }) =>
+				`${object.type}:${object.name.toLowerCase()}`;
+			const names = new Set(
+				[...source.objects, ...target.objects].map((object) =>
+					object.name.toLowerCase(),
+				),
+			);
+
+			for (const object of diff.removed) {
+				changes.push({
+					type: object.type,
+					name: object.name,
+					action: 'drop',
+				});
+				if (object.type === 'table') {
+					table_statements.push(drop_statement(object));
+				} else {
+					drops.set(key(object), object);
+				}
+			}
+			for (const object of diff.added) {
+				changes.push({
+					type: object.type,
+					name: object.name,
+					action: 'create',
+				});
+				if (object.type === 'table') {
+					table_statements.push(`${object.sql};`);
+				} else {
+					creates.set(key(object), object);
+				}
+			}
+
+			const rebuilt: string[] = [];
+			for (const changed of diff.changed) {
+				const source_object = source.objects.find(
+					(object) => key(object) === key(changed),
+				)!;
+				const target_object = target.objects.find(
+					(object) => key(object) === key(changed),
+				)!;
+				if (changed.type !== 'table') {
+					changes.push({
+						type: changed.type,
+						name: changed.name,
+						action: 'recreate',
+					});
+					drops.set(key(source_object), source_object);
+					creates.set(key(target_object), target_object);
+					continue;
+				}
+
+				const name = quote_identifier(changed.name);
+				if (/^\s*CREATE\s+VIRTUAL\b/i.test(target_object.sql)) {
+					changes.push({
+						type: 'table',
+						name: changed.name,
+						action: 'recreate',
+						reason: 'virtual table definition changed',
+					});
+					warnings.push(
+						`Virtual table ${changed.name} is dropped and recreated empty; reload its data`,
+					);
+					table_statements.push(
+						drop_statement(source_object),
+						`${target_object.sql};`,
+					);
+					continue;
+				}
+
+				const source_columns = table_columns(source.db, changed.name);
+				const target_columns = table_columns(target.db, changed.name);
+				const reason = describe_table_change(
+					source_columns,
+					target_columns,
+				);
+				const alter = plan_alter(
+					source_object,
+					target_object,
+					source_columns,
+					target_columns,
+				);
+				if (alter) {
+					changes.push({
+						type: 'table',
+						name: changed.name,
+						action: 'alter',
+						reason,
+					});
+					table_statements.push(
+						...alter.map((statement) => `${statement};`),
+					);
+					continue;
+				}
+
+				// 12-step rebuild: create the new definition under a
+				// temporary name, copy the rows, swap the tables
+				changes.push({
+					type: 'table',
+					name: changed.name,
+					action: 'rebuild',
+					reason,
+				});
+				rebuilt.push(changed.name);
+				let temporary = `new_${changed.name}`;
+				for (let i = 2; names.has(temporary.toLowerCase()); i++) {
+					temporary = `new_${changed.name}_${i}`;
+				}
+				names.add(temporary.toLowerCase());
+
+				const copied = target_columns
+					.filter(
+						(column) =>
+							column.hidden === 0 &&
+							find_column(source_columns, column.name),
+					)
+					.map((column) => quote_identifier(column.name))
+					.join(', ');
+				const discarded = source_columns.filter(
+					(column) =>
+						column.hidden === 0 &&
+						!find_column(target_columns, column.name),
+				);
+				if (discarded.length > 0) {
+					warnings.push(
+						`Rebuilding ${changed.name} discards column(s) ${discarded.map((column) => column.name).join(', ')}; if a column was renamed, copy it in the INSERT by hand`,
+					);
+				}
+				for (const column of target_columns) {
+					if (
+						column.hidden === 0 &&
+						column.notnull &&
+						column.dflt_value === null &&
+						column.pk === 0 &&
+						!find_column(source_columns, column.name)
+					) {
+						warnings.push(
+							`New column ${changed.name}.${column.name} is NOT NULL without a default, so copying existing rows fails; add a default or fill it in the INSERT`,
+						);
+					}
+				}
+
+				table_statements.push(
+					`${rename_create_table(target_object.sql, temporary)};`,
+					...(copied
+						? [
+								`INSERT INTO ${quote_identifier(temporary)} (${copied}) SELECT ${copied} FROM ${name};`,
+							]
+						: []),
+					`DROP TABLE ${name};`,
+					`ALTER TABLE ${quote_identifier(temporary)} RENAME TO ${name};`,
+				);
+			}
+
+			// Rebuilding drops a table's indexes and triggers, and views and
+			// triggers naming it would fail the rename, so recreate them all
+			for (const table of rebuilt) {
+				for (const object of source.objects) {
+					if (
+						object.type !== 'table' &&
+						(object.tbl_name.toLowerCase() === table.toLowerCase() ||
+							(object.type !== 'index' &&
+								mentions_identifier(object.sql, table)))
+					) {
+						drops.set(key(object), object);
+					}
+				}
+				for (const object of target.objects) {
+					if (
+						object.type !== 'table' &&
+						!creates.has(key(object)) &&
+						(object.tbl_name.toLowerCase() === table.toLowerCase() ||
+							(object.type !== 'index' &&
+								mentions_identifier(object.sql, table)))
+					) {
+						creates.set(key(object), object);
+						if (
+							!changes.some((change) => key(change) === key(object))
+						) {
+							changes.push({
+								type: object.type,
+								name: object.name,
+								action: 'recreate',
+								reason: `depends on rebuilt table ${table}`,
+							});
+						}
+					}
+				}
+			}
+
+			const lines = [
+				'-- SQLite schema migration',
+				`-- From: ${source.label}`,
+				`-- To: ${target.label}`,
+				`-- Generated: ${new Date().toISOString()}`,
+				...warnings.map((warning) => `-- Warning: ${warning}`),
+				'',
+				'PRAGMA foreign_keys=OFF;',
+				'BEGIN;',
+			];
+			const section = (statements: string[]) => {
+				if (statements.length > 0) lines.push('', ...statements);
+			};
+			section(
+				['trigger', 'view', 'index'].flatMap((type) =>
+					[...drops.values()]
+						.filter((object) => object.type === type)
+						.map(drop_statement),
+				),
+			);
+			section(table_statements);
+			section(
+				['index', 'view', 'trigger'].flatMap((type) =>
+					[...creates.values()]
+						.filter((object) => object.type === type)
+						.map((object) => `${object.sql};`),
+				),
+			);
+			lines.push(
+				'',
+				'-- Lists rows whose foreign keys no longer match',
+				'PRAGMA foreign_key_check;',
+				'COMMIT;',
+				'PRAGMA foreign_keys=ON;',
+			);
+
+			return {
+				source: source.label,
+				target: target.label,
+				identical: changes.length === 0,
+				changes,
+				warnings,
+				migration: lines.join('\n'),
+			};
+		} finally {
+			source.db.close();
+			target.db.close();
+		}
+	}, 'diff_schema')();
+}
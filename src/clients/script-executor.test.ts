@@ -0,0 +1,112 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { ToolUsageError } from '../common/errors.js';
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import { execute_select_query } from './query-executor.js';
+import { execute_script } from './script-executor.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+
+function temp_db(name: string) {
+	const db_path = join(root, name);
+	open_database(db_path, true);
+	return db_path;
+}
+
+function table_names(db_path: string) {
+	return execute_select_query(
+		db_path,
+		"SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name",
+	).rows.map((row) => row['name']);
+}
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('execute_script', () => {
+	it('runs every statement in one transaction with per-statement results', () => {
+		const db_path = temp_db('script.db');
+
+		const result = execute_script(
+			db_path,
+			`-- seed
+			CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT);
+			INSERT INTO tags (name) VALUES ('a'), ('b');
+			SELECT name FROM tags ORDER BY name;`,
+			{ max_rows: 1 },
+		);
+
+		expect(result).toMatchObject({
+			executed: 3,
+			failed: 0,
+			committed: true,
+			schema_changed: true,
+		});
+		expect(result.statements.map((s) => s.category)).toEqual([
+			'schema',
+			'write',
+			'read',
+		]);
+		expect(result.statements[1]).toMatchObject({
+			changes: 2,
+			last_insert_rowid: 2,
+		});
+		expect(result.statements[2]).toMatchObject({
+			rows: [{ name: 'a' }],
+			rows_truncated: true,
+		});
+	});
+
+	it('rolls back and skips the rest on the first error', () => {
+		const db_path = temp_db('rollback.db');
+
+		const result = execute_script(
+			db_path,
+			'CREATE TABLE kept (id); INSERT INTO missing VALUES (1); CREATE TABLE later (id)',
+		);
+
+		expect(result).toMatchObject({ failed: 1, committed: false });
+		expect(result.statements.map((s) => s.status)).toEqual([
+			'executed',
+			'failed',
+			'skipped',
+		]);
+		expect(result.statements[1]!.error).toContain('no such table');
+		expect(table_names(db_path)).toEqual([]);
+	});
+
+	it('keeps going with continue_on_error', () => {
+		const db_path = temp_db('continue.db');
+
+		const result = execute_script(
+			db_path,
+			'CREATE TABLE kept (id); INSERT INTO missing VALUES (1); CREATE TABLE later (id)',
+			{ continue_on_error: true },
+		);
+
+		expect(result).toMatchObject({
+			executed: 2,
+			failed: 1,
+			committed: true,
+		});
+		expect(table_names(db_path)).toEqual(['kept', 'later']);
+	});
+
+	it('rejects transaction control statements', () => {
+		const db_path = temp_db('control.db');
+
+		expect(() =>
+			execute_script(db_path, 'BEGIN; CREATE TABLE t (id); COMMIT'),
+		).toThrow(ToolUsageError);
+	});
+});
@@ -0,0 +1,217 @@
+/**
+ * Multi-statement script execution for SQLite Tools MCP server
+ */
+import {
+	ToolUsageError,
+	convert_sqlite_error,
+	with_error_handling,
+} from '../common/errors.js';
+import { split_schema_statements } from '../common/schema-sql.js';
+import {
+	StatementCategory,
+	classify_sql,
+} from '../common/statement-classifier.js';
+import {
+	normalise_integer,
+	normalise_integers,
+} from '../common/value-codec.js';
+import { debug_log } from '../config.js';
+import {
+	mark_connection_state,
+	open_database,
+} from './connection-manager.js';
+import {
+	changes_connection_state,
+	classify_query,
+} from './query-executor.js';
+import { has_active_transaction } from './transaction-manager.js';
+
+export interface ScriptStatementResult {
+	index: number;
+	statement: string;
+	category?: StatementCategory;
+	status: 'executed' | 'failed' | 'skipped';
+	changes?: number;
+	last_insert_rowid?: number | bigint;
+	rows?: Record<string, any>[];
+	rows_truncated?: boolean;
+	error?: string;
+	error_code?: string;
+}
+
+export interface ScriptResult {
+	statements: ScriptStatementResult[];
+	executed: number;
+	failed: number;
+	committed: boolean;
+	// Inside an open transaction the script commits into it, not to disk
+	in_transaction: boolean;
+	schema_changed: boolean;
+	total_time: number;
+}
+
+export interface ScriptOptions {
+	continue_on_error?: boolean;
+	max_rows?: number;
+}
+
+/**
+ * Run a script of SQL statements in one transaction, reporting changes
+ * and rows per statement. The first failing statement rolls the whole
+ * script back and skips the rest, unless `continue_on_error` is set, in
+ * which case failures are recorded and the remaining statements still
+ * run and commit. Inside an open transaction the script runs in a
+ * savepoint of it.
+ *
+ * Statements are classified just before they run, so they can refer to
+ * tables created earlier in the same script.
+ */
+export function execute_script(
+	database_path: string,
+	script: string,
+	options: ScriptOptions = {},
+): ScriptResult {
+	return with_error_handling(() => {
+		const start_time = Date.now();
+		const max_rows = options.max_rows ?? 100;
+		const statements = split_schema_statements(script);
+		if (statements.length === 0) {
+			throw new ToolUsageError('Script contains no SQL statements', [
+				'Separate statements with semicolons',
+			]);
+		}
+
+		// Transaction statements would end the script's own transaction,
+		// and the query tools refuse VACUUM and ATTACH/DETACH as well
+		const refused = statements
+			.map((statement) => classify_sql(statement))
+			.find(
+				(classification) =>
+					classification.tool === null &&
+					classification.category !== 'unknown',
+			);
+		if (refused) {
+			throw new ToolUsageError(
+				`Scripts run in their own transaction and cannot contain ${refused.statement_type}`,
+				[
+					'Remove BEGIN/COMMIT/ROLLBACK/SAVEPOINT/RELEASE statements from the script',
+					'Run VACUUM separately with vacuum_database',
+					'Use open_database instead of ATTACH/DETACH',
+					'Use begin_transaction to group several execute_script calls',
+				],
+			);
+		}
+
+		const db = open_database(database_path);
+		const in_transaction = has_active_transaction(database_path);
+		const results: ScriptStatementResult[] = statements.map(
+			(statement, index) => ({
+				index: index + 1,
+				statement,
+				status: 'skipped',
+			}),
+		);
+		let executed = 0;
+		let failed = 0;
+		let schema_changed = false;
+
+		debug_log('Executing script:', {
+			database_path,
+			statements: statements.length,
+			in_transaction,
+			continue_on_error: options.continue_on_error ?? false,
+		});
+
+		try {
+			db.exec(
+				in_transaction
+					? 'SAVEPOINT execute_script'
+					: 'BEGIN IMMEDIATE',
+			);
+		} catch (error) {
+			throw convert_sqlite_error(error, database_path);
+		}
+
+		for (const result of results) {
+			try {
+				result.category = classify_query(
+					result.statement,
+					database_path,
+				).category;
+				const stmt = db.prepare(result.statement).safeIntegers(true);
+
+				if (stmt.reader) {
+					const rows: Record<string, any>[] = [];
+					result.rows_truncated = false;
+					for (const row of stmt.iterate() as IterableIterator<
+						Record<string, any>
+					>) {
+						if (rows.length === max_rows) {
+							result.rows_truncated = true;
+							break;
+						}
+						rows.push(row);
+					}
+					result.rows = normalise_integers(rows);
+				} else {
+					const run = stmt.run();
+					result.changes = run.changes;
+					result.last_insert_rowid = normalise_integer(
+						run.lastInsertRowid,
+					);
+				}
+
+				result.status = 'executed';
+				executed++;
+				if (result.category === 'schema') schema_changed = true;
+				if (changes_connection_state(result.statement, database_path))
+					mark_connection_state(database_path);
+			} catch (error) {
+				const sqlite_error = convert_sqlite_error(
+					error,
+					database_path,
+				);
+				result.status = 'failed';
+				result.error = sqlite_error.message;
+				result.error_code = sqlite_error.code;
+				failed++;
+				debug_log('Script statement failed:', {
+					index: result.index,
+					error: result.error,
+				});
+
+				// Some errors (RAISE(ROLLBACK), OR ROLLBACK) end the
+				// transaction themselves, so nothing more can run in it
+				if (!options.continue_on_error || !db.inTransaction) break;
+			}
+		}
+
+		const committed =
+			db.inTransaction &&
+			(failed === 0 || !!options.continue_on_error);
+		try {
+			if (committed) {
+				db.exec(in_transaction ? 'RELEASE execute_script' : 'COMMIT');
+			} else if (db.inTransaction) {
+				db.exec(
+					in_transaction
+						? 'ROLLBACK TO execute_script; RELEASE execute_script'
+						: 'ROLLBACK',
+				);
+			}
+		} catch (error) {
+			if (db.inTransaction && !in_transaction) db.exec('ROLLBACK');
+			throw convert_sqlite_error(error, database_path);
+		}
+
+		return {
+			statements: results,
+			executed,
+			failed,
+			committed,
+			in_transaction,
+			schema_changed: committed && schema_changed,
+			total_time: Date.now() - start_time,
+		};
+	}, 'execute_script')();
+}
@@ -9,46 +9,164 @@ import {
 } from 'node:fs';
 import { dirname, resolve } from 'node:path';
 import {
+	PathSecurityError,
 	convert_sqlite_error,
 	with_error_handling,
 } from '../common/errors.js';
+import { is_within_directory } from '../common/paths.js';
 import { BackupInfo, DatabaseInfo } from '../common/types.js';
 import { debug_log, get_config } from '../config.js';
+import {
+	get_database_roots,
+	is_read_only_database,
+} from './access-policy.js';
 import {
 	close_all_databases,
 	close_database,
+	get_pool_stats,
 	open_database,
 	validate_database_path,
 } from './connection-manager.js';
 import { export_csv, import_csv } from './csv-manager.js';
+import {
+	close_query_cursor,
+	defer_cursor_rows,
+	fetch_query_cursor,
+	get_open_cursor_count,
+	open_query_cursor,
+} from './cursor-manager.js';
 import {
 	bulk_insert,
+	classify_query,
 	describe_table,
 	execute_query,
 	execute_select_query,
+	execute_write_query,
 	is_read_only_query,
 	is_schema_query,
 	list_tables,
+	run_on_main_connection,
 	vacuum_database,
 } from './query-executor.js';
-import { export_schema, import_schema } from './schema-manager.js';
+import { diff_databases, render_patch } from './database-diff.js';
+import {
+	preview_drop_table as preview_drop_table_on_main,
+	preview_write as preview_write_on_main,
+} from './dry-run.js';
+import { find_index, list_indexes } from './index-manager.js';
+import {
+	create_migration,
+	migrate_down as migrate_down_on_main,
+	migrate_up as migrate_up_on_main,
+	migration_status,
+} from './migration-manager.js';
+import { explain_query } from './query-planner.js';
+import {
+	export_schema,
+	import_schema as import_schema_on_main,
+} from './schema-manager.js';
+import { diff_schema } from './schema-migration.js';
+import { execute_script as execute_script_on_main } from './script-executor.js';
+import { alter_table as alter_table_on_main } from './table-alter.js';
+import {
+	begin_transaction as begin_transaction_on_main,
+	commit_transaction as commit_transaction_on_main,
+	rollback_transaction as rollback_transaction_on_main,
+} from './transaction-manager.js';
+import {
+	execute_captured_write,
+	get_undo_history,
+	undo_capture_enabled,
+	undo_last_write as undo_last_write_on_main,
+} from './undo-log.js';
+import { get_worker_pool_stats } from './worker-pool.js';
+
+export type { CursorPage } from './cursor-manager.js';
+export type { DatabaseDiff } from './database-diff.js';
+export type { SchemaMigration } from './schema-migration.js';
+export type { DropTablePreview, WritePreview } from './dry-run.js';
+export type { IndexDetails, IndexList } from './index-manager.js';
+export type {
+	MigrateResult,
+	MigrationStatus,
+} from './migration-manager.js';
+export type { QueryPlanAnalysis } from './query-planner.js';
+export type {
+	AlterOperation,
+	AlterTableResult,
+} from './table-alter.js';
+
+/**
+ * Wrap a synchronous client function that writes on the main connection
+ * so it runs between the writer thread's jobs (see
+ * run_on_main_connection); the wrapped function returns a promise
+ */
+function serialise_write<A extends unknown[], R>(
+	write: (database_path: string, ...args: A) => R,
+): (database_path: string, ...args: A) => Promise<R> {
+	return (database_path, ...args) =>
+		run_on_main_connection(database_path, () =>
+			write(database_path, ...args),
+		);
+}
+
+export const alter_table = serialise_write(alter_table_on_main);
+export const begin_transaction = serialise_write(
+	begin_transaction_on_main,
+);
+export const commit_transaction = serialise_write(
+	commit_transaction_on_main,
+);
+export const execute_script = serialise_write(execute_script_on_main);
+export const import_schema = serialise_write(import_schema_on_main);
+export const migrate_down = serialise_write(migrate_down_on_main);
+export const migrate_up = serialise_write(migrate_up_on_main);
+export const preview_drop_table = serialise_write(
+	preview_drop_table_on_main,
+);
+export const preview_write = serialise_write(preview_write_on_main);
+export const rollback_transaction = serialise_write(
+	rollback_transaction_on_main,
+);
+export const undo_last_write = serialise_write(
+	undo_last_write_on_main,
+);
 
 // Re-export all functions to maintain backward compatibility
 export {
 	bulk_insert,
+	classify_query,
 	close_all_databases,
 	close_database,
+	close_query_cursor,
+	create_migration,
+	defer_cursor_rows,
 	describe_table,
+	diff_databases,
+	diff_schema,
+	execute_captured_write,
 	execute_query,
 	execute_select_query,
+	execute_write_query,
+	explain_query,
 	export_csv,
 	export_schema,
+	fetch_query_cursor,
+	find_index,
+	get_open_cursor_count,
+	get_pool_stats,
+	get_undo_history,
+	get_worker_pool_stats,
 	import_csv,
-	import_schema,
 	is_read_only_query,
 	is_schema_query,
+	list_indexes,
 	list_tables,
+	migration_status,
 	open_database,
+	open_query_cursor,
+	render_patch,
+	undo_capture_enabled,
 	vacuum_database,
 	validate_database_path,
 };
@@ -112,7 +230,15 @@ export async function backup_database(
 	// Generate backup path if not provided
 	let resolved_backup_path: string;
 	if (backup_path) {
+		// Explicit destinations follow the database path sandbox, and may
+		// not overwrite files the access policy protects
 		resolved_backup_path = validate_database_path(backup_path);
+		if (is_read_only_database(resolved_backup_path)) {
+			throw new PathSecurityError(
+				'Backup destination is read-only by server access policy',
+				backup_path,
+			);
+		}
 	} else {
 		const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
 		const base_name =
@@ -156,68 +282,86 @@ export async function backup_database(
 }
 
 /**
- * List database files in a directory
+ * List database files in a directory, or in every allowed root directory
  */
 export function list_database_files(directory?: string): Array<{
 	name: string;
 	path: string;
 	size: number;
 	modified: string;
+	read_only: boolean;
 }> {
 	return with_error_handling(() => {
-		const config = get_config();
-
-		// Use provided directory or default
-		const search_dir = directory
-			? validate_database_path(directory)
-			: config.SQLITE_DEFAULT_PATH;
-
-		if (!existsSync(search_dir)) {
-			throw new Error(`Directory does not exist: ${search_dir}`);
+		// Use provided directory or every root
+		let search_dirs: string[];
+		if (directory) {
+			const search_dir = validate_database_path(directory);
+			if (!existsSync(search_dir)) {
+				throw new Error(`Directory does not exist: ${search_dir}`);
+			}
+			search_dirs = [search_dir];
+		} else {
+			search_dirs = get_database_roots()
+				.map((root) => root.path)
+				.filter((root_path) => {
+					if (existsSync(root_path)) return true;
+					debug_log('Skipping missing root directory:', root_path);
+					return false;
+				});
 		}
 
-		const files = readdirSync(search_dir);
 		const database_files: Array<{
 			name: string;
 			path: string;
 			size: number;
 			modified: string;
+			read_only: boolean;
 		}> = [];
 
-		for (const file of files) {
-			// Check if file has database extension
-			if (
-				file.endsWith('.db') ||
-				file.endsWith('.sqlite') ||
-				file.endsWith('.sqlite3')
-			) {
-				const file_path = resolve(search_dir, file);
-
-				try {
-					const stats = statSync(file_path);
-
-					// Only include regular files
-					if (stats.isFile()) {
-						database_files.push({
-							name: file,
-							path: file_path,
-							size: stats.size,
-							modified: stats.mtime.toISOString(),
-						});
+		for (const search_dir of search_dirs) {
+			for (const file of readdirSync(search_dir)) {
+				// Check if file has database extension
+				if (
+					file.endsWith('.db') ||
+					file.endsWith('.sqlite') ||
+					file.endsWith('.sqlite3')
+				) {
+					const file_path = resolve(search_dir, file);
+
+					try {
+						const stats = statSync(file_path);
+
+						// Only include regular files, skipping symlinks that
+						// point outside the searched directory
+						if (
+							stats.isFile() &&
+							is_within_directory(search_dir, file_path)
+						) {
+							database_files.push({
+								name: file,
+								path: file_path,
+								size: stats.size,
+								modified: stats.mtime.toISOString(),
+								read_only: is_read_only_database(file_path),
+							});
+						}
+					} catch (error) {
+						// Skip files that can't be accessed
+						debug_log(
+							'Skipping file due to access error:',
+							file,
+							error,
+						);
 					}
-				} catch (error) {
-					// Skip files that can't be accessed
-					debug_log(
-						'Skipping file due to access error:',
-						file,
-						error,
-					);
 				}
 			}
 		}
 
-		// Sort by name
-		database_files.sort((a, b) => a.name.localeCompare(b.name));
+		// Sort by name, then by location
+		database_files.sort(
+			(a, b) =>
+				a.name.localeCompare(b.name) || a.path.localeCompare(b.path),
+		);
 
 		debug_log('Found database files:', database_files);
 		return database_files;
@@ -0,0 +1,297 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { ToolUsageError } from '../common/errors.js';
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import { alter_table } from './table-alter.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+function temp_db(name: string, schema: string): string {
+	const db_path = join(root, `${name}.db`);
+	open_database(db_path, true).exec(schema);
+	return db_path;
+}
+
+function table_sql(db_path: string, name: string): string {
+	return open_database(db_path)
+		.prepare('SELECT sql FROM sqlite_master WHERE name = ?')
+		.pluck()
+		.get(name) as string;
+}
+
+describe('alter_table', () => {
+	it('uses native ALTER TABLE for add, rename and drop', () => {
+		const db_path = temp_db(
+			'native',
+			`CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, legacy TEXT);
+			CREATE INDEX users_name ON users (name);
+			INSERT INTO users VALUES (1, 'ada', 'x');`,
+		);
+
+		const result = alter_table(db_path, 'USERS', [
+			{
+				op: 'add_column',
+				column: { name: 'email', type: 'TEXT', default_value: '' },
+			},
+			{ op: 'rename_column', column: 'Name', new_name: 'full_name' },
+			{ op: 'drop_column', column: 'legacy' },
+		]);
+
+		expect(result.rebuilt).toBe(false);
+		expect(result.steps).toEqual([
+			{
+				operations: ['add_column'],
+				method: 'alter',
+				statements: [
+					`ALTER TABLE "users" ADD COLUMN "email" TEXT DEFAULT ''`,
+				],
+			},
+			{
+				operations: ['rename_column'],
+				method: 'alter',
+				statements: [
+					'ALTER TABLE "users" RENAME COLUMN "name" TO "full_name"',
+				],
+			},
+			{
+				operations: ['drop_column'],
+				method: 'alter',
+				statements: ['ALTER TABLE "users" DROP COLUMN "legacy"'],
+			},
+		]);
+		expect(table_sql(db_path, 'users_name')).toContain('"full_name"');
+		expect(
+			open_database(db_path).prepare('SELECT * FROM users').all(),
+		).toEqual([{ id: 1, full_name: 'ada', email: '' }]);
+	});
+
+	it('rebuilds the table for changes ALTER TABLE cannot make', () => {
+		const db_path = temp_db(
+			'rebuild',
+			`CREATE TABLE users (
+				id INTEGER PRIMARY KEY,
+				name TEXT COLLATE NOCASE,
+				score REAL DEFAULT 0 CHECK (score >= 0),
+				code TEXT UNIQUE
+			);
+			CREATE TABLE orders (
+				id INTEGER PRIMARY KEY,
+				user_id INTEGER REFERENCES users (id) ON DELETE CASCADE
+			);
+			CREATE INDEX users_name ON users (name);
+			CREATE VIEW user_names AS SELECT name FROM users;
+			CREATE TABLE log (message TEXT);
+			CREATE TRIGGER users_log AFTER INSERT ON users BEGIN
+				INSERT INTO log VALUES ('added ' || new.name);
+			END;
+			INSERT INTO users VALUES (1, 'ada', 9.5, 'a'), (2, 'grace', 7, 'g');
+			INSERT INTO orders VALUES (1, 1), (2, 2);`,
+		);
+
+		const result = alter_table(db_path, 'users', [
+			{ op: 'change_type', column: 'score', type: 'INTEGER' },
+			{ op: 'set_not_null', column: 'name', not_null: true },
+			{ op: 'set_default', column: 'score', default_value: 1 },
+			{
+				op: 'add_check',
+				check: 'length(name) > 1',
+				name: 'name_len',
+			},
+			// SQLite refuses to drop a UNIQUE column
+			{ op: 'drop_column', column: 'code' },
+		]);
+
+		expect(
+			result.steps.map(({ operations, method }) => ({
+				operations,
+				method,
+			})),
+		).toEqual([
+			{
+				operations: [
+					'change_type',
+					'set_not_null',
+					'set_default',
+					'add_check',
+				],
+				method: 'rebuild',
+			},
+			{ operations: ['drop_column'], method: 'rebuild' },
+		]);
+		expect(result.steps[1]!.reason).toMatch(
+			/^ALTER TABLE refused: .*UNIQUE/,
+		);
+		expect(result.sql).toBe(`CREATE TABLE "users" (
+	id INTEGER PRIMARY KEY,
+	name TEXT COLLATE NOCASE NOT NULL,
+	score INTEGER CHECK (score >= 0) DEFAULT 1,
+	CONSTRAINT "name_len" CHECK (length(name) > 1)
+)`);
+
+		const db = open_database(db_path);
+		expect(db.prepare('SELECT * FROM users').all()).toEqual([
+			{ id: 1, name: 'ada', score: 9.5 },
+			{ id: 2, name: 'grace', score: 7 },
+		]);
+		// Foreign keys were off, so the rebuild did not cascade
+		expect(
+			db.prepare('SELECT count(*) FROM orders').pluck().get(),
+		).toBe(2);
+		expect(
+			db
+				.prepare(
+					"SELECT name FROM sqlite_master WHERE type != 'table' ORDER BY name",
+				)
+				.pluck()
+				.all(),
+		).toEqual(['user_names', 'users_log', 'users_name']);
+		// The trigger was dropped while rows were copied, so only the
+		// fixture rows and the new one are logged
+		db.prepare(
+			"INSERT INTO users (id, name) VALUES (3, 'alan')",
+		).run();
+		expect(
+			db.prepare('SELECT message FROM log').pluck().all(),
+		).toEqual(['added ada', 'added grace', 'added alan']);
+	});
+
+	it('drops indexes that name a dropped column', () => {
+		const db_path = temp_db(
+			'indexed',
+			`CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, code TEXT);
+			CREATE INDEX users_code ON users (code);
+			CREATE INDEX users_name_code ON users (name, lower(code));
+			CREATE INDEX users_name ON users (name) WHERE id > 0;
+			CREATE INDEX users_active ON users (name) WHERE code IS NOT NULL;
+			INSERT INTO users VALUES (1, 'ada', 'a');`,
+		);
+
+		const result = alter_table(db_path, 'users', [
+			{ op: 'drop_column', column: 'code' },
+		]);
+
+		expect(result.steps).toEqual([
+			expect.objectContaining({
+				operations: ['drop_column'],
+				method: 'rebuild',
+				dropped_indexes: [
+					'users_code',
+					'users_name_code',
+					'users_active',
+				],
+			}),
+		]);
+		expect(result.steps[0]!.reason).toMatch(/^ALTER TABLE refused:/);
+		expect(
+			open_database(db_path)
+				.prepare(
+					"SELECT name FROM sqlite_master WHERE type = 'index'",
+				)
+				.pluck()
+				.all(),
+		).toEqual(['users_name']);
+		expect(
+			open_database(db_path).prepare('SELECT * FROM users').all(),
+		).toEqual([{ id: 1, name: 'ada' }]);
+	});
+
+	it('drops table constraints that name a dropped column', () => {
+		const db_path = temp_db(
+			'constrained',
+			`CREATE TABLE teams (id INTEGER PRIMARY KEY, code TEXT UNIQUE);
+			CREATE TABLE users (
+				id INTEGER PRIMARY KEY,
+				team_id INTEGER,
+				email TEXT,
+				code TEXT,
+				UNIQUE (email, code),
+				CONSTRAINT code_len CHECK (length(code) < 10),
+				FOREIGN KEY (code) REFERENCES teams (code),
+				FOREIGN KEY (team_id) REFERENCES teams (id)
+			);
+			INSERT INTO teams VALUES (1, 'a');
+			INSERT INTO users VALUES (1, 1, 'ada@example.com', 'a');`,
+		);
+
+		const result = alter_table(db_path, 'users', [
+			{ op: 'drop_column', column: 'code' },
+		]);
+
+		expect(result.steps[0]).toMatchObject({
+			method: 'rebuild',
+			dropped_constraints: [
+				'UNIQUE (email, code)',
+				'CONSTRAINT code_len CHECK (length(code) < 10)',
+				'FOREIGN KEY (code) REFERENCES teams (code)',
+			],
+		});
+		expect(result.steps[0]!.dropped_indexes).toBeUndefined();
+		expect(result.sql).toBe(`CREATE TABLE "users" (
+	id INTEGER PRIMARY KEY,
+	team_id INTEGER,
+	email TEXT,
+	FOREIGN KEY (team_id) REFERENCES teams (id)
+)`);
+
+		const db = temp_db(
+			'composite',
+			`CREATE TABLE pairs (
+				a INTEGER,
+				b INTEGER,
+				total INTEGER CHECK (total >= b),
+				PRIMARY KEY (a, b)
+			);`,
+		);
+		expect(() =>
+			alter_table(db, 'pairs', [{ op: 'drop_column', column: 'b' }]),
+		).toThrow(/definition of column total uses it/);
+		expect(() =>
+			alter_table(db, 'pairs', [
+				{ op: 'drop_column', column: 'total' },
+				{ op: 'drop_column', column: 'b' },
+			]),
+		).toThrow(/part of the table's PRIMARY KEY/);
+	});
+
+	it('rolls every operation back when one fails', () => {
+		const db_path = temp_db(
+			'failing',
+			`CREATE TABLE items (id INTEGER PRIMARY KEY, qty INTEGER);
+			INSERT INTO items VALUES (1, -5);`,
+		);
+		const before = table_sql(db_path, 'items');
+
+		expect(() =>
+			alter_table(db_path, 'items', [
+				{
+					op: 'add_column',
+					column: { name: 'note', type: 'TEXT' },
+				},
+				{ op: 'add_check', check: 'qty >= 0' },
+			]),
+		).toThrow(/Changing table items failed at "INSERT INTO/);
+		expect(table_sql(db_path, 'items')).toBe(before);
+		expect(
+			open_database(db_path).pragma('foreign_keys', { simple: true }),
+		).toBe(1);
+
+		expect(() =>
+			alter_table(db_path, 'items', [
+				{ op: 'change_type', column: 'missing', type: 'TEXT' },
+			]),
+		).toThrow(ToolUsageError);
+	});
+});
@@ -0,0 +1,571 @@
+/**
+ * Structured ALTER TABLE operations for SQLite Tools MCP server.
+ *
+ * Renaming, adding and dropping columns use SQLite's native ALTER
+ * TABLE. Changes it cannot express (column types, NOT NULL, defaults,
+ * CHECK constraints), and ADD/DROP COLUMN statements SQLite refuses,
+ * rebuild the table: create the new definition under a temporary name,
+ * copy the rows, swap the tables and recreate the indexes, views and
+ * triggers that depend on it.
+ */
+import type Database from 'better-sqlite3';
+import {
+	SqliteError,
+	ToolUsageError,
+	convert_sqlite_error,
+	with_error_handling,
+} from '../common/errors.js';
+import {
+	format_column_definition,
+	is_table_constraint,
+	mentions_identifier,
+	parse_column_definition,
+	rename_create_table,
+	replace_table_definition,
+	split_table_definition,
+} from '../common/schema-sql.js';
+import {
+	ColumnSpec,
+	format_column_spec,
+	format_default_value,
+	format_sql_expression,
+	quote_identifier,
+} from '../common/sql.js';
+import { tokenise_sql } from '../common/statement-classifier.js';
+import { debug_log } from '../config.js';
+import { open_database } from './connection-manager.js';
+import { has_active_transaction } from './transaction-manager.js';
+
+export type AlterOperation =
+	| { op: 'add_column'; column: ColumnSpec }
+	| { op: 'rename_column'; column: string; new_name: string }
+	| { op: 'drop_column'; column: string }
+	| { op: 'change_type'; column: string; type: string }
+	| {
+			op: 'set_not_null';
+			column: string;
+			not_null?: boolean | undefined;
+	  }
+	// A null default removes the column's default
+	| { op: 'set_default'; column: string; default_value: unknown }
+	| { op: 'add_check'; check: string; name?: string | undefined };
+
+export interface AlterStep {
+	operations: AlterOperation['op'][];
+	method: 'alter' | 'rebuild';
+	// Why a native ALTER TABLE was not used
+	reason?: string;
+	// Indexes and table constraints that named a dropped column
+	dropped_indexes?: string[];
+	dropped_constraints?: string[];
+	statements: string[];
+}
+
+export interface AlterTableResult {
+	table: string;
+	steps: AlterStep[];
+	rebuilt: boolean;
+	// Table definition after the changes
+	sql: string;
+	total_time: number;
+}
+
+interface SchemaRow {
+	type: string;
+	name: string;
+	tbl_name: string;
+	sql: string;
+}
+
+// Operations ALTER TABLE supports natively
+const NATIVE_OPERATIONS = new Set<AlterOperation['op']>([
+	'add_column',
+	'rename_column',
+	'drop_column',
+]);
+
+function table_sql(db: Database.Database, table: string): SchemaRow {
+	const row = db
+		.prepare(
+			"SELECT type, name, tbl_name, sql FROM main.sqlite_master WHERE type = 'table' AND name = ? COLLATE NOCASE",
+		)
+		.get(table) as SchemaRow | undefined;
+	if (!row) {
+		throw new ToolUsageError(`Table not found: ${table}`, [
+			'Check the table name with list_tables',
+		]);
+	}
+	if (
+		row.name.startsWith('sqlite_') ||
+		/^\s*CREATE\s+VIRTUAL\b/i.test(row.sql)
+	) {
+		throw new ToolUsageError(
+			`alter_table cannot change ${row.name}: it is a virtual or internal table`,
+			['Drop and recreate virtual tables with execute_schema_query'],
+		);
+	}
+	return row;
+}
+
+function column_names(
+	db: Database.Database,
+	table: string,
+): string[] {
+	return (
+		db
+			.prepare(`PRAGMA main.table_xinfo(${quote_identifier(table)})`)
+			.all() as Array<{ name: string; hidden: number }>
+	)
+		.filter((column) => column.hidden === 0 || column.hidden > 1)
+		.map((column) => column.name);
+}
+
+/**
+ * Check that an operation names existing columns, returning them as
+ * the table spells them
+ */
+function check_operation(
+	db: Database.Database,
+	table: string,
+	operation: AlterOperation,
+): AlterOperation {
+	const columns = column_names(db, table);
+	const find = (name: string) =>
+		columns.find(
+			(column) => column.toLowerCase() === name.toLowerCase(),
+		);
+
+	if (operation.op === 'add_check') return operation;
+	if (operation.op === 'add_column') {
+		if (find(operation.column.name)) {
+			throw new ToolUsageError(
+				`Column ${operation.column.name} already exists in ${table}`,
+				['Use change_type, set_not_null or set_default to change it'],
+			);
+		}
+		return operation;
+	}
+
+	const column = find(operation.column);
+	if (!column) {
+		throw new ToolUsageError(
+			`Column ${operation.column} not found in ${table}`,
+			[`Columns of ${table}: ${columns.join(', ')}`],
+		);
+	}
+	return { ...operation, column };
+}
+
+function native_statement(
+	table: string,
+	operation: AlterOperation,
+): string {
+	const name = quote_identifier(table);
+	switch (operation.op) {
+		case 'add_column':
+			return `ALTER TABLE ${name} ADD COLUMN ${format_column_spec(operation.column)}`;
+		case 'rename_column':
+			return `ALTER TABLE ${name} RENAME COLUMN ${quote_identifier(operation.column)} TO ${quote_identifier(operation.new_name)}`;
+		case 'drop_column':
+			return `ALTER TABLE ${name} DROP COLUMN ${quote_identifier(operation.column)}`;
+		default:
+			throw new Error(`${operation.op} has no ALTER TABLE statement`);
+	}
+}
+
+function part_name(part: string): string | undefined {
+	return is_table_constraint(part)
+		? undefined
+		: tokenise_sql(part)[0]?.text.toLowerCase();
+}
+
+/**
+ * Whether a table constraint names a column among its own columns or
+ * in its CHECK expression; the parent key of a FOREIGN KEY does not count
+ */
+function constraint_names_column(
+	part: string,
+	column: string,
+): boolean {
+	const tokens = tokenise_sql(part);
+	const start = tokens[0]?.word === 'CONSTRAINT' ? 2 : 0;
+	const references = tokens.findIndex(
+		(token) => token.word === 'REFERENCES',
+	);
+	return tokens
+		.slice(start, references === -1 ? undefined : references)
+		.some(
+			(token) => token.text.toLowerCase() === column.toLowerCase(),
+		);
+}
+
+/**
+ * Remove a column with the table constraints that name it. Primary keys
+ * and expressions in other columns' definitions cannot go with it.
+ */
+function drop_column_definition(
+	parts: string[],
+	index: number,
+	column: string,
+): string[] {
+	for (const [i, part] of parts.entries()) {
+		if (i === index || is_table_constraint(part)) continue;
+		const uses_column = parse_column_definition(
+			part,
+		).constraints.some(
+			(constraint) =>
+				['CHECK', 'GENERATED', 'AS'].includes(constraint.kind) &&
+				mentions_identifier(constraint.text, column),
+		);
+		if (uses_column) {
+			throw new ToolUsageError(
+				`Cannot drop column ${column}: the definition of column ${part_name(part)} uses it`,
+				['Change or drop that column first'],
+			);
+		}
+	}
+
+	return parts.filter((part, i) => {
+		if (i === index) return false;
+		if (!is_table_constraint(part)) return true;
+		if (!constraint_names_column(part, column)) return true;
+		if (/^(?:CONSTRAINT\s+\S+\s+)?PRIMARY\s+KEY\b/i.test(part)) {
+			throw new ToolUsageError(
+				`Cannot drop column ${column}: it is part of the table's PRIMARY KEY`,
+				['Recreate the table with a new primary key instead'],
+			);
+		}
+		return false;
+	});
+}
+
+/**
+ * Apply an operation to the column definitions and table constraints
+ * of a CREATE TABLE statement
+ */
+function edit_definition(
+	parts: string[],
+	operation: AlterOperation,
+): string[] {
+	if (operation.op === 'add_check') {
+		const check = `CHECK ${format_sql_expression(operation.check, 'check')}`;
+		return [
+			...parts,
+			operation.name
+				? `CONSTRAINT ${quote_identifier(operation.name)} ${check}`
+				: check,
+		];
+	}
+	if (operation.op === 'add_column') {
+		// Column definitions come before table constraints
+		const index = parts.findIndex(is_table_constraint);
+		const definition = format_column_spec(operation.column);
+		return index === -1
+			? [...parts, definition]
+			: [...parts.slice(0, index), definition, ...parts.slice(index)];
+	}
+
+	const index = parts.findIndex(
+		(part) => part_name(part) === operation.column.toLowerCase(),
+	);
+	if (index === -1) {
+		throw new ToolUsageError(
+			`Could not find the definition of column ${operation.column}`,
+			['Change the table with execute_schema_query instead'],
+		);
+	}
+	if (operation.op === 'drop_column') {
+		return drop_column_definition(parts, index, operation.column);
+	}
+
+	const column = parse_column_definition(parts[index]!);
+	switch (operation.op) {
+		case 'change_type':
+			column.type = operation.type;
+			break;
+		case 'set_not_null':
+			column.constraints = column.constraints.filter(
+				(constraint) =>
+					constraint.kind !== 'NOT' && constraint.kind !== 'NULL',
+			);
+			if (operation.not_null ?? true) {
+				column.constraints.push({ kind: 'NOT', text: 'NOT NULL' });
+			}
+			break;
+		case 'set_default':
+			column.constraints = column.constraints.filter(
+				(constraint) => constraint.kind !== 'DEFAULT',
+			);
+			if (operation.default_value !== null) {
+				column.constraints.push({
+					kind: 'DEFAULT',
+					text: `DEFAULT ${format_default_value(operation.default_value)}`,
+				});
+			}
+			break;
+	}
+	return parts.map((part, i) =>
+		i === index ? format_column_definition(column) : part,
+	);
+}
+
+function run_statement(
+	db: Database.Database,
+	database_path: string,
+	table: string,
+	statement: string,
+): void {
+	try {
+		db.exec(statement);
+	} catch (error) {
+		const sqlite_error = convert_sqlite_error(error, database_path);
+		throw new SqliteError(
+			`Changing table ${table} failed at "${statement.split('\n')[0]}": ${sqlite_error.message}`,
+			sqlite_error.code,
+			sqlite_error.errno,
+			database_path,
+		);
+	}
+}
+
+/**
+ * Whether an index definition names a column in its key or WHERE clause
+ */
+function index_names_column(sql: string, column: string): boolean {
+	const tokens = tokenise_sql(sql);
+	return tokens
+		.slice(tokens.findIndex((token) => token.word === '('))
+		.some(
+			(token) => token.text.toLowerCase() === column.toLowerCase(),
+		);
+}
+
+/**
+ * Rebuild a table with the operations applied: SQLite's 12-step
+ * procedure, inside the caller's transaction with foreign keys off.
+ * Indexes and table constraints naming a dropped column are left out.
+ */
+function rebuild_table(
+	db: Database.Database,
+	database_path: string,
+	table: string,
+	operations: AlterOperation[],
+): Pick<
+	AlterStep,
+	'statements' | 'dropped_indexes' | 'dropped_constraints'
+> {
+	const { sql } = table_sql(db, table);
+	const original_parts = split_table_definition(sql);
+	const parts = operations.reduce(edit_definition, original_parts);
+	const new_columns = new Set(
+		parts.map(part_name).filter((name) => name !== undefined),
+	);
+	const dropped_columns = operations.flatMap((operation) =>
+		operation.op === 'drop_column' ? [operation.column] : [],
+	);
+	// Only dropping a column removes table constraints
+	const dropped_constraints = original_parts.filter(
+		(part) => is_table_constraint(part) && !parts.includes(part),
+	);
+
+	const objects = db
+		.prepare(
+			'SELECT type, name, tbl_name, sql FROM main.sqlite_master WHERE sql IS NOT NULL',
+		)
+		.all() as SchemaRow[];
+	const names = new Set(
+		objects.map((object) => object.name.toLowerCase()),
+	);
+	let temporary = `new_${table}`;
+	for (let i = 2; names.has(temporary.toLowerCase()); i++) {
+		temporary = `new_${table}_${i}`;
+	}
+
+	// The table's indexes and triggers go with it, and views and
+	// triggers naming it would fail the rename
+	const dependents = objects.filter(
+		(object) =>
+			object.type !== 'table' &&
+			(object.tbl_name.toLowerCase() === table.toLowerCase() ||
+				(object.type !== 'index' &&
+					mentions_identifier(object.sql, table))),
+	);
+	const of_type = (type: string) =>
+		dependents.filter((object) => object.type === type);
+	const dropped_indexes = of_type('index').filter((index) =>
+		dropped_columns.some((column) =>
+			index_names_column(index.sql, column),
+		),
+	);
+
+	// Generated columns are computed, not copied
+	const copied = (
+		db
+			.prepare(`PRAGMA main.table_xinfo(${quote_identifier(table)})`)
+			.all() as Array<{ name: string; hidden: number }>
+	)
+		.filter(
+			(column) =>
+				column.hidden === 0 &&
+				new_columns.has(column.name.toLowerCase()),
+		)
+		.map((column) => quote_identifier(column.name))
+		.join(', ');
+	debug_log('Rebuilding table:', {
+		table,
+		operations: operations.map((operation) => operation.op),
+	});
+
+	const statements = [
+		...['trigger', 'view', 'index'].flatMap((type) =>
+			of_type(type).map(
+				(object) =>
+					`DROP ${type.toUpperCase()} ${quote_identifier(object.name)}`,
+			),
+		),
+		rename_create_table(
+			replace_table_definition(sql, parts),
+			temporary,
+		),
+		...(copied
+			? [
+					`INSERT INTO ${quote_identifier(temporary)} (${copied}) SELECT ${copied} FROM ${quote_identifier(table)}`,
+				]
+			: []),
+		`DROP TABLE ${quote_identifier(table)}`,
+		`ALTER TABLE ${quote_identifier(temporary)} RENAME TO ${quote_identifier(table)}`,
+		...['index', 'view', 'trigger'].flatMap((type) =>
+			of_type(type)
+				.filter((object) => !dropped_indexes.includes(object))
+				.map((object) => object.sql),
+		),
+	];
+	for (const statement of statements) {
+		run_statement(db, database_path, table, statement);
+	}
+	return {
+		statements,
+		...(dropped_indexes.length > 0 && {
+			dropped_indexes: dropped_indexes.map((index) => index.name),
+		}),
+		...(dropped_constraints.length > 0 && { dropped_constraints }),
+	};
+}
+
+/**
+ * Apply structured changes to a table in one transaction, in order.
+ * Foreign keys are off while the table changes, so a rebuild does not
+ * cascade, and are checked before the transaction commits.
+ */
+export function alter_table(
+	database_path: string,
+	table: string,
+	operations: AlterOperation[],
+): AlterTableResult {
+	return with_error_handling((): AlterTableResult => {
+		const start_time = Date.now();
+		if (operations.length === 0) {
+			throw new ToolUsageError(
+				'alter_table needs at least one operation',
+			);
+		}
+		if (has_active_transaction(database_path)) {
+			throw new ToolUsageError(
+				'alter_table runs in its own transaction and cannot run inside an open transaction',
+				['Commit or roll back the transaction first'],
+			);
+		}
+
+		const db = open_database(database_path);
+		const foreign_keys = db.pragma('foreign_keys', { simple: true });
+		try {
+			// PRAGMA foreign_keys has no effect inside a transaction
+			db.pragma('foreign_keys = OFF');
+			db.exec('BEGIN IMMEDIATE');
+		} catch (error) {
+			db.pragma(`foreign_keys = ${foreign_keys ? 'ON' : 'OFF'}`);
+			throw convert_sqlite_error(error, database_path);
+		}
+
+		try {
+			const { name } = table_sql(db, table);
+			const steps: AlterStep[] = [];
+			let pending: AlterOperation[] = [];
+			const rebuild = (batch: AlterOperation[], reason?: string) => {
+				steps.push({
+					operations: batch.map((operation) => operation.op),
+					method: 'rebuild',
+					...(reason ? { reason } : {}),
+					...rebuild_table(db, database_path, name, batch),
+				});
+			};
+
+			for (const requested of operations) {
+				const operation = check_operation(db, name, requested);
+				if (!NATIVE_OPERATIONS.has(operation.op)) {
+					pending.push(operation);
+					continue;
+				}
+
+				// Earlier rebuild operations apply first
+				if (pending.length > 0) rebuild(pending);
+				pending = [];
+
+				const statement = native_statement(name, operation);
+				db.exec('SAVEPOINT alter_table_column');
+				try {
+					db.exec(statement);
+					db.exec('RELEASE alter_table_column');
+					steps.push({
+						operations: [operation.op],
+						method: 'alter',
+						statements: [statement],
+					});
+				} catch (error) {
+					db.exec(
+						'ROLLBACK TO alter_table_column; RELEASE alter_table_column',
+					);
+					if (operation.op === 'rename_column') {
+						throw convert_sqlite_error(error, database_path);
+					}
+					// e.g. dropping an indexed or UNIQUE column, or adding
+					// a PRIMARY KEY column
+					rebuild(
+						[operation],
+						`ALTER TABLE refused: ${error instanceof Error ? error.message : String(error)}`,
+					);
+				}
+			}
+			if (pending.length > 0) rebuild(pending);
+
+			if (foreign_keys) {
+				const violations = db.pragma('foreign_key_check') as Array<{
+					table: string;
+					parent: string;
+				}>;
+				if (violations.length > 0) {
+					throw new ToolUsageError(
+						`Changing table ${name} was rolled back: it leaves ${violations.length} row(s) violating foreign keys (${[...new Set(violations.map((violation) => `${violation.table} -> ${violation.parent}`))].join(', ')})`,
+						['Fix or delete the rows, then retry'],
+					);
+				}
+			}
+
+			const { sql } = table_sql(db, name);
+			db.exec('COMMIT');
+
+			return {
+				table: name,
+				steps,
+				rebuilt: steps.some((step) => step.method === 'rebuild'),
+				sql,
+				total_time: Date.now() - start_time,
+			};
+		} catch (error) {
+			if (db.inTransaction) db.exec('ROLLBACK');
+			throw error;
+		} finally {
+			db.pragma(`foreign_keys = ${foreign_keys ? 'ON' : 'OFF'}`);
+		}
+	}, 'alter_table')();
+}
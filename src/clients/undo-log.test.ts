@@ -0,0 +1,185 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import {
+	execute_captured_write,
+	get_undo_history,
+	undo_last_write,
+} from './undo-log.js';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+
+// Configuration is loaded lazily, so these settings apply to this file
+process.env['SQLITE_UNDO_HISTORY'] = '3';
+process.env['SQLITE_WORKER_POOL_SIZE'] = '0';
+
+function create_database(name: string) {
+	const db_path = join(root, name);
+	open_database(db_path, true).exec(`
+		PRAGMA foreign_keys = ON;
+		CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT, avatar BLOB);
+		CREATE TABLE books (
+			id INTEGER PRIMARY KEY,
+			author_id INTEGER REFERENCES authors (id) ON DELETE CASCADE,
+			title TEXT
+		);
+		INSERT INTO authors VALUES (1, 'Ada', x'00ff'), (2, 'Grace', NULL);
+		INSERT INTO books VALUES (1, 1, 'Notes'), (2, 1, 'Sketch'), (3, 2, 'COBOL');
+	`);
+	return db_path;
+}
+
+function all_rows(db_path: string) {
+	const db = open_database(db_path);
+	return {
+		authors: db.prepare('SELECT * FROM authors ORDER BY id').all(),
+		books: db.prepare('SELECT * FROM books ORDER BY id').all(),
+	};
+}
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('undo log', () => {
+	it('undoes updates, inserts and cascading deletes', async () => {
+		const db_path = create_database('undo.db');
+		const original = all_rows(db_path);
+
+		const update = await execute_captured_write(
+			db_path,
+			"UPDATE authors SET name = 'Ada L', avatar = x'01' WHERE id = 1",
+		);
+		expect(update.undo).toMatchObject({
+			available: true,
+			rows: 1,
+			tables: { authors: { inserted: 0, updated: 1, deleted: 0 } },
+		});
+		await execute_captured_write(
+			db_path,
+			"INSERT INTO books (author_id, title) VALUES (2, 'FLOW-MATIC')",
+		);
+		const remove = await execute_captured_write(
+			db_path,
+			'DELETE FROM authors WHERE id = 1',
+		);
+		expect(remove.changes).toBe(1);
+		expect(remove.undo).toMatchObject({
+			rows: 3,
+			tables: {
+				authors: { deleted: 1 },
+				books: { deleted: 2 },
+			},
+		});
+		expect(
+			get_undo_history(db_path).map((entry) => entry.query),
+		).toEqual([
+			'DELETE FROM authors WHERE id = 1',
+			"INSERT INTO books (author_id, title) VALUES (2, 'FLOW-MATIC')",
+			"UPDATE authors SET name = 'Ada L', avatar = x'01' WHERE id = 1",
+		]);
+
+		expect(undo_last_write(db_path)).toMatchObject({
+			rows_restored: 3,
+			remaining: 2,
+		});
+		expect(undo_last_write(db_path).remaining).toBe(1);
+		expect(undo_last_write(db_path).remaining).toBe(0);
+		expect(all_rows(db_path)).toEqual(original);
+		expect(() => undo_last_write(db_path)).toThrow(
+			/No captured writes to undo/,
+		);
+	});
+
+	it('refuses to overwrite later changes unless forced', async () => {
+		const db_path = create_database('conflict.db');
+		await execute_captured_write(
+			db_path,
+			"UPDATE books SET title = 'Notes on the Engine' WHERE id = 1",
+		);
+		open_database(db_path).exec(
+			"UPDATE books SET title = 'Notes, revised' WHERE id = 1",
+		);
+
+		expect(() => undo_last_write(db_path)).toThrow(
+			/books rowid 1 has changed \(title\)/,
+		);
+		expect(get_undo_history(db_path)).toHaveLength(1);
+
+		undo_last_write(db_path, { force: true });
+		expect(all_rows(db_path).books[0]).toMatchObject({
+			title: 'Notes',
+		});
+	});
+
+	it('captures writes that call the replace() function', async () => {
+		const db_path = create_database('replace-function.db');
+
+		const update = await execute_captured_write(
+			db_path,
+			"UPDATE books SET title = replace(title, 'o', '0') WHERE id = 1",
+		);
+		expect(update.undo).toMatchObject({ available: true });
+		expect(all_rows(db_path).books[0]).toMatchObject({
+			title: 'N0tes',
+		});
+
+		undo_last_write(db_path);
+		expect(all_rows(db_path).books[0]).toMatchObject({
+			title: 'Notes',
+		});
+	});
+
+	it('keeps a bounded history and reports writes it cannot capture', async () => {
+		const db_path = create_database('bounded.db');
+		for (let i = 0; i < 5; i++) {
+			await execute_captured_write(
+				db_path,
+				'UPDATE books SET title = title || ? WHERE id = 3',
+				[`!${i}`],
+			);
+		}
+		expect(get_undo_history(db_path)).toHaveLength(3);
+
+		const replace = await execute_captured_write(
+			db_path,
+			"INSERT OR REPLACE INTO authors VALUES (2, 'Grace H', NULL)",
+		);
+		expect(replace.changes).toBe(1);
+		expect(replace.undo).toEqual({
+			available: false,
+			reason: expect.stringContaining('REPLACE'),
+		});
+
+		open_database(db_path).exec(
+			'CREATE TABLE tags (name TEXT UNIQUE ON CONFLICT REPLACE)',
+		);
+		const conflict = await execute_captured_write(
+			db_path,
+			"INSERT INTO tags VALUES ('math')",
+		);
+		expect(conflict.undo).toEqual({
+			available: false,
+			reason: expect.stringContaining('REPLACE'),
+		});
+
+		const none = await execute_captured_write(
+			db_path,
+			'DELETE FROM books WHERE id = 99',
+		);
+		expect(none.undo).toEqual({
+			available: false,
+			reason: 'No rows were changed',
+		});
+		expect(get_undo_history(db_path)).toHaveLength(3);
+	});
+});
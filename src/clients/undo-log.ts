@@ -0,0 +1,620 @@
+/**
+ * Undo log for write queries in SQLite Tools MCP server.
+ *
+ * Writes are captured with temporary triggers on every rowid table: each
+ * inserted, updated or deleted row is copied into temporary tables with
+ * its before and after image while the write runs, in the same savepoint.
+ * undo_last_write replays those images backwards.
+ */
+import Database from 'better-sqlite3';
+import {
+	ToolUsageError,
+	convert_sqlite_error,
+	with_error_handling,
+} from '../common/errors.js';
+import { quote_identifier } from '../common/sql.js';
+import { tokenise_sql } from '../common/statement-classifier.js';
+import { QueryResult } from '../common/types.js';
+import { normalise_integer } from '../common/value-codec.js';
+import { debug_log, get_config } from '../config.js';
+import {
+	open_database,
+	validate_database_path,
+} from './connection-manager.js';
+import {
+	classify_query,
+	convert_parameters,
+	execute_write_query,
+	run_on_main_connection,
+} from './query-executor.js';
+import { has_active_transaction } from './transaction-manager.js';
+
+// Conflicts listed in the error when undo_last_write refuses
+const MAX_REPORTED_CONFLICTS = 5;
+
+// Statements whose changes the capture triggers see
+export const CAPTURED_STATEMENTS = new Set([
+	'INSERT',
+	'UPDATE',
+	'DELETE',
+	'WITH INSERT',
+	'WITH UPDATE',
+	'WITH DELETE',
+]);
+
+export const REPLACE_STATEMENTS = new Set([
+	'REPLACE',
+	'WITH REPLACE',
+]);
+
+// Keywords between a DML verb and its table name
+const TARGET_PREFIX_KEYWORDS = new Set([
+	'OR',
+	'ROLLBACK',
+	'ABORT',
+	'REPLACE',
+	'FAIL',
+	'IGNORE',
+	'INTO',
+	'FROM',
+]);
+
+export interface RowImage {
+	rowid: number | bigint;
+	values: Record<string, unknown>;
+}
+
+export interface RowChange {
+	table: string;
+	operation: 'insert' | 'update' | 'delete';
+	before?: RowImage;
+	after?: RowImage;
+}
+
+interface UndoEntry {
+	id: number;
+	query: string;
+	timestamp: string;
+	changes: RowChange[];
+}
+
+export interface UndoSummary {
+	id: number;
+	query: string;
+	timestamp: string;
+	rows: number;
+	tables: Record<
+		string,
+		{ inserted: number; updated: number; deleted: number }
+	>;
+}
+
+export type UndoCapture =
+	| ({ available: true } & UndoSummary)
+	| { available: false; reason: string };
+
+export interface CapturedWriteResult extends QueryResult {
+	undo: UndoCapture;
+}
+
+export interface UndoResult {
+	undone: UndoSummary;
+	rows_restored: number;
+	// Entries still available for the database
+	remaining: number;
+}
+
+interface CaptureTable {
+	name: string;
+	columns: string[];
+	shadow: string;
+}
+
+// Captured writes per database path, oldest first
+const undo_history = new Map<string, UndoEntry[]>();
+let next_undo_id = 1;
+
+export function undo_capture_enabled(): boolean {
+	return get_config().SQLITE_UNDO_HISTORY > 0;
+}
+
+function summarise(entry: UndoEntry): UndoSummary {
+	const tables: UndoSummary['tables'] = {};
+	for (const change of entry.changes) {
+		const counts = (tables[change.table] ??= {
+			inserted: 0,
+			updated: 0,
+			deleted: 0,
+		});
+		if (change.operation === 'insert') counts.inserted++;
+		else if (change.operation === 'update') counts.updated++;
+		else counts.deleted++;
+	}
+	return {
+		id: entry.id,
+		query: entry.query,
+		timestamp: entry.timestamp,
+		rows: entry.changes.length,
+		tables,
+	};
+}
+
+/**
+ * The table an INSERT, UPDATE or DELETE writes to, from its first
+ * top-level DML keyword
+ */
+export function statement_target(query: string): string | null {
+	const tokens = tokenise_sql(query);
+	let index = tokens.findIndex(
+		(token) =>
+			token.depth === 0 &&
+			['INSERT', 'REPLACE', 'UPDATE', 'DELETE'].includes(token.word),
+	);
+	if (index < 0) return null;
+	index++;
+	while (TARGET_PREFIX_KEYWORDS.has(tokens[index]?.word ?? '')) {
+		index++;
+	}
+	// Skip a schema name
+	if (tokens[index + 1]?.word === '.') index += 2;
+	return tokens[index]?.text ?? null;
+}
+
+/**
+ * Whether a write can resolve a conflict by deleting the conflicting
+ * row, which fires no delete trigger: a REPLACE statement, an OR REPLACE
+ * conflict clause, or an INSERT or UPDATE on a table with an ON CONFLICT
+ * REPLACE constraint
+ */
+export function may_replace_rows(
+	database_path: string,
+	query: string,
+	statement_type: string,
+): boolean {
+	if (REPLACE_STATEMENTS.has(statement_type)) return true;
+	const tokens = tokenise_sql(query);
+	// The replace() function is followed by its arguments
+	const or_replace = tokens.some(
+		(token, index) =>
+			token.word === 'OR' &&
+			tokens[index + 1]?.word === 'REPLACE' &&
+			tokens[index + 2]?.word !== '(',
+	);
+	if (or_replace) return true;
+	if (!/\b(INSERT|UPDATE)$/.test(statement_type)) return false;
+
+	const target = statement_target(query);
+	const table_sql = target
+		? (open_database(database_path)
+				.prepare(
+					"SELECT sql FROM main.sqlite_master WHERE type = 'table' AND name = ? COLLATE NOCASE",
+				)
+				.pluck()
+				.get(target) as string | undefined)
+		: undefined;
+	const table_tokens = tokenise_sql(table_sql ?? '');
+	return table_tokens.some(
+		(token, index) =>
+			token.word === 'CONFLICT' &&
+			table_tokens[index + 1]?.word === 'REPLACE',
+	);
+}
+
+/**
+ * Why a statement cannot be captured, or null when it can
+ */
+function capture_refusal(
+	database_path: string,
+	query: string,
+): string | null {
+	if (has_active_transaction(database_path)) {
+		return 'Writes inside a transaction are not captured; use rollback_transaction to undo them';
+	}
+	const { statement_type } = classify_query(query, database_path);
+	if (!CAPTURED_STATEMENTS.has(statement_type)) {
+		return `${statement_type || 'Empty'} statements are not captured`;
+	}
+	if (may_replace_rows(database_path, query, statement_type)) {
+		return 'REPLACE conflict resolution deletes rows without telling triggers, so it is not captured';
+	}
+	return null;
+}
+
+/**
+ * Ordinary tables that have a rowid, which the triggers identify rows by
+ */
+function capture_tables(db: Database.Database): CaptureTable[] {
+	const tables = db
+		.prepare(
+			"SELECT name, sql FROM main.sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'",
+		)
+		.all() as { name: string; sql: string }[];
+
+	return tables
+		.filter(
+			({ sql }) =>
+				!/^\s*CREATE\s+VIRTUAL\b/i.test(sql) &&
+				!/\bWITHOUT\s+ROWID\b/i.test(sql),
+		)
+		.map(({ name }, index) => ({
+			name,
+			// table_info leaves out generated columns, which can't be set
+			columns: (
+				db
+					.prepare(
+						`PRAGMA main.table_info(${quote_identifier(name)})`,
+					)
+					.all() as { name: string }[]
+			).map((column) => column.name),
+			shadow: `_undo_${index}`,
+		}));
+}
+
+function install_triggers(
+	db: Database.Database,
+	tables: CaptureTable[],
+): void {
+	db.exec(
+		'CREATE TEMP TABLE _undo_log (seq INTEGER PRIMARY KEY, tbl INTEGER, op TEXT)',
+	);
+	tables.forEach((table, index) => {
+		const shadow_columns = table.columns.map((_, i) => `c${i}`);
+		db.exec(
+			`CREATE TEMP TABLE ${table.shadow} (seq INTEGER, image TEXT, row_id INTEGER${shadow_columns.map((column) => `, ${column}`).join('')})`,
+		);
+		// Each image row points at the log entry just added for it
+		const image = (alias: 'OLD' | 'NEW') =>
+			`INSERT INTO temp.${table.shadow} SELECT max(seq), '${alias === 'OLD' ? 'before' : 'after'}', ${alias}.rowid${table.columns
+				.map((column) => `, ${alias}.${quote_identifier(column)}`)
+				.join('')} FROM temp._undo_log;`;
+		const target = `main.${quote_identifier(table.name)}`;
+
+		db.exec(`
+			CREATE TEMP TRIGGER _undo_${index}_insert AFTER INSERT ON ${target} BEGIN
+				INSERT INTO temp._undo_log (tbl, op) VALUES (${index}, 'insert');
+				${image('NEW')}
+			END;
+			CREATE TEMP TRIGGER _undo_${index}_update AFTER UPDATE ON ${target} BEGIN
+				INSERT INTO temp._undo_log (tbl, op) VALUES (${index}, 'update');
+				${image('OLD')}
+				${image('NEW')}
+			END;
+			CREATE TEMP TRIGGER _undo_${index}_delete AFTER DELETE ON ${target} BEGIN
+				INSERT INTO temp._undo_log (tbl, op) VALUES (${index}, 'delete');
+				${image('OLD')}
+			END;
+		`);
+	});
+}
+
+function remove_triggers(
+	db: Database.Database,
+	tables: CaptureTable[],
+): void {
+	tables.forEach((table, index) => {
+		db.exec(`
+			DROP TRIGGER IF EXISTS temp._undo_${index}_insert;
+			DROP TRIGGER IF EXISTS temp._undo_${index}_update;
+			DROP TRIGGER IF EXISTS temp._undo_${index}_delete;
+			DROP TABLE IF EXISTS temp.${table.shadow};
+		`);
+	});
+	db.exec('DROP TABLE IF EXISTS temp._undo_log');
+}
+
+function read_changes(
+	db: Database.Database,
+	tables: CaptureTable[],
+): RowChange[] {
+	const log = db
+		.prepare('SELECT seq, tbl, op FROM temp._undo_log ORDER BY seq')
+		.all() as {
+		seq: number;
+		tbl: number;
+		op: RowChange['operation'];
+	}[];
+
+	const images = new Map<string, RowImage>();
+	for (const index of new Set(log.map((entry) => entry.tbl))) {
+		const table = tables[index]!;
+		const rows = db
+			.prepare(`SELECT * FROM temp.${table.shadow}`)
+			.safeIntegers(true)
+			.all() as Record<string, any>[];
+		for (const row of rows) {
+			images.set(`${row['seq']}:${row['image']}`, {
+				rowid: normalise_integer(row['row_id']),
+				values: Object.fromEntries(
+					table.columns.map((column, i) => [column, row[`c${i}`]]),
+				),
+			});
+		}
+	}
+
+	return log.map((entry) => ({
+		table: tables[entry.tbl]!.name,
+		operation: entry.op,
+		...(entry.op === 'insert'
+			? {}
+			: { before: images.get(`${entry.seq}:before`) }),
+		...(entry.op === 'delete'
+			? {}
+			: { after: images.get(`${entry.seq}:after`) }),
+	}));
+}
+
+/**
+ * Run `write` on the main connection `db` in a savepoint with capture
+ * triggers on every rowid table, returning its result and the rows it
+ * changed. The savepoint is released when `keep` is set and rolled back
+ * otherwise, as it is when the write fails.
+ */
+export function capture_changes<T>(
+	db: Database.Database,
+	write: () => T,
+	keep: boolean,
+): { result: T; changes: RowChange[] } {
+	const rollback =
+		'ROLLBACK TO change_capture; RELEASE change_capture';
+	db.exec('SAVEPOINT change_capture');
+	let captured: { result: T; changes: RowChange[] };
+	try {
+		const tables = capture_tables(db);
+		install_triggers(db, tables);
+		const result = write();
+		captured = { result, changes: read_changes(db, tables) };
+		if (keep) remove_triggers(db, tables);
+	} catch (error) {
+		db.exec(rollback);
+		throw error;
+	}
+	// Rolling back removes the temporary tables and triggers too
+	db.exec(keep ? 'RELEASE change_capture' : rollback);
+	return captured;
+}
+
+/**
+ * Run a write for execute_write_query, capturing the rows it changes
+ * (including those changed by triggers and foreign key actions) for
+ * undo_last_write. Statements that can't be captured run as usual and
+ * report why in `undo`. Captured writes run on the main connection, as
+ * the capture triggers are temporary to it, between the writer thread's
+ * jobs.
+ */
+export async function execute_captured_write(
+	database_path: string,
+	query: string,
+	params: Record<string, any> | any[] = {},
+): Promise<CapturedWriteResult> {
+	const refusal = capture_refusal(database_path, query);
+	if (refusal) {
+		const result = await execute_write_query(
+			database_path,
+			query,
+			params,
+		);
+		return { ...result, undo: { available: false, reason: refusal } };
+	}
+
+	return run_on_main_connection(
+		database_path,
+		with_error_handling((): CapturedWriteResult => {
+			const config = get_config();
+			const db = open_database(database_path);
+			const resolved_path = validate_database_path(database_path);
+			debug_log('Executing captured write:', { query, params });
+
+			let captured: {
+				result: Database.RunResult;
+				changes: RowChange[];
+			};
+			try {
+				captured = capture_changes(
+					db,
+					() =>
+						db
+							.prepare(query)
+							.safeIntegers(true)
+							.run(convert_parameters(params)),
+					true,
+				);
+			} catch (error) {
+				throw convert_sqlite_error(error, database_path);
+			}
+			const { result, changes } = captured;
+
+			const write: QueryResult = {
+				rows: [],
+				changes: result.changes,
+				last_insert_rowid: normalise_integer(result.lastInsertRowid),
+			};
+			if (changes.length === 0) {
+				return {
+					...write,
+					undo: { available: false, reason: 'No rows were changed' },
+				};
+			}
+			if (changes.length > config.SQLITE_UNDO_MAX_ROWS) {
+				return {
+					...write,
+					undo: {
+						available: false,
+						reason: `${changes.length} rows changed, more than SQLITE_UNDO_MAX_ROWS (${config.SQLITE_UNDO_MAX_ROWS})`,
+					},
+				};
+			}
+
+			const entry: UndoEntry = {
+				id: next_undo_id++,
+				query,
+				timestamp: new Date().toISOString(),
+				changes,
+			};
+			const history = undo_history.get(resolved_path) ?? [];
+			history.push(entry);
+			history.splice(0, history.length - config.SQLITE_UNDO_HISTORY);
+			undo_history.set(resolved_path, history);
+
+			return {
+				...write,
+				undo: { available: true, ...summarise(entry) },
+			};
+		}, 'execute_captured_write'),
+	);
+}
+
+function same_value(a: unknown, b: unknown): boolean {
+	if (a instanceof Uint8Array && b instanceof Uint8Array) {
+		return Buffer.compare(a, b) === 0;
+	}
+	return a === b;
+}
+
+/**
+ * How a row differs from what the captured write left behind, or null
+ * when it is unchanged
+ */
+function find_conflict(
+	db: Database.Database,
+	change: RowChange,
+): string | null {
+	const image =
+		change.operation === 'delete' ? change.before! : change.after!;
+	const current = db
+		.prepare(
+			`SELECT * FROM main.${quote_identifier(change.table)} WHERE rowid = ?`,
+		)
+		.safeIntegers(true)
+		.get(BigInt(image.rowid)) as Record<string, unknown> | undefined;
+	const where = `${change.table} rowid ${image.rowid}`;
+
+	if (change.operation === 'delete') {
+		return current ? `${where} was deleted but exists again` : null;
+	}
+	if (!current) return `${where} no longer exists`;
+	const changed = Object.keys(image.values).find(
+		(column) => !same_value(current[column], image.values[column]),
+	);
+	return changed ? `${where} has changed (${changed})` : null;
+}
+
+/**
+ * Undo the most recent captured write to a database by deleting the rows
+ * it inserted, restoring the rows it updated and re-inserting the rows
+ * it deleted, newest change first, in one savepoint with foreign key
+ * checks deferred to its end.
+ *
+ * Rows changed again since the write make it refuse, unless `force` is
+ * set, in which case they are overwritten. Triggers in the database fire
+ * for the restoring statements as for any other write.
+ */
+export function undo_last_write(
+	database_path: string,
+	options: { force?: boolean } = {},
+): UndoResult {
+	return with_error_handling(() => {
+		const resolved_path = validate_database_path(database_path);
+		const history = undo_history.get(resolved_path) ?? [];
+		const entry = history.at(-1);
+		if (!entry) {
+			throw new ToolUsageError(
+				`No captured writes to undo for database '${resolved_path}'`,
+				[
+					'Only execute_write_query INSERT, UPDATE and DELETE statements outside transactions are captured',
+					'The undo history is kept in memory and starts empty when the server restarts',
+				],
+			);
+		}
+
+		const db = open_database(database_path);
+		const changes = [...entry.changes].reverse();
+
+		if (!options.force) {
+			const conflicts = changes
+				.map((change) => find_conflict(db, change))
+				.filter((conflict) => conflict !== null);
+			if (conflicts.length > 0) {
+				throw new ToolUsageError(
+					`Cannot undo write ${entry.id}: ${conflicts.length} row(s) changed since it ran (${conflicts.slice(0, MAX_REPORTED_CONFLICTS).join('; ')})`,
+					[
+						'Check the rows with execute_read_query before undoing',
+						'Pass force: true to overwrite the later changes',
+					],
+				);
+			}
+		}
+
+		debug_log('Undoing captured write:', {
+			database_path: resolved_path,
+			id: entry.id,
+			rows: changes.length,
+		});
+		try {
+			db.exec('SAVEPOINT undo_last_write');
+			try {
+				db.pragma('defer_foreign_keys = ON');
+				for (const change of changes) {
+					const table = `main.${quote_identifier(change.table)}`;
+					if (change.operation === 'insert') {
+						db.prepare(`DELETE FROM ${table} WHERE rowid = ?`).run(
+							BigInt(change.after!.rowid),
+						);
+						continue;
+					}
+
+					const before = change.before!;
+					const columns = Object.keys(before.values);
+					const values = columns.map(
+						(column) => before.values[column],
+					);
+					if (change.operation === 'update') {
+						db.prepare(
+							`UPDATE ${table} SET rowid = ?${columns
+								.map((column) => `, ${quote_identifier(column)} = ?`)
+								.join('')} WHERE rowid = ?`,
+						).run(
+							BigInt(before.rowid),
+							...values,
+							BigInt(change.after!.rowid),
+						);
+					} else {
+						db.prepare(
+							`INSERT ${options.force ? 'OR REPLACE ' : ''}INTO ${table} (rowid${columns
+								.map((column) => `, ${quote_identifier(column)}`)
+								.join(
+									'',
+								)}) VALUES (?${', ?'.repeat(columns.length)})`,
+						).run(BigInt(before.rowid), ...values);
+					}
+				}
+				db.exec('RELEASE undo_last_write');
+			} catch (error) {
+				db.exec(
+					'ROLLBACK TO undo_last_write; RELEASE undo_last_write',
+				);
+				throw error;
+			}
+		} catch (error) {
+			throw convert_sqlite_error(error, database_path);
+		}
+
+		history.pop();
+		return {
+			undone: summarise(entry),
+			rows_restored: changes.length,
+			remaining: history.length,
+		};
+	}, 'undo_last_write')();
+}
+
+/**
+ * Captured writes that can still be undone, newest first
+ */
+export function get_undo_history(
+	database_path: string,
+): UndoSummary[] {
+	const resolved_path = validate_database_path(database_path);
+	return (undo_history.get(resolved_path) ?? [])
+		.map(summarise)
+		.reverse();
+}
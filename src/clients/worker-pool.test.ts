@@ -0,0 +1,267 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import {
+	close_all_databases,
+	close_database,
+	open_database,
+	stop_connection_maintenance,
+} from './connection-manager.js';
+import { open_query_cursor } from './cursor-manager.js';
+import {
+	execute_query,
+	execute_select_query,
+	execute_write_query,
+	run_on_main_connection,
+} from './query-executor.js';
+import * as sqlite from './sqlite.js';
+import {
+	begin_transaction,
+	rollback_transaction,
+} from './transaction-manager.js';
+import { get_worker_pool_stats } from './worker-pool.js';
+
+// Configuration is loaded lazily, so the pool size applies to this file only
+process.env['SQLITE_WORKER_POOL_SIZE'] = '1';
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+
+function temp_db(name: string) {
+	const db_path = join(root, name);
+	open_database(db_path, true);
+	execute_query(
+		db_path,
+		'CREATE TABLE items (id INTEGER PRIMARY KEY)',
+	);
+	return db_path;
+}
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('worker pool', () => {
+	it('runs writes off the main thread', async () => {
+		const db_path = temp_db('slow.db');
+		let ticked = false;
+		setImmediate(() => {
+			ticked = true;
+		});
+
+		const result = await execute_write_query(
+			db_path,
+			'INSERT INTO items WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 200000) SELECT x FROM n',
+		);
+		expect(ticked).toBe(true);
+		expect(result.changes).toBe(200000);
+		expect(
+			execute_select_query(db_path, 'SELECT COUNT(*) AS n FROM items')
+				.rows,
+		).toEqual([{ n: 200000 }]);
+	});
+
+	it('serialises writes per database and queues reads', async () => {
+		const db_path = temp_db('queue.db');
+		const before = get_worker_pool_stats().completed;
+
+		const writes = [1, 2, 3].map(() =>
+			execute_write_query(
+				db_path,
+				'INSERT INTO items DEFAULT VALUES',
+			),
+		);
+		expect(
+			get_worker_pool_stats().writers.find(
+				(writer) => writer.database_path === db_path,
+			),
+		).toEqual({ database_path: db_path, busy: true, queued: 2 });
+
+		const reads = [1, 2].map(() =>
+			open_query_cursor(
+				db_path,
+				'SELECT 1 AS one',
+				{},
+				{ limit: 10 },
+			),
+		);
+		expect(get_worker_pool_stats()).toMatchObject({
+			enabled: true,
+			read_workers: 1,
+			busy_read_workers: 1,
+			queued_reads: 1,
+		});
+
+		const results = await Promise.all(writes);
+		expect(results.map((result) => result.last_insert_rowid)).toEqual(
+			[1, 2, 3],
+		);
+		expect((await Promise.all(reads))[1]!.rows).toEqual([{ one: 1 }]);
+		expect(get_worker_pool_stats().completed).toBe(before + 5);
+
+		close_database(db_path);
+		expect(
+			get_worker_pool_stats().writers.map(
+				(writer) => writer.database_path,
+			),
+		).not.toContain(db_path);
+	});
+
+	it('runs main-connection writes between writer jobs', async () => {
+		const db_path = temp_db('between.db');
+		let ticked = false;
+		const bulk = execute_write_query(
+			db_path,
+			'INSERT INTO items WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 200000) SELECT x FROM n',
+		);
+		setImmediate(() => {
+			ticked = true;
+		});
+
+		// Would otherwise wait on the writer's lock, blocking the event loop
+		const seen = await run_on_main_connection(db_path, () => {
+			execute_query(db_path, 'INSERT INTO items VALUES (-1)');
+			return execute_select_query(
+				db_path,
+				'SELECT COUNT(*) AS n FROM items',
+			).rows;
+		});
+		expect(ticked).toBe(true);
+		expect(seen).toEqual([{ n: 200001 }]);
+		expect((await bulk).changes).toBe(200000);
+	});
+
+	it('begins and ends transactions between writer jobs', async () => {
+		const db_path = temp_db('begin.db');
+		let ticked = false;
+		const bulk = execute_write_query(
+			db_path,
+			'INSERT INTO items WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 200000) SELECT x FROM n',
+		);
+		setImmediate(() => {
+			ticked = true;
+		});
+
+		// BEGIN IMMEDIATE would otherwise wait on the writer's lock
+		await sqlite.begin_transaction(db_path);
+		expect(ticked).toBe(true);
+		expect((await bulk).changes).toBe(200000);
+		await execute_write_query(
+			db_path,
+			'INSERT INTO items VALUES (-1)',
+		);
+		await sqlite.rollback_transaction(db_path);
+
+		expect(
+			execute_select_query(db_path, 'SELECT COUNT(*) AS n FROM items')
+				.rows,
+		).toEqual([{ n: 200000 }]);
+	});
+
+	it('keeps writes inside a transaction on the main connection', async () => {
+		const db_path = temp_db('transaction.db');
+		begin_transaction(db_path);
+
+		await execute_write_query(
+			db_path,
+			'INSERT INTO items VALUES (7)',
+		);
+		expect(
+			execute_select_query(db_path, 'SELECT id FROM items').rows,
+		).toEqual([{ id: 7 }]);
+
+		rollback_transaction(db_path);
+		expect(
+			execute_select_query(db_path, 'SELECT id FROM items').rows,
+		).toEqual([]);
+	});
+
+	it('keeps TEMP objects on the main connection', async () => {
+		const db_path = temp_db('temp.db');
+		await execute_write_query(
+			db_path,
+			'CREATE TEMP TABLE scratch (id INTEGER)',
+		);
+		await execute_write_query(
+			db_path,
+			'INSERT INTO scratch SELECT 1 UNION ALL SELECT 2',
+		);
+
+		expect(
+			(
+				await open_query_cursor(
+					db_path,
+					'SELECT id FROM scratch ORDER BY id',
+					{},
+					{ limit: 10 },
+				)
+			).rows,
+		).toEqual([{ id: 1 }, { id: 2 }]);
+	});
+
+	it('applies pragma assignments to the main connection', async () => {
+		const db_path = temp_db('pragma.db');
+		execute_query(
+			db_path,
+			'CREATE TABLE children (parent INTEGER REFERENCES items (id))',
+		);
+		await execute_write_query(db_path, 'PRAGMA foreign_keys = OFF');
+
+		expect(
+			(
+				await open_query_cursor(
+					db_path,
+					'PRAGMA foreign_keys',
+					{},
+					{ limit: 10 },
+				)
+			).rows,
+		).toEqual([{ foreign_keys: 0 }]);
+		await execute_write_query(
+			db_path,
+			'INSERT INTO children VALUES (42)',
+		);
+		expect(
+			execute_select_query(db_path, 'PRAGMA foreign_keys').rows,
+		).toEqual([{ foreign_keys: 0 }]);
+	});
+
+	it('stops reads that pass their time limit', async () => {
+		const db_path = temp_db('stuck.db');
+		// Produces no row until the count is done, many seconds later
+		const stuck_query =
+			'WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 100000000) SELECT count(*) AS n FROM n';
+
+		// More than the pool size, so each one has to free its worker
+		for (let attempt = 0; attempt < 3; attempt++) {
+			const started = Date.now();
+			await expect(
+				open_query_cursor(
+					db_path,
+					stuck_query,
+					{},
+					{ limit: 10, timeout_ms: 100 },
+				),
+			).rejects.toMatchObject({ code: 'SQLITE_INTERRUPT' });
+			expect(Date.now() - started).toBeLessThan(2000);
+		}
+
+		expect(
+			(
+				await open_query_cursor(
+					db_path,
+					'SELECT 1 AS one',
+					{},
+					{ limit: 10 },
+				)
+			).rows,
+		).toEqual([{ one: 1 }]);
+		expect(get_worker_pool_stats()).toMatchObject({
+			busy_read_workers: 0,
+			queued_reads: 0,
+		});
+	});
+});
@@ -0,0 +1,982 @@
+/**
+ * Worker execution pool for SQLite Tools MCP server.
+ *
+ * Read queries run on a fixed pool of read worker processes, each keeping
+ * its own read-only connection per database, so a query past its time
+ * limit can be stopped by killing its process. Writes run on a single
+ * writer thread per database so they are serialised exactly as SQLite
+ * requires, while the main thread keeps serving other requests.
+ */
+import { ChildProcess, spawn } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { Worker } from 'node:worker_threads';
+import { debug_log, get_config } from '../config.js';
+import { is_read_only_database } from './access-policy.js';
+
+// Resolved here so the worker finds better-sqlite3 regardless of cwd
+const better_sqlite3_path = createRequire(import.meta.url).resolve(
+	'better-sqlite3',
+);
+
+// Writers for databases that see no writes for this long are shut down
+const WRITER_IDLE_TIMEOUT_MS = 60 * 1000;
+
+// Environment variable passing the worker data to a read worker process
+const WORKER_DATA_ENV = 'MCP_SQLITE_TOOLS_WORKER_DATA';
+
+// Worker body, evaluated as CommonJS so it needs no separate build entry.
+// It runs as a writer thread or as a read worker process. better-sqlite3
+// offers no interrupt, and terminating a thread only takes effect once
+// SQLite returns, so a read past its time limit is stopped by killing its
+// process. Writers are never stopped mid-job; they are only asked to shut
+// down between jobs.
+const WORKER_SOURCE = `
+const { parentPort, workerData: thread_data } = require('node:worker_threads');
+const { statSync } = require('node:fs');
+const workerData =
+	thread_data ?? JSON.parse(process.env.${WORKER_DATA_ENV});
+const post = (message) =>
+	parentPort ? parentPort.postMessage(message) : process.send(message);
+// A read worker process left behind by its server stops with it
+if (!parentPort) process.on('disconnect', () => process.exit(0));
+const Database = require(workerData.better_sqlite3_path);
+const connections = new Map();
+
+function close_connection(path) {
+	const cached = connections.get(path);
+	if (!cached) return;
+	connections.delete(path);
+	cached.db.close();
+}
+
+// Connections are reused until the file is replaced on disk
+function connect(job) {
+	const ino = statSync(job.database_path).ino;
+	const cached = connections.get(job.database_path);
+	if (cached && cached.ino === ino) return cached.db;
+	close_connection(job.database_path);
+	const db = new Database(job.database_path, {
+		readonly: job.readonly,
+		fileMustExist: true,
+		timeout: workerData.busy_timeout,
+	});
+	if (!job.readonly) db.pragma('synchronous = NORMAL');
+	db.pragma('foreign_keys = ON');
+	db.pragma('temp_store = MEMORY');
+	connections.set(job.database_path, { db, ino });
+	return db;
+}
+
+// Cursors keep an open statement, and with it a read snapshot, on their
+// own connection so the worker's shared connections stay usable
+const cursors = new Map();
+
+function close_cursor(cursor_id) {
+	const cursor = cursors.get(cursor_id);
+	if (!cursor) return;
+	cursors.delete(cursor_id);
+	cursor.iterator.return();
+	cursor.db.close();
+}
+
+function next_row(cursor) {
+	if (cursor.buffered) {
+		const row = cursor.buffered;
+		cursor.buffered = undefined;
+		return row;
+	}
+	const result = cursor.iterator.next();
+	return result.done ? undefined : result.value;
+}
+
+// Read up to job.count rows after skipping job.skip, holding one more row
+// back to report whether there is another page. Exhausted or failed
+// cursors are closed.
+function read_page(cursor, job) {
+	try {
+		for (let skipped = 0; skipped < (job.skip || 0); skipped++) {
+			if (next_row(cursor) === undefined) break;
+		}
+		const rows = [];
+		while (rows.length < job.count) {
+			const row = next_row(cursor);
+			if (row === undefined) break;
+			rows.push(row);
+		}
+		if (rows.length === job.count) cursor.buffered = next_row(cursor);
+		const done = cursor.buffered === undefined;
+		if (done) close_cursor(job.cursor_id);
+		return { rows, done };
+	} catch (error) {
+		close_cursor(job.cursor_id);
+		throw error;
+	}
+}
+
+const handlers = {
+	run(job) {
+		const db = connect(job);
+		const result = db.prepare(job.query).safeIntegers(true).run(job.params);
+		return {
+			changes: result.changes,
+			last_insert_rowid: result.lastInsertRowid,
+		};
+	},
+	exec(job) {
+		connect(job).exec(job.query);
+		return {};
+	},
+	insert(job) {
+		const db = connect(job);
+		const stmt = db.prepare(job.query);
+		const errors = [];
+		let inserted = 0;
+		let failed = 0;
+		db.exec('BEGIN');
+		try {
+			job.rows.forEach((values, index) => {
+				try {
+					if (stmt.run(values).changes > 0) inserted++;
+				} catch (error) {
+					if (!job.continue_on_error) throw error;
+					failed++;
+					if (errors.length < job.max_errors) {
+						errors.push({ index, message: error.message });
+					}
+				}
+			});
+			db.exec('COMMIT');
+		} catch (error) {
+			db.exec('ROLLBACK');
+			throw error;
+		}
+		return { inserted, failed, errors };
+	},
+	cursor_open(job) {
+		const db = new Database(job.database_path, {
+			readonly: true,
+			fileMustExist: true,
+			timeout: workerData.busy_timeout,
+		});
+		try {
+			const iterator = db
+				.prepare(job.query)
+				.safeIntegers(true)
+				.iterate(job.params);
+			cursors.set(job.cursor_id, {
+				db,
+				iterator,
+				database_path: job.database_path,
+				buffered: undefined,
+			});
+		} catch (error) {
+			db.close();
+			throw error;
+		}
+		return read_page(cursors.get(job.cursor_id), job);
+	},
+	cursor_fetch(job) {
+		const cursor = cursors.get(job.cursor_id);
+		if (!cursor) {
+			const error = new Error('Cursor not found: ' + job.cursor_id);
+			error.code = 'CURSOR_NOT_FOUND';
+			throw error;
+		}
+		return read_page(cursor, job);
+	},
+};
+
+function close_cursors(database_path) {
+	for (const [cursor_id, cursor] of [...cursors]) {
+		if (!database_path || cursor.database_path === database_path) {
+			close_cursor(cursor_id);
+		}
+	}
+}
+
+function on_job(job) {
+	if (job.type === 'close') {
+		close_cursors(job.database_path);
+		if (job.database_path) close_connection(job.database_path);
+		else for (const path of [...connections.keys()]) close_connection(path);
+		return;
+	}
+	if (job.type === 'cursor_close') {
+		close_cursor(job.cursor_id);
+		return;
+	}
+	if (job.type === 'shutdown') {
+		close_cursors();
+		for (const path of [...connections.keys()]) close_connection(path);
+		if (parentPort) parentPort.close();
+		else process.disconnect();
+		return;
+	}
+	try {
+		const result = handlers[job.type](job);
+		post({ id: job.id, ...result });
+	} catch (error) {
+		post({
+			id: job.id,
+			error: { message: error.message, code: error.code },
+		});
+	}
+}
+
+if (parentPort) parentPort.on('message', on_job);
+else process.on('message', on_job);
+`;
+
+type JobType =
+	| 'run'
+	| 'exec'
+	| 'insert'
+	| 'cursor_open'
+	| 'cursor_fetch';
+
+interface JobMessage {
+	id: number;
+	type: JobType;
+	database_path: string;
+	readonly: boolean;
+	query?: string;
+	params?: unknown;
+	cursor_id?: string;
+	count?: number;
+	skip?: number;
+	rows?: unknown[][];
+	continue_on_error?: boolean;
+	max_errors?: number;
+}
+
+interface JobReply {
+	id: number;
+	rows?: Record<string, any>[];
+	done?: boolean;
+	changes?: number;
+	last_insert_rowid?: number | bigint;
+	inserted?: number;
+	failed?: number;
+	errors?: InsertRowError[];
+	error?: { message: string; code?: string };
+}
+
+interface PendingJob {
+	message: JobMessage;
+	// Worker the job is pinned to (cursor fetches) or was started on
+	pool_worker?: PoolWorker;
+	queued_at: number;
+	started_at?: number;
+	timer?: NodeJS.Timeout;
+	resolve: (reply: JobReply) => void;
+	reject: (error: Error) => void;
+}
+
+// A writer thread or read worker process
+interface PoolWorker {
+	send(message: object): void;
+	// Workers only keep the process alive while they run a job
+	ref(): void;
+	unref(): void;
+	// Close the connections and exit between jobs
+	shutdown(): void;
+	// Stop at once, even mid-statement; read worker processes only
+	kill?: () => void;
+	job: PendingJob | null;
+}
+
+interface Writer {
+	database_path: string;
+	pool_worker: PoolWorker;
+	queue: PendingJob[];
+	// Main-thread writes waiting for the writer to be between jobs, and
+	// whether one is running now
+	holds: Array<() => void>;
+	held: boolean;
+	closing: boolean;
+	idle_timer?: NodeJS.Timeout;
+}
+
+export interface InsertRowError {
+	index: number;
+	message: string;
+}
+
+export interface InsertRowsResult {
+	inserted: number;
+	failed: number;
+	errors: InsertRowError[];
+}
+
+export interface CursorPageResult {
+	rows: Record<string, any>[];
+	done: boolean;
+}
+
+export interface WorkerPoolStats {
+	enabled: boolean;
+	read_workers: number;
+	busy_read_workers: number;
+	queued_reads: number;
+	writers: Array<{
+		database_path: string;
+		busy: boolean;
+		queued: number;
+	}>;
+	completed: number;
+	failed: number;
+	timed_out: number;
+	average_wait_ms: number;
+	max_wait_ms: number;
+	average_run_ms: number;
+}
+
+/**
+ * Error raised by a query that ran in a worker, carrying SQLite's code so
+ * convert_sqlite_error can map it
+ */
+export class WorkerQueryError extends Error {
+	public readonly code: string | undefined;
+
+	constructor(message: string, code?: string) {
+		super(message);
+		this.name = 'WorkerQueryError';
+		this.code = code;
+	}
+}
+
+const read_workers: PoolWorker[] = [];
+const read_queue: PendingJob[] = [];
+const writers = new Map<string, Writer>();
+// Read worker holding each open cursor
+const cursor_workers = new Map<string, PoolWorker>();
+let next_job_id = 1;
+
+const metrics = {
+	started: 0,
+	finished: 0,
+	completed: 0,
+	failed: 0,
+	timed_out: 0,
+	total_wait_ms: 0,
+	max_wait_ms: 0,
+	total_run_ms: 0,
+};
+
+/**
+ * Whether queries are offloaded to worker threads. A pool size of 0 keeps
+ * all execution on the main thread.
+ */
+export function worker_pool_enabled(): boolean {
+	return get_config().SQLITE_WORKER_POOL_SIZE > 0;
+}
+
+/**
+ * Structured clone turns Buffers into Uint8Arrays; restore them so blobs
+ * serialise the same way as rows read on the main thread
+ */
+function restore_buffers(
+	rows: Record<string, any>[],
+): Record<string, any>[] {
+	for (const row of rows) {
+		for (const [key, value] of Object.entries(row)) {
+			if (value instanceof Uint8Array && !Buffer.isBuffer(value)) {
+				row[key] = Buffer.from(
+					value.buffer,
+					value.byteOffset,
+					value.byteLength,
+				);
+			}
+		}
+	}
+	return rows;
+}
+
+function worker_data() {
+	return {
+		better_sqlite3_path,
+		busy_timeout: get_config().SQLITE_BUSY_TIMEOUT,
+	};
+}
+
+/**
+ * Start a writer thread. Idle workers are unreferenced so they never keep
+ * the process alive on their own.
+ */
+function spawn_thread(
+	on_reply: (pool_worker: PoolWorker, reply: JobReply) => void,
+	on_exit: (pool_worker: PoolWorker, error: Error) => void,
+): PoolWorker {
+	const worker = new Worker(WORKER_SOURCE, {
+		eval: true,
+		workerData: worker_data(),
+	});
+	const pool_worker: PoolWorker = {
+		send: (message) => worker.postMessage(message),
+		ref: () => worker.ref(),
+		unref: () => worker.unref(),
+		shutdown: () => {
+			worker.removeAllListeners('exit');
+			worker.postMessage({ type: 'shutdown' });
+		},
+		job: null,
+	};
+	worker.unref();
+	worker.on('message', (reply: JobReply) =>
+		on_reply(pool_worker, reply),
+	);
+	worker.on('error', (error: Error) => on_exit(pool_worker, error));
+	worker.on('exit', (exit_code) =>
+		on_exit(
+			pool_worker,
+			new WorkerQueryError(
+				`Query worker exited unexpectedly with code ${exit_code}`,
+			),
+		),
+	);
+	return pool_worker;
+}
+
+/**
+ * Start a read worker process. Like threads, idle ones do not keep the
+ * server alive, and they exit with it.
+ */
+function spawn_process(
+	on_reply: (pool_worker: PoolWorker, reply: JobReply) => void,
+	on_exit: (pool_worker: PoolWorker, error: Error) => void,
+): PoolWorker {
+	const child: ChildProcess = spawn(
+		process.execPath,
+		['-e', WORKER_SOURCE],
+		{
+			// stdout may carry the MCP stdio transport
+			stdio: ['ignore', 'ignore', 'inherit', 'ipc'],
+			// Keeps bigints and blobs intact, as structured clone does
+			serialization: 'advanced',
+			env: {
+				...process.env,
+				[WORKER_DATA_ENV]: JSON.stringify(worker_data()),
+			},
+		},
+	);
+	const pool_worker: PoolWorker = {
+		send: (message) => child.send(message),
+		ref: () => {
+			child.ref();
+			child.channel?.ref();
+		},
+		unref: () => {
+			child.unref();
+			child.channel?.unref();
+		},
+		shutdown: () => {
+			child.removeAllListeners('exit');
+			child.send({ type: 'shutdown' });
+		},
+		kill: () => child.kill('SIGKILL'),
+		job: null,
+	};
+	pool_worker.unref();
+	child.on('message', (reply: JobReply) =>
+		on_reply(pool_worker, reply),
+	);
+	child.on('error', (error: Error) => on_exit(pool_worker, error));
+	child.on('exit', (exit_code, signal) =>
+		on_exit(
+			pool_worker,
+			new WorkerQueryError(
+				`Query worker exited unexpectedly with ${signal ? `signal ${signal}` : `code ${exit_code}`}`,
+			),
+		),
+	);
+	return pool_worker;
+}
+
+function start_job(pool_worker: PoolWorker, job: PendingJob): void {
+	job.started_at = Date.now();
+	const wait_ms = job.started_at - job.queued_at;
+	metrics.started++;
+	metrics.total_wait_ms += wait_ms;
+	metrics.max_wait_ms = Math.max(metrics.max_wait_ms, wait_ms);
+	job.pool_worker = pool_worker;
+	pool_worker.job = job;
+	pool_worker.ref();
+	pool_worker.send(job.message);
+}
+
+/**
+ * Detach the finished job from its worker and record its outcome
+ */
+function finish_job(pool_worker: PoolWorker): PendingJob | null {
+	const job = pool_worker.job;
+	pool_worker.job = null;
+	pool_worker.unref();
+	if (job) {
+		clearTimeout(job.timer);
+		metrics.finished++;
+		metrics.total_run_ms += Date.now() - (job.started_at ?? 0);
+	}
+	return job;
+}
+
+function settle_job(job: PendingJob, reply: JobReply): void {
+	if (reply.error) {
+		metrics.failed++;
+		job.reject(
+			new WorkerQueryError(reply.error.message, reply.error.code),
+		);
+	} else {
+		metrics.completed++;
+		job.resolve(reply);
+	}
+}
+
+function on_read_reply(pool_worker: PoolWorker, reply: JobReply) {
+	const job = finish_job(pool_worker);
+	if (job) settle_job(job, reply);
+	pump_reads();
+}
+
+function on_read_exit(pool_worker: PoolWorker, error: Error) {
+	const index = read_workers.indexOf(pool_worker);
+	if (index !== -1) read_workers.splice(index, 1);
+	forget_cursors(pool_worker);
+	const job = finish_job(pool_worker);
+	if (job) {
+		metrics.failed++;
+		job.reject(error);
+	}
+	pump_reads();
+}
+
+/**
+ * Drop the cursors held by a worker that is leaving the pool; its
+ * connections, and the cursors' snapshots, close with it
+ */
+function forget_cursors(pool_worker: PoolWorker): void {
+	for (const [cursor_id, holder] of cursor_workers) {
+		if (holder === pool_worker) cursor_workers.delete(cursor_id);
+	}
+}
+
+/**
+ * Hand queued reads to idle workers in arrival order, growing the pool up
+ * to its size. Cursor fetches wait for the worker holding their cursor.
+ */
+function pump_reads(): void {
+	const size = get_config().SQLITE_WORKER_POOL_SIZE;
+	for (let index = 0; index < read_queue.length;) {
+		const job = read_queue[index]!;
+		let pool_worker = job.pool_worker;
+		if (pool_worker && !read_workers.includes(pool_worker)) {
+			read_queue.splice(index, 1);
+			job.reject(
+				new WorkerQueryError(
+					`Cursor not found: ${job.message.cursor_id}`,
+					'CURSOR_NOT_FOUND',
+				),
+			);
+			continue;
+		}
+		if (!pool_worker) {
+			pool_worker = read_workers.find((candidate) => !candidate.job);
+			if (!pool_worker && read_workers.length < size) {
+				pool_worker = spawn_process(on_read_reply, on_read_exit);
+				read_workers.push(pool_worker);
+			}
+		}
+		if (!pool_worker || pool_worker.job) {
+			index++;
+			continue;
+		}
+		read_queue.splice(index, 1);
+		start_job(pool_worker, job);
+	}
+}
+
+/**
+ * Queue a job for the read workers, optionally pinned to one of them.
+ * When the time limit passes the promise rejects with SQLITE_INTERRUPT: a
+ * queued job is dropped, and a running one is stopped by killing its
+ * worker process, which takes the other cursors it held with it. The
+ * pool starts a replacement for the next read. A limit of 0 disables the
+ * time limit.
+ */
+function submit_read(
+	message: Omit<JobMessage, 'id' | 'readonly'>,
+	timeout_ms: number,
+	pinned_worker?: PoolWorker,
+): Promise<{ reply: JobReply; pool_worker: PoolWorker }> {
+	return new Promise((resolve, reject) => {
+		const job: PendingJob = {
+			message: {
+				...message,
+				id: next_job_id++,
+				readonly: true,
+			},
+			pool_worker: pinned_worker,
+			queued_at: Date.now(),
+			resolve: (reply) =>
+				resolve({ reply, pool_worker: job.pool_worker! }),
+			reject,
+		};
+
+		if (timeout_ms > 0) {
+			job.timer = setTimeout(() => {
+				debug_log('Stopping query after time limit:', {
+					database_path: message.database_path,
+					timeout_ms,
+					started: job.started_at !== undefined,
+				});
+				metrics.timed_out++;
+
+				const queued = read_queue.indexOf(job);
+				if (queued !== -1) read_queue.splice(queued, 1);
+				const running = read_workers.findIndex(
+					(pool_worker) => pool_worker.job === job,
+				);
+				if (running !== -1) {
+					const [stopped] = read_workers.splice(running, 1);
+					forget_cursors(stopped!);
+					finish_job(stopped!);
+					stopped!.kill!();
+				}
+
+				reject(
+					new WorkerQueryError(
+						`Query exceeded its time limit of ${timeout_ms} ms`,
+						'SQLITE_INTERRUPT',
+					),
+				);
+				pump_reads();
+			}, timeout_ms);
+		}
+
+		read_queue.push(job);
+		pump_reads();
+	});
+}
+
+/**
+ * Open a cursor over a read-only statement on a read worker and read its
+ * first page after skipping `skip` rows. The cursor keeps its snapshot on
+ * that worker until it is exhausted or closed; an exhausted cursor is
+ * closed straight away.
+ */
+export async function open_cursor_in_pool(
+	database_path: string,
+	cursor_id: string,
+	query: string,
+	params: unknown,
+	page: { skip: number; count: number; timeout_ms: number },
+): Promise<CursorPageResult> {
+	const { reply, pool_worker } = await submit_read(
+		{
+			type: 'cursor_open',
+			database_path,
+			query,
+			params,
+			cursor_id,
+			skip: page.skip,
+			count: page.count,
+		},
+		page.timeout_ms,
+	);
+	if (!reply.done) cursor_workers.set(cursor_id, pool_worker);
+	return {
+		rows: restore_buffers(reply.rows ?? []),
+		done: reply.done ?? true,
+	};
+}
+
+/**
+ * Read the next page of an open cursor on the worker that holds it. A
+ * failed or timed-out fetch closes the cursor.
+ */
+export async function fetch_cursor_in_pool(
+	database_path: string,
+	cursor_id: string,
+	page: { count: number; timeout_ms: number },
+): Promise<CursorPageResult> {
+	const pool_worker = cursor_workers.get(cursor_id);
+	if (!pool_worker) {
+		throw new WorkerQueryError(
+			`Cursor not found: ${cursor_id}`,
+			'CURSOR_NOT_FOUND',
+		);
+	}
+
+	try {
+		const { reply } = await submit_read(
+			{
+				type: 'cursor_fetch',
+				database_path,
+				cursor_id,
+				count: page.count,
+			},
+			page.timeout_ms,
+			pool_worker,
+		);
+		if (reply.done) cursor_workers.delete(cursor_id);
+		return {
+			rows: restore_buffers(reply.rows ?? []),
+			done: reply.done ?? true,
+		};
+	} catch (error) {
+		cursor_workers.delete(cursor_id);
+		throw error;
+	}
+}
+
+/**
+ * Close an open cursor and release its snapshot
+ */
+export function close_cursor_in_pool(cursor_id: string): void {
+	const pool_worker = cursor_workers.get(cursor_id);
+	if (!pool_worker) return;
+	cursor_workers.delete(cursor_id);
+	pool_worker.send({ type: 'cursor_close', cursor_id });
+}
+
+function on_writer_reply(pool_worker: PoolWorker, reply: JobReply) {
+	const job = finish_job(pool_worker);
+	if (job) settle_job(job, reply);
+	const writer = find_writer(pool_worker);
+	if (writer) pump_writer(writer);
+}
+
+function on_writer_exit(pool_worker: PoolWorker, error: Error) {
+	const job = finish_job(pool_worker);
+	if (job) {
+		metrics.failed++;
+		job.reject(error);
+	}
+	const writer = find_writer(pool_worker);
+	if (!writer) return;
+	writers.delete(writer.database_path);
+	clearTimeout(writer.idle_timer);
+	for (const queued of writer.queue.splice(0)) {
+		metrics.failed++;
+		queued.reject(error);
+	}
+	// Nothing is left to wait for
+	for (const release of writer.holds.splice(0)) release();
+}
+
+function find_writer(pool_worker: PoolWorker): Writer | undefined {
+	for (const writer of writers.values()) {
+		if (writer.pool_worker === pool_worker) return writer;
+	}
+	return undefined;
+}
+
+function shutdown_writer(writer: Writer): void {
+	clearTimeout(writer.idle_timer);
+	writers.delete(writer.database_path);
+	writer.pool_worker.shutdown();
+	debug_log('Stopped database writer:', writer.database_path);
+}
+
+/**
+ * Let a waiting main-thread write run, start the next queued write, or
+ * schedule an idle shutdown. Main-thread writes go first, as they only
+ * wait for the running job.
+ */
+function pump_writer(writer: Writer): void {
+	if (writer.pool_worker.job || writer.held) return;
+	const hold = writer.holds.shift();
+	if (hold) {
+		clearTimeout(writer.idle_timer);
+		writer.held = true;
+		hold();
+		return;
+	}
+	const job = writer.queue.shift();
+	if (job) {
+		clearTimeout(writer.idle_timer);
+		start_job(writer.pool_worker, job);
+	} else if (writer.closing) {
+		shutdown_writer(writer);
+	} else {
+		writer.idle_timer = setTimeout(
+			() => shutdown_writer(writer),
+			WRITER_IDLE_TIMEOUT_MS,
+		);
+		writer.idle_timer.unref();
+	}
+}
+
+/**
+ * Queue a job on the database's single writer, starting it on first use
+ */
+function run_on_writer(
+	database_path: string,
+	message: Omit<JobMessage, 'id' | 'database_path' | 'readonly'>,
+): Promise<JobReply> {
+	// A closing writer still takes new work and stops once it drains, so
+	// there is never more than one writer per database
+	let writer = writers.get(database_path);
+	if (!writer) {
+		writer = {
+			database_path,
+			pool_worker: spawn_thread(on_writer_reply, on_writer_exit),
+			queue: [],
+			holds: [],
+			held: false,
+			closing: false,
+		};
+		writers.set(database_path, writer);
+		debug_log('Started database writer:', database_path);
+	}
+
+	const active_writer = writer;
+	return new Promise((resolve, reject) => {
+		active_writer.queue.push({
+			message: {
+				...message,
+				id: next_job_id++,
+				database_path,
+				readonly: is_read_only_database(database_path),
+			},
+			queued_at: Date.now(),
+			resolve,
+			reject,
+		});
+		pump_writer(active_writer);
+	});
+}
+
+/**
+ * Run a synchronous write on the main thread's connection while the
+ * database's writer is between jobs, so the two connections never
+ * contend for the database lock. Waits for the writer's running job, if
+ * any, and holds back its queue until `write` returns. Without a writer
+ * for the database it runs straight away.
+ */
+export async function with_writer_held<T>(
+	database_path: string,
+	write: () => T,
+): Promise<T> {
+	const writer = writers.get(database_path);
+	if (!writer) return write();
+
+	await new Promise<void>((resolve) => {
+		writer.holds.push(resolve);
+		pump_writer(writer);
+	});
+	try {
+		return write();
+	} finally {
+		writer.held = false;
+		if (writers.get(database_path) === writer) pump_writer(writer);
+	}
+}
+
+/**
+ * Run a single modifying statement on the database's writer
+ */
+export async function run_write_in_pool(
+	database_path: string,
+	query: string,
+	params: unknown,
+): Promise<{ changes: number; last_insert_rowid: number | bigint }> {
+	const reply = await run_on_writer(database_path, {
+		type: 'run',
+		query,
+		params,
+	});
+	return {
+		changes: reply.changes ?? 0,
+		last_insert_rowid: reply.last_insert_rowid ?? 0,
+	};
+}
+
+/**
+ * Run SQL without results (such as VACUUM) on the database's writer
+ */
+export async function run_exec_in_pool(
+	database_path: string,
+	query: string,
+): Promise<void> {
+	await run_on_writer(database_path, { type: 'exec', query });
+}
+
+/**
+ * Insert rows with one prepared statement in a single transaction on the
+ * database's writer. Without continue_on_error the first failing row
+ * rolls the whole insert back.
+ */
+export async function run_insert_in_pool(
+	database_path: string,
+	query: string,
+	rows: unknown[][],
+	options: { continue_on_error: boolean; max_errors: number },
+): Promise<InsertRowsResult> {
+	const reply = await run_on_writer(database_path, {
+		type: 'insert',
+		query,
+		rows,
+		...options,
+	});
+	return {
+		inserted: reply.inserted ?? 0,
+		failed: reply.failed ?? 0,
+		errors: reply.errors ?? [],
+	};
+}
+
+/**
+ * Close worker connections to one database, or to all of them. Readers
+ * close theirs after any running query; writers stop once their queue
+ * drains.
+ */
+export function close_pool_connections(database_path?: string): void {
+	for (const pool_worker of read_workers) {
+		pool_worker.send({ type: 'close', database_path });
+	}
+	for (const writer of writers.values()) {
+		if (database_path && writer.database_path !== database_path) {
+			continue;
+		}
+		writer.closing = true;
+		if (
+			!writer.pool_worker.job &&
+			!writer.held &&
+			writer.holds.length === 0 &&
+			writer.queue.length === 0
+		) {
+			shutdown_writer(writer);
+		}
+	}
+}
+
+/**
+ * Get worker pool statistics (for monitoring)
+ */
+export function get_worker_pool_stats(): WorkerPoolStats {
+	return {
+		enabled: worker_pool_enabled(),
+		read_workers: get_config().SQLITE_WORKER_POOL_SIZE,
+		busy_read_workers: read_workers.filter(
+			(pool_worker) => pool_worker.job,
+		).length,
+		queued_reads: read_queue.length,
+		writers: Array.from(writers.values()).map((writer) => ({
+			database_path: writer.database_path,
+			busy: writer.pool_worker.job !== null,
+			queued: writer.queue.length,
+		})),
+		completed: metrics.completed,
+		failed: metrics.failed,
+		timed_out: metrics.timed_out,
+		average_wait_ms:
+			metrics.started > 0
+				? Math.round(metrics.total_wait_ms / metrics.started)
+				: 0,
+		max_wait_ms: metrics.max_wait_ms,
+		average_run_ms:
+			metrics.finished > 0
+				? Math.round(metrics.total_run_ms / metrics.finished)
+				: 0,
+	};
+}
@@ -2,6 +2,7 @@
  * Error handling utilities for the SQLite Tools MCP server
  */
 import { SqliteErrorCode } from './types.js';
+import { json_replacer } from './value-codec.js';
 
 /**
  * Custom error class for SQLite operations
@@ -139,6 +140,10 @@ export function convert_sqlite_error(
 				code = 'SQLITE_CONSTRAINT';
 				enhanced_message = `Database constraint violation. This could be due to duplicate primary keys, foreign key violations, or NOT NULL constraint failures. Check your data and table schema. Original error: ${error.message}`;
 				break;
+			case 'SQLITE_INTERRUPT':
+				code = 'SQLITE_INTERRUPT';
+				enhanced_message = `Query call failed because it ran past its time limit, and the query was stopped. Narrow it with WHERE or LIMIT, check the plan with EXPLAIN QUERY PLAN, or pass a larger timeout_ms. Original error: ${error.message}`;
+				break;
 			case 'SQLITE_NOTADB':
 				code = 'SQLITE_NOTADB';
 				enhanced_message = `File is not a valid SQLite database. The file may be corrupted, empty, or not a database file. Path: ${path || 'unknown'}. Original error: ${error.message}`;
@@ -230,7 +235,7 @@ export function create_tool_response(data: any) {
 		content: [
 			{
 				type: 'text' as const,
-				text: JSON.stringify(data, null, 2),
+				text: JSON.stringify(data, json_replacer, 2),
 			},
 		],
 	};
@@ -276,6 +281,13 @@ export function create_tool_error_response(error: unknown) {
 					'Review your data before insertion',
 				];
 				break;
+			case 'SQLITE_INTERRUPT':
+				error_info.suggestions = [
+					'Add WHERE conditions or a smaller LIMIT to reduce the work',
+					'Run EXPLAIN QUERY PLAN to look for full scans and missing indexes',
+					'Pass a larger timeout_ms, or raise SQLITE_QUERY_TIMEOUT for every call',
+				];
+				break;
 			case 'SQLITE_NOTADB':
 				error_info.suggestions = [
 					'Verify the file is a valid SQLite database',
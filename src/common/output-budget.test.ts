@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { ToolUsageError } from './errors.js';
+import {
+	fit_rows_to_budget,
+	summarise_columns,
+} from './output-budget.js';
+
+describe('output budget', () => {
+	it('truncates long cells and drops rows past the byte budget', () => {
+		const rows = Array.from({ length: 10 }, (_, id) => ({
+			id,
+			body: 'x'.repeat(100),
+		}));
+
+		const result = fit_rows_to_budget(rows, {
+			max_bytes: 300,
+			max_cell_length: 10,
+		});
+		expect(result.rows[0]!['body']).toBe(
+			'xxxxxxxxxx… [truncated, 100 chars total]',
+		);
+		expect(result.omitted).toEqual(rows.slice(result.rows.length));
+		expect(result.truncated).toEqual({
+			rows_returned: result.rows.length,
+			rows_omitted: 10 - result.rows.length,
+			cells_truncated: result.rows.length,
+			max_response_bytes: 300,
+			max_cell_length: 10,
+		});
+		expect(
+			fit_rows_to_budget(rows, { max_bytes: 0, max_cell_length: 0 })
+				.truncated,
+		).toBeNull();
+	});
+
+	it('always returns the first row, cutting it further to fit', () => {
+		const rows = [
+			{ id: 1, body: 'x'.repeat(5000) },
+			{ id: 2, body: 'y' },
+		];
+
+		const result = fit_rows_to_budget(rows, {
+			max_bytes: 200,
+			max_cell_length: 1000,
+		});
+		expect(result.rows).toHaveLength(1);
+		expect(result.rows[0]!['body']).toMatch(
+			/^x+… \[truncated, 5000 chars total\]$/,
+		);
+		expect(result.omitted).toEqual([rows[1]]);
+		expect(result.truncated).toMatchObject({
+			rows_returned: 1,
+			rows_omitted: 1,
+			cells_truncated: 1,
+		});
+		expect(result.truncated!.max_cell_length).toBeLessThan(1000);
+
+		expect(() =>
+			fit_rows_to_budget(
+				[
+					Object.fromEntries(
+						Array.from({ length: 50 }, (_, n) => [`column_${n}`, n]),
+					),
+				],
+				{ max_bytes: 200, max_cell_length: 0 },
+			),
+		).toThrow(ToolUsageError);
+	});
+
+	it('summarises columns', () => {
+		const [id, name] = summarise_columns([
+			{ id: 1, name: 'b' },
+			{ id: 2, name: 'a' },
+			{ id: 6, name: null },
+		]);
+		expect(id).toMatchObject({
+			count: 3,
+			null_count: 0,
+			distinct_count: 3,
+			types: { integer: 3 },
+			min: 1,
+			max: 6,
+			average: 3,
+		});
+		expect(name).toMatchObject({
+			null_count: 1,
+			distinct_count: 2,
+			min: 'a',
+			max: 'b',
+			max_length: 1,
+			sample: ['b', 'a'],
+		});
+	});
+});
@@ -0,0 +1,340 @@
+/**
+ * Response size budgeting for query results
+ */
+import { ToolUsageError } from './errors.js';
+import {
+	encode_value,
+	is_encoded_blob,
+	json_replacer,
+} from './value-codec.js';
+
+// Rough bytes per token, for budgets given in tokens
+export const BYTES_PER_TOKEN = 4;
+
+// Distinct values are counted exactly up to this many per column
+const MAX_DISTINCT_TRACKED = 1000;
+const MAX_SAMPLE_VALUES = 3;
+const MAX_SAMPLE_LENGTH = 50;
+// Shortest cell length a row that is over budget on its own is cut to
+const MIN_FITTED_CELL_LENGTH = 16;
+
+export interface OutputBudget {
+	// Serialised size limit for the returned rows; 0 disables it
+	max_bytes: number;
+	// Longest text value (characters) or blob (bytes); 0 disables it
+	max_cell_length: number;
+}
+
+export interface TruncationReport {
+	rows_returned: number;
+	rows_omitted: number;
+	cells_truncated: number;
+	max_response_bytes: number;
+	// Lower than requested when a row over budget on its own was cut to fit
+	max_cell_length: number;
+}
+
+export interface BudgetedRows {
+	rows: Record<string, any>[];
+	// Rows that did not fit, in their original form
+	omitted: Record<string, any>[];
+	truncated: TruncationReport | null;
+}
+
+export interface ColumnStats {
+	column: string;
+	count: number;
+	null_count: number;
+	distinct_count: number | string;
+	types: Record<string, number>;
+	min?: number | string;
+	max?: number | string;
+	average?: number;
+	max_length?: number;
+	sample: unknown[];
+}
+
+/**
+ * Shorten a long text or blob value, leaving a marker with its original
+ * length
+ */
+export function truncate_cell(
+	value: unknown,
+	max_cell_length: number,
+): { value: unknown; truncated: boolean } {
+	if (max_cell_length <= 0) return { value, truncated: false };
+
+	if (typeof value === 'string' && value.length > max_cell_length) {
+		return {
+			value: `${value.slice(0, max_cell_length)}… [truncated, ${value.length} chars total]`,
+			truncated: true,
+		};
+	}
+	const blob_bytes =
+		value instanceof Uint8Array
+			? value.byteLength
+			: is_encoded_blob(value)
+				? value.bytes
+				: 0;
+	if (blob_bytes > max_cell_length) {
+		return {
+			value: `[blob truncated, ${blob_bytes} bytes total]`,
+			truncated: true,
+		};
+	}
+	return { value, truncated: false };
+}
+
+function truncate_row(
+	row: Record<string, any>,
+	max_cell_length: number,
+): {
+	row: Record<string, any>;
+	bytes: number;
+	cells_truncated: number;
+} {
+	const truncated_row: Record<string, any> = {};
+	let cells_truncated = 0;
+	for (const [column, value] of Object.entries(row)) {
+		const cell = truncate_cell(value, max_cell_length);
+		if (cell.truncated) cells_truncated++;
+		truncated_row[column] = cell.value;
+	}
+	return {
+		row: truncated_row,
+		bytes: Buffer.byteLength(
+			JSON.stringify(truncated_row, json_replacer, 2),
+		),
+		cells_truncated,
+	};
+}
+
+function longest_cell(row: Record<string, any>): number {
+	let longest = 0;
+	for (const value of Object.values(row)) {
+		const length =
+			typeof value === 'string'
+				? value.length
+				: value instanceof Uint8Array
+					? value.byteLength
+					: is_encoded_blob(value)
+						? value.bytes
+						: 0;
+		longest = Math.max(longest, length);
+	}
+	return longest;
+}
+
+/**
+ * Cut the cells of a row that is over the byte budget on its own until
+ * it fits, so a page always makes progress. Fails when even the shortest
+ * cells do not fit.
+ */
+function fit_single_row(
+	row: Record<string, any>,
+	budget: OutputBudget,
+): ReturnType<typeof truncate_row> & { max_cell_length: number } {
+	let max_cell_length =
+		budget.max_cell_length > 0
+			? budget.max_cell_length
+			: longest_cell(row);
+	while (max_cell_length > MIN_FITTED_CELL_LENGTH) {
+		max_cell_length = Math.max(
+			MIN_FITTED_CELL_LENGTH,
+			Math.floor(max_cell_length / 2),
+		);
+		const fitted = truncate_row(row, max_cell_length);
+		if (fitted.bytes <= budget.max_bytes) {
+			return { ...fitted, max_cell_length };
+		}
+	}
+	throw new ToolUsageError(
+		`A single row is larger than the response budget of ${budget.max_bytes} bytes, even with its values cut to ${max_cell_length} characters`,
+		[
+			'Lower max_cell_length, select fewer columns, or raise max_response_bytes',
+		],
+	);
+}
+
+/**
+ * Truncate long cells, then keep rows in order until the serialised size
+ * would pass the byte budget. Rows are measured as they are rendered in
+ * tool responses. The first row is always kept, with its cells cut
+ * further if it is over budget on its own.
+ */
+export function fit_rows_to_budget(
+	rows: Record<string, any>[],
+	budget: OutputBudget,
+): BudgetedRows {
+	const kept: Record<string, any>[] = [];
+	let cells_truncated = 0;
+	let max_cell_length = budget.max_cell_length;
+	let used_bytes = 0;
+	let index = 0;
+
+	for (; index < rows.length; index++) {
+		let fitted = truncate_row(rows[index]!, budget.max_cell_length);
+		if (
+			budget.max_bytes > 0 &&
+			used_bytes + fitted.bytes > budget.max_bytes
+		) {
+			if (kept.length > 0) break;
+			const single = fit_single_row(rows[index]!, budget);
+			fitted = single;
+			max_cell_length = single.max_cell_length;
+		}
+		used_bytes += fitted.bytes;
+		cells_truncated += fitted.cells_truncated;
+		kept.push(fitted.row);
+	}
+
+	const omitted = rows.slice(index);
+	return {
+		rows: kept,
+		omitted,
+		truncated:
+			omitted.length > 0 || cells_truncated > 0
+				? {
+						rows_returned: kept.length,
+						rows_omitted: omitted.length,
+						cells_truncated,
+						max_response_bytes: budget.max_bytes,
+						max_cell_length,
+					}
+				: null,
+	};
+}
+
+function value_type(value: unknown): string {
+	if (value === null || value === undefined) return 'null';
+	if (typeof value === 'bigint') return 'integer';
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? 'integer' : 'real';
+	}
+	if (value instanceof Uint8Array) return 'blob';
+	return 'text';
+}
+
+interface ColumnAccumulator {
+	stats: ColumnStats;
+	distinct: Set<unknown>;
+	distinct_overflow: boolean;
+	numeric_count: number;
+	numeric_sum: number;
+	numeric_min?: number;
+	numeric_max?: number;
+	text_min?: string;
+	text_max?: string;
+}
+
+function accumulate(entry: ColumnAccumulator, value: unknown): void {
+	const { stats } = entry;
+	const type = value_type(value);
+	stats.count++;
+	stats.types[type] = (stats.types[type] ?? 0) + 1;
+	if (type === 'null') {
+		stats.null_count++;
+		return;
+	}
+
+	const key =
+		value instanceof Uint8Array
+			? Buffer.from(value).toString('base64')
+			: value;
+	if (!entry.distinct.has(key)) {
+		if (entry.distinct.size < MAX_DISTINCT_TRACKED) {
+			entry.distinct.add(key);
+			if (stats.sample.length < MAX_SAMPLE_VALUES) {
+				stats.sample.push(
+					encode_value(truncate_cell(value, MAX_SAMPLE_LENGTH).value),
+				);
+			}
+		} else {
+			entry.distinct_overflow = true;
+		}
+	}
+
+	if (type === 'integer' || type === 'real') {
+		const number = Number(value);
+		entry.numeric_count++;
+		entry.numeric_sum += number;
+		entry.numeric_min = Math.min(entry.numeric_min ?? number, number);
+		entry.numeric_max = Math.max(entry.numeric_max ?? number, number);
+		return;
+	}
+
+	const length =
+		value instanceof Uint8Array
+			? value.byteLength
+			: String(value).length;
+	stats.max_length = Math.max(stats.max_length ?? 0, length);
+	if (type === 'text') {
+		const text = String(value);
+		if (entry.text_min === undefined || text < entry.text_min) {
+			entry.text_min = text;
+		}
+		if (entry.text_max === undefined || text > entry.text_max) {
+			entry.text_max = text;
+		}
+	}
+}
+
+function finish(entry: ColumnAccumulator): ColumnStats {
+	const stats: ColumnStats = {
+		...entry.stats,
+		distinct_count: entry.distinct_overflow
+			? `${MAX_DISTINCT_TRACKED}+`
+			: entry.distinct.size,
+	};
+	// Numeric ranges win for mixed columns, as SQLite sorts numbers first
+	if (entry.numeric_count > 0) {
+		stats.min = entry.numeric_min;
+		stats.max = entry.numeric_max;
+		stats.average =
+			Math.round((entry.numeric_sum / entry.numeric_count) * 1000) /
+			1000;
+	} else if (entry.text_min !== undefined) {
+		stats.min = truncate_cell(entry.text_min, MAX_SAMPLE_LENGTH)
+			.value as string;
+		stats.max = truncate_cell(entry.text_max, MAX_SAMPLE_LENGTH)
+			.value as string;
+	}
+	return stats;
+}
+
+/**
+ * Summarise each column of a result: null and distinct counts, the
+ * storage types seen, numeric range and average, text range and length,
+ * and a few sample values
+ */
+export function summarise_columns(
+	rows: Record<string, any>[],
+): ColumnStats[] {
+	const columns = new Map<string, ColumnAccumulator>();
+
+	for (const row of rows) {
+		for (const [column, value] of Object.entries(row)) {
+			let entry = columns.get(column);
+			if (!entry) {
+				entry = {
+					stats: {
+						column,
+						count: 0,
+						null_count: 0,
+						distinct_count: 0,
+						types: {},
+						sample: [],
+					},
+					distinct: new Set(),
+					distinct_overflow: false,
+					numeric_count: 0,
+					numeric_sum: 0,
+				};
+				columns.set(column, entry);
+			}
+			accumulate(entry, value);
+		}
+	}
+
+	return Array.from(columns.values()).map(finish);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	to_columnar,
+	to_csv,
+	to_jsonl,
+	to_markdown,
+} from './output-format.js';
+
+const rows = [
+	{ id: 1, note: 'a | b\nc' },
+	{ id: 2, note: null },
+];
+
+describe('output formats', () => {
+	it('serialises rows as columnar, markdown, CSV and JSON lines', () => {
+		expect(to_columnar(rows)).toEqual({
+			columns: ['id', 'note'],
+			values: [
+				[1, 'a | b\nc'],
+				[2, null],
+			],
+		});
+		expect(to_markdown(rows)).toBe(
+			[
+				'| id | note |',
+				'| --- | --- |',
+				'| 1 | a \\| b<br>c |',
+				'| 2 | NULL |',
+			].join('\n'),
+		);
+		expect(to_csv(rows)).toBe('id,note\n1,"a | b\nc"\n2,\n');
+		expect(to_jsonl(rows)).toBe(
+			'{"id":1,"note":"a | b\\nc"}\n{"id":2,"note":null}',
+		);
+	});
+
+	it('keeps the header for empty results when columns are known', () => {
+		expect(to_csv([], ['id'])).toBe('id\n');
+		expect(to_markdown([])).toBe('');
+	});
+});
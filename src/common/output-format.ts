@@ -0,0 +1,171 @@
+/**
+ * Alternative serialisations for tabular tool results
+ */
+import { createArrayCsvStringifier } from 'csv-writer';
+import { is_encoded_blob, json_replacer } from './value-codec.js';
+
+export const OUTPUT_FORMATS = [
+	'json',
+	'columnar',
+	'markdown',
+	'csv',
+	'jsonl',
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// Column names once, then one value array per row
+export interface ColumnarRows {
+	columns: string[];
+	values: unknown[][];
+}
+
+/**
+ * Column names of a result, in first-seen order
+ */
+export function result_columns(
+	rows: Record<string, any>[],
+): string[] {
+	const columns = new Set<string>();
+	for (const row of rows) {
+		for (const column of Object.keys(row)) columns.add(column);
+	}
+	return Array.from(columns);
+}
+
+/**
+ * Render a cell for the text formats (markdown and CSV)
+ */
+function render_cell(value: unknown): string {
+	if (value === null || value === undefined) return '';
+	if (value instanceof Uint8Array) {
+		return `[blob, ${value.byteLength} bytes]`;
+	}
+	if (is_encoded_blob(value)) return value.$blob;
+	if (typeof value === 'object') {
+		return JSON.stringify(value, json_replacer);
+	}
+	return String(value as string | number | bigint | boolean);
+}
+
+export function to_columnar(
+	rows: Record<string, any>[],
+	columns = result_columns(rows),
+): ColumnarRows {
+	return {
+		columns,
+		values: rows.map((row) =>
+			columns.map((column) => row[column] ?? null),
+		),
+	};
+}
+
+export function to_markdown(
+	rows: Record<string, any>[],
+	columns = result_columns(rows),
+): string {
+	if (columns.length === 0) return '';
+	// Pipes would end the cell and newlines the row
+	const escape = (text: string) =>
+		text
+			.replace(/\\/g, '\\\\')
+			.replace(/\|/g, '\\|')
+			.replace(/\r?\n/g, '<br>');
+	const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+
+	return [
+		line(columns.map(escape)),
+		line(columns.map(() => '---')),
+		...rows.map((row) =>
+			line(
+				columns.map((column) =>
+					row[column] === null || row[column] === undefined
+						? 'NULL'
+						: escape(render_cell(row[column])),
+				),
+			),
+		),
+	].join('\n');
+}
+
+export function to_csv(
+	rows: Record<string, any>[],
+	columns = result_columns(rows),
+): string {
+	const stringifier = createArrayCsvStringifier({ header: columns });
+	const header = stringifier.getHeaderString() ?? '';
+	// stringifyRecords([]) still emits a record delimiter
+	if (rows.length === 0) return header;
+	return (
+		header +
+		stringifier.stringifyRecords(
+			rows.map((row) =>
+				columns.map((column) => render_cell(row[column])),
+			),
+		)
+	);
+}
+
+export function to_jsonl(rows: Record<string, any>[]): string {
+	return rows
+		.map((row) => JSON.stringify(row, json_replacer))
+		.join('\n');
+}
+
+/**
+ * Build a tool response whose rows are serialised in `format`.
+ *
+ * `build` receives the value to put where the rows go. For `json` that
+ * is the rows themselves and for `columnar` a ColumnarRows object, both
+ * inside the usual JSON body (columnar without indentation, which would
+ * put every value on its own line). For the text formats `build` gets
+ * undefined, so the key drops out of the JSON body, and the rows follow
+ * as a second text block.
+ */
+export function create_formatted_response(
+	format: OutputFormat,
+	rows: Record<string, any>[],
+	build: (rows: unknown) => Record<string, any>,
+	columns?: string[],
+) {
+	if (format === 'json' || format === 'columnar') {
+		const data =
+			format === 'json'
+				? build(rows)
+				: {
+						...build(to_columnar(rows, columns)),
+						output_format: format,
+					};
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text:
+						format === 'json'
+							? JSON.stringify(data, json_replacer, 2)
+							: JSON.stringify(data, json_replacer),
+				},
+			],
+		};
+	}
+
+	const text =
+		format === 'markdown'
+			? to_markdown(rows, columns)
+			: format === 'csv'
+				? to_csv(rows, columns)
+				: to_jsonl(rows);
+	return {
+		content: [
+			{
+				type: 'text' as const,
+				text: JSON.stringify(
+					{ ...build(undefined), output_format: format },
+					json_replacer,
+					2,
+				),
+			},
+			{ type: 'text' as const, text },
+		],
+	};
+}
@@ -0,0 +1,68 @@
+import {
+	existsSync,
+	lstatSync,
+	readlinkSync,
+	realpathSync,
+} from 'node:fs';
+import {
+	basename,
+	dirname,
+	isAbsolute,
+	join,
+	relative,
+	resolve,
+	sep,
+} from 'node:path';
+
+// Dangling symlinks followed before giving up, as the kernel's ELOOP
+const MAX_SYMLINK_HOPS = 40;
+
+/**
+ * Resolve symlinks in a path that may not exist yet.
+ *
+ * The deepest existing ancestor is resolved with realpath and the missing
+ * remainder is appended, so a new file under a symlinked directory still
+ * resolves to where it would actually be written. A dangling symlink is
+ * followed to its target for the same reason.
+ */
+export function real_path(path: string, hops: number = 0): string {
+	let existing = path;
+	const missing: string[] = [];
+	while (!existsSync(existing)) {
+		if (
+			hops < MAX_SYMLINK_HOPS &&
+			lstatSync(existing, { throwIfNoEntry: false })?.isSymbolicLink()
+		) {
+			const target = resolve(
+				dirname(existing),
+				readlinkSync(existing),
+			);
+			return real_path(join(target, ...missing), hops + 1);
+		}
+		const parent = dirname(existing);
+		if (parent === existing) return path;
+		missing.unshift(basename(existing));
+		existing = parent;
+	}
+	return join(realpathSync(existing), ...missing);
+}
+
+/**
+ * Check whether a path is the directory itself or inside it, after
+ * resolving symlinks on both sides.
+ */
+export function is_within_directory(
+	directory: string,
+	path: string,
+): boolean {
+	const relative_path = relative(
+		real_path(directory),
+		real_path(path),
+	);
+	return (
+		relative_path === '' ||
+		(relative_path !== '..' &&
+			!relative_path.startsWith(`..${sep}`) &&
+			!isAbsolute(relative_path))
+	);
+}
@@ -1,6 +1,12 @@
 import { describe, expect, it } from 'vitest';
 
-import { split_schema_statements } from './schema-sql.js';
+import {
+	format_column_definition,
+	parse_column_definition,
+	replace_table_definition,
+	split_schema_statements,
+	split_table_definition,
+} from './schema-sql.js';
 
 describe('schema SQL splitter', () => {
 	it('keeps trigger bodies with internal semicolons as one statement', () => {
@@ -16,4 +22,63 @@ describe('schema SQL splitter', () => {
 
 		expect(split_schema_statements(schema)).toHaveLength(3);
 	});
+
+	it('splits a table definition into columns and constraints', () => {
+		expect(
+			split_table_definition(`CREATE TABLE "a(b" (
+				id INTEGER PRIMARY KEY, -- the key, (really)
+				"note, text" TEXT DEFAULT 'a, b',
+				price NUMERIC(10, 2) CHECK (price > 0),
+				[x)] /* odd, name */ BLOB,
+				UNIQUE (id, price)
+			) STRICT`),
+		).toEqual([
+			'id INTEGER PRIMARY KEY',
+			`"note, text" TEXT DEFAULT 'a, b'`,
+			'price NUMERIC(10, 2) CHECK (price > 0)',
+			'[x)]  BLOB',
+			'UNIQUE (id, price)',
+		]);
+	});
+
+	it('splits a column definition into type and constraints', () => {
+		const column = parse_column_definition(
+			`"user id" UNSIGNED BIG INT(8) CONSTRAINT nn NOT NULL ON CONFLICT FAIL DEFAULT -1 REFERENCES users (id) ON DELETE SET NULL NOT DEFERRABLE CHECK ("user id" IS NOT NULL) COLLATE NOCASE GENERATED ALWAYS AS (1) STORED`,
+		);
+
+		expect(column.name).toBe('"user id"');
+		expect(column.type).toBe('UNSIGNED BIG INT(8)');
+		expect(column.constraints).toEqual([
+			{
+				kind: 'NOT',
+				text: 'CONSTRAINT nn NOT NULL ON CONFLICT FAIL',
+			},
+			{ kind: 'DEFAULT', text: 'DEFAULT -1' },
+			{
+				kind: 'REFERENCES',
+				text: 'REFERENCES users (id) ON DELETE SET NULL NOT DEFERRABLE',
+			},
+			{ kind: 'CHECK', text: 'CHECK ("user id" IS NOT NULL)' },
+			{ kind: 'COLLATE', text: 'COLLATE NOCASE' },
+			{ kind: 'GENERATED', text: 'GENERATED ALWAYS AS (1) STORED' },
+		]);
+		expect(
+			format_column_definition({
+				...column,
+				type: 'TEXT',
+				constraints: column.constraints.slice(1, 2),
+			}),
+		).toBe('"user id" TEXT DEFAULT -1');
+	});
+
+	it('replaces a table definition keeping the name and options', () => {
+		expect(
+			replace_table_definition(
+				'CREATE TABLE "t(" (a INT, b TEXT) STRICT',
+				['a INT', 'CHECK (a > 0)'],
+			),
+		).toBe(
+			'CREATE TABLE "t(" (\n\ta INT,\n\tCHECK (a > 0)\n) STRICT',
+		);
+	});
 });
@@ -1,3 +1,14 @@
+import { quote_identifier } from './sql.js';
+import { tokenise_sql } from './statement-classifier.js';
+
+// Matches the (optionally schema-qualified) name in CREATE TABLE
+const CREATE_TABLE_NAME =
+	/^(\s*CREATE\s+TABLE\s+)(?:IF\s+NOT\s+EXISTS\s+)?(?:(?:"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|[\w$]+)\s*\.\s*)?(?:"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|[\w$]+)/i;
+
+// Starts a table constraint rather than a column definition
+const TABLE_CONSTRAINT =
+	/^(?:CONSTRAINT|PRIMARY\s+KEY|UNIQUE|CHECK|FOREIGN\s+KEY)\b/i;
+
 function strip_leading_sql_comments(statement: string): string {
 	let remaining = statement.trim();
 	let changed = true;
@@ -149,3 +160,321 @@ export function split_schema_statements(schema: string): string[] {
 
 	return statements;
 }
+
+interface TableDefinition {
+	parts: string[];
+	// Offsets of the parentheses around the definition
+	start: number;
+	end: number;
+}
+
+function scan_table_definition(create_sql: string): TableDefinition {
+	const parts: string[] = [];
+	let current = '';
+	let depth = 0;
+	let quote: string | null = null;
+	let start = -1;
+	let end = create_sql.length;
+
+	for (let i = 0; i < create_sql.length; i++) {
+		const char = create_sql[i]!;
+		const next_char = create_sql[i + 1];
+
+		if (quote) {
+			if (depth > 0) current += char;
+			if (char === quote) {
+				// A doubled quote character is an escaped one
+				if (quote !== ']' && next_char === quote) {
+					if (depth > 0) current += next_char;
+					i++;
+					continue;
+				}
+				quote = null;
+			}
+			continue;
+		}
+
+		if (char === '-' && next_char === '-') {
+			const end = create_sql.indexOf('\n', i);
+			i = end === -1 ? create_sql.length : end;
+			continue;
+		}
+		if (char === '/' && next_char === '*') {
+			const end = create_sql.indexOf('*/', i + 2);
+			i = end === -1 ? create_sql.length : end + 1;
+			continue;
+		}
+
+		if (char === "'" || char === '"' || char === '`') {
+			quote = char;
+		} else if (char === '[') {
+			quote = ']';
+		} else if (char === '(') {
+			depth++;
+			if (depth === 1) {
+				if (start === -1) start = i;
+				continue;
+			}
+		} else if (char === ')') {
+			depth--;
+			if (depth === 0) {
+				end = i;
+				break;
+			}
+		} else if (char === ',' && depth === 1) {
+			parts.push(current.trim());
+			current = '';
+			continue;
+		}
+		if (depth > 0) current += char;
+	}
+
+	if (current.trim()) parts.push(current.trim());
+	return { parts, start, end };
+}
+
+/**
+ * Split the parenthesised body of a CREATE TABLE statement into its
+ * column definitions and table constraints, as written
+ */
+export function split_table_definition(create_sql: string): string[] {
+	return scan_table_definition(create_sql).parts;
+}
+
+/**
+ * The WHERE expression of a partial CREATE INDEX statement, which
+ * follows its parenthesised column list; null for a full index
+ */
+export function index_where_clause(
+	create_sql: string,
+): string | null {
+	const { end } = scan_table_definition(create_sql);
+	const where = /^\s*WHERE\s+([\s\S]*?)\s*;?\s*$/i.exec(
+		create_sql.slice(end + 1),
+	);
+	return where ? where[1]! : null;
+}
+
+/**
+ * Replace the column definitions and table constraints of a CREATE
+ * TABLE statement, keeping its name and table options
+ */
+export function replace_table_definition(
+	create_sql: string,
+	parts: string[],
+): string {
+	const { start, end } = scan_table_definition(create_sql);
+	return `${create_sql.slice(0, start)}(\n\t${parts.join(',\n\t')}\n)${create_sql.slice(end + 1)}`;
+}
+
+/**
+ * Whether a part of a table definition is a table constraint rather
+ * than a column definition
+ */
+export function is_table_constraint(part: string): boolean {
+	return TABLE_CONSTRAINT.test(part);
+}
+
+/**
+ * Whether a statement names an object, e.g. a view selecting from a
+ * table
+ */
+export function mentions_identifier(
+	sql: string,
+	name: string,
+): boolean {
+	return tokenise_sql(sql).some(
+		(token) => token.text.toLowerCase() === name.toLowerCase(),
+	);
+}
+
+/**
+ * The definition of a column in a CREATE TABLE statement, as written
+ */
+export function find_column_definition(
+	create_sql: string,
+	column: string,
+): string | undefined {
+	return split_table_definition(create_sql).find(
+		(part) =>
+			!is_table_constraint(part) &&
+			tokenise_sql(part)[0]?.text.toLowerCase() ===
+				column.toLowerCase(),
+	);
+}
+
+/**
+ * Replace the table name in a CREATE TABLE statement. SQLite keeps a
+ * renamed table's SQL as written apart from the name, which it quotes.
+ */
+export function rename_create_table(
+	create_sql: string,
+	name: string,
+): string {
+	return create_sql.replace(
+		CREATE_TABLE_NAME,
+		(_, prefix: string) => `${prefix}${quote_identifier(name)}`,
+	);
+}
+
+// Keywords that start a column constraint
+const COLUMN_CONSTRAINTS = new Set([
+	'CONSTRAINT',
+	'PRIMARY',
+	'NOT',
+	'NULL',
+	'UNIQUE',
+	'CHECK',
+	'DEFAULT',
+	'COLLATE',
+	'REFERENCES',
+	'GENERATED',
+	'AS',
+]);
+
+export interface ColumnConstraint {
+	// Leading keyword after any CONSTRAINT name, e.g. "NOT" or "DEFAULT"
+	kind: string;
+	text: string;
+}
+
+export interface ParsedColumnDefinition {
+	name: string;
+	type: string;
+	constraints: ColumnConstraint[];
+}
+
+interface DefinitionToken {
+	// Upper-cased bare word, or the token text
+	word: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Top-level tokens of a column definition; quoted names, strings and
+ * parenthesised groups are one token each
+ */
+function tokenise_definition(definition: string): DefinitionToken[] {
+	const tokens: DefinitionToken[] = [];
+	let i = 0;
+	while (i < definition.length) {
+		const char = definition[i]!;
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+
+		const start = i;
+		if (/[\w$]/.test(char)) {
+			while (i < definition.length && /[\w$]/.test(definition[i]!))
+				i++;
+			tokens.push({
+				word: definition.slice(start, i).toUpperCase(),
+				start,
+				end: i,
+			});
+			continue;
+		}
+
+		let depth = 0;
+		let quote: string | null = null;
+		do {
+			const current = definition[i]!;
+			if (quote) {
+				if (current === quote) {
+					if (quote !== ']' && definition[i + 1] === quote) i++;
+					else quote = null;
+				}
+			} else if (
+				current === "'" ||
+				current === '"' ||
+				current === '`'
+			) {
+				quote = current;
+			} else if (current === '[') {
+				quote = ']';
+			} else if (current === '(') {
+				depth++;
+			} else if (current === ')') {
+				depth--;
+			}
+			i++;
+		} while (i < definition.length && (quote || depth > 0));
+		tokens.push({ word: definition.slice(start, i), start, end: i });
+	}
+	return tokens;
+}
+
+/**
+ * Split a column definition into its name, type and constraints, as
+ * written
+ */
+export function parse_column_definition(
+	definition: string,
+): ParsedColumnDefinition {
+	const tokens = tokenise_definition(definition);
+	const text = (from: number, to: number) =>
+		definition.slice(tokens[from]!.start, tokens[to - 1]!.end);
+
+	let i = 1;
+	while (
+		i < tokens.length &&
+		!COLUMN_CONSTRAINTS.has(tokens[i]!.word)
+	) {
+		i++;
+	}
+	const type = i > 1 ? text(1, i) : '';
+
+	const constraints: ColumnConstraint[] = [];
+	while (i < tokens.length) {
+		const start = i;
+		if (tokens[i]!.word === 'CONSTRAINT') i += 2;
+		const kind = tokens[i]?.word ?? 'CONSTRAINT';
+		i++;
+
+		if (kind === 'DEFAULT') {
+			// One value: a literal, a signed number, a name or (expr)
+			if (tokens[i]?.word === '-' || tokens[i]?.word === '+') i++;
+			i++;
+		} else if (kind === 'COLLATE') {
+			i++;
+		} else {
+			while (i < tokens.length) {
+				const word = tokens[i]!.word;
+				const previous = tokens[i - 1]!.word;
+				const continues =
+					(word === 'NULL' &&
+						(previous === 'NOT' || previous === 'SET')) ||
+					(word === 'NOT' && tokens[i + 1]?.word === 'DEFERRABLE') ||
+					(word === 'AS' && kind === 'GENERATED');
+				if (COLUMN_CONSTRAINTS.has(word) && !continues) break;
+				i++;
+			}
+		}
+
+		i = Math.min(i, tokens.length);
+		constraints.push({ kind, text: text(start, i) });
+	}
+
+	return {
+		name: tokens[0] ? text(0, 1) : '',
+		type,
+		constraints,
+	};
+}
+
+/**
+ * Reassemble a column definition split by parse_column_definition
+ */
+export function format_column_definition(
+	column: ParsedColumnDefinition,
+): string {
+	return [
+		column.name,
+		column.type,
+		...column.constraints.map((constraint) => constraint.text),
+	]
+		.filter(Boolean)
+		.join(' ');
+}
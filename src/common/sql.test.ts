@@ -1,30 +1,15 @@
 import { describe, expect, it } from 'vitest';
 
+import { ValidationError } from './errors.js';
 import {
+	format_create_index,
+	format_create_table,
 	format_default_value,
+	format_sql_expression,
 	quote_identifier,
-	should_paginate_read_query,
 } from './sql.js';
 
 describe('SQL helpers', () => {
-	it('only paginates SELECT-style reads', () => {
-		expect(should_paginate_read_query('SELECT * FROM t')).toBe(true);
-		expect(
-			should_paginate_read_query(
-				'WITH c AS (SELECT 1) SELECT * FROM c',
-			),
-		).toBe(true);
-		expect(should_paginate_read_query('PRAGMA table_info(t)')).toBe(
-			false,
-		);
-		expect(should_paginate_read_query('EXPLAIN SELECT 1')).toBe(
-			false,
-		);
-		expect(
-			should_paginate_read_query('SELECT * FROM t LIMIT 5'),
-		).toBe(false);
-	});
-
 	it('quotes identifiers and default literals', () => {
 		expect(quote_identifier('a"b')).toBe('"a""b"');
 		expect(format_default_value("x'); DROP TABLE users; --")).toBe(
@@ -35,4 +20,120 @@ describe('SQL helpers', () => {
 		);
 		expect(format_default_value(true)).toBe('1');
 	});
+
+	it('builds CREATE TABLE with table constraints and options', () => {
+		expect(
+			format_create_table({
+				name: 'order items',
+				columns: [
+					{ name: 'order_id', type: 'INTEGER', nullable: false },
+					{ name: 'sku', type: 'TEXT', collate: 'NOCASE' },
+					{ name: 'qty', type: 'INTEGER', check: 'qty > 0' },
+					{ name: 'price', type: 'REAL', default_value: 0 },
+					{
+						name: 'total',
+						type: 'REAL',
+						generated: { expression: 'qty * price', stored: true },
+					},
+				],
+				primary_key: ['order_id', 'sku'],
+				unique: [['sku', 'qty']],
+				checks: [{ check: "sku != ''", name: 'sku_set' }],
+				foreign_keys: [
+					{
+						columns: ['order_id'],
+						references_table: 'orders',
+						references_columns: ['id'],
+						on_delete: 'CASCADE',
+					},
+				],
+				strict: true,
+				without_rowid: true,
+				if_not_exists: true,
+			}),
+		).toBe(
+			'CREATE TABLE IF NOT EXISTS "order items" (' +
+				'"order_id" INTEGER NOT NULL, "sku" TEXT COLLATE "NOCASE", ' +
+				'"qty" INTEGER CHECK (qty > 0), "price" REAL DEFAULT 0, ' +
+				'"total" REAL GENERATED ALWAYS AS (qty * price) STORED, ' +
+				'PRIMARY KEY ("order_id", "sku"), UNIQUE ("sku", "qty"), ' +
+				`CONSTRAINT "sku_set" CHECK (sku != ''), ` +
+				'FOREIGN KEY ("order_id") REFERENCES "orders" ("id") ON DELETE CASCADE' +
+				') STRICT, WITHOUT ROWID',
+		);
+	});
+
+	it('refuses constraints that cannot be built safely', () => {
+		for (const expression of [
+			'1) , evil TEXT, CHECK (1',
+			'x > 0; DROP TABLE users',
+			'x > 0 --',
+			"name != 'a",
+		]) {
+			expect(() =>
+				format_sql_expression(expression, 'check'),
+			).toThrow(ValidationError);
+		}
+		expect(
+			format_sql_expression(" length(')') > (1) ", 'check'),
+		).toBe("(length(')') > (1))");
+
+		const columns = [
+			{ name: 'id', type: 'INTEGER', primary_key: true },
+		];
+		expect(() =>
+			format_create_table({
+				name: 't',
+				columns,
+				primary_key: ['id'],
+			}),
+		).toThrow('Only one primary key');
+		expect(() =>
+			format_create_table({
+				name: 't',
+				columns: [{ name: 'id', type: 'DATE' }],
+				strict: true,
+			}),
+		).toThrow('STRICT tables only allow');
+		expect(() =>
+			format_create_table({
+				name: 't',
+				columns: [{ name: 'id', type: 'TEXT', autoincrement: true }],
+			}),
+		).toThrow('AUTOINCREMENT requires');
+		expect(() =>
+			format_create_table({
+				name: 't',
+				columns,
+				unique: [['missing']],
+			}),
+		).toThrow('unknown column(s): missing');
+	});
+
+	it('builds unique, partial and expression indexes', () => {
+		expect(
+			format_create_index({
+				name: 'users by name',
+				table: 'users',
+				columns: [
+					{ expression: 'lower(name)', descending: true },
+					{ column: 'email', collate: 'NOCASE' },
+				],
+				unique: true,
+				where: 'deleted_at IS NULL',
+				if_not_exists: true,
+			}),
+		).toBe(
+			'CREATE UNIQUE INDEX IF NOT EXISTS "users by name" ON "users" ' +
+				'((lower(name)) DESC, "email" COLLATE "NOCASE") ' +
+				'WHERE (deleted_at IS NULL)',
+		);
+		expect(() =>
+			format_create_index({
+				name: 'i',
+				table: 't',
+				columns: [{ column: 'a', expression: 'b' }],
+			}),
+		).toThrow('either a column or an expression');
+	});
 });
@@ -62,18 +62,390 @@ export function format_default_value(value: unknown): string {
 	);
 }
 
-export function should_paginate_read_query(query: string): boolean {
-	const normalized = query.trimStart().toLowerCase();
-	return (
-		/^(select|with)\b/.test(normalized) && !/\blimit\b/i.test(query)
-	);
+/**
+ * Render a stored value read with safeIntegers as an SQL literal for
+ * generated scripts. Integers are bigints and print exactly, while
+ * numbers are reals and keep a decimal point; blobs become X'..' and
+ * infinite reals overflowing literals, which SQLite reads as infinity.
+ */
+export function format_sql_literal(value: unknown): string {
+	if (value === null || value === undefined) return 'NULL';
+	if (typeof value === 'bigint') return value.toString();
+	if (typeof value === 'boolean') return value ? '1' : '0';
+	if (typeof value === 'number') {
+		if (Number.isNaN(value)) return 'NULL';
+		if (!Number.isFinite(value))
+			return value > 0 ? '9e999' : '-9e999';
+		const literal = String(value);
+		return /^-?\d+$/.test(literal) ? `${literal}.0` : literal;
+	}
+	if (value instanceof Uint8Array) {
+		return `X'${Buffer.from(value).toString('hex')}'`;
+	}
+	const text =
+		typeof value === 'string' ? value : JSON.stringify(value);
+	return `'${text.replace(/'/g, "''")}'`;
 }
 
 export function trim_trailing_semicolon(query: string): string {
 	return query.trim().replace(/;\s*$/, '');
 }
 
-export function looks_like_read_query(query: string): boolean {
-	const normalized = query.trimStart().toLowerCase();
-	return /^(select|with|pragma|explain)\b/.test(normalized);
+export type ForeignKeyAction =
+	| 'CASCADE'
+	| 'SET NULL'
+	| 'SET DEFAULT'
+	| 'RESTRICT'
+	| 'NO ACTION';
+
+export interface ForeignKeyActions {
+	on_delete?: ForeignKeyAction;
+	on_update?: ForeignKeyAction;
+}
+
+export interface ColumnSpec {
+	name: string;
+	type: string;
+	nullable?: boolean;
+	primary_key?: boolean;
+	// Only for an INTEGER PRIMARY KEY; rowids are then never reused
+	autoincrement?: boolean;
+	unique?: boolean;
+	default_value?: unknown;
+	collate?: string;
+	check?: string;
+	references?: ForeignKeyActions & { table: string; column?: string };
+	generated?: { expression: string; stored?: boolean };
+}
+
+export interface ForeignKeySpec extends ForeignKeyActions {
+	columns: string[];
+	references_table: string;
+	// The referenced table's primary key when left out
+	references_columns?: string[];
+}
+
+export interface TableSpec {
+	name: string;
+	columns: ColumnSpec[];
+	// Composite primary key; use the column flag for a single column
+	primary_key?: string[];
+	unique?: string[][];
+	checks?: Array<{ check: string; name?: string }>;
+	foreign_keys?: ForeignKeySpec[];
+	strict?: boolean;
+	without_rowid?: boolean;
+	if_not_exists?: boolean;
+}
+
+// The only column types a STRICT table accepts
+const STRICT_TYPES = new Set([
+	'INT',
+	'INTEGER',
+	'REAL',
+	'TEXT',
+	'BLOB',
+	'ANY',
+]);
+
+/**
+ * Parenthesise an SQL expression for CHECK and GENERATED ALWAYS AS.
+ * Expressions are raw SQL, so refuse any that would close the
+ * parenthesis early, end the statement or comment out the rest of it.
+ */
+export function format_sql_expression(
+	expression: string,
+	field: string,
+): string {
+	let depth = 0;
+	let i = 0;
+	while (i < expression.length) {
+		const char = expression[i]!;
+		if (
+			char === "'" ||
+			char === '"' ||
+			char === '`' ||
+			char === '['
+		) {
+			const close = char === '[' ? ']' : char;
+			const end = expression.indexOf(close, i + 1);
+			if (end === -1) {
+				throw new ValidationError(
+					`Unterminated ${char} in expression`,
+					field,
+					expression,
+				);
+			}
+			i = end + 1;
+			continue;
+		}
+		const pair = expression.slice(i, i + 2);
+		if (char === ';' || pair === '--' || pair === '/*') {
+			throw new ValidationError(
+				'Expression cannot contain semicolons or comments',
+				field,
+				expression,
+			);
+		}
+		if (char === '(') depth++;
+		if (char === ')' && --depth < 0) break;
+		i++;
+	}
+	if (depth !== 0 || !expression.trim()) {
+		throw new ValidationError(
+			'Expression must be non-empty with balanced parentheses',
+			field,
+			expression,
+		);
+	}
+	return `(${expression.trim()})`;
+}
+
+function format_column_list(columns: string[]): string {
+	return `(${columns.map(quote_identifier).join(', ')})`;
+}
+
+function format_references(
+	table: string,
+	columns: string[] | undefined,
+	actions: ForeignKeyActions,
+): string {
+	let clause = `REFERENCES ${quote_identifier(table)}`;
+	if (columns?.length) clause += ` ${format_column_list(columns)}`;
+	if (actions.on_delete) clause += ` ON DELETE ${actions.on_delete}`;
+	if (actions.on_update) clause += ` ON UPDATE ${actions.on_update}`;
+	return clause;
+}
+
+/**
+ * Column definition for CREATE TABLE and ALTER TABLE ADD COLUMN, with
+ * quoted identifiers and a literal default
+ */
+export function format_column_spec(column: ColumnSpec): string {
+	if (
+		column.autoincrement &&
+		!(column.primary_key && column.type === 'INTEGER')
+	) {
+		throw new ValidationError(
+			'AUTOINCREMENT requires an INTEGER PRIMARY KEY column',
+			'autoincrement',
+			column.name,
+		);
+	}
+	if (
+		column.generated &&
+		(column.primary_key || column.default_value !== undefined)
+	) {
+		throw new ValidationError(
+			'A generated column cannot be a primary key or have a default',
+			'generated',
+			column.name,
+		);
+	}
+
+	let definition = `${quote_identifier(column.name)} ${column.type}`;
+	if (column.primary_key) definition += ' PRIMARY KEY';
+	if (column.autoincrement) definition += ' AUTOINCREMENT';
+	if (column.nullable === false) definition += ' NOT NULL';
+	if (column.unique) definition += ' UNIQUE';
+	if (column.check !== undefined)
+		definition += ` CHECK ${format_sql_expression(column.check, 'check')}`;
+	if (column.default_value !== undefined)
+		definition += ` DEFAULT ${format_default_value(column.default_value)}`;
+	if (column.collate)
+		definition += ` COLLATE ${quote_identifier(column.collate)}`;
+	if (column.references) {
+		const { table, column: target, ...actions } = column.references;
+		definition += ` ${format_references(table, target ? [target] : undefined, actions)}`;
+	}
+	if (column.generated) {
+		definition += ` GENERATED ALWAYS AS ${format_sql_expression(
+			column.generated.expression,
+			'generated',
+		)} ${column.generated.stored ? 'STORED' : 'VIRTUAL'}`;
+	}
+	return definition;
+}
+
+/**
+ * Check that table constraints name the table's own columns, matched
+ * case-insensitively as SQLite does
+ */
+function check_constraint_columns(
+	columns: string[],
+	known: Set<string>,
+	field: string,
+): void {
+	if (columns.length === 0) {
+		throw new ValidationError(
+			`${field} needs at least one column`,
+			field,
+			columns,
+		);
+	}
+	const unknown = columns.filter(
+		(column) => !known.has(column.toLowerCase()),
+	);
+	if (unknown.length > 0) {
+		throw new ValidationError(
+			`${field} names unknown column(s): ${unknown.join(', ')}`,
+			field,
+			unknown,
+		);
+	}
+}
+
+/**
+ * CREATE TABLE statement with column definitions, table constraints and
+ * table options, every identifier quoted
+ */
+export function format_create_table(table: TableSpec): string {
+	const known = new Set(
+		table.columns.map((column) => column.name.toLowerCase()),
+	);
+	if (known.size !== table.columns.length) {
+		throw new ValidationError(
+			'Column names must be unique (case-insensitively)',
+			'columns',
+			table.columns.map((column) => column.name),
+		);
+	}
+
+	const key_columns = table.columns.filter(
+		(column) => column.primary_key,
+	);
+	if (
+		key_columns.length > 1 ||
+		(key_columns.length && table.primary_key)
+	) {
+		throw new ValidationError(
+			'Only one primary key is allowed; list composite key columns in the table primary_key',
+			'primary_key',
+			key_columns.map((column) => column.name),
+		);
+	}
+	if (
+		table.without_rowid &&
+		(!(key_columns.length || table.primary_key) ||
+			key_columns.some((column) => column.autoincrement))
+	) {
+		throw new ValidationError(
+			'WITHOUT ROWID tables need a primary key and cannot use AUTOINCREMENT',
+			'without_rowid',
+			table.name,
+		);
+	}
+	if (table.strict) {
+		const loose = table.columns.filter(
+			(column) => !STRICT_TYPES.has(column.type),
+		);
+		if (loose.length > 0) {
+			throw new ValidationError(
+				`STRICT tables only allow the types ${[...STRICT_TYPES].join(', ')}; not ${loose.map((column) => `${column.name} ${column.type}`).join(', ')}`,
+				'strict',
+				loose.map((column) => column.type),
+			);
+		}
+	}
+
+	const parts = table.columns.map(format_column_spec);
+	if (table.primary_key) {
+		check_constraint_columns(table.primary_key, known, 'primary_key');
+		parts.push(
+			`PRIMARY KEY ${format_column_list(table.primary_key)}`,
+		);
+	}
+	for (const group of table.unique ?? []) {
+		check_constraint_columns(group, known, 'unique');
+		parts.push(`UNIQUE ${format_column_list(group)}`);
+	}
+	for (const { check, name } of table.checks ?? []) {
+		const constraint = `CHECK ${format_sql_expression(check, 'checks')}`;
+		parts.push(
+			name
+				? `CONSTRAINT ${quote_identifier(name)} ${constraint}`
+				: constraint,
+		);
+	}
+	for (const foreign_key of table.foreign_keys ?? []) {
+		check_constraint_columns(
+			foreign_key.columns,
+			known,
+			'foreign_keys',
+		);
+		if (
+			foreign_key.references_columns?.length &&
+			foreign_key.references_columns.length !==
+				foreign_key.columns.length
+		) {
+			throw new ValidationError(
+				'A foreign key must reference as many columns as it has',
+				'foreign_keys',
+				foreign_key.references_columns,
+			);
+		}
+		parts.push(
+			`FOREIGN KEY ${format_column_list(foreign_key.columns)} ${format_references(
+				foreign_key.references_table,
+				foreign_key.references_columns,
+				foreign_key,
+			)}`,
+		);
+	}
+
+	const options = [
+		...(table.strict ? ['STRICT'] : []),
+		...(table.without_rowid ? ['WITHOUT ROWID'] : []),
+	];
+	return `CREATE TABLE ${table.if_not_exists ? 'IF NOT EXISTS ' : ''}${quote_identifier(table.name)} (${parts.join(', ')})${options.length ? ` ${options.join(', ')}` : ''}`;
+}
+
+export interface IndexColumnSpec {
+	// A column name or an expression, not both
+	column?: string;
+	expression?: string;
+	descending?: boolean;
+	collate?: string;
+}
+
+export interface IndexSpec {
+	name: string;
+	table: string;
+	columns: IndexColumnSpec[];
+	unique?: boolean;
+	// Makes a partial index of the rows it matches
+	where?: string;
+	if_not_exists?: boolean;
+}
+
+/**
+ * CREATE INDEX statement with quoted identifiers; expressions and the
+ * WHERE clause are checked like CHECK constraints
+ */
+export function format_create_index(index: IndexSpec): string {
+	const columns = index.columns.map((column) => {
+		if (
+			(column.column === undefined) ===
+			(column.expression === undefined)
+		) {
+			throw new ValidationError(
+				'Each index column needs either a column or an expression',
+				'columns',
+				column,
+			);
+		}
+		let definition =
+			column.column !== undefined
+				? quote_identifier(column.column)
+				: format_sql_expression(column.expression!, 'expression');
+		if (column.collate)
+			definition += ` COLLATE ${quote_identifier(column.collate)}`;
+		if (column.descending) definition += ' DESC';
+		return definition;
+	});
+
+	let sql = `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${index.if_not_exists ? 'IF NOT EXISTS ' : ''}${quote_identifier(index.name)} ON ${quote_identifier(index.table)} (${columns.join(', ')})`;
+	if (index.where !== undefined)
+		sql += ` WHERE ${format_sql_expression(index.where, 'where')}`;
+	return sql;
 }
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	classify_sql,
+	creates_temp_object,
+} from './statement-classifier.js';
+
+function route(sql: string, readonly: boolean | null = null) {
+	const { category, statement_type, tool } = classify_sql(
+		sql,
+		readonly,
+	);
+	return { category, statement_type, tool };
+}
+
+describe('statement classifier', () => {
+	it('looks past comments and CTEs to the statement proper', () => {
+		expect(
+			route(
+				"-- note\n/* block; */ WITH old(id) AS (SELECT id FROM t WHERE x = 'a;b') DELETE FROM t WHERE id IN old",
+			),
+		).toEqual({
+			category: 'write',
+			statement_type: 'WITH DELETE',
+			tool: 'execute_write_query',
+		});
+		expect(
+			route('WITH RECURSIVE n(x) AS (VALUES (1)) SELECT x FROM n'),
+		).toMatchObject({
+			category: 'read',
+			statement_type: 'WITH SELECT',
+		});
+		expect(route('REPLACE INTO t VALUES (1)')).toMatchObject({
+			category: 'write',
+			statement_type: 'REPLACE',
+		});
+		expect(route('create unique index i ON t (a)')).toMatchObject({
+			category: 'schema',
+			statement_type: 'CREATE INDEX',
+			tool: 'execute_schema_query',
+		});
+	});
+
+	it('separates pragma reads from assignments', () => {
+		expect(route('PRAGMA table_info("t")', true)).toMatchObject({
+			category: 'read',
+			statement_type: 'PRAGMA',
+		});
+		expect(route('PRAGMA user_version = 3')).toMatchObject({
+			category: 'write',
+			statement_type: 'PRAGMA ASSIGNMENT',
+		});
+		expect(route('PRAGMA journal_mode(WAL)', false)).toMatchObject({
+			category: 'write',
+			statement_type: 'PRAGMA ASSIGNMENT',
+		});
+		expect(route('EXPLAIN DELETE FROM t', false)).toMatchObject({
+			category: 'read',
+			statement_type: 'EXPLAIN',
+		});
+	});
+
+	it('recognises TEMP objects', () => {
+		expect(creates_temp_object('CREATE TEMP TABLE t (a)')).toBe(true);
+		expect(
+			creates_temp_object('CREATE TEMPORARY VIEW v AS SELECT 1'),
+		).toBe(true);
+		expect(
+			creates_temp_object('CREATE TABLE IF NOT EXISTS "temp".t (a)'),
+		).toBe(true);
+		expect(creates_temp_object('CREATE TABLE temp_rows (a)')).toBe(
+			false,
+		);
+		expect(creates_temp_object('DROP TABLE temp.t')).toBe(false);
+	});
+
+	it('gives no tool to ATTACH, VACUUM and transaction control', () => {
+		expect(route("ATTACH 'other.db' AS other", true)).toEqual({
+			category: 'connection',
+			statement_type: 'ATTACH',
+			tool: null,
+		});
+		expect(route("VACUUM INTO 'copy.db'")).toEqual({
+			category: 'maintenance',
+			statement_type: 'VACUUM INTO',
+			tool: null,
+		});
+		expect(route('BEGIN', true)).toMatchObject({
+			category: 'transaction',
+			tool: null,
+		});
+		expect(route('ANALYZE')).toMatchObject({
+			category: 'maintenance',
+			tool: 'execute_schema_query',
+		});
+	});
+});
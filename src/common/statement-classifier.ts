@@ -0,0 +1,282 @@
+/**
+ * SQL statement classification for routing between the query tools
+ */
+
+export type StatementCategory =
+	| 'read'
+	| 'write'
+	| 'schema'
+	| 'maintenance'
+	| 'transaction'
+	| 'connection'
+	| 'unknown';
+
+export type QueryTool =
+	| 'execute_read_query'
+	| 'execute_write_query'
+	| 'execute_schema_query';
+
+export interface StatementClassification {
+	category: StatementCategory;
+	// Leading keywords, e.g. "SELECT", "WITH DELETE", "CREATE INDEX",
+	// "PRAGMA ASSIGNMENT" or "VACUUM INTO"
+	statement_type: string;
+	// The query tool that runs this statement; null when none of them may
+	tool: QueryTool | null;
+	// SQLite's own verdict (stmt.readonly), or null when the statement
+	// could not be prepared
+	readonly: boolean | null;
+}
+
+export interface SqlToken {
+	// Upper-cased keyword or identifier, the punctuation character, or
+	// '"' for a quoted identifier
+	word: string;
+	// The identifier as written, unquoted
+	text: string;
+	depth: number;
+}
+
+const CATEGORY_TOOLS: Record<StatementCategory, QueryTool | null> = {
+	read: 'execute_read_query',
+	write: 'execute_write_query',
+	schema: 'execute_schema_query',
+	maintenance: 'execute_schema_query',
+	transaction: null,
+	connection: null,
+	unknown: null,
+};
+
+const DML_KEYWORDS = new Set([
+	'INSERT',
+	'REPLACE',
+	'UPDATE',
+	'DELETE',
+]);
+const SCHEMA_OBJECTS = new Set(['TABLE', 'INDEX', 'VIEW', 'TRIGGER']);
+const TRANSACTION_KEYWORDS = new Set([
+	'BEGIN',
+	'COMMIT',
+	'END',
+	'ROLLBACK',
+	'SAVEPOINT',
+	'RELEASE',
+]);
+
+/**
+ * Split SQL into keywords, identifiers and punctuation with their
+ * parenthesis depth, skipping comments and string literals. Stops at the
+ * first top-level semicolon.
+ */
+export function tokenise_sql(sql: string): SqlToken[] {
+	const tokens: SqlToken[] = [];
+	let depth = 0;
+	let i = 0;
+
+	while (i < sql.length) {
+		const char = sql[i]!;
+		const next_char = sql[i + 1];
+
+		if (char === '-' && next_char === '-') {
+			const end = sql.indexOf('\n', i);
+			i = end === -1 ? sql.length : end + 1;
+		} else if (char === '/' && next_char === '*') {
+			const end = sql.indexOf('*/', i + 2);
+			i = end === -1 ? sql.length : end + 2;
+		} else if (char === "'") {
+			// A doubled quote escapes itself; scanning on from it reads the
+			// rest as a second, adjacent literal
+			const end = sql.indexOf(char, i + 1);
+			i = end === -1 ? sql.length : end + 1;
+		} else if (char === '"' || char === '`' || char === '[') {
+			const close = char === '[' ? ']' : char;
+			let text = '';
+			let end = i + 1;
+			while (end < sql.length) {
+				if (sql[end] === close) {
+					if (close !== ']' && sql[end + 1] === close) {
+						text += close;
+						end += 2;
+						continue;
+					}
+					break;
+				}
+				text += sql[end];
+				end++;
+			}
+			tokens.push({ word: '"', text, depth });
+			i = end + 1;
+		} else if (/[A-Za-z_]/.test(char)) {
+			const match = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i))!;
+			tokens.push({
+				word: match[0].toUpperCase(),
+				text: match[0],
+				depth,
+			});
+			i += match[0].length;
+		} else {
+			if (char === ';' && depth === 0) break;
+			if (char === '(') depth++;
+			if (char === ')') depth = Math.max(0, depth - 1);
+			if ('(),.;=<>!'.includes(char)) {
+				tokens.push({ word: char, text: char, depth });
+			}
+			i++;
+		}
+	}
+
+	return tokens;
+}
+
+function classify_tokens(tokens: SqlToken[]): {
+	category: StatementCategory;
+	statement_type: string;
+} {
+	const first = tokens[0]?.word ?? '';
+	const top_level = tokens.filter((token) => token.depth === 0);
+
+	if (first === 'SELECT' || first === 'VALUES') {
+		return { category: 'read', statement_type: first };
+	}
+	if (first === 'EXPLAIN') {
+		return {
+			category: 'read',
+			statement_type:
+				tokens[1]?.word === 'QUERY'
+					? 'EXPLAIN QUERY PLAN'
+					: 'EXPLAIN',
+		};
+	}
+	if (first === 'WITH') {
+		// The statement proper follows the parenthesised CTE bodies
+		const verb = top_level
+			.slice(1)
+			.find(
+				(token) =>
+					token.word === 'SELECT' ||
+					token.word === 'VALUES' ||
+					DML_KEYWORDS.has(token.word),
+			)?.word;
+		if (!verb) return { category: 'unknown', statement_type: 'WITH' };
+		return {
+			category: DML_KEYWORDS.has(verb) ? 'write' : 'read',
+			statement_type: `WITH ${verb}`,
+		};
+	}
+	if (DML_KEYWORDS.has(first)) {
+		return { category: 'write', statement_type: first };
+	}
+	if (first === 'CREATE' || first === 'DROP' || first === 'ALTER') {
+		const object_index = tokens.findIndex((token) =>
+			SCHEMA_OBJECTS.has(token.word),
+		);
+		const object = tokens[object_index]?.word;
+		const virtual = tokens[object_index - 1]?.word === 'VIRTUAL';
+		return {
+			category: 'schema',
+			statement_type: object
+				? `${first} ${virtual ? 'VIRTUAL ' : ''}${object}`
+				: first,
+		};
+	}
+	if (first === 'PRAGMA') {
+		return top_level.some((token) => token.word === '=')
+			? { category: 'write', statement_type: 'PRAGMA ASSIGNMENT' }
+			: { category: 'read', statement_type: 'PRAGMA' };
+	}
+	if (first === 'VACUUM') {
+		return {
+			category: 'maintenance',
+			statement_type: top_level.some((token) => token.word === 'INTO')
+				? 'VACUUM INTO'
+				: 'VACUUM',
+		};
+	}
+	if (first === 'ANALYZE' || first === 'REINDEX') {
+		return { category: 'maintenance', statement_type: first };
+	}
+	if (first === 'ATTACH' || first === 'DETACH') {
+		return { category: 'connection', statement_type: first };
+	}
+	if (TRANSACTION_KEYWORDS.has(first)) {
+		return { category: 'transaction', statement_type: first };
+	}
+	return { category: 'unknown', statement_type: first };
+}
+
+/**
+ * Classify one SQL statement from its leading keywords, refined by
+ * SQLite's `stmt.readonly` when the caller could prepare it: a statement
+ * SQLite reports as writing is never a read (e.g. `PRAGMA
+ * journal_mode(WAL)`), and statements the keywords don't settle fall
+ * back to it.
+ *
+ * VACUUM (which would write a file with INTO) and ATTACH/DETACH (which
+ * open files outside the path checks and change shared connection
+ * state) get no tool, nor do transaction statements, which have their
+ * own tools.
+ */
+export function classify_sql(
+	sql: string,
+	readonly: boolean | null = null,
+): StatementClassification {
+	let { category, statement_type } = classify_tokens(
+		tokenise_sql(sql),
+	);
+
+	// EXPLAIN only describes the statement, but SQLite reports the
+	// readonly flag of the statement being explained
+	if (
+		category === 'read' &&
+		readonly === false &&
+		!statement_type.startsWith('EXPLAIN')
+	) {
+		category = 'write';
+		if (statement_type === 'PRAGMA')
+			statement_type = 'PRAGMA ASSIGNMENT';
+	}
+	if (category === 'unknown' && readonly !== null) {
+		category = readonly ? 'read' : 'write';
+	}
+
+	return {
+		category,
+		statement_type,
+		tool: statement_type.startsWith('VACUUM')
+			? null
+			: CATEGORY_TOOLS[category],
+		readonly,
+	};
+}
+
+/**
+ * Whether a CREATE statement makes a TEMP object, written as CREATE TEMP
+ * or with the temp schema name. The object exists only on the connection
+ * that created it.
+ */
+export function creates_temp_object(sql: string): boolean {
+	const tokens = tokenise_sql(sql);
+	if (tokens[0]?.word !== 'CREATE') return false;
+	const object_index = tokens.findIndex((token) =>
+		SCHEMA_OBJECTS.has(token.word),
+	);
+	if (object_index === -1) return false;
+	if (
+		tokens
+			.slice(1, object_index)
+			.some(
+				(token) =>
+					token.word === 'TEMP' || token.word === 'TEMPORARY',
+			)
+	) {
+		return true;
+	}
+
+	// The name follows IF NOT EXISTS, when given
+	const name_index =
+		object_index + (tokens[object_index + 1]?.word === 'IF' ? 4 : 1);
+	return (
+		tokens[name_index]?.text.toLowerCase() === 'temp' &&
+		tokens[name_index + 1]?.word === '.'
+	);
+}
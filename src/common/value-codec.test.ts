@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	decode_value,
+	encode_row,
+	json_replacer,
+} from './value-codec.js';
+
+describe('value codec', () => {
+	it('encodes blobs, large integers and non-finite reals', () => {
+		expect(
+			encode_row(
+				{
+					blob: Buffer.from([0xde, 0xad]),
+					small: 42n,
+					large: 9007199254740993n,
+					infinite: -Infinity,
+				},
+				'hex',
+			),
+		).toEqual({
+			blob: { $blob: 'dead', encoding: 'hex', bytes: 2 },
+			small: 42,
+			large: '9007199254740993',
+			infinite: '-Infinity',
+		});
+		expect(
+			JSON.stringify(
+				{ rowid: 2n ** 62n, data: Buffer.from('hi') },
+				json_replacer,
+			),
+		).toBe(
+			'{"rowid":"4611686018427387904","data":{"$blob":"aGk=","encoding":"base64","bytes":2}}',
+		);
+	});
+
+	it('decodes tagged parameters', () => {
+		expect(decode_value({ $blob: 'aGk=' })).toEqual(
+			Buffer.from('hi'),
+		);
+		expect(decode_value({ $blob: 'dead', encoding: 'hex' })).toEqual(
+			Buffer.from([0xde, 0xad]),
+		);
+		expect(decode_value({ $integer: '-9223372036854775808' })).toBe(
+			-(2n ** 63n),
+		);
+		expect(() =>
+			decode_value({ $integer: '9223372036854775808' }),
+		).toThrow(/out of 64-bit range/);
+		expect(() =>
+			decode_value({ $blob: 'xyz', encoding: 'hex' }),
+		).toThrow(/Invalid hex/);
+		expect(decode_value('plain')).toBe('plain');
+	});
+});
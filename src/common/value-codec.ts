@@ -0,0 +1,161 @@
+/**
+ * JSON encoding of SQLite values that JSON cannot carry as-is: blobs,
+ * 64-bit integers and non-finite reals
+ */
+
+export const BLOB_ENCODINGS = ['base64', 'hex'] as const;
+
+export type BlobEncoding = (typeof BLOB_ENCODINGS)[number];
+
+// A blob in results, also accepted as a parameter
+export interface EncodedBlob {
+	$blob: string;
+	encoding: BlobEncoding;
+	bytes: number;
+}
+
+// An integer parameter beyond Number.MAX_SAFE_INTEGER
+export interface EncodedInteger {
+	$integer: string;
+}
+
+export function is_encoded_blob(
+	value: unknown,
+): value is EncodedBlob {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as EncodedBlob).$blob === 'string'
+	);
+}
+
+function is_encoded_integer(value: unknown): value is EncodedInteger {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as EncodedInteger).$integer === 'string'
+	);
+}
+
+/**
+ * An integer read with safeIntegers as a number when that is exact, and
+ * as a bigint otherwise
+ */
+export function normalise_integer(
+	value: number | bigint,
+): number | bigint {
+	if (
+		typeof value === 'bigint' &&
+		value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+		value <= BigInt(Number.MAX_SAFE_INTEGER)
+	) {
+		return Number(value);
+	}
+	return value;
+}
+
+/**
+ * Apply normalise_integer to every bigint in rows read with safeIntegers
+ */
+export function normalise_integers(
+	rows: Record<string, any>[],
+): Record<string, any>[] {
+	for (const row of rows) {
+		for (const [column, value] of Object.entries(row)) {
+			if (typeof value === 'bigint') {
+				row[column] = normalise_integer(value);
+			}
+		}
+	}
+	return rows;
+}
+
+/**
+ * Encode one result value for JSON. Integers that don't fit a double
+ * become decimal strings, blobs become EncodedBlob objects and infinite
+ * or NaN reals become the strings "Infinity", "-Infinity" and "NaN".
+ */
+export function encode_value(
+	value: unknown,
+	blob_encoding: BlobEncoding = 'base64',
+): unknown {
+	if (typeof value === 'bigint') {
+		const integer = normalise_integer(value);
+		return typeof integer === 'bigint' ? integer.toString() : integer;
+	}
+	if (typeof value === 'number' && !Number.isFinite(value)) {
+		return String(value);
+	}
+	if (value instanceof Uint8Array) {
+		return {
+			$blob: Buffer.from(
+				value.buffer,
+				value.byteOffset,
+				value.byteLength,
+			).toString(blob_encoding),
+			encoding: blob_encoding,
+			bytes: value.byteLength,
+		} satisfies EncodedBlob;
+	}
+	return value;
+}
+
+export function encode_row(
+	row: Record<string, any>,
+	blob_encoding: BlobEncoding = 'base64',
+): Record<string, any> {
+	const encoded: Record<string, any> = {};
+	for (const [column, value] of Object.entries(row)) {
+		encoded[column] = encode_value(value, blob_encoding);
+	}
+	return encoded;
+}
+
+/**
+ * Decode a tagged parameter value: `{ "$blob": "...", "encoding": "hex" }`
+ * (base64 by default) binds a blob and `{ "$integer": "..." }` a 64-bit
+ * integer. Other values are returned unchanged.
+ */
+export function decode_value(value: unknown): unknown {
+	if (is_encoded_blob(value)) {
+		const encoding = value.encoding ?? 'base64';
+		const pattern =
+			encoding === 'hex'
+				? /^(?:[0-9a-fA-F]{2})*$/
+				: /^[A-Za-z0-9+/]*={0,2}$/;
+		if (!pattern.test(value.$blob)) {
+			throw new Error(`Invalid ${encoding} blob parameter`);
+		}
+		return Buffer.from(value.$blob, encoding);
+	}
+	if (is_encoded_integer(value)) {
+		if (!/^-?\d+$/.test(value.$integer)) {
+			throw new Error(`Invalid integer parameter: ${value.$integer}`);
+		}
+		const integer = BigInt(value.$integer);
+		if (integer < -(2n ** 63n) || integer >= 2n ** 63n) {
+			throw new Error(
+				`Integer parameter out of 64-bit range: ${value.$integer}`,
+			);
+		}
+		return integer;
+	}
+	return value;
+}
+
+/**
+ * JSON.stringify replacer that applies encode_value, so bigints and
+ * buffers anywhere in a response serialise instead of throwing or
+ * dumping byte arrays
+ */
+export function json_replacer(
+	this: Record<string, unknown>,
+	key: string,
+	value: unknown,
+): unknown {
+	// Buffer#toJSON has already run by now; encode the original instead
+	const original = key === '' ? value : this[key];
+	return encode_value(
+		original instanceof Uint8Array ? original : value,
+	);
+}
@@ -1,3 +1,4 @@
+import { resolve } from 'node:path';
 import { describe, expect, it } from 'vitest';
 
 import { load_config } from './config.js';
@@ -27,4 +28,68 @@ describe('configuration', () => {
 				process.env.SQLITE_MAX_QUERY_TIME = original_max_query_time;
 		}
 	});
+
+	it('defaults to stdio with a loopback HTTP bind address', () => {
+		const original_transport = process.env.SQLITE_TRANSPORT;
+		const original_port = process.env.SQLITE_HTTP_PORT;
+		try {
+			delete process.env.SQLITE_TRANSPORT;
+			delete process.env.SQLITE_HTTP_PORT;
+			expect(load_config()).toMatchObject({
+				SQLITE_TRANSPORT: 'stdio',
+				SQLITE_HTTP_HOST: '127.0.0.1',
+				SQLITE_HTTP_PORT: 3000,
+				SQLITE_HTTP_ALLOWED_ORIGINS: [],
+				SQLITE_HTTP_ALLOWED_HOSTS: [],
+			});
+
+			process.env.SQLITE_TRANSPORT = 'http';
+			process.env.SQLITE_HTTP_PORT = '8080';
+			expect(load_config()).toMatchObject({
+				SQLITE_TRANSPORT: 'http',
+				SQLITE_HTTP_PORT: 8080,
+			});
+
+			process.env.SQLITE_TRANSPORT = 'websocket';
+			expect(() => load_config()).toThrow(
+				/Configuration validation failed/,
+			);
+		} finally {
+			if (original_transport === undefined)
+				delete process.env.SQLITE_TRANSPORT;
+			else process.env.SQLITE_TRANSPORT = original_transport;
+
+			if (original_port === undefined)
+				delete process.env.SQLITE_HTTP_PORT;
+			else process.env.SQLITE_HTTP_PORT = original_port;
+		}
+	});
+
+	it('parses allowed roots with read/write permissions', () => {
+		const original_roots = process.env.SQLITE_ROOTS;
+		const original_default_path = process.env.SQLITE_DEFAULT_PATH;
+		try {
+			process.env.SQLITE_ROOTS =
+				'/data/app:rw, ./fixtures:ro ,/srv/db';
+			delete process.env.SQLITE_DEFAULT_PATH;
+			const config = load_config();
+			expect(config.SQLITE_ROOTS).toEqual([
+				{ path: '/data/app', read_only: false },
+				{ path: resolve('fixtures'), read_only: true },
+				{ path: '/srv/db', read_only: false },
+			]);
+			expect(config.SQLITE_DEFAULT_PATH).toBe('/data/app');
+
+			process.env.SQLITE_DEFAULT_PATH = '/srv/db';
+			expect(load_config().SQLITE_DEFAULT_PATH).toBe('/srv/db');
+		} finally {
+			if (original_roots === undefined)
+				delete process.env.SQLITE_ROOTS;
+			else process.env.SQLITE_ROOTS = original_roots;
+
+			if (original_default_path === undefined)
+				delete process.env.SQLITE_DEFAULT_PATH;
+			else process.env.SQLITE_DEFAULT_PATH = original_default_path;
+		}
+	});
 });
@@ -4,6 +4,31 @@
 import { resolve } from 'node:path';
 import * as v from 'valibot';
 
+/**
+ * Split a comma-separated list of paths or globs
+ */
+function parse_path_list(val: string): string[] {
+	return val
+		.split(',')
+		.map((path) => path.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Parse allowed root directories: comma-separated paths, each with an
+ * optional `:ro` or `:rw` suffix (read-write by default)
+ */
+function parse_root_list(
+	val: string,
+): Array<{ path: string; read_only: boolean }> {
+	return parse_path_list(val).map((entry) => {
+		const match = /^(.*):(ro|rw)$/.exec(entry);
+		return match
+			? { path: match[1]!, read_only: match[2] === 'ro' }
+			: { path: entry, read_only: false };
+	});
+}
+
 // Define configuration schema using Valibot
 export const ConfigSchema = v.object({
 	SQLITE_DEFAULT_PATH: v.optional(v.string(), '.'),
@@ -22,8 +47,8 @@ export const ConfigSchema = v.object({
 			v.maxValue(300000),
 		),
 	),
-	// Deprecated alias. This was previously documented as wall-clock query
-	// timeout, but better-sqlite3 can only enforce SQLite's lock busy timeout.
+	// Deprecated alias for the busy timeout. It was once documented as the
+	// wall-clock query timeout, which is now SQLITE_QUERY_TIMEOUT.
 	SQLITE_MAX_QUERY_TIME: v.optional(
 		v.pipe(
 			v.string(),
@@ -33,7 +58,191 @@ export const ConfigSchema = v.object({
 			v.maxValue(300000),
 		),
 	),
+	// Wall-clock limit for read calls in milliseconds; 0 disables it. The
+	// read worker running a query past it is killed. Reads on the main
+	// connection (no workers, or in a transaction) have no limit.
+	SQLITE_QUERY_TIMEOUT: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => parseInt(val, 10)),
+			v.number(),
+			v.integer(),
+			v.minValue(0),
+			v.maxValue(3600000),
+		),
+		'30000',
+	),
+	// Read worker processes; each database also gets one writer thread
+	// while in use. 0 runs every query on the main thread.
+	SQLITE_WORKER_POOL_SIZE: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => parseInt(val, 10)),
+			v.number(),
+			v.integer(),
+			v.minValue(0),
+			v.maxValue(64),
+		),
+		'2',
+	),
+	// Idle lifetime in milliseconds of execute_read_query cursors
+	SQLITE_CURSOR_TTL: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => parseInt(val, 10)),
+			v.number(),
+			v.integer(),
+			v.minValue(1000),
+			v.maxValue(3600000),
+		),
+		'300000',
+	),
+	// Response budget for execute_read_query rows: serialised bytes, and
+	// the longest text/blob cell before it is truncated. 0 disables each.
+	SQLITE_MAX_RESPONSE_BYTES: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => parseInt(val, 10)),
+			v.number(),
+			v.integer(),
+			v.minValue(0),
+		),
+		'262144',
+	),
+	SQLITE_MAX_CELL_LENGTH: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => parseInt(val, 10)),
+			v.number(),
+			v.integer(),
+			v.minValue(0),
+		),
+		'2000',
+	),
+	// Undo log: how many execute_write_query changes to keep per
+	// database for undo_last_write (0 disables capture), and the most
+	// rows one captured write may touch
+	SQLITE_UNDO_HISTORY: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => parseInt(val, 10)),
+			v.number(),
+			v.integer(),
+			v.minValue(0),
+			v.maxValue(1000),
+		),
+		'0',
+	),
+	SQLITE_UNDO_MAX_ROWS: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => parseInt(val, 10)),
+			v.number(),
+			v.integer(),
+			v.minValue(1),
+		),
+		'10000',
+	),
 	SQLITE_BACKUP_PATH: v.optional(v.string(), './backups'),
+	// Audit log of every tool call: a JSONL file, or an SQLite database
+	// for .db/.sqlite/.sqlite3 paths unless the format is given. Values
+	// of parameters whose names contain one of the comma-separated
+	// redaction patterns are logged as [REDACTED]; `*` redacts them all.
+	SQLITE_AUDIT_LOG: v.optional(v.string()),
+	SQLITE_AUDIT_FORMAT: v.optional(v.picklist(['jsonl', 'sqlite'])),
+	SQLITE_AUDIT_REDACT: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) =>
+				parse_path_list(val).map((pattern) => pattern.toLowerCase()),
+			),
+		),
+		'password,passwd,secret,token,api_key,apikey,credential',
+	),
+	// Directory that CSV imports read from and exports write to. The
+	// opt-out flag allows any path, as before the sandbox existed.
+	SQLITE_CSV_PATH: v.optional(v.string(), '.'),
+	SQLITE_CSV_ALLOW_ANY_PATH: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => val.toLowerCase() === 'true'),
+		),
+	),
+	// Directory of numbered up/down migration files
+	SQLITE_MIGRATIONS_PATH: v.optional(v.string(), './migrations'),
+	// Allowed root directories for database files. When set, every
+	// database path must resolve (after symlinks) inside one of them.
+	SQLITE_ROOTS: v.optional(
+		v.pipe(v.string(), v.transform(parse_root_list)),
+	),
+	// Access policy: open every database read-only, with comma-separated
+	// path/glob rules that force read-only or re-allow writes per path.
+	SQLITE_READ_ONLY: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => val.toLowerCase() === 'true'),
+		),
+	),
+	SQLITE_READ_ONLY_PATHS: v.optional(
+		v.pipe(v.string(), v.transform(parse_path_list)),
+	),
+	SQLITE_WRITABLE_PATHS: v.optional(
+		v.pipe(v.string(), v.transform(parse_path_list)),
+	),
+	// MCP transport: stdio for a single client process, http to serve
+	// streamable HTTP and legacy SSE clients from one shared process.
+	SQLITE_TRANSPORT: v.optional(
+		v.picklist(['stdio', 'http']),
+		'stdio',
+	),
+	SQLITE_HTTP_HOST: v.optional(
+		v.pipe(v.string(), v.minLength(1)),
+		'127.0.0.1',
+	),
+	SQLITE_HTTP_PORT: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => parseInt(val, 10)),
+			v.number(),
+			v.integer(),
+			v.minValue(0),
+			v.maxValue(65535),
+		),
+		'3000',
+	),
+	// Browser origins, and Host names, the HTTP transport accepts besides
+	// its own loopback and bind addresses; others are refused to stop DNS
+	// rebinding
+	SQLITE_HTTP_ALLOWED_ORIGINS: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) =>
+				parse_path_list(val).map((origin) =>
+					origin.replace(/\/+$/, ''),
+				),
+			),
+		),
+	),
+	SQLITE_HTTP_ALLOWED_HOSTS: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) =>
+				parse_path_list(val).map((host) => host.toLowerCase()),
+			),
+		),
+	),
+	// Idle lifetime in milliseconds of an HTTP session's database context
+	SQLITE_SESSION_TTL: v.optional(
+		v.pipe(
+			v.string(),
+			v.transform((val: string) => parseInt(val, 10)),
+			v.number(),
+			v.integer(),
+			v.minValue(1000),
+			v.maxValue(86400000),
+		),
+		'3600000',
+	),
 	DEBUG: v.optional(
 		v.pipe(
 			v.string(),
@@ -68,7 +277,35 @@ export function load_config(): Config {
 				process.env['SQLITE_ALLOW_ABSOLUTE_PATHS'],
 			SQLITE_BUSY_TIMEOUT: process.env['SQLITE_BUSY_TIMEOUT'],
 			SQLITE_MAX_QUERY_TIME: process.env['SQLITE_MAX_QUERY_TIME'],
+			SQLITE_QUERY_TIMEOUT: process.env['SQLITE_QUERY_TIMEOUT'],
+			SQLITE_WORKER_POOL_SIZE: process.env['SQLITE_WORKER_POOL_SIZE'],
+			SQLITE_CURSOR_TTL: process.env['SQLITE_CURSOR_TTL'],
+			SQLITE_MAX_RESPONSE_BYTES:
+				process.env['SQLITE_MAX_RESPONSE_BYTES'],
+			SQLITE_MAX_CELL_LENGTH: process.env['SQLITE_MAX_CELL_LENGTH'],
+			SQLITE_UNDO_HISTORY: process.env['SQLITE_UNDO_HISTORY'],
+			SQLITE_UNDO_MAX_ROWS: process.env['SQLITE_UNDO_MAX_ROWS'],
 			SQLITE_BACKUP_PATH: process.env['SQLITE_BACKUP_PATH'],
+			SQLITE_AUDIT_LOG: process.env['SQLITE_AUDIT_LOG'],
+			SQLITE_AUDIT_FORMAT:
+				process.env['SQLITE_AUDIT_FORMAT'] || undefined,
+			SQLITE_AUDIT_REDACT: process.env['SQLITE_AUDIT_REDACT'],
+			SQLITE_CSV_PATH: process.env['SQLITE_CSV_PATH'],
+			SQLITE_CSV_ALLOW_ANY_PATH:
+				process.env['SQLITE_CSV_ALLOW_ANY_PATH'],
+			SQLITE_MIGRATIONS_PATH: process.env['SQLITE_MIGRATIONS_PATH'],
+			SQLITE_ROOTS: process.env['SQLITE_ROOTS'],
+			SQLITE_READ_ONLY: process.env['SQLITE_READ_ONLY'],
+			SQLITE_READ_ONLY_PATHS: process.env['SQLITE_READ_ONLY_PATHS'],
+			SQLITE_WRITABLE_PATHS: process.env['SQLITE_WRITABLE_PATHS'],
+			SQLITE_TRANSPORT: process.env['SQLITE_TRANSPORT'],
+			SQLITE_HTTP_HOST: process.env['SQLITE_HTTP_HOST'],
+			SQLITE_HTTP_PORT: process.env['SQLITE_HTTP_PORT'],
+			SQLITE_HTTP_ALLOWED_ORIGINS:
+				process.env['SQLITE_HTTP_ALLOWED_ORIGINS'],
+			SQLITE_HTTP_ALLOWED_HOSTS:
+				process.env['SQLITE_HTTP_ALLOWED_HOSTS'],
+			SQLITE_SESSION_TTL: process.env['SQLITE_SESSION_TTL'],
 			DEBUG: process.env['DEBUG'],
 		};
 
@@ -81,13 +318,49 @@ export function load_config(): Config {
 			config.SQLITE_BUSY_TIMEOUT ??
 			config.SQLITE_MAX_QUERY_TIME ??
 			30000;
+		// Relative database paths resolve against the first root unless a
+		// default path is configured explicitly.
+		const sqlite_roots = config.SQLITE_ROOTS ?? [];
 		const config_with_defaults = {
-			SQLITE_DEFAULT_PATH: config.SQLITE_DEFAULT_PATH || '.',
+			SQLITE_DEFAULT_PATH: raw_config.SQLITE_DEFAULT_PATH
+				? config.SQLITE_DEFAULT_PATH
+				: (sqlite_roots[0]?.path ?? '.'),
 			SQLITE_ALLOW_ABSOLUTE_PATHS:
 				config.SQLITE_ALLOW_ABSOLUTE_PATHS ?? true,
 			SQLITE_BUSY_TIMEOUT: sqlite_busy_timeout,
 			SQLITE_MAX_QUERY_TIME: sqlite_busy_timeout,
+			SQLITE_QUERY_TIMEOUT: config.SQLITE_QUERY_TIMEOUT,
+			SQLITE_WORKER_POOL_SIZE: config.SQLITE_WORKER_POOL_SIZE,
+			SQLITE_CURSOR_TTL: config.SQLITE_CURSOR_TTL,
+			SQLITE_MAX_RESPONSE_BYTES: config.SQLITE_MAX_RESPONSE_BYTES,
+			SQLITE_MAX_CELL_LENGTH: config.SQLITE_MAX_CELL_LENGTH,
+			SQLITE_UNDO_HISTORY: config.SQLITE_UNDO_HISTORY,
+			SQLITE_UNDO_MAX_ROWS: config.SQLITE_UNDO_MAX_ROWS,
 			SQLITE_BACKUP_PATH: config.SQLITE_BACKUP_PATH || './backups',
+			SQLITE_AUDIT_LOG: config.SQLITE_AUDIT_LOG || undefined,
+			SQLITE_AUDIT_FORMAT:
+				config.SQLITE_AUDIT_FORMAT ??
+				(/\.(db|sqlite3?)$/i.test(config.SQLITE_AUDIT_LOG ?? '')
+					? 'sqlite'
+					: 'jsonl'),
+			SQLITE_AUDIT_REDACT: config.SQLITE_AUDIT_REDACT,
+			SQLITE_CSV_PATH: config.SQLITE_CSV_PATH || '.',
+			SQLITE_CSV_ALLOW_ANY_PATH:
+				config.SQLITE_CSV_ALLOW_ANY_PATH ?? false,
+			SQLITE_MIGRATIONS_PATH:
+				config.SQLITE_MIGRATIONS_PATH || './migrations',
+			SQLITE_ROOTS: sqlite_roots,
+			SQLITE_READ_ONLY: config.SQLITE_READ_ONLY ?? false,
+			SQLITE_READ_ONLY_PATHS: config.SQLITE_READ_ONLY_PATHS ?? [],
+			SQLITE_WRITABLE_PATHS: config.SQLITE_WRITABLE_PATHS ?? [],
+			SQLITE_TRANSPORT: config.SQLITE_TRANSPORT,
+			SQLITE_HTTP_HOST: config.SQLITE_HTTP_HOST,
+			SQLITE_HTTP_PORT: config.SQLITE_HTTP_PORT,
+			SQLITE_HTTP_ALLOWED_ORIGINS:
+				config.SQLITE_HTTP_ALLOWED_ORIGINS ?? [],
+			SQLITE_HTTP_ALLOWED_HOSTS:
+				config.SQLITE_HTTP_ALLOWED_HOSTS ?? [],
+			SQLITE_SESSION_TTL: config.SQLITE_SESSION_TTL,
 			DEBUG: config.DEBUG ?? false,
 		};
 
@@ -100,6 +373,19 @@ export function load_config(): Config {
 			SQLITE_BACKUP_PATH: resolve_database_path(
 				config_with_defaults.SQLITE_BACKUP_PATH,
 			),
+			SQLITE_CSV_PATH: resolve_database_path(
+				config_with_defaults.SQLITE_CSV_PATH,
+			),
+			SQLITE_MIGRATIONS_PATH: resolve_database_path(
+				config_with_defaults.SQLITE_MIGRATIONS_PATH,
+			),
+			SQLITE_AUDIT_LOG: config_with_defaults.SQLITE_AUDIT_LOG
+				? resolve_database_path(config_with_defaults.SQLITE_AUDIT_LOG)
+				: undefined,
+			SQLITE_ROOTS: config_with_defaults.SQLITE_ROOTS.map((root) => ({
+				...root,
+				path: resolve_database_path(root.path),
+			})),
 		};
 	} catch (error: unknown) {
 		if (error instanceof v.ValiError) {
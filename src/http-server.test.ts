@@ -0,0 +1,343 @@
+import { ValibotJsonSchemaAdapter } from '@tmcp/adapter-valibot';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { request as http_request } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from 'tmcp';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from './clients/connection-manager.js';
+import {
+	HTTP_PATHS,
+	RunningHttpServer,
+	start_http_server,
+} from './http-server.js';
+import {
+	get_current_database,
+	set_current_database,
+	set_session_resolver,
+} from './tools/context.js';
+import { register_tools } from './tools/handler.js';
+
+// Configuration is loaded lazily, so the TTL applies to this file only
+process.env['SQLITE_SESSION_TTL'] = '1000';
+
+const temp_dirs: string[] = [];
+let http_server: RunningHttpServer | null = null;
+
+function temp_db(name = 'test.sqlite') {
+	const dir = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+	temp_dirs.push(dir);
+	const db_path = join(dir, name);
+	open_database(db_path, true);
+	return db_path;
+}
+
+async function start_server() {
+	if (http_server) return http_server;
+	const server = new McpServer<any>(
+		{ name: 'test', version: '0.0.0', description: 'test' },
+		{
+			adapter: new ValibotJsonSchemaAdapter(),
+			capabilities: { tools: { listChanged: true } },
+		},
+	);
+	set_session_resolver(() => server.ctx.sessionId);
+	register_tools(server);
+	http_server = await start_http_server(server, {
+		host: '127.0.0.1',
+		port: 0,
+	});
+	return http_server;
+}
+
+async function post(
+	url: string,
+	body: Record<string, unknown>,
+	session_id?: string,
+) {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers: {
+			'content-type': 'application/json',
+			accept: 'application/json, text/event-stream',
+			...(session_id ? { 'mcp-session-id': session_id } : {}),
+		},
+		body: JSON.stringify({ jsonrpc: '2.0', ...body }),
+	});
+	const text = await response.text();
+	const data_line = text
+		.split('\n')
+		.find((line) => line.startsWith('data:'));
+	const payload = data_line ? data_line.slice(5) : text;
+	return {
+		response,
+		json: payload ? JSON.parse(payload) : null,
+	};
+}
+
+async function start_session(url: string) {
+	const { response } = await post(url, {
+		id: 1,
+		method: 'initialize',
+		params: {
+			protocolVersion: '2025-06-18',
+			capabilities: {},
+			clientInfo: { name: 'test', version: '1.0.0' },
+		},
+	});
+	const session_id = response.headers.get('mcp-session-id');
+	if (!session_id) throw new Error('No session ID returned');
+	await post(
+		url,
+		{ method: 'notifications/initialized' },
+		session_id,
+	);
+	return session_id;
+}
+
+async function call_tool(
+	url: string,
+	session_id: string,
+	name: string,
+	args: Record<string, unknown>,
+) {
+	const { json } = await post(
+		url,
+		{
+			id: 2,
+			method: 'tools/call',
+			params: { name, arguments: args },
+		},
+		session_id,
+	);
+	return {
+		isError: json.result.isError as boolean | undefined,
+		json: JSON.parse(json.result.content[0].text),
+	};
+}
+
+afterAll(async () => {
+	await http_server?.close();
+	set_session_resolver(() => undefined);
+	close_all_databases();
+	stop_connection_maintenance();
+	for (const dir of temp_dirs)
+		rmSync(dir, { recursive: true, force: true });
+});
+
+describe('HTTP transport', () => {
+	it('keeps database context separate per MCP session', async () => {
+		const url = `${(await start_server()).url}${HTTP_PATHS.streamable}`;
+		const db_path = temp_db();
+
+		const first = await start_session(url);
+		const second = await start_session(url);
+		expect(first).not.toBe(second);
+
+		await call_tool(url, first, 'open_database', { path: db_path });
+		const first_tables = await call_tool(
+			url,
+			first,
+			'list_tables',
+			{},
+		);
+		expect(first_tables.isError).toBeUndefined();
+		expect(first_tables.json.database).toBe(db_path);
+
+		const second_tables = await call_tool(
+			url,
+			second,
+			'list_tables',
+			{},
+		);
+		expect(second_tables.isError).toBe(true);
+		expect(second_tables.json.message).toContain(
+			'No database selected',
+		);
+
+		const first_context = await call_tool(
+			url,
+			first,
+			'get_context',
+			{},
+		);
+		expect(first_context.json).toMatchObject({
+			session_id: first,
+			current_database: db_path,
+		});
+		const second_context = await call_tool(
+			url,
+			second,
+			'get_context',
+			{},
+		);
+		expect(second_context.json).toMatchObject({
+			session_id: second,
+			current_database: null,
+		});
+
+		const deleted = await fetch(url, {
+			method: 'DELETE',
+			headers: { 'mcp-session-id': first },
+		});
+		expect(deleted.ok).toBe(true);
+		const reused_context = await call_tool(
+			url,
+			first,
+			'get_context',
+			{},
+		);
+		expect(reused_context.json.current_database).toBeNull();
+	});
+
+	it('refuses hosts and origins that are not allowed', async () => {
+		const server = new McpServer<any>(
+			{ name: 'test', version: '0.0.0', description: 'test' },
+			{
+				adapter: new ValibotJsonSchemaAdapter(),
+				capabilities: { tools: { listChanged: true } },
+			},
+		);
+		register_tools(server);
+		const running = await start_http_server(server, {
+			host: '127.0.0.1',
+			port: 0,
+			allowed_origins: ['https://app.example'],
+			allowed_hosts: ['mcp.internal'],
+		});
+		const url = `${running.url}${HTTP_PATHS.streamable}`;
+		const { port } = new URL(running.url);
+		// node:http, as fetch does not let the Host header be set
+		const initialize = (headers: Record<string, string>) =>
+			new Promise<{ status: number; body: string }>(
+				(resolve_response, reject_response) => {
+					const request = http_request(
+						url,
+						{
+							method: 'POST',
+							headers: {
+								'content-type': 'application/json',
+								accept: 'application/json, text/event-stream',
+								...headers,
+							},
+						},
+						(response) => {
+							let body = '';
+							response.setEncoding('utf8');
+							response.on('data', (chunk: string) => (body += chunk));
+							response.on('end', () =>
+								resolve_response({
+									status: response.statusCode ?? 0,
+									body,
+								}),
+							);
+						},
+					);
+					request.on('error', reject_response);
+					request.end(
+						JSON.stringify({
+							jsonrpc: '2.0',
+							id: 1,
+							method: 'initialize',
+							params: {
+								protocolVersion: '2025-06-18',
+								capabilities: {},
+								clientInfo: { name: 'test', version: '1.0.0' },
+							},
+						}),
+					);
+				},
+			);
+
+		try {
+			// A rebound name resolves to this server but is not its host
+			const rebound = await initialize({
+				host: `attacker.example:${port}`,
+				origin: `http://attacker.example:${port}`,
+			});
+			expect(rebound.status).toBe(403);
+			expect(rebound.body).toContain(
+				'host attacker.example is not allowed',
+			);
+
+			const cross_origin = await initialize({
+				origin: 'https://other.example',
+			});
+			expect(cross_origin.status).toBe(403);
+			expect(cross_origin.body).toContain(
+				'origin https://other.example is not allowed',
+			);
+			const sse = await fetch(`${running.url}${HTTP_PATHS.sse}`, {
+				headers: { origin: 'https://other.example' },
+			});
+			expect(sse.status).toBe(403);
+
+			for (const headers of [
+				{},
+				{ origin: running.url },
+				{ origin: 'https://app.example' },
+				{ host: `mcp.internal:${port}` },
+				{ host: `localhost:${port}` },
+			] as Record<string, string>[]) {
+				expect((await initialize(headers)).status).toBe(200);
+			}
+		} finally {
+			await running.close();
+		}
+	});
+
+	it('forgets the context of idle sessions after SQLITE_SESSION_TTL', async () => {
+		const url = `${(await start_server()).url}${HTTP_PATHS.streamable}`;
+		const db_path = temp_db();
+		const session = await start_session(url);
+
+		await call_tool(url, session, 'open_database', { path: db_path });
+		await new Promise((resolve) => setTimeout(resolve, 600));
+		// Using the context keeps it alive
+		const used = await call_tool(url, session, 'get_context', {});
+		expect(used.json.current_database).toBe(db_path);
+
+		await new Promise((resolve) => setTimeout(resolve, 600));
+		const kept = await call_tool(url, session, 'get_context', {});
+		expect(kept.json.current_database).toBe(db_path);
+
+		await new Promise((resolve) => setTimeout(resolve, 1200));
+		const expired = await call_tool(url, session, 'get_context', {});
+		expect(expired.json.current_database).toBeNull();
+	});
+
+	it('drops the context of an SSE session when its stream closes', async () => {
+		const running = await start_server();
+		const db_path = temp_db();
+		const stream = new AbortController();
+		const response = await fetch(`${running.url}${HTTP_PATHS.sse}`, {
+			headers: { accept: 'text/event-stream' },
+			signal: stream.signal,
+		});
+		const reader = response.body!.getReader();
+		let events = '';
+		while (!/session_id=[\w-]+/.test(events)) {
+			const { value } = await reader.read();
+			events += new TextDecoder().decode(value);
+		}
+		const session_id = /session_id=([\w-]+)/.exec(events)![1]!;
+
+		set_session_resolver(() => session_id);
+		try {
+			set_current_database(db_path);
+			expect(get_current_database()).toBe(db_path);
+
+			stream.abort();
+			await vi.waitFor(() =>
+				expect(get_current_database()).toBeNull(),
+			);
+		} finally {
+			set_session_resolver(() => undefined);
+		}
+	});
+});
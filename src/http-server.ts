@@ -0,0 +1,161 @@
+/**
+ * HTTP transports (streamable HTTP and legacy SSE) for the SQLite Tools MCP server
+ */
+import { createRequestListener } from '@remix-run/node-fetch-server';
+import { InMemoryInfoSessionManager } from '@tmcp/session-manager';
+import { HttpTransport } from '@tmcp/transport-http';
+import { SseTransport } from '@tmcp/transport-sse';
+import { randomUUID } from 'node:crypto';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { McpServer } from 'tmcp';
+import { debug_log } from './config.js';
+import { clear_session_context } from './tools/context.js';
+
+// Endpoint paths served by the HTTP transport
+export const HTTP_PATHS = {
+	streamable: '/mcp',
+	sse: '/sse',
+	sse_message: '/message',
+} as const;
+
+export interface HttpServerOptions {
+	host: string;
+	port: number;
+	// Browser origins accepted besides the server's own
+	allowed_origins?: string[];
+	// Host header names accepted besides loopback and the bind address
+	allowed_hosts?: string[];
+}
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::', '[::]']);
+
+/**
+ * Refuse requests a browser page could send through DNS rebinding: a
+ * Host header naming some other server, or a cross-origin Origin that
+ * is not allowed. Requests without an Origin come from non-browser
+ * clients and only need an accepted Host.
+ */
+function check_request_origin(
+	request: Request,
+	options: HttpServerOptions,
+): Response | null {
+	const url = new URL(request.url);
+	const host = url.hostname.toLowerCase();
+	const bind_host = options.host.toLowerCase();
+	const host_allowed =
+		LOOPBACK_HOSTS.has(host) ||
+		(!WILDCARD_HOSTS.has(bind_host) &&
+			(host === bind_host || host === `[${bind_host}]`)) ||
+		(options.allowed_hosts ?? []).includes(host);
+	if (!host_allowed) {
+		debug_log('Refused HTTP request for host:', host);
+		return new Response(
+			`Forbidden: host ${host} is not allowed; add it to SQLITE_HTTP_ALLOWED_HOSTS`,
+			{ status: 403 },
+		);
+	}
+
+	const origin = request.headers.get('origin');
+	if (
+		origin &&
+		origin !== url.origin &&
+		!(options.allowed_origins ?? []).includes(origin)
+	) {
+		debug_log('Refused HTTP request from origin:', origin);
+		return new Response(
+			`Forbidden: origin ${origin} is not allowed; add it to SQLITE_HTTP_ALLOWED_ORIGINS`,
+			{ status: 403 },
+		);
+	}
+	return null;
+}
+
+/**
+ * Session info that also drops a session's database context when the
+ * transport ends the session: on DELETE, or when an SSE stream closes
+ */
+function context_session_manager(): InMemoryInfoSessionManager {
+	const info = new InMemoryInfoSessionManager();
+	const delete_session = info.delete.bind(info);
+	info.delete = (session_id) => {
+		delete_session(session_id);
+		clear_session_context(session_id);
+	};
+	return info;
+}
+
+export interface RunningHttpServer {
+	server: Server;
+	url: string;
+	close: () => Promise<void>;
+}
+
+/**
+ * Serve the MCP server over streamable HTTP and legacy SSE. Every client
+ * gets its own session ID while sharing this process' connection pool and
+ * transaction state.
+ */
+export async function start_http_server(
+	mcp_server: McpServer<any>,
+	options: HttpServerOptions,
+): Promise<RunningHttpServer> {
+	const streamable = new HttpTransport(mcp_server, {
+		path: HTTP_PATHS.streamable,
+		getSessionId: () => randomUUID(),
+		allowedOrigins: options.allowed_origins ?? [],
+		sessionManager: { info: context_session_manager() },
+	});
+	const sse = new SseTransport(mcp_server, {
+		path: HTTP_PATHS.sse,
+		endpoint: HTTP_PATHS.sse_message,
+		getSessionId: () => randomUUID(),
+		allowedOrigins: options.allowed_origins ?? [],
+		sessionManager: { info: context_session_manager() },
+	});
+
+	const server = createServer(
+		createRequestListener(async (request) => {
+			debug_log('HTTP request:', {
+				method: request.method,
+				url: request.url,
+			});
+
+			const refusal = check_request_origin(request, options);
+			if (refusal) return refusal;
+
+			const response =
+				(await streamable.respond(request)) ??
+				(await sse.respond(request));
+			return response ?? new Response('Not Found', { status: 404 });
+		}),
+	);
+
+	await new Promise<void>((resolve_listen, reject_listen) => {
+		server.once('error', reject_listen);
+		server.listen(options.port, options.host, () => {
+			server.off('error', reject_listen);
+			resolve_listen();
+		});
+	});
+
+	const address = server.address() as AddressInfo;
+	const host =
+		address.family === 'IPv6'
+			? `[${address.address}]`
+			: address.address;
+
+	return {
+		server,
+		url: `http://${host}:${address.port}`,
+		close: async () => {
+			sse.close();
+			await streamable.close();
+			server.closeAllConnections();
+			await new Promise<void>((resolve_close) =>
+				server.close(() => resolve_close()),
+			);
+		},
+	};
+}
@@ -7,13 +7,22 @@ import { McpServer } from 'tmcp';
 import { readFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { close_audit_log } from './clients/audit-log.js';
 import {
 	start_connection_maintenance,
 	stop_connection_maintenance,
 } from './clients/connection-manager.js';
 import { close_all_databases } from './clients/sqlite.js';
 import { get_config } from './config.js';
+import {
+	HTTP_PATHS,
+	RunningHttpServer,
+	start_http_server,
+} from './http-server.js';
+import { set_session_resolver } from './tools/context.js';
 import { register_tools } from './tools/handler.js';
+import { register_prompts } from './tools/prompts.js';
+import { register_resources } from './tools/resources.js';
 
 // Get package info for server metadata
 const __filename = fileURLToPath(import.meta.url);
@@ -29,6 +38,7 @@ const { name, version } = pkg;
 class SqliteToolsServer {
 	private server: McpServer<any>;
 	private adapter: ValibotJsonSchemaAdapter;
+	private http_server: RunningHttpServer | null = null;
 
 	constructor() {
 		// Initialize the adapter
@@ -46,6 +56,8 @@ class SqliteToolsServer {
 				adapter: this.adapter,
 				capabilities: {
 					tools: { listChanged: true },
+					resources: { listChanged: true },
+					prompts: { listChanged: true },
 				},
 			},
 		);
@@ -71,9 +83,17 @@ class SqliteToolsServer {
 	 */
 	private async cleanup(): Promise<void> {
 		try {
+			// Stop accepting HTTP clients before closing shared connections
+			if (this.http_server) {
+				const http_server = this.http_server;
+				this.http_server = null;
+				await http_server.close();
+			}
+
 			// Stop maintenance and close all database connections
 			stop_connection_maintenance();
 			close_all_databases();
+			close_audit_log();
 
 			console.error('SQLite Tools MCP server shutdown complete');
 		} catch (error) {
@@ -92,11 +112,17 @@ class SqliteToolsServer {
 				`SQLite Tools MCP server initialized with default path: ${config.SQLITE_DEFAULT_PATH}`,
 			);
 
+			// Key database context by MCP session so HTTP clients sharing
+			// this process don't switch each other's current database.
+			set_session_resolver(() => this.server.ctx.sessionId);
+
 			// Start explicit connection maintenance and register tools.
 			start_connection_maintenance();
 			register_tools(this.server);
+			register_resources(this.server);
+			register_prompts(this.server);
 
-			console.error('All tools registered');
+			console.error('All tools, resources and prompts registered');
 		} catch (error) {
 			console.error('Failed to initialize server:', error);
 			process.exit(1);
@@ -111,6 +137,21 @@ class SqliteToolsServer {
 			// Initialize the server
 			await this.initialize();
 
+			const config = get_config();
+			if (config.SQLITE_TRANSPORT === 'http') {
+				this.http_server = await start_http_server(this.server, {
+					host: config.SQLITE_HTTP_HOST,
+					port: config.SQLITE_HTTP_PORT,
+					allowed_origins: config.SQLITE_HTTP_ALLOWED_ORIGINS,
+					allowed_hosts: config.SQLITE_HTTP_ALLOWED_HOSTS,
+				});
+
+				console.error(
+					`SQLite Tools MCP server running on ${this.http_server.url} (streamable HTTP: ${HTTP_PATHS.streamable}, SSE: ${HTTP_PATHS.sse})`,
+				);
+				return;
+			}
+
 			// Setup transport
 			const transport = new StdioTransport(this.server);
 			transport.listen();
@@ -4,20 +4,31 @@
 import { existsSync } from 'node:fs';
 import { McpServer } from 'tmcp';
 import * as v from 'valibot';
+import {
+	assert_database_writable,
+	get_database_roots,
+	write_tools_enabled,
+} from '../clients/access-policy.js';
 import * as sqlite from '../clients/sqlite.js';
 import {
 	create_tool_error_response,
 	create_tool_response,
 } from '../common/errors.js';
 import {
-	format_default_value,
+	OUTPUT_FORMATS,
+	create_formatted_response,
+} from '../common/output-format.js';
+import {
+	format_create_table,
 	quote_identifier,
 } from '../common/sql.js';
 import { debug_log } from '../config.js';
 import {
+	get_context_info,
 	resolve_database_name,
 	set_current_database,
 } from './context.js';
+import { notify_resources_changed } from './resources.js';
 
 /**
  * Helper to handle database context setup
@@ -50,6 +61,10 @@ const SQLiteColumnType = v.union([
 	v.literal('DATETIME'),
 	v.literal('TIMESTAMP'),
 	v.literal('BOOLEAN'),
+	// Also accepted by STRICT tables, which allow only INT, INTEGER,
+	// REAL, TEXT, BLOB and ANY
+	v.literal('INT'),
+	v.literal('ANY'),
 ]);
 
 // Valid SQLite default values
@@ -63,24 +78,149 @@ const SQLiteDefaultValue = v.union([
 	v.literal('CURRENT_TIMESTAMP'),
 ]);
 
+const ColumnNameSchema = v.pipe(
+	v.string(),
+	v.minLength(1),
+	v.maxLength(64),
+);
+
+const ColumnListSchema = v.pipe(
+	v.array(ColumnNameSchema),
+	v.minLength(1),
+	v.maxLength(100),
+);
+
+const SqlExpressionSchema = v.pipe(
+	v.string(),
+	v.minLength(1),
+	v.maxLength(1000),
+);
+
+const ForeignKeyActionSchema = v.optional(
+	v.picklist([
+		'CASCADE',
+		'SET NULL',
+		'SET DEFAULT',
+		'RESTRICT',
+		'NO ACTION',
+	]),
+);
+
+const ColumnDefinitionSchema = v.object({
+	name: ColumnNameSchema,
+	type: SQLiteColumnType,
+	nullable: v.optional(v.boolean(), true),
+	primary_key: v.optional(v.boolean(), false),
+	autoincrement: v.optional(v.boolean(), false),
+	unique: v.optional(v.boolean(), false),
+	default_value: v.optional(SQLiteDefaultValue),
+	collate: v.optional(v.picklist(['BINARY', 'NOCASE', 'RTRIM'])),
+	check: v.optional(SqlExpressionSchema),
+	references: v.optional(
+		v.object({
+			table: ColumnNameSchema,
+			column: v.optional(ColumnNameSchema),
+			on_delete: ForeignKeyActionSchema,
+			on_update: ForeignKeyActionSchema,
+		}),
+	),
+	generated: v.optional(
+		v.object({
+			expression: SqlExpressionSchema,
+			stored: v.optional(v.boolean(), false),
+		}),
+	),
+});
+
 const CreateTableSchema = v.object({
 	name: v.pipe(v.string(), v.minLength(1), v.maxLength(64)),
 	columns: v.pipe(
-		v.array(
-			v.object({
-				name: v.pipe(v.string(), v.minLength(1), v.maxLength(64)),
-				type: SQLiteColumnType,
-				nullable: v.optional(v.boolean(), true),
-				primary_key: v.optional(v.boolean(), false),
-				default_value: v.optional(SQLiteDefaultValue),
-			}),
-		),
+		v.array(ColumnDefinitionSchema),
 		v.minLength(1),
 		v.maxLength(100),
 	),
+	primary_key: v.optional(ColumnListSchema),
+	unique: v.optional(
+		v.pipe(v.array(ColumnListSchema), v.maxLength(50)),
+	),
+	checks: v.optional(
+		v.pipe(
+			v.array(
+				v.object({
+					check: SqlExpressionSchema,
+					name: v.optional(ColumnNameSchema),
+				}),
+			),
+			v.maxLength(50),
+		),
+	),
+	foreign_keys: v.optional(
+		v.pipe(
+			v.array(
+				v.object({
+					columns: ColumnListSchema,
+					references_table: ColumnNameSchema,
+					references_columns: v.optional(ColumnListSchema),
+					on_delete: ForeignKeyActionSchema,
+					on_update: ForeignKeyActionSchema,
+				}),
+			),
+			v.maxLength(50),
+		),
+	),
+	strict: v.optional(v.boolean(), false),
+	without_rowid: v.optional(v.boolean(), false),
+	if_not_exists: v.optional(v.boolean(), false),
 	database_name: v.optional(v.string()),
 });
 
+// One change to a table; alter_table applies them in order
+const AlterOperationSchema = v.variant('op', [
+	v.object({
+		op: v.literal('add_column'),
+		column: ColumnDefinitionSchema,
+	}),
+	v.object({
+		op: v.literal('rename_column'),
+		column: ColumnNameSchema,
+		new_name: ColumnNameSchema,
+	}),
+	v.object({
+		op: v.literal('drop_column'),
+		column: ColumnNameSchema,
+	}),
+	v.object({
+		op: v.literal('change_type'),
+		column: ColumnNameSchema,
+		type: SQLiteColumnType,
+	}),
+	v.object({
+		op: v.literal('set_not_null'),
+		column: ColumnNameSchema,
+		not_null: v.optional(v.boolean(), true),
+	}),
+	v.object({
+		op: v.literal('set_default'),
+		column: ColumnNameSchema,
+		default_value: SQLiteDefaultValue,
+	}),
+	v.object({
+		op: v.literal('add_check'),
+		check: v.pipe(v.string(), v.minLength(1), v.maxLength(1000)),
+		name: v.optional(ColumnNameSchema),
+	}),
+]);
+
+const AlterTableSchema = v.object({
+	table: v.pipe(v.string(), v.minLength(1), v.maxLength(64)),
+	operations: v.pipe(
+		v.array(AlterOperationSchema),
+		v.minLength(1),
+		v.maxLength(50),
+	),
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+});
+
 const DescribeTableSchema = v.object({
 	table: v.pipe(v.string(), v.minLength(1), v.maxLength(64)),
 	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
@@ -88,6 +228,7 @@ const DescribeTableSchema = v.object({
 		v.union([v.literal('summary'), v.literal('detailed')]),
 		'detailed',
 	),
+	output_format: v.optional(v.picklist(OUTPUT_FORMATS), 'json'),
 });
 
 const BackupDatabaseSchema = v.object({
@@ -101,6 +242,8 @@ const ListDatabasesSchema = v.object({
 	directory: v.optional(v.pipe(v.string(), v.maxLength(500))),
 });
 
+const EmptySchema = v.object({});
+
 const DatabaseOnlySchema = v.object({
 	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
 });
@@ -119,11 +262,17 @@ const DatabaseWithPaginationSchema = v.object({
 		v.pipe(v.number(), v.minValue(0), v.maxValue(100000)),
 		0,
 	),
+	output_format: v.optional(v.picklist(OUTPUT_FORMATS), 'json'),
 });
 
 const DropTableSchema = v.object({
 	table: v.pipe(v.string(), v.minLength(1), v.maxLength(64)),
 	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+	dry_run: v.optional(v.boolean(), false),
+	sample_rows: v.optional(
+		v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(100)),
+		5,
+	),
 });
 
 /**
@@ -163,6 +312,7 @@ export function register_admin_tools(server: McpServer<any>): void {
 			description:
 				'⚠️ CREATES FILE: Create a new empty SQLite database at the given path. Errors if file already exists. Use open_database for existing databases.',
 			schema: CreateDatabaseSchema,
+			enabled: write_tools_enabled,
 		},
 		async ({ path }) => {
 			try {
@@ -170,6 +320,7 @@ export function register_admin_tools(server: McpServer<any>): void {
 
 				// Check if file already exists before creating
 				const resolved_path = sqlite.validate_database_path(path);
+				assert_database_writable(resolved_path, 'create_database');
 				if (existsSync(resolved_path)) {
 					return create_tool_error_response(
 						new Error(
@@ -225,7 +376,7 @@ export function register_admin_tools(server: McpServer<any>): void {
 		{
 			name: 'list_databases',
 			description:
-				'✓ SAFE: List .db/.sqlite/.sqlite3 files in directory. Returns paths, sizes, dates. Max 100 results.',
+				'✓ SAFE: List .db/.sqlite/.sqlite3 files in a directory, or in every allowed root when omitted. Returns paths, sizes, dates and read-only status.',
 			schema: ListDatabasesSchema,
 		},
 		async ({ directory }) => {
@@ -235,7 +386,8 @@ export function register_admin_tools(server: McpServer<any>): void {
 				const databases = sqlite.list_database_files(directory);
 
 				return create_tool_response({
-					directory: directory || 'default',
+					directory: directory || 'all roots',
+					...(directory ? {} : { roots: get_database_roots() }),
 					databases,
 					count: databases.length,
 				});
@@ -245,6 +397,46 @@ export function register_admin_tools(server: McpServer<any>): void {
 		},
 	);
 
+	server.tool<typeof EmptySchema>(
+		{
+			name: 'get_context',
+			description:
+				'✓ SAFE: Show the database this session is pointed at: session ID, current database, SQLITE_DEFAULT_DATABASE and default directory.',
+			schema: EmptySchema,
+		},
+		async () => {
+			try {
+				debug_log('Executing tool: get_context');
+
+				return create_tool_response(get_context_info());
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
+	server.tool<typeof EmptySchema>(
+		{
+			name: 'get_server_stats',
+			description:
+				'✓ SAFE: Show connection pool and worker thread statistics: open connections, busy and queued queries per reader and per-database writer, average wait and run times, and open read cursors.',
+			schema: EmptySchema,
+		},
+		async () => {
+			try {
+				debug_log('Executing tool: get_server_stats');
+
+				return create_tool_response({
+					connections: sqlite.get_pool_stats(),
+					workers: sqlite.get_worker_pool_stats(),
+					open_cursors: sqlite.get_open_cursor_count(),
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
 	server.tool<typeof DatabaseOnlySchema>(
 		{
 			name: 'database_info',
@@ -274,7 +466,7 @@ export function register_admin_tools(server: McpServer<any>): void {
 		{
 			name: 'list_tables',
 			description:
-				'✓ SAFE: List tables/views with types and row counts. Supports pagination (max 1000). Use verbosity="summary" for names only.',
+				'✓ SAFE: List tables/views with types and row counts. Supports pagination (max 1000). Use verbosity="summary" for names only. output_format: json, columnar, markdown, csv or jsonl.',
 			schema: DatabaseWithPaginationSchema,
 		},
 		async ({
@@ -282,6 +474,7 @@ export function register_admin_tools(server: McpServer<any>): void {
 			verbosity = 'summary',
 			limit = 1000,
 			offset = 0,
+			output_format = 'json',
 		}) => {
 			try {
 				debug_log('Executing tool: list_tables', {
@@ -289,6 +482,7 @@ export function register_admin_tools(server: McpServer<any>): void {
 					verbosity,
 					limit,
 					offset,
+					output_format,
 				});
 
 				const database_path = resolve_database_name(database_name);
@@ -311,18 +505,22 @@ export function register_admin_tools(server: McpServer<any>): void {
 							}))
 						: paginated_tables;
 
-				return create_tool_response({
-					database: database_path,
-					tables: formatted_tables,
-					verbosity,
-					pagination: {
-						limit,
-						offset,
-						total_count: all_tables.length,
-						returned_count: paginated_tables.length,
-						has_more: offset + limit < all_tables.length,
-					},
-				});
+				return create_formatted_response(
+					output_format,
+					formatted_tables,
+					(tables) => ({
+						database: database_path,
+						tables,
+						verbosity,
+						pagination: {
+							limit,
+							offset,
+							total_count: all_tables.length,
+							returned_count: paginated_tables.length,
+							has_more: offset + limit < all_tables.length,
+						},
+					}),
+				);
 			} catch (error) {
 				return create_tool_error_response(error);
 			}
@@ -333,21 +531,41 @@ export function register_admin_tools(server: McpServer<any>): void {
 		{
 			name: 'describe_table',
 			description:
-				'✓ SAFE: Get table schema (columns, types, constraints, indexes, keys, defaults, nullability).',
+				'✓ SAFE: Get table schema (columns, types, primary key, defaults, nullability; indexes with their columns and origin at detailed verbosity, see list_indexes). output_format: json, columnar, markdown, csv or jsonl.',
 			schema: DescribeTableSchema,
 		},
-		async ({ table, database_name, verbosity = 'detailed' }) => {
+		async ({
+			table,
+			database_name,
+			verbosity = 'detailed',
+			output_format = 'json',
+		}) => {
 			try {
 				debug_log('Executing tool: describe_table', {
 					table,
 					database_name,
 					verbosity,
+					output_format,
 				});
 
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
 
 				const columns = sqlite.describe_table(database_path, table);
+				const indexes =
+					verbosity === 'detailed' && columns.length > 0
+						? sqlite
+								.list_indexes(database_path, table)
+								.indexes.map((index) => ({
+									name: index.name,
+									unique: index.unique,
+									origin: index.origin,
+									partial: index.partial,
+									columns: index.columns.map(
+										(column) => column.name ?? column.expression,
+									),
+								}))
+						: undefined;
 
 				// Format columns based on verbosity
 				const formatted_columns =
@@ -364,13 +582,18 @@ export function register_admin_tools(server: McpServer<any>): void {
 								primary_key: col.pk === 1,
 							}));
 
-				return create_tool_response({
-					database: database_path,
-					table,
-					columns: formatted_columns,
-					verbosity,
-					column_count: columns.length,
-				});
+				return create_formatted_response(
+					output_format,
+					formatted_columns,
+					(columns_value) => ({
+						database: database_path,
+						table,
+						columns: columns_value,
+						...(indexes && { indexes }),
+						verbosity,
+						column_count: columns.length,
+					}),
+				);
 			} catch (error) {
 				return create_tool_error_response(error);
 			}
@@ -381,45 +604,86 @@ export function register_admin_tools(server: McpServer<any>): void {
 		{
 			name: 'create_table',
 			description:
-				'⚠️ SCHEMA CHANGE: Create table with columns and constraints. Supports primary keys, defaults, NOT NULL. Fails if exists.',
+				'⚠️ SCHEMA CHANGE: Create table with columns and constraints: primary keys (composite on the table), AUTOINCREMENT, NOT NULL, UNIQUE, CHECK, DEFAULT, COLLATE, foreign keys with ON DELETE/UPDATE actions and generated columns, plus STRICT and WITHOUT ROWID. Fails if exists unless if_not_exists.',
 			schema: CreateTableSchema,
+			enabled: write_tools_enabled,
 		},
-		async ({ name, columns, database_name }) => {
+		async ({ database_name, ...table }) => {
 			try {
 				debug_log('Executing tool: create_table', {
-					name,
-					columns,
+					...table,
 					database_name,
 				});
 
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'create_table');
 
 				// Build CREATE TABLE SQL with quoted identifiers and literal defaults.
-				const column_defs = columns
-					.map((col) => {
-						let def = `${quote_identifier(col.name)} ${col.type}`;
-						if (col.primary_key) def += ' PRIMARY KEY';
-						if (!col.nullable) def += ' NOT NULL';
-						if (col.default_value !== undefined)
-							def += ` DEFAULT ${format_default_value(col.default_value)}`;
-						return def;
-					})
-					.join(', ');
-
-				const create_sql = `CREATE TABLE ${quote_identifier(name)} (${column_defs})`;
-				const result = sqlite.execute_query(
+				const create_sql = format_create_table(table);
+				const existed =
+					table.if_not_exists &&
+					sqlite
+						.list_tables(database_path)
+						.some(
+							(existing) =>
+								existing.name.toLowerCase() ===
+								table.name.toLowerCase(),
+						);
+				const result = await sqlite.execute_write_query(
 					database_path,
 					create_sql,
 				);
+				if (!existed) notify_resources_changed(server);
 
 				return create_tool_response({
 					success: true,
 					database: database_path,
-					table: name,
+					table: table.name,
 					query: create_sql,
 					result,
-					message: `✅ SCHEMA CHANGE COMPLETED: Table '${name}' created in database '${database_path}'`,
+					message: existed
+						? `✅ TABLE EXISTS: Table '${table.name}' already exists in database '${database_path}'; nothing was changed`
+						: `✅ SCHEMA CHANGE COMPLETED: Table '${table.name}' created in database '${database_path}'`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
+	server.tool<typeof AlterTableSchema>(
+		{
+			name: 'alter_table',
+			description:
+				'⚠️ SCHEMA CHANGE: Change a table with structured operations, applied in order in one transaction: add_column, rename_column, drop_column (native ALTER TABLE), and change_type, set_not_null, set_default (null removes it), add_check, which rebuild the table: copy its rows into the new definition and recreate its indexes, views and triggers. Dropping a column also drops the indexes and table constraints that name it, and reports them. Foreign keys are checked before commit.',
+			schema: AlterTableSchema,
+			enabled: write_tools_enabled,
+		},
+		async ({ table, operations, database_name }) => {
+			try {
+				debug_log('Executing tool: alter_table', {
+					table,
+					operations,
+					database_name,
+				});
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'alter_table');
+
+				const result = await sqlite.alter_table(
+					database_path,
+					table,
+					operations,
+				);
+				notify_resources_changed(server);
+
+				return create_tool_response({
+					success: true,
+					database: database_path,
+					...result,
+					message: `✅ SCHEMA CHANGE COMPLETED: Table '${result.table}' altered in database '${database_path}' with ${operations.length} operation(s)${result.rebuilt ? ', rebuilding the table' : ''}`,
 				});
 			} catch (error) {
 				return create_tool_error_response(error);
@@ -431,21 +695,48 @@ export function register_admin_tools(server: McpServer<any>): void {
 		{
 			name: 'drop_table',
 			description:
-				'⚠️ DESTRUCTIVE: Permanently delete table and all data. Cannot be undone. Removes structure, rows, indexes, triggers.',
+				'⚠️ DESTRUCTIVE: Permanently delete table and all data. Cannot be undone. Removes structure, rows, indexes, triggers. With dry_run=true nothing is dropped; returns the row count, sample rows, indexes, triggers and views affected and rows other tables would lose or change through foreign key actions.',
 			schema: DropTableSchema,
+			enabled: write_tools_enabled,
 		},
-		async ({ table, database_name }) => {
+		async ({
+			table,
+			database_name,
+			dry_run = false,
+			sample_rows = 5,
+		}) => {
 			try {
 				debug_log('Executing tool: drop_table', {
 					table,
 					database_name,
+					dry_run,
+					sample_rows,
 				});
 
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'drop_table');
+
+				if (dry_run) {
+					const preview = await sqlite.preview_drop_table(
+						database_path,
+						table,
+						sample_rows,
+					);
+					return create_tool_response({
+						database: database_path,
+						dry_run: true,
+						...preview,
+						message: `DRY RUN: Nothing was dropped from database '${database_path}'. Dropping '${preview.table}' would delete ${preview.rows} row(s), ${preview.rows_affected} including foreign key actions`,
+					});
+				}
 
 				const drop_sql = `DROP TABLE ${quote_identifier(table)}`;
-				const result = sqlite.execute_query(database_path, drop_sql);
+				const result = await sqlite.execute_write_query(
+					database_path,
+					drop_sql,
+				);
+				notify_resources_changed(server);
 
 				return create_tool_response({
 					success: true,
@@ -503,6 +794,7 @@ export function register_admin_tools(server: McpServer<any>): void {
 			description:
 				'✓ MAINTENANCE: Optimize storage by reclaiming space and defragmenting. Requires free space equal to database size.',
 			schema: DatabaseOnlySchema,
+			enabled: write_tools_enabled,
 		},
 		async ({ database_name }) => {
 			try {
@@ -511,7 +803,8 @@ export function register_admin_tools(server: McpServer<any>): void {
 				});
 
 				const database_path = setup_database_context(database_name);
-				sqlite.vacuum_database(database_path);
+				assert_database_writable(database_path, 'vacuum_database');
+				await sqlite.vacuum_database(database_path);
 
 				return create_tool_response({
 					success: true,
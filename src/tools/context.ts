@@ -4,8 +4,53 @@
 import { validate_database_path } from '../clients/sqlite.js';
 import { debug_log, get_config } from '../config.js';
 
-// Current database context
-let current_database: string | null = null;
+// Session key used when the transport has no session (stdio)
+const DEFAULT_SESSION = 'default';
+
+interface SessionContext {
+	database: string;
+	// Unset for the stdio session, which lasts as long as the process
+	expiry_timer?: NodeJS.Timeout;
+}
+
+// Current database context per MCP session
+const session_databases = new Map<string, SessionContext>();
+
+// Resolves the MCP session of the request being handled
+let session_resolver: () => string | undefined = () => undefined;
+
+/**
+ * Set how the current MCP session ID is resolved for context lookups
+ */
+export function set_session_resolver(
+	resolver: () => string | undefined,
+): void {
+	session_resolver = resolver;
+}
+
+/**
+ * Get the session key for the request being handled
+ */
+function current_session(): string {
+	return session_resolver() ?? DEFAULT_SESSION;
+}
+
+/**
+ * Keep an HTTP session's context for another SQLITE_SESSION_TTL, so
+ * clients that go away without ending their session are forgotten
+ */
+function touch_session(
+	session: string,
+	context: SessionContext,
+): void {
+	if (session === DEFAULT_SESSION) return;
+	clearTimeout(context.expiry_timer);
+	context.expiry_timer = setTimeout(() => {
+		debug_log('Session database context expired:', { session });
+		clear_session_context(session);
+	}, get_config().SQLITE_SESSION_TTL);
+	context.expiry_timer.unref();
+}
 
 /**
  * Set the current database context
@@ -13,23 +58,49 @@ let current_database: string | null = null;
 export function set_current_database(database_path: string): void {
 	// Validate the path before setting it
 	const resolved_path = validate_database_path(database_path);
-	current_database = resolved_path;
-	debug_log('Set current database context:', resolved_path);
+	const session = current_session();
+	clearTimeout(session_databases.get(session)?.expiry_timer);
+	const context: SessionContext = { database: resolved_path };
+	session_databases.set(session, context);
+	touch_session(session, context);
+	debug_log('Set current database context:', {
+		session,
+		database: resolved_path,
+	});
 }
 
 /**
  * Get the current database context
  */
 export function get_current_database(): string | null {
-	return current_database;
+	const session = current_session();
+	const context = session_databases.get(session);
+	if (!context) return null;
+	touch_session(session, context);
+	return context.database;
 }
 
 /**
  * Clear the current database context
  */
 export function clear_current_database(): void {
-	debug_log('Cleared current database context');
-	current_database = null;
+	const session = current_session();
+	debug_log('Cleared current database context:', { session });
+	clearTimeout(session_databases.get(session)?.expiry_timer);
+	session_databases.delete(session);
+}
+
+/**
+ * Forget the database context of a session that has ended or expired
+ */
+export function clear_session_context(session_id: string): void {
+	const context = session_databases.get(session_id);
+	if (!context) return;
+	clearTimeout(context.expiry_timer);
+	session_databases.delete(session_id);
+	debug_log('Cleared session database context:', {
+		session: session_id,
+	});
 }
 
 /**
@@ -43,6 +114,7 @@ export function resolve_database_name(
 		return validate_database_path(database_path);
 	}
 
+	const current_database = get_current_database();
 	if (current_database) {
 		// Use current context
 		debug_log('Using current database context:', current_database);
@@ -66,13 +138,15 @@ export function resolve_database_name(
  * Get context information for debugging
  */
 export function get_context_info(): {
+	session_id: string | null;
 	current_database: string | null;
 	default_database: string | null;
 	default_path: string;
 } {
 	const config = get_config();
 	return {
-		current_database,
+		session_id: session_resolver() ?? null,
+		current_database: get_current_database(),
 		default_database: process.env['SQLITE_DEFAULT_DATABASE'] || null,
 		default_path: config.SQLITE_DEFAULT_PATH,
 	};
@@ -3,6 +3,10 @@
  */
 import { McpServer } from 'tmcp';
 import * as v from 'valibot';
+import {
+	assert_database_writable,
+	write_tools_enabled,
+} from '../clients/access-policy.js';
 import * as sqlite from '../clients/sqlite.js';
 import {
 	ToolUsageError,
@@ -92,6 +96,7 @@ export function register_csv_tools(server: McpServer<any>): void {
 			description:
 				'⚠️ DESTRUCTIVE/SCHEMA CHANGE: Import a headered CSV file into SQLite. Creates the table from headers when missing, coerces values by default, and reports row-level errors.',
 			schema: ImportCsvSchema,
+			enabled: write_tools_enabled,
 		},
 		async ({
 			table,
@@ -124,6 +129,7 @@ export function register_csv_tools(server: McpServer<any>): void {
 				});
 
 				const database_path = setup_database_context(database_name);
+				assert_database_writable(database_path, 'import_csv');
 				const result = await sqlite.import_csv(
 					database_path,
 					table,
@@ -157,7 +163,7 @@ export function register_csv_tools(server: McpServer<any>): void {
 		{
 			name: 'export_csv',
 			description:
-				'⚠️ FILE WRITE: Export a table or read-only SELECT/PRAGMA/EXPLAIN query to a CSV file. Can write absolute paths. Provide exactly one of table or query.',
+				'⚠️ FILE WRITE: Export a table or read-only SELECT/PRAGMA/EXPLAIN query to a CSV file. Paths must be inside the CSV directory (SQLITE_CSV_PATH). Provide exactly one of table or query.',
 			schema: ExportCsvSchema,
 		},
 		async ({
@@ -0,0 +1,195 @@
+/**
+ * Database comparison tools for the SQLite Tools MCP server
+ */
+import { McpServer } from 'tmcp';
+import * as v from 'valibot';
+import * as sqlite from '../clients/sqlite.js';
+import {
+	ToolUsageError,
+	create_tool_error_response,
+	create_tool_response,
+} from '../common/errors.js';
+import { debug_log } from '../config.js';
+import {
+	resolve_database_name,
+	set_current_database,
+} from './context.js';
+
+const DiffDatabasesSchema = v.object({
+	source_database_name: v.pipe(
+		v.string(),
+		v.minLength(1),
+		v.maxLength(255),
+	),
+	target_database_name: v.optional(
+		v.pipe(v.string(), v.maxLength(255)),
+	),
+	tables: v.optional(
+		v.pipe(
+			v.array(v.pipe(v.string(), v.minLength(1), v.maxLength(64))),
+			v.maxLength(100),
+		),
+	),
+	include_data: v.optional(v.boolean(), true),
+	max_rows: v.optional(
+		v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(10000)),
+		100,
+	),
+	format: v.optional(v.picklist(['json', 'sql']), 'json'),
+});
+
+const DiffSchemaSchema = v.object({
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+	target_database_name: v.optional(
+		v.pipe(v.string(), v.minLength(1), v.maxLength(255)),
+	),
+	target_schema: v.optional(
+		v.pipe(v.string(), v.minLength(1), v.maxLength(100000)),
+	),
+	target_format: v.optional(v.picklist(['sql', 'json']), 'sql'),
+});
+
+/**
+ * Register database comparison tools with the server
+ */
+export function register_diff_tools(server: McpServer<any>): void {
+	server.tool<typeof DiffDatabasesSchema>(
+		{
+			name: 'diff_databases',
+			description:
+				'✓ SAFE: Compare two databases (e.g. a backup against live): schema objects, and rows of each table matched by primary key (rowid without one) with column-level changes. Describes how to get from source to target (default: current database). Lists up to max_rows added, removed and changed rows per table. format="sql" returns a patch script that applies the differences to the source.',
+			schema: DiffDatabasesSchema,
+		},
+		async ({
+			source_database_name,
+			target_database_name,
+			tables,
+			include_data = true,
+			max_rows = 100,
+			format = 'json',
+		}) => {
+			try {
+				debug_log('Executing tool: diff_databases', {
+					source_database_name,
+					target_database_name,
+					tables,
+					include_data,
+					max_rows,
+					format,
+				});
+
+				const source_path = resolve_database_name(
+					source_database_name,
+				);
+				const target_path = resolve_database_name(
+					target_database_name,
+				);
+
+				const diff = sqlite.diff_databases(source_path, target_path, {
+					tables,
+					include_data,
+					max_rows,
+				});
+
+				const schema_changes =
+					diff.schema.added.length +
+					diff.schema.removed.length +
+					diff.schema.changed.length;
+				const row_changes = diff.data.reduce(
+					(total, table) =>
+						total + table.added + table.removed + table.changed,
+					0,
+				);
+				const message = diff.identical
+					? `✅ DATABASES MATCH: No differences between '${diff.source}' and '${diff.target}'`
+					: `🔍 DIFF: ${schema_changes} schema object(s) and ${row_changes} row(s) differ between '${diff.source}' and '${diff.target}'`;
+
+				if (format === 'sql') {
+					return create_tool_response({
+						source: diff.source,
+						target: diff.target,
+						format,
+						identical: diff.identical,
+						complete: diff.complete,
+						tables: diff.data.map(
+							({ table, added, removed, changed }) => ({
+								table,
+								added,
+								removed,
+								changed,
+							}),
+						),
+						notes: diff.notes,
+						patch: sqlite.render_patch(diff),
+						message,
+					});
+				}
+
+				return create_tool_response({
+					...diff,
+					format,
+					message,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
+	server.tool<typeof DiffSchemaSchema>(
+		{
+			name: 'diff_schema',
+			description:
+				'✓ SAFE: Compare the schema of a database (default: current) with another database (target_database_name) or with export_schema SQL/JSON text (target_schema), and generate the SQL migration from the first to the second. Uses ALTER TABLE ADD/DROP COLUMN where it reproduces the target exactly, and the 12-step table rebuild (create, copy, drop, rename) for type and constraint changes. Does not run the migration.',
+			schema: DiffSchemaSchema,
+		},
+		async ({
+			database_name,
+			target_database_name,
+			target_schema,
+			target_format = 'sql',
+		}) => {
+			try {
+				debug_log('Executing tool: diff_schema', {
+					database_name,
+					target_database_name,
+					target_format,
+					target_schema_size: target_schema?.length,
+				});
+
+				if (!target_database_name === !target_schema) {
+					throw new ToolUsageError(
+						'diff_schema needs exactly one of target_database_name and target_schema',
+						[
+							'Pass target_database_name to compare with another database',
+							'Pass target_schema with export_schema output to compare with a schema',
+						],
+					);
+				}
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+
+				const result = sqlite.diff_schema(
+					{ database_path },
+					target_database_name
+						? {
+								database_path: resolve_database_name(
+									target_database_name,
+								),
+							}
+						: { schema: target_schema!, format: target_format },
+				);
+
+				return create_tool_response({
+					...result,
+					message: result.identical
+						? `✅ SCHEMAS MATCH: '${result.source}' already matches ${result.target}`
+						: `🔍 SCHEMA DIFF: ${result.changes.length} change(s) migrate '${result.source}' to ${result.target}${result.warnings.length > 0 ? `; review ${result.warnings.length} warning(s) before running it` : ''}`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+}
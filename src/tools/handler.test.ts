@@ -24,12 +24,17 @@ function temp_db(name = 'test.sqlite') {
 	return db_path;
 }
 
+const changed_notifications: string[] = [];
+
 function tool_handlers() {
 	const handlers = new Map<string, ToolHandler>();
 	const server = {
 		tool(definition: { name: string }, handler: ToolHandler) {
 			handlers.set(definition.name, handler);
 		},
+		changed(what: string) {
+			changed_notifications.push(what);
+		},
 	};
 	register_tools(server as never);
 	return handlers;
@@ -98,5 +103,334 @@ describe('tool handler registration', () => {
 		expect(error_response.json.suggestions).toContain(
 			'Use execute_write_query for INSERT, UPDATE, DELETE, or mutating PRAGMA statements',
 		);
+
+		const cte_delete = await call_tool(
+			handlers,
+			'execute_read_query',
+			{
+				query:
+					'/* cleanup */ WITH gone AS (SELECT 1) DELETE FROM tool_test',
+			},
+		);
+		expect(cte_delete.isError).toBe(true);
+		expect(cte_delete.json.suggestions).toContain(
+			'Use execute_write_query for WITH DELETE statements',
+		);
+
+		const attach = await call_tool(handlers, 'execute_schema_query', {
+			query: "ATTACH 'elsewhere.db' AS elsewhere",
+		});
+		expect(attach.isError).toBe(true);
+		expect(attach.json.message).toContain('classified as connection');
+
+		const explain = await call_tool(handlers, 'execute_read_query', {
+			query: 'EXPLAIN DELETE FROM tool_test',
+		});
+		expect(explain.isError).toBeUndefined();
+	});
+	it('notifies resource list changes after schema changes', async () => {
+		const handlers = tool_handlers();
+		const db_path = temp_db();
+		changed_notifications.length = 0;
+
+		await call_tool(handlers, 'create_table', {
+			name: 'notified',
+			columns: [{ name: 'id', type: 'INTEGER' }],
+			database_name: db_path,
+		});
+		const again = await call_tool(handlers, 'create_table', {
+			name: 'NOTIFIED',
+			columns: [{ name: 'id', type: 'INTEGER' }],
+			if_not_exists: true,
+			database_name: db_path,
+		});
+		expect(again.json.message).toContain('already exists');
+		await call_tool(handlers, 'execute_write_query', {
+			query: 'INSERT INTO notified (id) VALUES (1)',
+			database_name: db_path,
+		});
+		await call_tool(handlers, 'drop_table', {
+			table: 'notified',
+			database_name: db_path,
+		});
+
+		expect(changed_notifications).toEqual(['resources', 'resources']);
+	});
+
+	it('creates, describes and drops indexes', async () => {
+		const handlers = tool_handlers();
+		const db_path = temp_db();
+		await call_tool(handlers, 'create_table', {
+			name: 'people',
+			columns: [
+				{ name: 'id', type: 'INTEGER', primary_key: true },
+				{ name: 'email', type: 'TEXT', unique: true },
+				{ name: 'name', type: 'TEXT' },
+			],
+			database_name: db_path,
+		});
+
+		const created = await call_tool(handlers, 'create_index', {
+			name: 'people_name',
+			table: 'people',
+			columns: [{ expression: 'lower(name)' }],
+			where: 'name IS NOT NULL',
+			database_name: db_path,
+		});
+		expect(created.isError).toBeUndefined();
+		expect(created.json.index).toMatchObject({
+			origin: 'manual',
+			partial: true,
+			where: '(name IS NOT NULL)',
+			columns: [{ name: null, expression: '(lower(name))' }],
+		});
+
+		const described = await call_tool(handlers, 'describe_table', {
+			table: 'people',
+			database_name: db_path,
+		});
+		expect(described.json.indexes).toEqual([
+			{
+				name: 'people_name',
+				unique: false,
+				origin: 'manual',
+				partial: true,
+				columns: ['(lower(name))'],
+			},
+			{
+				name: 'sqlite_autoindex_people_1',
+				unique: true,
+				origin: 'unique',
+				partial: false,
+				columns: ['email'],
+			},
+		]);
+
+		const refused = await call_tool(handlers, 'drop_index', {
+			name: 'sqlite_autoindex_people_1',
+			database_name: db_path,
+		});
+		expect(refused.isError).toBe(true);
+		expect(refused.json.message).toContain('UNIQUE constraint');
+
+		const dropped = await call_tool(handlers, 'drop_index', {
+			name: 'PEOPLE_NAME',
+			database_name: db_path,
+		});
+		expect(dropped.json.query).toBe('DROP INDEX "people_name"');
+		expect(
+			(
+				await call_tool(handlers, 'list_indexes', {
+					table: 'people',
+					database_name: db_path,
+				})
+			).json.count,
+		).toBe(1);
+	});
+
+	it('pages read queries with continuation cursors', async () => {
+		const handlers = tool_handlers();
+		const db_path = temp_db();
+		await call_tool(handlers, 'execute_schema_query', {
+			query:
+				'CREATE TABLE numbers AS WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 5) SELECT x FROM n',
+			database_name: db_path,
+		});
+
+		const first = await call_tool(handlers, 'execute_read_query', {
+			query: 'SELECT x FROM numbers ORDER BY x',
+			database_name: db_path,
+			limit: 3,
+		});
+		expect(first.json.pagination).toMatchObject({
+			offset: 0,
+			returned_count: 3,
+			has_more: true,
+		});
+		const { cursor } = first.json.pagination as { cursor: string };
+
+		const second = await call_tool(handlers, 'execute_read_query', {
+			cursor,
+			limit: 3,
+		});
+		expect(second.json).toMatchObject({
+			database: db_path,
+			query: 'SELECT x FROM numbers ORDER BY x',
+			result: { rows: [{ x: 4 }, { x: 5 }] },
+			pagination: { offset: 3, has_more: false, cursor: null },
+		});
+
+		const expired = await call_tool(handlers, 'execute_read_query', {
+			cursor,
+		});
+		expect(expired.isError).toBe(true);
+		expect(expired.json.message).toContain('Cursor not found');
+	});
+
+	it('defers rows past the response budget to the cursor', async () => {
+		const handlers = tool_handlers();
+		const db_path = temp_db();
+		await call_tool(handlers, 'execute_schema_query', {
+			query:
+				"CREATE TABLE notes AS WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 20) SELECT x AS id, printf('%.200c', 'x') AS body FROM n",
+			database_name: db_path,
+		});
+
+		const first = await call_tool(handlers, 'execute_read_query', {
+			query: 'SELECT id, body FROM notes ORDER BY id',
+			database_name: db_path,
+			limit: 20,
+			max_response_bytes: 1024,
+			max_cell_length: 20,
+		});
+		const rows = (first.json.result as { rows: unknown[] }).rows;
+		expect(rows.length).toBeGreaterThan(0);
+		expect(rows.length).toBeLessThan(20);
+		expect(first.json.truncated).toMatchObject({
+			rows_returned: rows.length,
+			rows_omitted: 20 - rows.length,
+			cells_truncated: rows.length,
+		});
+		expect(first.json.column_stats).toHaveLength(2);
+
+		const second = await call_tool(handlers, 'execute_read_query', {
+			cursor: (first.json.pagination as { cursor: string }).cursor,
+			limit: 1,
+		});
+		expect(second.json).toMatchObject({
+			result: { rows: [{ id: rows.length + 1 }] },
+			pagination: { offset: rows.length, has_more: true },
+		});
+	});
+
+	it('pages past a row larger than the response budget', async () => {
+		const handlers = tool_handlers();
+		const db_path = temp_db();
+		await call_tool(handlers, 'execute_schema_query', {
+			query:
+				"CREATE TABLE notes AS SELECT 1 AS id, printf('%.5000c', 'x') AS body UNION ALL SELECT 2, printf('%.400c', 'y')",
+			database_name: db_path,
+		});
+
+		const first = await call_tool(handlers, 'execute_read_query', {
+			query: 'SELECT id, body FROM notes ORDER BY id',
+			database_name: db_path,
+			max_response_bytes: 512,
+			max_cell_length: 4000,
+		});
+		expect(first.json).toMatchObject({
+			result: { rows: [{ id: 1 }] },
+			pagination: { offset: 0, has_more: true },
+			truncated: { rows_returned: 1, cells_truncated: 1 },
+		});
+
+		const second = await call_tool(handlers, 'execute_read_query', {
+			cursor: (first.json.pagination as { cursor: string }).cursor,
+			max_response_bytes: 512,
+		});
+		expect(second.json).toMatchObject({
+			result: { rows: [{ id: 2, body: 'y'.repeat(400) }] },
+			pagination: { offset: 1, has_more: false },
+		});
+	});
+
+	it('returns column statistics instead of rows', async () => {
+		const handlers = tool_handlers();
+		const db_path = temp_db();
+		await call_tool(handlers, 'execute_schema_query', {
+			query: 'CREATE TABLE scores AS SELECT 1 AS n UNION SELECT 5',
+			database_name: db_path,
+		});
+
+		const stats = await call_tool(handlers, 'execute_read_query', {
+			query: 'SELECT n FROM scores',
+			database_name: db_path,
+			verbosity: 'stats',
+		});
+		expect(stats.json.result).toBeUndefined();
+		expect(stats.json.column_stats).toEqual([
+			expect.objectContaining({
+				column: 'n',
+				min: 1,
+				max: 5,
+				average: 3,
+			}),
+		]);
+	});
+
+	it('formats rows as CSV after a JSON summary', async () => {
+		const handlers = tool_handlers();
+		const db_path = temp_db();
+		await call_tool(handlers, 'execute_schema_query', {
+			query: "CREATE TABLE people AS SELECT 1 AS id, 'Ada' AS name",
+			database_name: db_path,
+		});
+
+		const response = await call_tool(handlers, 'execute_read_query', {
+			query: 'SELECT id, name FROM people',
+			database_name: db_path,
+			output_format: 'csv',
+		});
+		expect(response.json).toMatchObject({
+			row_count: 1,
+			result: { changes: 0 },
+			output_format: 'csv',
+		});
+		expect(response.json.result).not.toHaveProperty('rows');
+		expect(response.content[1]?.text).toBe('id,name\n1,Ada\n');
+
+		const columns = await call_tool(handlers, 'describe_table', {
+			table: 'people',
+			database_name: db_path,
+			verbosity: 'summary',
+			output_format: 'columnar',
+		});
+		expect(columns.json.columns).toEqual({
+			columns: ['name', 'type'],
+			values: [
+				['id', ''],
+				['name', ''],
+			],
+		});
+	});
+
+	it('round-trips blobs and 64-bit integers', async () => {
+		const handlers = tool_handlers();
+		const db_path = temp_db();
+		await call_tool(handlers, 'execute_schema_query', {
+			query: 'CREATE TABLE files (id INTEGER PRIMARY KEY, data BLOB)',
+			database_name: db_path,
+		});
+
+		const inserted = await call_tool(
+			handlers,
+			'execute_write_query',
+			{
+				query: 'INSERT INTO files VALUES (:id, :data)',
+				params: {
+					id: { $integer: '9007199254740993' },
+					data: { $blob: 'cafe', encoding: 'hex' },
+				},
+				database_name: db_path,
+			},
+		);
+		expect(inserted.json.result).toMatchObject({
+			changes: 1,
+			last_insert_rowid: '9007199254740993',
+		});
+
+		const read = await call_tool(handlers, 'execute_read_query', {
+			query: 'SELECT id, data FROM files WHERE data = :data',
+			params: { data: { $blob: 'yv4=' } },
+			database_name: db_path,
+		});
+		expect(read.json.result).toMatchObject({
+			rows: [
+				{
+					id: '9007199254740993',
+					data: { $blob: 'yv4=', encoding: 'base64', bytes: 2 },
+				},
+			],
+		});
 	});
 });
@@ -4,17 +4,30 @@
 import { McpServer } from 'tmcp';
 import { register_admin_tools } from './admin-tools.js';
 import { register_csv_tools } from './csv-tools.js';
+import { register_diff_tools } from './diff-tools.js';
+import {
+	audit_tool_calls,
+	register_history_tools,
+} from './history-tools.js';
+import { register_index_tools } from './index-tools.js';
+import { register_migration_tools } from './migration-tools.js';
 import { register_query_tools } from './query-tools.js';
 import { register_schema_tools } from './schema-tools.js';
 import { register_transaction_tools } from './transaction-tools.js';
 
 /**
- * Register all tools with the server
+ * Register all tools with the server, recording their calls in the
+ * audit log when it is enabled
  */
 export function register_tools(server: McpServer<any>): void {
-	register_admin_tools(server);
-	register_query_tools(server);
-	register_csv_tools(server);
-	register_transaction_tools(server);
-	register_schema_tools(server);
+	const audited = audit_tool_calls(server);
+	register_admin_tools(audited);
+	register_query_tools(audited);
+	register_csv_tools(audited);
+	register_transaction_tools(audited);
+	register_schema_tools(audited);
+	register_index_tools(audited);
+	register_diff_tools(audited);
+	register_migration_tools(audited);
+	register_history_tools(audited);
 }
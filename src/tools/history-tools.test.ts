@@ -0,0 +1,114 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { close_audit_log } from '../clients/audit-log.js';
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from '../clients/connection-manager.js';
+import { register_tools } from './handler.js';
+
+type ToolHandler = (
+	input: Record<string, unknown>,
+) => Promise<{ content: Array<{ text: string }>; isError?: boolean }>;
+
+const root = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+const db_path = join(root, 'app.db');
+
+// Configuration is loaded lazily, so the audit log applies to this file
+process.env['SQLITE_AUDIT_LOG'] = join(root, 'audit.sqlite');
+process.env['SQLITE_WORKER_POOL_SIZE'] = '0';
+
+function tool_handlers() {
+	const handlers = new Map<string, ToolHandler>();
+	const server = {
+		tool(definition: { name: string }, handler: ToolHandler) {
+			handlers.set(definition.name, handler);
+		},
+		changed() {},
+	};
+	register_tools(server as never);
+	return handlers;
+}
+
+async function call_tool(
+	handlers: Map<string, ToolHandler>,
+	name: string,
+	input: Record<string, unknown>,
+) {
+	const response = await handlers.get(name)!(input);
+	return JSON.parse(response.content[0]!.text) as Record<string, any>;
+}
+
+afterAll(() => {
+	close_audit_log();
+	close_all_databases();
+	stop_connection_maintenance();
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('query_history', () => {
+	it('records every tool call and replays it from the audit log', async () => {
+		open_database(db_path, true).exec(
+			'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, password TEXT)',
+		);
+		const handlers = tool_handlers();
+
+		await call_tool(handlers, 'execute_write_query', {
+			query:
+				'INSERT INTO users (name, password) VALUES (@name, @password)',
+			params: { name: 'ada', password: 'hunter2' },
+			database_name: db_path,
+		});
+		await call_tool(handlers, 'execute_read_query', {
+			query: 'SELECT name FROM users',
+		});
+		await call_tool(handlers, 'execute_read_query', {
+			query: 'SELECT * FROM missing',
+		});
+
+		const history = await call_tool(handlers, 'query_history', {
+			database_name: db_path,
+		});
+		expect(history).toMatchObject({ format: 'sqlite', total: 3 });
+
+		const [failed, read, write] = history['entries'];
+		expect(failed).toMatchObject({
+			tool: 'execute_read_query',
+			success: false,
+			error_code: 'SQLITE_ERROR',
+		});
+		expect(read).toMatchObject({
+			sql: 'SELECT name FROM users',
+			row_count: 1,
+			success: true,
+			replay: {
+				tool: 'execute_read_query',
+				arguments: { query: 'SELECT name FROM users' },
+				complete: true,
+			},
+		});
+		expect(write).toMatchObject({
+			database: db_path,
+			params: { name: 'ada', password: '[REDACTED]' },
+			rows_affected: 1,
+			redacted: true,
+			replay: { complete: false },
+		});
+		expect(write.duration_ms).toBeGreaterThanOrEqual(0);
+
+		const writes = await call_tool(handlers, 'query_history', {
+			tool: 'execute_write_query',
+			search: 'insert into',
+		});
+		expect(writes['total']).toBe(1);
+
+		const errors = await call_tool(handlers, 'query_history', {
+			status: 'error',
+		});
+		expect(errors['total']).toBe(1);
+	});
+});
@@ -0,0 +1,271 @@
+/**
+ * Audit logging and query history tools for the SQLite Tools MCP server
+ */
+import { McpServer } from 'tmcp';
+import * as v from 'valibot';
+import {
+	AuditEntry,
+	audit_log_enabled,
+	get_audit_log_info,
+	record_audit_entry,
+	redact_for_audit,
+	search_audit_log,
+} from '../clients/audit-log.js';
+import {
+	ToolUsageError,
+	create_tool_error_response,
+	create_tool_response,
+} from '../common/errors.js';
+import { debug_log, get_config } from '../config.js';
+import {
+	get_context_info,
+	resolve_database_name,
+} from './context.js';
+
+interface ToolResponse {
+	content?: Array<{ text?: string }>;
+	isError?: boolean;
+}
+
+// An ISO 8601 date or timestamp
+const IsoTime = v.pipe(
+	v.string(),
+	v.maxLength(64),
+	v.check(
+		(value) => !Number.isNaN(Date.parse(value)),
+		'Expected an ISO 8601 date or timestamp',
+	),
+);
+
+const QueryHistorySchema = v.object({
+	tool: v.optional(v.pipe(v.string(), v.maxLength(100))),
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+	search: v.optional(
+		v.pipe(v.string(), v.minLength(1), v.maxLength(1000)),
+	),
+	since: v.optional(IsoTime),
+	until: v.optional(IsoTime),
+	status: v.optional(v.picklist(['success', 'error'])),
+	limit: v.optional(
+		v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(1000)),
+		50,
+	),
+	offset: v.optional(
+		v.pipe(v.number(), v.integer(), v.minValue(0)),
+		0,
+	),
+});
+
+function optional_number(value: unknown): number | null {
+	return typeof value === 'number' ? value : null;
+}
+
+/**
+ * Build the audit entry for one tool call from its arguments and the
+ * JSON body of its response
+ */
+function record_tool_call(
+	tool: string,
+	input: Record<string, unknown>,
+	response: ToolResponse | undefined,
+	started: number,
+): void {
+	let body: Record<string, any> = {};
+	try {
+		body = JSON.parse(response?.content?.[0]?.text ?? '{}');
+	} catch {
+		body = {};
+	}
+
+	const patterns = get_config().SQLITE_AUDIT_REDACT;
+	// `*` redacts every parameter value, but not the other arguments
+	const name_patterns = patterns.filter((pattern) => pattern !== '*');
+	const changed = { value: false };
+	const { query, script, params, data, ...rest } = input;
+	const sql = query ?? script;
+	const context = get_context_info();
+	const failed = response?.isError === true;
+
+	const statement_changes = Array.isArray(body['statements'])
+		? (body['statements'] as { changes?: number }[]).reduce(
+				(total, statement) => total + (statement.changes ?? 0),
+				0,
+			)
+		: null;
+
+	record_audit_entry({
+		timestamp: new Date(started).toISOString(),
+		session: context.session_id,
+		tool,
+		database:
+			body['database'] ??
+			body['database_path'] ??
+			context.current_database,
+		sql: typeof sql === 'string' ? sql : null,
+		params:
+			params === undefined
+				? null
+				: redact_for_audit(params, patterns, changed),
+		arguments: {
+			...(redact_for_audit(rest, name_patterns, changed) as Record<
+				string,
+				unknown
+			>),
+			...(data === undefined
+				? {}
+				: { data: redact_for_audit(data, patterns, changed) }),
+		},
+		redacted: changed.value,
+		success: !failed,
+		error_code: failed
+			? (body['sqlite_code'] ??
+				body['error_type'] ??
+				'execution_error')
+			: null,
+		error: failed ? (body['message'] ?? null) : null,
+		rows_affected:
+			optional_number(body['result']?.changes) ??
+			optional_number(body['inserted']) ??
+			optional_number(body['changes']) ??
+			statement_changes,
+		row_count: optional_number(body['row_count']),
+		duration_ms: Date.now() - started,
+	});
+}
+
+/**
+ * Wrap the server so every tool registered through it records its calls
+ * in the audit log. Without SQLITE_AUDIT_LOG the server is returned as
+ * is.
+ */
+export function audit_tool_calls(
+	server: McpServer<any>,
+): McpServer<any> {
+	if (!audit_log_enabled()) return server;
+
+	return new Proxy(server, {
+		get(target, property) {
+			if (property === 'tool') {
+				return (
+					definition: { name: string },
+					handler: (input: any) => Promise<ToolResponse>,
+				) =>
+					target.tool(
+						definition as never,
+						(async (input: any) => {
+							const started = Date.now();
+							let response: ToolResponse | undefined;
+							try {
+								response = await handler(input);
+								return response;
+							} finally {
+								record_tool_call(
+									definition.name,
+									input ?? {},
+									response,
+									started,
+								);
+							}
+						}) as never,
+					);
+			}
+			const value = Reflect.get(target, property, target);
+			return typeof value === 'function' ? value.bind(target) : value;
+		},
+	});
+}
+
+/**
+ * The tool call that repeats an audited one
+ */
+function replay_call(entry: AuditEntry) {
+	return {
+		tool: entry.tool,
+		arguments: {
+			...entry.arguments,
+			...(entry.sql === null
+				? {}
+				: {
+						[entry.tool === 'execute_script' ? 'script' : 'query']:
+							entry.sql,
+					}),
+			...(entry.params === null ? {} : { params: entry.params }),
+		},
+		// Redacted or shortened values have to be filled in first
+		complete: !entry.redacted,
+	};
+}
+
+/**
+ * Register query history tools with the server
+ */
+export function register_history_tools(server: McpServer<any>): void {
+	server.tool<typeof QueryHistorySchema>(
+		{
+			name: 'query_history',
+			description:
+				'✓ SAFE: Search the audit log of past tool calls by tool, database, SQL text, time range and status, most recent first. Each entry includes the tool call that replays it.',
+			schema: QueryHistorySchema,
+			enabled: audit_log_enabled,
+		},
+		async ({
+			tool,
+			database_name,
+			search,
+			since,
+			until,
+			status,
+			limit = 50,
+			offset = 0,
+		}) => {
+			try {
+				debug_log('Executing tool: query_history', {
+					tool,
+					database_name,
+					search,
+					since,
+					until,
+					status,
+					limit,
+					offset,
+				});
+
+				const info = get_audit_log_info();
+				if (!info) {
+					throw new ToolUsageError('The audit log is disabled', [
+						'Set SQLITE_AUDIT_LOG to a .jsonl file or SQLite database path to record tool calls',
+					]);
+				}
+
+				const result = await search_audit_log({
+					tool,
+					database: database_name
+						? resolve_database_name(database_name)
+						: undefined,
+					search,
+					// Entries are stored with UTC timestamps
+					since: since && new Date(since).toISOString(),
+					until: until && new Date(until).toISOString(),
+					success:
+						status === undefined ? undefined : status === 'success',
+					limit,
+					offset,
+				});
+
+				return create_tool_response({
+					audit_log: info.path,
+					format: info.format,
+					total: result.total,
+					returned: result.entries.length,
+					has_more: result.has_more,
+					entries: result.entries.map((entry) => ({
+						...entry,
+						replay: replay_call(entry),
+					})),
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+}
@@ -0,0 +1,207 @@
+/**
+ * Index management tools for the SQLite Tools MCP server
+ */
+import { McpServer } from 'tmcp';
+import * as v from 'valibot';
+import {
+	assert_database_writable,
+	write_tools_enabled,
+} from '../clients/access-policy.js';
+import * as sqlite from '../clients/sqlite.js';
+import {
+	ToolUsageError,
+	create_tool_error_response,
+	create_tool_response,
+} from '../common/errors.js';
+import {
+	format_create_index,
+	quote_identifier,
+} from '../common/sql.js';
+import { debug_log } from '../config.js';
+import {
+	resolve_database_name,
+	set_current_database,
+} from './context.js';
+import { notify_resources_changed } from './resources.js';
+
+const IdentifierSchema = v.pipe(
+	v.string(),
+	v.minLength(1),
+	v.maxLength(64),
+);
+
+const SqlExpressionSchema = v.pipe(
+	v.string(),
+	v.minLength(1),
+	v.maxLength(1000),
+);
+
+const ListIndexesSchema = v.object({
+	table: v.optional(IdentifierSchema),
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+});
+
+const CreateIndexSchema = v.object({
+	name: IdentifierSchema,
+	table: IdentifierSchema,
+	columns: v.pipe(
+		v.array(
+			v.object({
+				column: v.optional(IdentifierSchema),
+				expression: v.optional(SqlExpressionSchema),
+				descending: v.optional(v.boolean(), false),
+				collate: v.optional(
+					v.picklist(['BINARY', 'NOCASE', 'RTRIM']),
+				),
+			}),
+		),
+		v.minLength(1),
+		v.maxLength(64),
+	),
+	unique: v.optional(v.boolean(), false),
+	where: v.optional(SqlExpressionSchema),
+	if_not_exists: v.optional(v.boolean(), false),
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+});
+
+const DropIndexSchema = v.object({
+	name: IdentifierSchema,
+	if_exists: v.optional(v.boolean(), false),
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+});
+
+/**
+ * Register index management tools with the server
+ */
+export function register_index_tools(server: McpServer<any>): void {
+	server.tool<typeof ListIndexesSchema>(
+		{
+			name: 'list_indexes',
+			description:
+				'✓ SAFE: List the indexes of a table, or of every table: unique, partial (with its WHERE) and expression indexes, their key columns with sort order and collation, origin (pk, unique or manual) and approximate size from dbstat when SQLite has it.',
+			schema: ListIndexesSchema,
+		},
+		async ({ table, database_name }) => {
+			try {
+				debug_log('Executing tool: list_indexes', {
+					table,
+					database_name,
+				});
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+
+				const result = sqlite.list_indexes(database_path, table);
+
+				return create_tool_response({
+					...result,
+					count: result.indexes.length,
+					message: `📋 INDEXES: ${result.indexes.length} index(es) ${result.table ? `on '${result.table}'` : 'across all tables'} in '${database_path}'`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
+	server.tool<typeof CreateIndexSchema>(
+		{
+			name: 'create_index',
+			description:
+				'⚠️ SCHEMA CHANGE: Create an index on a table from columns and/or expressions, each optionally DESC or with a collation. unique makes a UNIQUE index; where makes a partial index of the matching rows. Fails if the name exists unless if_not_exists.',
+			schema: CreateIndexSchema,
+			enabled: write_tools_enabled,
+		},
+		async ({ database_name, ...index }) => {
+			try {
+				debug_log('Executing tool: create_index', {
+					...index,
+					database_name,
+				});
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'create_index');
+
+				const create_sql = format_create_index(index);
+				const existed =
+					index.if_not_exists &&
+					sqlite.find_index(database_path, index.name) !== null;
+				await sqlite.execute_write_query(database_path, create_sql);
+				if (!existed) notify_resources_changed(server);
+
+				return create_tool_response({
+					success: true,
+					database: database_path,
+					query: create_sql,
+					index: sqlite.find_index(database_path, index.name),
+					message: existed
+						? `✅ INDEX EXISTS: Index '${index.name}' already exists in database '${database_path}'; nothing was changed`
+						: `✅ SCHEMA CHANGE COMPLETED: Index '${index.name}' created on '${index.table}' in database '${database_path}'`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
+	server.tool<typeof DropIndexSchema>(
+		{
+			name: 'drop_index',
+			description:
+				'⚠️ SCHEMA CHANGE: Drop an index created with CREATE INDEX. Returns its definition so it can be recreated. Indexes SQLite made for PRIMARY KEY and UNIQUE constraints cannot be dropped.',
+			schema: DropIndexSchema,
+			enabled: write_tools_enabled,
+		},
+		async ({ name, if_exists, database_name }) => {
+			try {
+				debug_log('Executing tool: drop_index', {
+					name,
+					if_exists,
+					database_name,
+				});
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'drop_index');
+
+				const index = sqlite.find_index(database_path, name);
+				if (!index) {
+					if (if_exists) {
+						return create_tool_response({
+							success: true,
+							database: database_path,
+							dropped: null,
+							message: `✅ NO INDEX: Index '${name}' does not exist in database '${database_path}'; nothing was dropped`,
+						});
+					}
+					throw new ToolUsageError(`Index not found: ${name}`, [
+						'Check the index name with list_indexes',
+					]);
+				}
+				if (index.origin !== 'manual') {
+					throw new ToolUsageError(
+						`Index ${index.name} belongs to a ${index.origin === 'pk' ? 'PRIMARY KEY' : 'UNIQUE'} constraint on ${index.table} and cannot be dropped`,
+						[
+							'Use alter_table to drop the constrained column, or recreate the table without the constraint',
+						],
+					);
+				}
+
+				const drop_sql = `DROP INDEX ${quote_identifier(index.name)}`;
+				await sqlite.execute_write_query(database_path, drop_sql);
+				notify_resources_changed(server);
+
+				return create_tool_response({
+					success: true,
+					database: database_path,
+					query: drop_sql,
+					dropped: index,
+					message: `⚠️ SCHEMA CHANGE COMPLETED: Index '${index.name}' dropped from '${index.table}' in database '${database_path}'`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+}
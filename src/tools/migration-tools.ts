@@ -0,0 +1,228 @@
+/**
+ * Versioned migration tools for the SQLite Tools MCP server
+ */
+import { McpServer } from 'tmcp';
+import * as v from 'valibot';
+import {
+	assert_database_writable,
+	write_tools_enabled,
+} from '../clients/access-policy.js';
+import * as sqlite from '../clients/sqlite.js';
+import {
+	ToolUsageError,
+	create_tool_error_response,
+	create_tool_response,
+} from '../common/errors.js';
+import { debug_log } from '../config.js';
+import {
+	resolve_database_name,
+	set_current_database,
+} from './context.js';
+import { notify_resources_changed } from './resources.js';
+
+const MigrationVersionSchema = v.pipe(
+	v.number(),
+	v.integer(),
+	v.minValue(0),
+	v.maxValue(Number.MAX_SAFE_INTEGER),
+);
+
+const MigrationDirectorySchema = v.optional(
+	v.pipe(v.string(), v.minLength(1), v.maxLength(255)),
+);
+
+const MigrationStatusSchema = v.object({
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+	directory: MigrationDirectorySchema,
+});
+
+const MigrateUpSchema = v.object({
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+	directory: MigrationDirectorySchema,
+	to_version: v.optional(MigrationVersionSchema),
+});
+
+const MigrateDownSchema = v.object({
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+	directory: MigrationDirectorySchema,
+	steps: v.optional(
+		v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(1000)),
+	),
+	to_version: v.optional(MigrationVersionSchema),
+});
+
+const CreateMigrationSchema = v.object({
+	name: v.pipe(v.string(), v.minLength(1), v.maxLength(100)),
+	directory: MigrationDirectorySchema,
+	up: v.optional(v.pipe(v.string(), v.maxLength(100000))),
+	down: v.optional(v.pipe(v.string(), v.maxLength(100000))),
+});
+
+/**
+ * Register versioned migration tools with the server
+ */
+export function register_migration_tools(
+	server: McpServer<any>,
+): void {
+	server.tool<typeof MigrationStatusSchema>(
+		{
+			name: 'migration_status',
+			description:
+				'✓ SAFE: List the numbered migrations in the migrations directory (or a subdirectory of it) and whether each is applied, pending, or has drifted: modified or missing since it was applied, by checksum.',
+			schema: MigrationStatusSchema,
+		},
+		async ({ database_name, directory }) => {
+			try {
+				debug_log('Executing tool: migration_status', {
+					database_name,
+					directory,
+				});
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+
+				const status = sqlite.migration_status(
+					database_path,
+					directory,
+				);
+
+				return create_tool_response({
+					...status,
+					message:
+						status.drifted > 0
+							? `⚠️ MIGRATION DRIFT: ${status.drifted} applied migration(s) changed since they ran in '${database_path}'`
+							: `📋 MIGRATIONS: '${database_path}' is at version ${status.current_version} with ${status.pending} pending migration(s)`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
+	server.tool<typeof MigrateUpSchema>(
+		{
+			name: 'migrate_up',
+			description:
+				'⚠️ SCHEMA CHANGE: Apply pending migrations in version order (up to to_version when given), each in its own transaction with foreign keys off and checked before commit. Stops at the first failure, which is rolled back. Refuses while applied migrations have drifted.',
+			schema: MigrateUpSchema,
+			enabled: write_tools_enabled,
+		},
+		async ({ database_name, directory, to_version }) => {
+			try {
+				debug_log('Executing tool: migrate_up', {
+					database_name,
+					directory,
+					to_version,
+				});
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'migrate_up');
+
+				const result = await sqlite.migrate_up(database_path, {
+					directory,
+					to_version,
+				});
+				if (result.migrations.length > 0) {
+					notify_resources_changed(server);
+				}
+
+				return create_tool_response({
+					...result,
+					message:
+						result.migrations.length > 0
+							? `⚠️ MIGRATED: Applied ${result.migrations.length} migration(s) to '${database_path}', now at version ${result.current_version}`
+							: `✅ UP TO DATE: No pending migrations to apply to '${database_path}'`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
+	server.tool<typeof MigrateDownSchema>(
+		{
+			name: 'migrate_down',
+			description:
+				'⚠️ SCHEMA CHANGE: Revert the latest applied migrations with their down files, newest first: steps of them (default 1), or every one above to_version (0 reverts all). Each runs in its own transaction. Refuses while applied migrations have drifted.',
+			schema: MigrateDownSchema,
+			enabled: write_tools_enabled,
+		},
+		async ({ database_name, directory, steps, to_version }) => {
+			try {
+				debug_log('Executing tool: migrate_down', {
+					database_name,
+					directory,
+					steps,
+					to_version,
+				});
+
+				if (steps !== undefined && to_version !== undefined) {
+					throw new ToolUsageError(
+						'migrate_down takes steps or to_version, not both',
+						[
+							'Pass steps to revert that many migrations',
+							'Pass to_version to revert every migration above it',
+						],
+					);
+				}
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'migrate_down');
+
+				const result = await sqlite.migrate_down(database_path, {
+					directory,
+					steps,
+					to_version,
+				});
+				if (result.migrations.length > 0) {
+					notify_resources_changed(server);
+				}
+
+				return create_tool_response({
+					...result,
+					message:
+						result.migrations.length > 0
+							? `⚠️ REVERTED: Reverted ${result.migrations.length} migration(s) in '${database_path}', now at version ${result.current_version}`
+							: `✅ NOTHING TO REVERT: No applied migrations to revert in '${database_path}'`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
+	server.tool<typeof CreateMigrationSchema>(
+		{
+			name: 'create_migration',
+			description:
+				'Create the next numbered migration in the migrations directory: <version>_<name>.up.sql and .down.sql, with the given SQL or empty for editing. Does not apply it; use migrate_up. Leave out BEGIN/COMMIT, as migrations run in their own transaction.',
+			schema: CreateMigrationSchema,
+			enabled: write_tools_enabled,
+		},
+		async ({ name, directory, up, down }) => {
+			try {
+				debug_log('Executing tool: create_migration', {
+					name,
+					directory,
+					up_size: up?.length,
+					down_size: down?.length,
+				});
+
+				const result = sqlite.create_migration(name, {
+					directory,
+					up,
+					down,
+				});
+
+				return create_tool_response({
+					...result,
+					message: `✅ MIGRATION CREATED: ${result.id} (apply it with migrate_up)`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+}
@@ -0,0 +1,151 @@
+import { ValibotJsonSchemaAdapter } from '@tmcp/adapter-valibot';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from 'tmcp';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from '../clients/connection-manager.js';
+import { execute_query } from '../clients/query-executor.js';
+import { register_prompts } from './prompts.js';
+
+const temp_dirs: string[] = [];
+
+function temp_db(name = 'test.sqlite') {
+	const dir = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+	temp_dirs.push(dir);
+	const db_path = join(dir, name);
+	open_database(db_path, true);
+	execute_query(
+		db_path,
+		'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT NOT NULL)',
+	);
+	execute_query(
+		db_path,
+		'CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total REAL DEFAULT 0)',
+	);
+	return db_path;
+}
+
+async function prompt_server() {
+	const server = new McpServer<any>(
+		{ name: 'test', version: '0.0.0', description: 'test' },
+		{
+			adapter: new ValibotJsonSchemaAdapter(),
+			capabilities: { prompts: { listChanged: true } },
+		},
+	);
+	register_prompts(server);
+	await server.receive({
+		jsonrpc: '2.0',
+		id: 0,
+		method: 'initialize',
+		params: {
+			protocolVersion: '2025-06-18',
+			capabilities: {},
+			clientInfo: { name: 'test', version: '1.0.0' },
+		},
+	});
+	return server;
+}
+
+async function request(
+	server: McpServer<any>,
+	method: string,
+	params: Record<string, unknown>,
+) {
+	const response = (await server.receive({
+		jsonrpc: '2.0',
+		id: 1,
+		method,
+		params,
+	})) as { result?: any; error?: { message: string } };
+	return response;
+}
+
+function prompt_text(response: { result?: any }): string {
+	return response.result.messages[0].content.text;
+}
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	for (const dir of temp_dirs)
+		rmSync(dir, { recursive: true, force: true });
+});
+
+describe('workflow prompts', () => {
+	it('lists the workflow prompts', async () => {
+		const server = await prompt_server();
+
+		const list = await request(server, 'prompts/list', {});
+		expect(
+			list.result.prompts.map(
+				(prompt: { name: string }) => prompt.name,
+			),
+		).toEqual([
+			'explore_database',
+			'safe_migration',
+			'diagnose_slow_query',
+			'data_quality_summary',
+		]);
+	});
+
+	it('embeds the live schema in prompts', async () => {
+		const server = await prompt_server();
+		const db_path = temp_db();
+
+		const explore = await request(server, 'prompts/get', {
+			name: 'explore_database',
+			arguments: { database_name: db_path },
+		});
+		expect(prompt_text(explore)).toContain('### users');
+		expect(prompt_text(explore)).toContain('- email TEXT (NOT NULL)');
+
+		const migration = await request(server, 'prompts/get', {
+			name: 'safe_migration',
+			arguments: {
+				database_name: db_path,
+				table: 'orders',
+				change: 'add a status column',
+			},
+		});
+		expect(prompt_text(migration)).toContain(
+			'CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total REAL DEFAULT 0);',
+		);
+
+		const slow = await request(server, 'prompts/get', {
+			name: 'diagnose_slow_query',
+			arguments: {
+				database_name: db_path,
+				query: 'SELECT * FROM "Orders" WHERE user_id = 1',
+			},
+		});
+		expect(prompt_text(slow)).toContain('### orders');
+		expect(prompt_text(slow)).not.toContain('### users');
+	});
+
+	it('completes table names and rejects unknown tables', async () => {
+		const server = await prompt_server();
+		const db_path = temp_db();
+
+		const completion = await request(server, 'completion/complete', {
+			ref: { type: 'ref/prompt', name: 'data_quality_summary' },
+			argument: { name: 'table', value: 'us' },
+			context: { arguments: { database_name: db_path } },
+		});
+		expect(completion.result.completion.values).toEqual(['users']);
+
+		const missing = await request(server, 'prompts/get', {
+			name: 'data_quality_summary',
+			arguments: { database_name: db_path, table: 'missing' },
+		});
+		expect(missing.error?.message ?? '').toContain(
+			'Table not found: missing',
+		);
+	});
+});
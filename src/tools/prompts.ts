@@ -0,0 +1,292 @@
+/**
+ * Workflow prompts for the SQLite Tools MCP server
+ */
+import { McpServer } from 'tmcp';
+import * as v from 'valibot';
+import * as sqlite from '../clients/sqlite.js';
+import { debug_log } from '../config.js';
+import { resolve_database_name } from './context.js';
+
+// Tables described in full by the explore prompt
+const MAX_DESCRIBED_TABLES = 50;
+
+// Table name completions returned per request
+const MAX_COMPLETIONS = 100;
+
+// Input validation schemas
+const DatabasePromptSchema = v.object({
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+});
+
+const TablePromptSchema = v.object({
+	table: v.pipe(v.string(), v.minLength(1), v.maxLength(64)),
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+});
+
+const MigrationPromptSchema = v.object({
+	table: v.pipe(v.string(), v.minLength(1), v.maxLength(64)),
+	change: v.pipe(v.string(), v.minLength(1), v.maxLength(2000)),
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+});
+
+const SlowQueryPromptSchema = v.object({
+	query: v.pipe(v.string(), v.minLength(1), v.maxLength(10000)),
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+});
+
+/**
+ * Render a table's columns from describe_table as markdown
+ */
+function format_table(database_path: string, table: string): string {
+	const columns = sqlite.describe_table(database_path, table);
+	const lines = columns.map((col) => {
+		const flags = [
+			col.pk > 0 ? 'PRIMARY KEY' : null,
+			col.notnull ? 'NOT NULL' : null,
+			col.dflt_value !== null ? `DEFAULT ${col.dflt_value}` : null,
+		].filter(Boolean);
+		return `- ${col.name} ${col.type || 'ANY'}${flags.length ? ` (${flags.join(', ')})` : ''}`;
+	});
+	return `### ${table}\n${lines.join('\n')}`;
+}
+
+/**
+ * Look up a table from list_tables, failing with the available names
+ */
+function require_table(database_path: string, table: string) {
+	const tables = sqlite.list_tables(database_path);
+	const match = tables.find((candidate) => candidate.name === table);
+	if (!match) {
+		throw new Error(
+			`Table not found: ${table}. Available tables: ${tables.map((t) => t.name).join(', ') || 'none'}`,
+		);
+	}
+	return match;
+}
+
+/**
+ * Collect the bare and quoted identifiers used in a query, lowercased
+ */
+function query_identifiers(query: string): Set<string> {
+	const identifiers = new Set<string>();
+	const pattern =
+		/"((?:[^"]|"")+)"|`([^`]+)`|\[([^\]]+)\]|([A-Za-z_][\w$]*)/g;
+	for (const match of query.matchAll(pattern)) {
+		const name =
+			match[1]?.replace(/""/g, '"') ??
+			match[2] ??
+			match[3] ??
+			match[4];
+		identifiers.add(name.toLowerCase());
+	}
+	return identifiers;
+}
+
+/**
+ * Complete table names from the live schema
+ */
+function complete_table_names(
+	query: string,
+	context: { arguments: Record<string, string> },
+) {
+	try {
+		const database_path = resolve_database_name(
+			context.arguments['database_name'] || undefined,
+		);
+		const names = sqlite
+			.list_tables(database_path)
+			.map((table) => table.name)
+			.filter((name) =>
+				name.toLowerCase().startsWith(query.toLowerCase()),
+			);
+		return {
+			completion: {
+				values: names.slice(0, MAX_COMPLETIONS),
+				total: names.length,
+				hasMore: names.length > MAX_COMPLETIONS,
+			},
+		};
+	} catch (error) {
+		debug_log('Table completion failed:', error);
+		return { completion: { values: [] } };
+	}
+}
+
+function user_message(text: string) {
+	return {
+		messages: [
+			{
+				role: 'user' as const,
+				content: { type: 'text' as const, text },
+			},
+		],
+	};
+}
+
+/**
+ * Register workflow prompts with the server
+ */
+export function register_prompts(server: McpServer<any>): void {
+	server.prompt<typeof DatabasePromptSchema>(
+		{
+			name: 'explore_database',
+			title: 'Explore this database',
+			description:
+				'Summarise the tables, columns and relationships of a database using its live schema.',
+			schema: DatabasePromptSchema,
+		},
+		async ({ database_name }) => {
+			debug_log('Executing prompt: explore_database', {
+				database_name,
+			});
+
+			const database_path = resolve_database_name(database_name);
+			const tables = sqlite.list_tables(database_path);
+			const described = tables
+				.slice(0, MAX_DESCRIBED_TABLES)
+				.map((table) => format_table(database_path, table.name));
+			const omitted = tables.length - described.length;
+
+			return user_message(
+				[
+					`Explore the SQLite database at ${database_path}.`,
+					'',
+					`It has ${tables.length} tables and views. Current schema:`,
+					'',
+					...described,
+					omitted > 0
+						? `\n(${omitted} more tables not shown; use list_tables and describe_table for the rest.)`
+						: '',
+					'',
+					'Using only read-only tools (execute_read_query, describe_table, export_schema):',
+					'1. Explain what each table stores and how tables relate (foreign keys, shared id columns).',
+					'2. Report approximate row counts for the main tables.',
+					'3. Point out anything surprising: empty tables, missing primary keys, untyped columns.',
+					'4. Finish with a short summary of the domain this database models.',
+				].join('\n'),
+			);
+		},
+	);
+
+	server.prompt<typeof MigrationPromptSchema>(
+		{
+			name: 'safe_migration',
+			title: 'Write a safe migration',
+			description:
+				'Plan and write a reversible migration for a table, based on its current columns.',
+			schema: MigrationPromptSchema,
+			complete: { table: complete_table_names },
+		},
+		async ({ table, change, database_name }) => {
+			debug_log('Executing prompt: safe_migration', {
+				table,
+				change,
+				database_name,
+			});
+
+			const database_path = resolve_database_name(database_name);
+			const table_info = require_table(database_path, table);
+
+			return user_message(
+				[
+					`Write a safe migration for table "${table}" in ${database_path}.`,
+					'',
+					`Requested change: ${change}`,
+					'',
+					'Current definition:',
+					'```sql',
+					`${table_info.sql};`,
+					'```',
+					'',
+					format_table(database_path, table),
+					'',
+					'Requirements:',
+					'1. Call backup_database before changing anything.',
+					'2. Use plain ALTER TABLE where SQLite supports it; otherwise use the create-copy-drop-rename table rebuild and recreate indexes and triggers.',
+					'3. Run the migration inside begin_transaction / commit_transaction and check PRAGMA foreign_key_check before committing.',
+					'4. Provide the matching down migration that restores the current definition.',
+					'5. Show the SQL and wait for approval before running any execute_schema_query or execute_write_query call.',
+				].join('\n'),
+			);
+		},
+	);
+
+	server.prompt<typeof SlowQueryPromptSchema>(
+		{
+			name: 'diagnose_slow_query',
+			title: 'Diagnose a slow query',
+			description:
+				'Analyse a slow query against the schema of the tables it touches and suggest indexes or rewrites.',
+			schema: SlowQueryPromptSchema,
+		},
+		async ({ query, database_name }) => {
+			debug_log('Executing prompt: diagnose_slow_query', {
+				query,
+				database_name,
+			});
+
+			const database_path = resolve_database_name(database_name);
+			const identifiers = query_identifiers(query);
+			const referenced = sqlite
+				.list_tables(database_path)
+				.filter((table) => identifiers.has(table.name.toLowerCase()))
+				.map((table) => format_table(database_path, table.name));
+
+			return user_message(
+				[
+					`Diagnose why this query is slow on ${database_path}:`,
+					'',
+					'```sql',
+					query,
+					'```',
+					'',
+					referenced.length > 0
+						? `Tables referenced:\n\n${referenced.join('\n\n')}`
+						: 'No known tables were matched; use list_tables to find the relevant ones.',
+					'',
+					'Steps:',
+					'1. Run EXPLAIN QUERY PLAN for the query with execute_read_query.',
+					'2. Look for full table SCANs, temporary B-trees for ORDER BY/GROUP BY, and automatic indexes.',
+					'3. Check existing indexes with PRAGMA index_list and PRAGMA index_info for the tables above.',
+					'4. Suggest concrete CREATE INDEX statements or query rewrites, and explain the expected plan change.',
+					'Do not create indexes yourself; present them for approval.',
+				].join('\n'),
+			);
+		},
+	);
+
+	server.prompt<typeof TablePromptSchema>(
+		{
+			name: 'data_quality_summary',
+			title: 'Summarise data quality of a table',
+			description:
+				'Profile a table column by column: nulls, distinct values, ranges and suspicious values.',
+			schema: TablePromptSchema,
+			complete: { table: complete_table_names },
+		},
+		async ({ table, database_name }) => {
+			debug_log('Executing prompt: data_quality_summary', {
+				table,
+				database_name,
+			});
+
+			const database_path = resolve_database_name(database_name);
+			require_table(database_path, table);
+
+			return user_message(
+				[
+					`Summarise the data quality of table "${table}" in ${database_path}.`,
+					'',
+					format_table(database_path, table),
+					'',
+					'Using execute_read_query only:',
+					'1. Count total rows.',
+					'2. For every column, report the NULL count, distinct count, and min/max (or shortest/longest for text).',
+					'3. Check that stored values match the declared column types (typeof()).',
+					'4. Flag duplicates in columns that look like natural keys, empty strings, and outliers.',
+					'5. Finish with a table of issues ordered by severity and suggested fixes.',
+				].join('\n'),
+			);
+		},
+	);
+}
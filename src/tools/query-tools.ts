@@ -3,6 +3,10 @@
  */
 import { McpServer } from 'tmcp';
 import * as v from 'valibot';
+import {
+	assert_database_writable,
+	write_tools_enabled,
+} from '../clients/access-policy.js';
 import * as sqlite from '../clients/sqlite.js';
 import {
 	ToolUsageError,
@@ -10,21 +14,43 @@ import {
 	create_tool_response,
 } from '../common/errors.js';
 import {
-	should_paginate_read_query,
-	trim_trailing_semicolon,
-} from '../common/sql.js';
-import { debug_log } from '../config.js';
+	BYTES_PER_TOKEN,
+	BudgetedRows,
+	fit_rows_to_budget,
+	summarise_columns,
+} from '../common/output-budget.js';
+import {
+	OUTPUT_FORMATS,
+	create_formatted_response,
+} from '../common/output-format.js';
+import { trim_trailing_semicolon } from '../common/sql.js';
+import {
+	QueryTool,
+	StatementClassification,
+} from '../common/statement-classifier.js';
+import { BLOB_ENCODINGS, encode_row } from '../common/value-codec.js';
+import { debug_log, get_config } from '../config.js';
 import {
 	resolve_database_name,
 	set_current_database,
 } from './context.js';
+import { notify_resources_changed } from './resources.js';
 
-// Valid SQLite parameter values
+// Valid SQLite parameter values, including tagged blobs and 64-bit
+// integers (see value-codec.ts)
 const SQLiteParamValue = v.union([
 	v.string(),
 	v.number(),
 	v.boolean(),
 	v.null(),
+	v.object({
+		$blob: v.pipe(v.string(), v.maxLength(10000000)),
+		encoding: v.optional(v.picklist(BLOB_ENCODINGS)),
+		bytes: v.optional(v.number()),
+	}),
+	v.object({
+		$integer: v.pipe(v.string(), v.regex(/^-?\d{1,19}$/)),
+	}),
 ]);
 
 // Input validation schemas
@@ -34,22 +60,142 @@ const ExecuteQuerySchema = v.object({
 	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
 });
 
+const ExecuteWriteQuerySchema = v.object({
+	...ExecuteQuerySchema.entries,
+	dry_run: v.optional(v.boolean(), false),
+	sample_rows: v.optional(
+		v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(100)),
+		5,
+	),
+});
+
 const ExecuteReadQuerySchema = v.object({
-	query: v.pipe(v.string(), v.minLength(1), v.maxLength(10000)),
-	params: v.optional(v.record(v.string(), SQLiteParamValue)),
+	query: v.optional(
+		v.pipe(v.string(), v.minLength(1), v.maxLength(10000)),
+	),
+	cursor: v.optional(
+		v.pipe(
+			v.string(),
+			v.minLength(1),
+			v.maxLength(100),
+			v.description(
+				'Cursor returned with has_more; pass it without query for the next page of the same snapshot',
+			),
+		),
+	),
+	params: v.optional(
+		v.pipe(
+			v.record(v.string(), SQLiteParamValue),
+			v.description(
+				'Named or positional ("1", "2", ...) parameters. Bind blobs as {"$blob": "..."} and integers beyond 2^53 as {"$integer": "..."}',
+			),
+		),
+	),
 	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
 	limit: v.optional(
-		v.pipe(v.number(), v.minValue(1), v.maxValue(50000)),
+		v.pipe(
+			v.number(),
+			v.minValue(1),
+			v.maxValue(50000),
+			v.description('Rows per page'),
+		),
 		10000,
 	),
 	offset: v.optional(
-		v.pipe(v.number(), v.minValue(0), v.maxValue(1000000)),
+		v.pipe(
+			v.number(),
+			v.minValue(0),
+			v.maxValue(1000000),
+			v.description('Rows to skip before the first page'),
+		),
 		0,
 	),
 	verbosity: v.optional(
-		v.union([v.literal('summary'), v.literal('detailed')]),
+		v.pipe(
+			v.union([
+				v.literal('summary'),
+				v.literal('detailed'),
+				v.literal('stats'),
+			]),
+			v.description(
+				'"summary" for counts only, "stats" for per-column statistics instead of rows',
+			),
+		),
 		'detailed',
 	),
+	timeout_ms: v.optional(
+		v.pipe(
+			v.number(),
+			v.minValue(1),
+			v.maxValue(3600000),
+			v.description(
+				'Time limit per page in ms, after which the query is stopped and the call fails (default SQLITE_QUERY_TIMEOUT)',
+			),
+		),
+	),
+	max_response_bytes: v.optional(
+		v.pipe(
+			v.number(),
+			v.integer(),
+			v.minValue(1024),
+			v.description(
+				'Byte budget for the rows; rows past it are deferred to the cursor, as reported under truncated (default SQLITE_MAX_RESPONSE_BYTES)',
+			),
+		),
+	),
+	max_response_tokens: v.optional(
+		v.pipe(
+			v.number(),
+			v.integer(),
+			v.minValue(256),
+			v.description(
+				'The response budget in approximate tokens; overrides max_response_bytes',
+			),
+		),
+	),
+	max_cell_length: v.optional(
+		v.pipe(
+			v.number(),
+			v.integer(),
+			v.minValue(0),
+			v.description(
+				'Longest text or blob cell returned; longer ones are cut, as reported under truncated (default SQLITE_MAX_CELL_LENGTH)',
+			),
+		),
+	),
+	output_format: v.optional(
+		v.pipe(
+			v.picklist(OUTPUT_FORMATS),
+			v.description(
+				'"columnar", "markdown", "csv" or "jsonl" avoid repeating column names on every row',
+			),
+		),
+		'json',
+	),
+	blob_encoding: v.optional(
+		v.pipe(
+			v.picklist(BLOB_ENCODINGS),
+			v.description(
+				'Encoding of blobs, returned as {"$blob", "encoding", "bytes"}; integers beyond 2^53 come back as strings',
+			),
+		),
+		'base64',
+	),
+});
+
+const ExecuteScriptSchema = v.object({
+	script: v.pipe(v.string(), v.minLength(1), v.maxLength(100000)),
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+	continue_on_error: v.optional(v.boolean(), false),
+	max_rows: v.optional(
+		v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(10000)),
+		100,
+	),
+});
+
+const UndoLastWriteSchema = v.object({
+	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
+	force: v.optional(v.boolean(), false),
 });
 
 const BulkInsertSchema = v.object({
@@ -66,6 +212,55 @@ const BulkInsertSchema = v.object({
 	database_name: v.optional(v.pipe(v.string(), v.maxLength(255))),
 });
 
+/**
+ * Point at the tool that does run a statement the current tool refuses
+ */
+function routing_suggestion(
+	classification: StatementClassification,
+): string {
+	if (classification.tool) {
+		return `Use ${classification.tool} for ${classification.statement_type} statements`;
+	}
+	switch (classification.category) {
+		case 'transaction':
+			return 'Use begin_transaction, commit_transaction and rollback_transaction to control transactions';
+		case 'connection':
+			return 'Use open_database to work with another database file; ATTACH and DETACH are not allowed';
+		case 'maintenance':
+			return 'Use vacuum_database to vacuum, or backup_database to write a copy of the database';
+		default:
+			return 'Check the statement: it was not recognised as a read, write or schema statement';
+	}
+}
+
+/**
+ * Classify a statement and make sure `tool` is the one that runs it
+ */
+function check_statement_tool(
+	query: string,
+	database_path: string,
+	tool: QueryTool,
+): StatementClassification {
+	const classification = sqlite.classify_query(query, database_path);
+	if (classification.tool === tool) return classification;
+
+	const found = `${classification.statement_type || 'empty'} statement, classified as ${classification.category}`;
+	if (tool === 'execute_read_query') {
+		throw new ToolUsageError(
+			`Only SQLite readonly statements are allowed with execute_read_query (got a ${found})`,
+			[
+				routing_suggestion(classification),
+				'Use execute_write_query for INSERT, UPDATE, DELETE, or mutating PRAGMA statements',
+				'Use execute_schema_query for CREATE, ALTER, or DROP statements',
+				'Use PRAGMA statements that better-sqlite3 reports as readonly only',
+			],
+		);
+	}
+	throw new ToolUsageError(`${tool} cannot run a ${found}`, [
+		routing_suggestion(classification),
+	]);
+}
+
 /**
  * Register query execution tools with the server
  */
@@ -74,88 +269,166 @@ export function register_query_tools(server: McpServer<any>): void {
 		{
 			name: 'execute_read_query',
 			description:
-				'✓ SAFE: Execute read-only SQL (SELECT, PRAGMA, EXPLAIN). Supports parameterized queries. Default limit 10,000 rows. Use verbosity="summary" for counts only.',
+				'✓ SAFE: Execute read-only SQL (SELECT, PRAGMA, EXPLAIN), with parameters, and return its rows a page at a time. When has_more is true, pass the returned cursor for the next page.',
 			schema: ExecuteReadQuerySchema,
 		},
 		async ({
 			query,
+			cursor,
 			params = {},
 			database_name,
 			limit = 10000,
 			offset = 0,
 			verbosity = 'detailed',
+			timeout_ms,
+			max_response_bytes,
+			max_response_tokens,
+			max_cell_length,
+			output_format = 'json',
+			blob_encoding = 'base64',
 		}) => {
 			try {
 				debug_log('Executing tool: execute_read_query', {
 					query,
+					cursor,
 					params,
 					database_name,
 					limit,
 					offset,
 					verbosity,
+					timeout_ms,
+					max_response_bytes,
+					max_response_tokens,
+					max_cell_length,
+					output_format,
+					blob_encoding,
 				});
 
-				const database_path = resolve_database_name(database_name);
-				if (database_name) set_current_database(database_name);
+				let page: sqlite.CursorPage;
+				if (cursor) {
+					page = await sqlite.fetch_query_cursor(cursor, {
+						limit,
+						timeout_ms,
+					});
+				} else {
+					if (!query) {
+						throw new ToolUsageError(
+							'execute_read_query needs a query, or a cursor from a previous call',
+							[
+								'Pass query to run a new read query',
+								'Pass cursor (from pagination.cursor) to fetch the next page',
+							],
+						);
+					}
+
+					const database_path = resolve_database_name(database_name);
+					if (database_name) set_current_database(database_name);
+
+					check_statement_tool(
+						query,
+						database_path,
+						'execute_read_query',
+					);
 
-				// Validate that this is a read-only query using SQLite's statement metadata.
-				if (!sqlite.is_read_only_query(query, database_path)) {
-					throw new ToolUsageError(
-						'Only SQLite readonly statements are allowed with execute_read_query',
-						[
-							'Use execute_write_query for INSERT, UPDATE, DELETE, or mutating PRAGMA statements',
-							'Use execute_schema_query for CREATE, ALTER, or DROP statements',
-							'Use PRAGMA statements that better-sqlite3 reports as readonly only',
-						],
+					page = await sqlite.open_query_cursor(
+						database_path,
+						trim_trailing_semicolon(query),
+						params,
+						{ limit, offset, timeout_ms },
 					);
 				}
 
-				// Add LIMIT/OFFSET only to SELECT-style queries, not PRAGMA/EXPLAIN.
-				let modified_query = trim_trailing_semicolon(query);
-				if (should_paginate_read_query(modified_query)) {
-					const pagination_clause =
-						offset > 0
-							? `LIMIT ${limit} OFFSET ${offset}`
-							: `LIMIT ${limit}`;
-					modified_query = `${modified_query} ${pagination_clause}`;
+				if (verbosity === 'summary' || verbosity === 'stats') {
+					return create_tool_response({
+						database: page.database_path,
+						query: page.query,
+						row_count: page.rows.length,
+						...(verbosity === 'stats'
+							? { column_stats: summarise_columns(page.rows) }
+							: {}),
+						pagination: {
+							limit,
+							offset: page.offset,
+							returned_count: page.rows.length,
+							has_more: page.has_more,
+							cursor: page.cursor,
+						},
+						verbosity,
+					});
 				}
 
-				const result = sqlite.execute_select_query(
-					database_path,
-					modified_query,
-					params,
+				// Keep the response within budget. Rows that don't fit go
+				// back to the cursor so the next page starts with them.
+				const config = get_config();
+				const encoded_rows = page.rows.map((row) =>
+					encode_row(row, blob_encoding),
+				);
+				let budgeted: BudgetedRows;
+				try {
+					budgeted = fit_rows_to_budget(encoded_rows, {
+						max_bytes:
+							max_response_tokens !== undefined
+								? max_response_tokens * BYTES_PER_TOKEN
+								: (max_response_bytes ??
+									config.SQLITE_MAX_RESPONSE_BYTES),
+						max_cell_length:
+							max_cell_length ?? config.SQLITE_MAX_CELL_LENGTH,
+					});
+				} catch (error) {
+					// Nothing was returned, so the whole page goes back to
+					// the cursor for a retry with smaller cells
+					const retry = sqlite.defer_cursor_rows(page, page.rows);
+					if (!(error instanceof ToolUsageError)) throw error;
+					throw new ToolUsageError(error.message, [
+						...error.suggestions,
+						`Pass cursor ${retry.cursor} to retry from the same row`,
+					]);
+				}
+				const column_stats =
+					budgeted.omitted.length > 0
+						? summarise_columns(page.rows)
+						: undefined;
+				page = sqlite.defer_cursor_rows(
+					page,
+					page.rows.slice(budgeted.rows.length),
 				);
 
-				// Format output based on verbosity
-				const response_data =
-					verbosity === 'summary'
+				const build_response = (rows: unknown) => ({
+					database: page.database_path,
+					query: page.query,
+					result: {
+						rows,
+						changes: 0,
+						last_insert_rowid: 0,
+					},
+					row_count: budgeted.rows.length,
+					pagination: {
+						limit,
+						offset: page.offset,
+						returned_count: budgeted.rows.length,
+						has_more: page.has_more,
+						cursor: page.cursor,
+					},
+					...(budgeted.truncated
 						? {
-								database: database_path,
-								query: modified_query,
-								row_count: result.rows.length,
-								pagination: {
-									limit,
-									offset,
-									returned_count: result.rows.length,
-									has_more: result.rows.length === limit,
+								truncated: {
+									...budgeted.truncated,
+									hint:
+										budgeted.omitted.length > 0
+											? 'Omitted rows come first on the next call with pagination.cursor. column_stats summarises the whole page; select fewer columns, use verbosity="stats", or raise max_response_bytes to see more at once.'
+											: 'Long values were cut to max_cell_length; select the column with substr() or raise max_cell_length to see more.',
 								},
-								verbosity,
 							}
-						: {
-								database: database_path,
-								query: modified_query,
-								result,
-								row_count: result.rows.length,
-								pagination: {
-									limit,
-									offset,
-									returned_count: result.rows.length,
-									has_more: result.rows.length === limit,
-								},
-								verbosity,
-							};
+						: {}),
+					...(column_stats ? { column_stats } : {}),
+					verbosity,
+				});
 
-				return create_tool_response(response_data);
+				return create_formatted_response(
+					output_format,
+					budgeted.rows,
+					build_response,
+				);
 			} catch (error) {
 				return create_tool_error_response(error);
 			}
@@ -164,14 +437,14 @@ export function register_query_tools(server: McpServer<any>): void {
 
 	server.tool<typeof ExecuteQuerySchema>(
 		{
-			name: 'execute_write_query',
+			name: 'explain_query',
 			description:
-				'⚠️ DESTRUCTIVE: Execute data modification SQL (INSERT, UPDATE, DELETE). Supports parameterized queries. Returns affected row count.',
+				'✓ SAFE: Show the EXPLAIN QUERY PLAN tree for a SELECT, INSERT, UPDATE or DELETE without running it. Flags full table scans, temporary B-trees for ORDER BY/GROUP BY and automatic indexes, and suggests CREATE INDEX statements.',
 			schema: ExecuteQuerySchema,
 		},
 		async ({ query, params = {}, database_name }) => {
 			try {
-				debug_log('Executing tool: execute_write_query', {
+				debug_log('Executing tool: explain_query', {
 					query,
 					params,
 					database_name,
@@ -180,28 +453,101 @@ export function register_query_tools(server: McpServer<any>): void {
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
 
-				// Validate that this is not a read-only query and not a schema query
-				if (sqlite.is_read_only_query(query, database_path)) {
-					throw new Error(
-						'SELECT, PRAGMA, and EXPLAIN queries should use execute_read_query',
-					);
-				}
-				if (sqlite.is_schema_query(query)) {
-					throw new Error(
-						'DDL queries (CREATE, ALTER, DROP) should use execute_schema_query',
-					);
-				}
-
-				const result = sqlite.execute_query(
+				const analysis = sqlite.explain_query(
 					database_path,
 					query,
 					params,
 				);
 
+				return create_tool_response({
+					database: database_path,
+					query,
+					...analysis,
+					message:
+						analysis.issues.length === 0
+							? 'No full table scans, temporary B-trees or automatic indexes in the plan'
+							: `${analysis.issues.length} plan issue(s) found, ${analysis.suggestions.length} index suggestion(s)`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
+	server.tool<typeof ExecuteWriteQuerySchema>(
+		{
+			name: 'execute_write_query',
+			description:
+				'⚠️ DESTRUCTIVE: Execute data modification SQL (INSERT, UPDATE, DELETE). Supports parameterized queries. Returns affected row count. With dry_run=true the statement runs in a savepoint that is rolled back, returning the rows it would change (up to sample_rows per table, before and after) and changes cascaded to other tables by foreign keys and triggers.',
+			schema: ExecuteWriteQuerySchema,
+			enabled: write_tools_enabled,
+		},
+		async ({
+			query,
+			params = {},
+			database_name,
+			dry_run = false,
+			sample_rows = 5,
+		}) => {
+			try {
+				debug_log('Executing tool: execute_write_query', {
+					query,
+					params,
+					database_name,
+					dry_run,
+					sample_rows,
+				});
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+				assert_database_writable(
+					database_path,
+					'execute_write_query',
+				);
+
+				check_statement_tool(
+					query,
+					database_path,
+					'execute_write_query',
+				);
+
+				if (dry_run) {
+					const preview = await sqlite.preview_write(
+						database_path,
+						query,
+						params,
+						sample_rows,
+					);
+					return create_tool_response({
+						database: database_path,
+						query,
+						dry_run: true,
+						...preview,
+						message: `DRY RUN: Nothing was changed in database '${database_path}'. The statement would change ${preview.changes} row(s), ${preview.rows_affected} including cascades`,
+					});
+				}
+
+				// With the undo log enabled, the changed rows are captured
+				const { undo, ...result } = sqlite.undo_capture_enabled()
+					? await sqlite.execute_captured_write(
+							database_path,
+							query,
+							params,
+						)
+					: {
+							...(await sqlite.execute_write_query(
+								database_path,
+								query,
+								params,
+							)),
+							undo: undefined,
+						};
+
 				return create_tool_response({
 					database: database_path,
 					query,
 					result,
+					...(undo ? { undo } : {}),
 					message: `⚠️ DESTRUCTIVE OPERATION COMPLETED: Data modified in database '${database_path}'. Rows affected: ${result.changes}`,
 				});
 			} catch (error) {
@@ -210,12 +556,49 @@ export function register_query_tools(server: McpServer<any>): void {
 		},
 	);
 
+	server.tool<typeof UndoLastWriteSchema>(
+		{
+			name: 'undo_last_write',
+			description:
+				'⚠️ DESTRUCTIVE: Undo the most recent execute_write_query INSERT, UPDATE or DELETE captured by the undo log (SQLITE_UNDO_HISTORY), restoring the rows it changed. Refuses when those rows changed since, unless force is true.',
+			schema: UndoLastWriteSchema,
+			enabled: () =>
+				write_tools_enabled() && sqlite.undo_capture_enabled(),
+		},
+		async ({ database_name, force = false }) => {
+			try {
+				debug_log('Executing tool: undo_last_write', {
+					database_name,
+					force,
+				});
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'undo_last_write');
+
+				const result = await sqlite.undo_last_write(database_path, {
+					force,
+				});
+
+				return create_tool_response({
+					database: database_path,
+					...result,
+					history: sqlite.get_undo_history(database_path),
+					message: `⚠️ WRITE UNDONE: ${result.rows_restored} row change(s) from '${result.undone.query}' reverted in database '${database_path}'. ${result.remaining} earlier write(s) can still be undone`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
 	server.tool<typeof ExecuteQuerySchema>(
 		{
 			name: 'execute_schema_query',
 			description:
-				'⚠️ SCHEMA CHANGE: Execute DDL (CREATE, ALTER, DROP). Modifies database structure. May lock tables.',
+				'⚠️ SCHEMA CHANGE: Execute DDL (CREATE, ALTER, DROP) or ANALYZE/REINDEX. Modifies database structure. May lock tables.',
 			schema: ExecuteQuerySchema,
+			enabled: write_tools_enabled,
 		},
 		async ({ query, params = {}, database_name }) => {
 			try {
@@ -227,19 +610,23 @@ export function register_query_tools(server: McpServer<any>): void {
 
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
+				assert_database_writable(
+					database_path,
+					'execute_schema_query',
+				);
 
-				// Validate that this is a schema query
-				if (!sqlite.is_schema_query(query)) {
-					throw new Error(
-						'Only DDL queries (CREATE, ALTER, DROP) are allowed with execute_schema_query',
-					);
-				}
+				check_statement_tool(
+					query,
+					database_path,
+					'execute_schema_query',
+				);
 
-				const result = sqlite.execute_query(
+				const result = await sqlite.execute_write_query(
 					database_path,
 					query,
 					params,
 				);
+				notify_resources_changed(server);
 
 				return create_tool_response({
 					database: database_path,
@@ -253,12 +640,72 @@ export function register_query_tools(server: McpServer<any>): void {
 		},
 	);
 
+	server.tool<typeof ExecuteScriptSchema>(
+		{
+			name: 'execute_script',
+			description:
+				'⚠️ DESTRUCTIVE: Execute a multi-statement SQL script (migration, seed file) in one transaction. Returns changes or rows (up to max_rows) per statement. Stops and rolls back on the first error unless continue_on_error is true.',
+			schema: ExecuteScriptSchema,
+			enabled: write_tools_enabled,
+		},
+		async ({
+			script,
+			database_name,
+			continue_on_error = false,
+			max_rows = 100,
+		}) => {
+			try {
+				debug_log('Executing tool: execute_script', {
+					database_name,
+					script_size: script.length,
+					continue_on_error,
+					max_rows,
+				});
+
+				const database_path = resolve_database_name(database_name);
+				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'execute_script');
+
+				const result = await sqlite.execute_script(
+					database_path,
+					script,
+					{
+						continue_on_error,
+						max_rows,
+					},
+				);
+				if (result.schema_changed) notify_resources_changed(server);
+
+				const first_failure = result.statements.find(
+					(statement) => statement.status === 'failed',
+				);
+				return create_tool_response({
+					success: result.failed === 0,
+					database: database_path,
+					committed: result.committed,
+					in_transaction: result.in_transaction,
+					statement_count: result.statements.length,
+					executed: result.executed,
+					failed: result.failed,
+					statements: result.statements,
+					total_time: result.total_time,
+					message: result.committed
+						? `⚠️ SCRIPT COMPLETED: ${result.executed} of ${result.statements.length} statements executed in database '${database_path}'${result.failed > 0 ? `, ${result.failed} failed` : ''}`
+						: `❌ SCRIPT ROLLED BACK: statement ${first_failure?.index} failed (${first_failure?.error}); no changes were kept`,
+				});
+			} catch (error) {
+				return create_tool_error_response(error);
+			}
+		},
+	);
+
 	server.tool<typeof BulkInsertSchema>(
 		{
 			name: 'bulk_insert',
 			description:
 				'⚠️ DESTRUCTIVE: Insert multiple records in batches. Default batch size 1000. All records must have identical columns.',
 			schema: BulkInsertSchema,
+			enabled: write_tools_enabled,
 		},
 		async ({ table, data, batch_size = 1000, database_name }) => {
 			try {
@@ -271,8 +718,9 @@ export function register_query_tools(server: McpServer<any>): void {
 
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'bulk_insert');
 
-				const result = sqlite.bulk_insert(
+				const result = await sqlite.bulk_insert(
 					database_path,
 					table,
 					data,
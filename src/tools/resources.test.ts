@@ -0,0 +1,138 @@
+import { ValibotJsonSchemaAdapter } from '@tmcp/adapter-valibot';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from 'tmcp';
+import { afterAll, describe, expect, it } from 'vitest';
+
+import {
+	close_all_databases,
+	open_database,
+	stop_connection_maintenance,
+} from '../clients/connection-manager.js';
+import { execute_query } from '../clients/query-executor.js';
+import {
+	database_resource_uri,
+	register_resources,
+	table_resource_uri,
+} from './resources.js';
+
+const temp_dirs: string[] = [];
+
+function temp_db(name = 'test.sqlite') {
+	const dir = mkdtempSync(join(tmpdir(), 'mcp-sqlite-tools-'));
+	temp_dirs.push(dir);
+	const db_path = join(dir, name);
+	open_database(db_path, true);
+	return db_path;
+}
+
+async function resource_server() {
+	const server = new McpServer<any>(
+		{ name: 'test', version: '0.0.0', description: 'test' },
+		{
+			adapter: new ValibotJsonSchemaAdapter(),
+			capabilities: { resources: { listChanged: true } },
+		},
+	);
+	register_resources(server);
+	await server.receive({
+		jsonrpc: '2.0',
+		id: 0,
+		method: 'initialize',
+		params: {
+			protocolVersion: '2025-06-18',
+			capabilities: {},
+			clientInfo: { name: 'test', version: '1.0.0' },
+		},
+	});
+	return server;
+}
+
+async function request(
+	server: McpServer<any>,
+	method: string,
+	params: Record<string, unknown>,
+) {
+	const response = (await server.receive({
+		jsonrpc: '2.0',
+		id: 1,
+		method,
+		params,
+	})) as { result?: any; error?: { message: string } };
+	return response;
+}
+
+afterAll(() => {
+	close_all_databases();
+	stop_connection_maintenance();
+	for (const dir of temp_dirs)
+		rmSync(dir, { recursive: true, force: true });
+});
+
+describe('database resources', () => {
+	it('lists and reads schema, table, and sample resources', async () => {
+		const server = await resource_server();
+		const db_path = temp_db();
+		execute_query(
+			db_path,
+			'CREATE TABLE "odd table" (id INTEGER PRIMARY KEY, name TEXT NOT NULL)',
+		);
+		execute_query(
+			db_path,
+			`INSERT INTO "odd table" (name) VALUES ('Ada'), ('Bob')`,
+		);
+
+		const list = await request(server, 'resources/list', {});
+		const uris = list.result.resources.map(
+			(resource: { uri: string }) => resource.uri,
+		);
+		expect(uris).toContain(database_resource_uri(db_path, 'schema'));
+		expect(uris).toContain(table_resource_uri(db_path, 'odd table'));
+		expect(uris).toContain(
+			table_resource_uri(db_path, 'odd table', 'sample'),
+		);
+
+		const schema = await request(server, 'resources/read', {
+			uri: database_resource_uri(db_path, 'schema'),
+		});
+		expect(schema.result.contents[0].text).toContain(
+			'CREATE TABLE "odd table"',
+		);
+
+		const table = await request(server, 'resources/read', {
+			uri: table_resource_uri(db_path, 'odd table'),
+		});
+		expect(JSON.parse(table.result.contents[0].text)).toMatchObject({
+			table: 'odd table',
+			type: 'table',
+			columns: [
+				{ name: 'id', primary_key: true },
+				{ name: 'name', nullable: false },
+			],
+		});
+
+		const sample = await request(server, 'resources/read', {
+			uri: table_resource_uri(db_path, 'odd table', 'sample'),
+		});
+		expect(JSON.parse(sample.result.contents[0].text)).toMatchObject({
+			row_count: 2,
+			rows: [
+				{ id: 1, name: 'Ada' },
+				{ id: 2, name: 'Bob' },
+			],
+		});
+	});
+
+	it('errors for tables that do not exist', async () => {
+		const server = await resource_server();
+		const db_path = temp_db();
+
+		const response = await request(server, 'resources/read', {
+			uri: table_resource_uri(db_path, 'missing', 'sample'),
+		});
+		expect(response.error?.message ?? '').toContain(
+			'Table not found',
+		);
+	});
+});
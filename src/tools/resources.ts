@@ -0,0 +1,206 @@
+/**
+ * Database, table, and schema resources for the SQLite Tools MCP server
+ */
+import { McpServer } from 'tmcp';
+import { get_active_connections } from '../clients/connection-manager.js';
+import * as sqlite from '../clients/sqlite.js';
+import { quote_identifier } from '../common/sql.js';
+import { json_replacer } from '../common/value-codec.js';
+import { debug_log } from '../config.js';
+
+// Rows returned by the table sample resource
+const SAMPLE_ROW_LIMIT = 20;
+
+/**
+ * Build a resource URI for a database path and optional suffix
+ */
+export function database_resource_uri(
+	database_path: string,
+	suffix: string,
+): string {
+	return `sqlite://${encodeURIComponent(database_path)}/${suffix}`;
+}
+
+/**
+ * Build a resource URI for a table within a database
+ */
+export function table_resource_uri(
+	database_path: string,
+	table: string,
+	suffix?: string,
+): string {
+	const table_path = `tables/${encodeURIComponent(table)}`;
+	return database_resource_uri(
+		database_path,
+		suffix ? `${table_path}/${suffix}` : table_path,
+	);
+}
+
+/**
+ * Notify clients that database resources changed after a schema change
+ */
+export function notify_resources_changed(
+	server: McpServer<any>,
+): void {
+	server.changed('resources');
+}
+
+function single_param(value: string | string[]): string {
+	return Array.isArray(value) ? value.join('/') : value;
+}
+
+function json_contents(uri: string, data: unknown) {
+	return {
+		contents: [
+			{
+				uri,
+				mimeType: 'application/json',
+				text: JSON.stringify(data, json_replacer, 2),
+			},
+		],
+	};
+}
+
+function find_table(database_path: string, table: string) {
+	const table_info = sqlite
+		.list_tables(database_path)
+		.find((candidate) => candidate.name === table);
+	if (!table_info) {
+		throw new Error(
+			`Table not found: ${table} in database ${database_path}`,
+		);
+	}
+	return table_info;
+}
+
+/**
+ * List tables of every database in the connection pool as resources
+ */
+function list_table_resources(suffix?: string) {
+	return get_active_connections().flatMap((database_path) => {
+		try {
+			return sqlite.list_tables(database_path).map((table) => ({
+				uri: table_resource_uri(database_path, table.name, suffix),
+				name: suffix
+					? `${table.name} ${suffix}`
+					: `${table.name} ${table.type}`,
+				description: `${table.type} '${table.name}' in ${database_path}`,
+				mimeType: 'application/json',
+			}));
+		} catch (error) {
+			debug_log('Skipping database resources:', {
+				database_path,
+				error,
+			});
+			return [];
+		}
+	});
+}
+
+/**
+ * Register database resources with the server
+ */
+export function register_resources(server: McpServer<any>): void {
+	server.template(
+		{
+			name: 'database_schema',
+			description:
+				'Full SQL schema (tables, indexes, views, triggers) of an open database, as produced by export_schema.',
+			uri: 'sqlite://{database}/schema',
+			mimeType: 'application/sql',
+			list: () =>
+				get_active_connections().map((database_path) => ({
+					uri: database_resource_uri(database_path, 'schema'),
+					name: `${database_path} schema`,
+					mimeType: 'application/sql',
+				})),
+		},
+		async (uri, { database }) => {
+			debug_log('Reading resource: database_schema', { uri });
+
+			const database_path = sqlite.validate_database_path(
+				single_param(database),
+			);
+			const result = sqlite.export_schema(database_path, 'sql');
+
+			return {
+				contents: [
+					{
+						uri,
+						mimeType: 'application/sql',
+						text: result.schema,
+					},
+				],
+			};
+		},
+	);
+
+	server.template(
+		{
+			name: 'table',
+			description:
+				'Table or view definition: columns from describe_table plus the CREATE statement.',
+			uri: 'sqlite://{database}/tables/{table}',
+			mimeType: 'application/json',
+			list: () => list_table_resources(),
+		},
+		async (uri, { database, table }) => {
+			debug_log('Reading resource: table', { uri });
+
+			const database_path = sqlite.validate_database_path(
+				single_param(database),
+			);
+			const table_name = single_param(table);
+			const table_info = find_table(database_path, table_name);
+			const columns = sqlite.describe_table(
+				database_path,
+				table_name,
+			);
+
+			return json_contents(uri, {
+				database: database_path,
+				table: table_name,
+				type: table_info.type,
+				sql: table_info.sql,
+				columns: columns.map((col) => ({
+					name: col.name,
+					type: col.type,
+					nullable: col.notnull === 0,
+					default_value: col.dflt_value,
+					primary_key: col.pk > 0,
+				})),
+			});
+		},
+	);
+
+	server.template(
+		{
+			name: 'table_sample',
+			description: `First ${SAMPLE_ROW_LIMIT} rows of a table or view.`,
+			uri: 'sqlite://{database}/tables/{table}/sample',
+			mimeType: 'application/json',
+			list: () => list_table_resources('sample'),
+		},
+		async (uri, { database, table }) => {
+			debug_log('Reading resource: table_sample', { uri });
+
+			const database_path = sqlite.validate_database_path(
+				single_param(database),
+			);
+			const table_name = single_param(table);
+			find_table(database_path, table_name);
+			const result = sqlite.execute_select_query(
+				database_path,
+				`SELECT * FROM ${quote_identifier(table_name)} LIMIT ${SAMPLE_ROW_LIMIT}`,
+			);
+
+			return json_contents(uri, {
+				database: database_path,
+				table: table_name,
+				limit: SAMPLE_ROW_LIMIT,
+				rows: result.rows,
+				row_count: result.rows.length,
+			});
+		},
+	);
+}
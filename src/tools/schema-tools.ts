@@ -3,6 +3,10 @@
  */
 import { McpServer } from 'tmcp';
 import * as v from 'valibot';
+import {
+	assert_database_writable,
+	write_tools_enabled,
+} from '../clients/access-policy.js';
 import * as sqlite from '../clients/sqlite.js';
 import {
 	create_tool_error_response,
@@ -13,6 +17,7 @@ import {
 	resolve_database_name,
 	set_current_database,
 } from './context.js';
+import { notify_resources_changed } from './resources.js';
 
 // Input validation schemas
 const ExportSchemaSchema = v.object({
@@ -87,6 +92,7 @@ export function register_schema_tools(server: McpServer<any>): void {
 			description:
 				'⚠️ SCHEMA CHANGE: Import schema from SQL or JSON. Creates tables, indexes, views, triggers. Fails if objects exist without IF NOT EXISTS.',
 			schema: ImportSchemaSchema,
+			enabled: write_tools_enabled,
 		},
 		async ({ database_name, schema, format = 'sql' }) => {
 			try {
@@ -98,12 +104,14 @@ export function register_schema_tools(server: McpServer<any>): void {
 
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'import_schema');
 
-				const result = sqlite.import_schema(
+				const result = await sqlite.import_schema(
 					database_path,
 					schema,
 					format,
 				);
+				notify_resources_changed(server);
 
 				return create_tool_response({
 					success: true,
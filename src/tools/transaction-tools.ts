@@ -4,10 +4,10 @@
 import { McpServer } from 'tmcp';
 import * as v from 'valibot';
 import {
-	begin_transaction,
-	commit_transaction,
-	rollback_transaction,
-} from '../clients/transaction-manager.js';
+	assert_database_writable,
+	write_tools_enabled,
+} from '../clients/access-policy.js';
+import * as sqlite from '../clients/sqlite.js';
 import {
 	create_tool_error_response,
 	create_tool_response,
@@ -35,6 +35,7 @@ export function register_transaction_tools(
 			description:
 				'⚠️ TRANSACTION: Begin transaction for atomic operations. Groups queries into single unit. Holds locks until commit/rollback.',
 			schema: TransactionSchema,
+			enabled: write_tools_enabled,
 		},
 		async ({ database_name }) => {
 			try {
@@ -44,8 +45,10 @@ export function register_transaction_tools(
 
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'begin_transaction');
 
-				const transaction_id = begin_transaction(database_path);
+				const transaction_id =
+					await sqlite.begin_transaction(database_path);
 
 				return create_tool_response({
 					success: true,
@@ -65,6 +68,7 @@ export function register_transaction_tools(
 			description:
 				'✓ TRANSACTION: Commit transaction, making changes permanent. Releases locks.',
 			schema: TransactionSchema,
+			enabled: write_tools_enabled,
 		},
 		async ({ database_name }) => {
 			try {
@@ -74,8 +78,9 @@ export function register_transaction_tools(
 
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
+				assert_database_writable(database_path, 'commit_transaction');
 
-				const result = commit_transaction(database_path);
+				const result = await sqlite.commit_transaction(database_path);
 
 				return create_tool_response({
 					success: true,
@@ -96,6 +101,7 @@ export function register_transaction_tools(
 			description:
 				'⚠️ TRANSACTION: Rollback transaction, discarding all changes. Returns database to previous state.',
 			schema: TransactionSchema,
+			enabled: write_tools_enabled,
 		},
 		async ({ database_name }) => {
 			try {
@@ -105,8 +111,13 @@ export function register_transaction_tools(
 
 				const database_path = resolve_database_name(database_name);
 				if (database_name) set_current_database(database_name);
+				assert_database_writable(
+					database_path,
+					'rollback_transaction',
+				);
 
-				const result = rollback_transaction(database_path);
+				const result =
+					await sqlite.rollback_transaction(database_path);
 
 				return create_tool_response({
 					success: true,